@@ -21,5 +21,21 @@ export default [
 			})
 		],
 		watch
+	},
+	{
+		input: "src/bin.ts",
+		output: [
+			{
+				file: "lib/bin.cjs.js",
+				format: "cjs",
+				banner: "#!/usr/bin/env node"
+			}
+		],
+		plugins: [
+			ts({
+				tsconfig: "./tsconfig.prod.json"
+			})
+		],
+		watch
 	}
 ];
@@ -0,0 +1,382 @@
+/**
+ * The `ts-simple-type` command-line interface.
+ *
+ * ```
+ * ts-simple-type compile --project tsconfig.json --target proto3 --entry src/api.ts#User --out gen/
+ * ts-simple-type compile --config ts-simple-type.config.json --check
+ * ts-simple-type compile --config ts-simple-type.config.json --watch
+ * ```
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import type * as ts from "typescript";
+import { AvroCompilerTarget } from "./compile-to/avro";
+import { FastCheckCompilerTarget } from "./compile-to/fast-check";
+import { GoCompilerTarget } from "./compile-to/go";
+import { GraphQLCompilerTarget } from "./compile-to/graphql";
+import { JSONSchemaCompilerTarget } from "./compile-to/json-schema";
+import { KotlinCompilerTarget } from "./compile-to/kotlin";
+import { OpenAPICompilerTarget } from "./compile-to/openapi";
+import { Proto3CompilerTarget } from "./compile-to/proto3";
+import { PythonCompilerTarget } from "./compile-to/python3";
+import { RustCompilerTarget } from "./compile-to/rust";
+import { SwiftCompilerTarget } from "./compile-to/swift";
+import { ThriftCompilerTarget } from "./compile-to/thrift";
+import { TypeScriptCompilerTarget } from "./compile-to/typescript";
+import { ValidatorCompilerTarget } from "./compile-to/validator";
+import { ZodCompilerTarget } from "./compile-to/zod";
+import { getTypescriptModule } from "./ts-module";
+import { SimpleTypeCompiler, SimpleTypeCompilerDiagnostic, SimpleTypeCompilerLocation, simpleTypeCompilerDiagnosticToString } from "./transform/compiler";
+import { compilerOutputDifferenceToString, emitCompilerOutput } from "./transform/emit-compiler-output";
+import { ExportedEntryPoint, getTypeOfExportedEntryPoint, watchCompilerOutput } from "./transform/watch-compiler-output";
+
+export const DEFAULT_CLI_CONFIG_FILE_NAME = "ts-simple-type.config.json";
+
+export interface CliTarget {
+	/** `outDir` is the absolute directory that output files are written to. */
+	createCompiler(checker: ts.TypeChecker, outDir: string): SimpleTypeCompiler;
+	/** Extension of output files for entries without an explicit output location. */
+	fileExtension: string;
+}
+
+/**
+ * Targets available to `--target`, by name.
+ */
+export const CLI_TARGETS: Record<string, CliTarget> = {
+	avro: { createCompiler: checker => AvroCompilerTarget.createCompiler(checker), fileExtension: ".avsc" },
+	"fast-check": { createCompiler: checker => FastCheckCompilerTarget.createCompiler(checker), fileExtension: ".ts" },
+	go: { createCompiler: checker => GoCompilerTarget.createCompiler(checker), fileExtension: ".go" },
+	graphql: { createCompiler: checker => GraphQLCompilerTarget.createCompiler(checker), fileExtension: ".graphql" },
+	"json-schema": { createCompiler: checker => JSONSchemaCompilerTarget.createCompiler(checker), fileExtension: ".json" },
+	kotlin: { createCompiler: checker => KotlinCompilerTarget.createCompiler(checker), fileExtension: ".kt" },
+	openapi: { createCompiler: checker => OpenAPICompilerTarget.createCompiler(checker), fileExtension: ".json" },
+	proto3: { createCompiler: checker => Proto3CompilerTarget.createCompiler(checker), fileExtension: ".proto" },
+	python3: { createCompiler: checker => PythonCompilerTarget.createCompiler(checker), fileExtension: ".py" },
+	rust: { createCompiler: checker => RustCompilerTarget.createCompiler(checker), fileExtension: ".rs" },
+	swift: { createCompiler: checker => SwiftCompilerTarget.createCompiler(checker), fileExtension: ".swift" },
+	thrift: { createCompiler: checker => ThriftCompilerTarget.createCompiler(checker), fileExtension: ".thrift" },
+	typescript: { createCompiler: checker => TypeScriptCompilerTarget.createCompiler(checker), fileExtension: ".d.ts" },
+	validator: { createCompiler: (checker, outDir) => ValidatorCompilerTarget.createCompiler(checker, { outputRoot: outDir }), fileExtension: ".ts" },
+	zod: { createCompiler: checker => ZodCompilerTarget.createCompiler(checker), fileExtension: ".ts" }
+};
+
+/**
+ * Shape of `ts-simple-type.config.json`.
+ * Paths are relative to the config file.
+ */
+export interface CliConfig {
+	/** Path to a tsconfig.json, or a directory containing one. */
+	project?: string;
+	/** A key of {@link CLI_TARGETS}. */
+	target?: string;
+	/** Output directory. */
+	outDir?: string;
+	/** Write a `.map` file next to each output file. Defaults to true. */
+	sourceMaps?: boolean;
+	/**
+	 * Entry points to compile, like `"src/api.ts#User"`, mapped to their output location.
+	 * A string is a shorthand for `{ fileName }`.
+	 */
+	entries?: Record<string, SimpleTypeCompilerLocation | string>;
+}
+
+export interface CliIO {
+	cwd: string;
+	stdout: (text: string) => void;
+	stderr: (text: string) => void;
+}
+
+const USAGE = `Usage: ts-simple-type compile [options]
+
+Options:
+  -c, --config <file>     Read options and entries from a JSON config file (default: ${DEFAULT_CLI_CONFIG_FILE_NAME}, if it exists)
+  -p, --project <file>    Path to tsconfig.json, or a directory containing one
+  -t, --target <name>     Compiler target: ${Object.keys(CLI_TARGETS).join(", ")}
+  -e, --entry <entry>     Type to compile, like src/api.ts#User or src/api.ts#User=api/user.proto. Repeatable.
+  -o, --out <dir>         Output directory
+      --check             Exit with an error if the output directory isn't up to date, instead of writing it
+  -w, --watch             Recompile when source files change
+      --no-source-maps    Don't write .map files
+  -h, --help              Show this message
+`;
+
+class CliError extends Error {}
+
+interface CliArgs {
+	command?: string;
+	config?: string;
+	project?: string;
+	target?: string;
+	entries: string[];
+	out?: string;
+	check: boolean;
+	watch: boolean;
+	sourceMaps?: boolean;
+	help: boolean;
+}
+
+const defaultIO: CliIO = {
+	get cwd() {
+		return process.cwd();
+	},
+	stdout: text => process.stdout.write(text),
+	stderr: text => process.stderr.write(text)
+};
+
+/**
+ * Run the command-line interface with `argv` (without the node and script paths).
+ * @returns the process exit code
+ */
+export function runCli(argv: string[], io: CliIO = defaultIO): number {
+	try {
+		const args = parseArgs(argv);
+		if (args.help) {
+			io.stdout(USAGE);
+			return 0;
+		}
+		if (args.command !== "compile") {
+			throw new CliError(args.command === undefined ? "Missing command" : `Unknown command: ${args.command}`);
+		}
+		return runCompile(args, io);
+	} catch (error) {
+		if (error instanceof CliError) {
+			io.stderr(`${error.message}\n\n${USAGE}`);
+			return 1;
+		}
+		io.stderr(`${error instanceof Error ? error.message : String(error)}\n`);
+		return 1;
+	}
+}
+
+function runCompile(args: CliArgs, io: CliIO): number {
+	const configPath = args.config ? path.resolve(io.cwd, args.config) : findDefaultConfig(io.cwd, args);
+	const config = configPath ? readConfig(configPath) : {};
+	const configDir = configPath ? path.dirname(configPath) : io.cwd;
+
+	const targetName = args.target ?? config.target;
+	if (targetName === undefined) {
+		throw new CliError("Missing --target");
+	}
+	const target = CLI_TARGETS[targetName];
+	if (target === undefined) {
+		throw new CliError(`Unknown target: ${targetName}`);
+	}
+
+	const outDir = args.out !== undefined ? path.resolve(io.cwd, args.out) : config.outDir !== undefined ? path.resolve(configDir, config.outDir) : undefined;
+	if (outDir === undefined) {
+		throw new CliError("Missing --out");
+	}
+
+	const entries = [
+		...Object.entries(config.entries ?? {}).map(([entry, location]) => resolveEntry(entry, typeof location === "string" ? { fileName: location } : location, configDir, target)),
+		...args.entries.map(entry => {
+			const [type, fileName] = splitOnce(entry, "=");
+			return resolveEntry(type, fileName === undefined ? undefined : { fileName }, io.cwd, target);
+		})
+	];
+	if (entries.length === 0) {
+		throw new CliError("Missing --entry");
+	}
+
+	const projectPath = args.project !== undefined ? path.resolve(io.cwd, args.project) : config.project !== undefined ? path.resolve(configDir, config.project) : undefined;
+	const configFileName = projectPath !== undefined && getTypescriptModule().sys.directoryExists(projectPath) ? path.join(projectPath, "tsconfig.json") : projectPath;
+	const sourceMaps = args.sourceMaps ?? config.sourceMaps;
+	const relativeOutDir = path.relative(io.cwd, outDir) || ".";
+
+	if (args.watch) {
+		if (args.check) {
+			throw new CliError("--check can't be used with --watch");
+		}
+		watchCompilerOutput({
+			configFileName,
+			entryPoints: entries,
+			createCompiler: checker => target.createCompiler(checker, outDir),
+			outDir,
+			sourceMaps,
+			onBuild: result => {
+				io.stderr(formatCompilerDiagnostics(result.diagnostics));
+				io.stdout(`Compiled ${result.compiled.length} entry point(s), wrote ${result.written.length} file(s) and deleted ${result.deleted.length} file(s) in ${relativeOutDir}\n`);
+			},
+			onError: error => io.stderr(`${error instanceof Error ? error.message : String(error)}\n`),
+			onDiagnostic: diagnostic => {
+				if (diagnostic.category === getTypescriptModule().DiagnosticCategory.Error) {
+					io.stderr(formatDiagnostics([diagnostic]));
+				}
+			}
+		});
+		return 0;
+	}
+
+	const program = createProgram(
+		configFileName,
+		entries.map(entry => entry.fileName)
+	);
+	const compiler = target.createCompiler(program.getTypeChecker(), outDir);
+	const output = compiler.compileProgram(
+		entries.map(entry => ({
+			inputType: getTypeOfExportedEntryPoint(program, entry),
+			outputLocation: entry.outputLocation
+		}))
+	);
+	io.stderr(formatCompilerDiagnostics(output.diagnostics));
+
+	const result = emitCompilerOutput(output, {
+		outDir,
+		sourceMaps,
+		check: args.check
+	});
+	if (args.check) {
+		if (result.differences.length > 0) {
+			io.stderr(`${relativeOutDir} is out of date:\n${result.differences.map(difference => `  ${compilerOutputDifferenceToString(difference)}\n`).join("")}`);
+			return 1;
+		}
+		io.stdout(`${relativeOutDir} is up to date\n`);
+		return 0;
+	}
+
+	io.stdout(`Wrote ${result.written.length} file(s) and deleted ${result.deleted.length} file(s) in ${relativeOutDir}\n`);
+	return 0;
+}
+
+function parseArgs(argv: string[]): CliArgs {
+	const args: CliArgs = { entries: [], check: false, watch: false, help: false };
+	const takeValue = (index: number, flag: string) => {
+		const value = argv[index + 1];
+		if (value === undefined || value.startsWith("-")) {
+			throw new CliError(`Missing value for ${flag}`);
+		}
+		return value;
+	};
+
+	for (let i = 0; i < argv.length; i++) {
+		const [flag, inlineValue] = argv[i].startsWith("--") ? splitOnce(argv[i], "=") : [argv[i], undefined];
+		const value = () => {
+			if (inlineValue !== undefined) {
+				return inlineValue;
+			}
+			return takeValue(i++, flag);
+		};
+
+		switch (flag) {
+			case "-c":
+			case "--config":
+				args.config = value();
+				break;
+			case "-p":
+			case "--project":
+				args.project = value();
+				break;
+			case "-t":
+			case "--target":
+				args.target = value();
+				break;
+			case "-e":
+			case "--entry":
+				args.entries.push(value());
+				break;
+			case "-o":
+			case "--out":
+			case "--outDir":
+				args.out = value();
+				break;
+			case "--check":
+				args.check = true;
+				break;
+			case "-w":
+			case "--watch":
+				args.watch = true;
+				break;
+			case "--no-source-maps":
+				args.sourceMaps = false;
+				break;
+			case "-h":
+			case "--help":
+				args.help = true;
+				break;
+			default:
+				if (flag.startsWith("-")) {
+					throw new CliError(`Unknown option: ${flag}`);
+				}
+				if (args.command !== undefined) {
+					throw new CliError(`Unexpected argument: ${flag}`);
+				}
+				args.command = flag;
+		}
+	}
+	return args;
+}
+
+/** The default config file is only used when no entries are given on the command line. */
+function findDefaultConfig(cwd: string, args: CliArgs): string | undefined {
+	const configPath = path.resolve(cwd, DEFAULT_CLI_CONFIG_FILE_NAME);
+	return args.entries.length === 0 && fs.existsSync(configPath) ? configPath : undefined;
+}
+
+function readConfig(configPath: string): CliConfig {
+	let config: CliConfig;
+	try {
+		config = JSON.parse(fs.readFileSync(configPath, "utf8"));
+	} catch (error) {
+		throw new Error(`Cannot read config file ${configPath}: ${error instanceof Error ? error.message : String(error)}`);
+	}
+	if (typeof config !== "object" || config === null || (config.entries !== undefined && (typeof config.entries !== "object" || config.entries === null))) {
+		throw new Error(`Invalid config file ${configPath}: expected an object with an "entries" object`);
+	}
+	return config;
+}
+
+/**
+ * Resolve `path/to/file.ts#ExportName`. Without an explicit location, the output
+ * file is named after the source file, with the target's file extension.
+ */
+function resolveEntry(entry: string, outputLocation: SimpleTypeCompilerLocation | undefined, baseDir: string, target: CliTarget): ExportedEntryPoint {
+	const [file, exportName] = splitOnce(entry, "#");
+	if (!file || !exportName) {
+		throw new CliError(`Invalid entry "${entry}": expected a file and an export name, like src/api.ts#User`);
+	}
+	const baseName = path.basename(file).replace(/\.d\.ts$|\.[cm]?tsx?$/, "");
+	return {
+		fileName: path.resolve(baseDir, file),
+		exportName,
+		outputLocation: outputLocation ?? { fileName: `${baseName}${target.fileExtension}` }
+	};
+}
+
+function createProgram(configFileName: string | undefined, entryFileNames: string[]): ts.Program {
+	const ts = getTypescriptModule();
+	if (configFileName === undefined) {
+		return ts.createProgram(entryFileNames, { strict: true });
+	}
+
+	const configFile = ts.readConfigFile(configFileName, ts.sys.readFile);
+	if (configFile.error) {
+		throw new Error(formatDiagnostics([configFile.error]));
+	}
+	const parsed = ts.parseJsonConfigFileContent(configFile.config, ts.sys, path.dirname(configFileName), undefined, configFileName);
+	if (parsed.errors.length > 0) {
+		throw new Error(formatDiagnostics(parsed.errors));
+	}
+	return ts.createProgram({
+		rootNames: [...new Set([...parsed.fileNames, ...entryFileNames])],
+		options: parsed.options,
+		projectReferences: parsed.projectReferences
+	});
+}
+
+function formatDiagnostics(diagnostics: readonly ts.Diagnostic[]): string {
+	return getTypescriptModule().formatDiagnostics(diagnostics, {
+		getCanonicalFileName: fileName => fileName,
+		getCurrentDirectory: () => process.cwd(),
+		getNewLine: () => "\n"
+	});
+}
+
+function formatCompilerDiagnostics(diagnostics: SimpleTypeCompilerDiagnostic[]): string {
+	return diagnostics.map(diagnostic => `warning: ${simpleTypeCompilerDiagnosticToString(diagnostic)}\n`).join("");
+}
+
+function splitOnce(text: string, separator: string): [string, string | undefined] {
+	const index = text.indexOf(separator);
+	return index === -1 ? [text, undefined] : [text.slice(0, index), text.slice(index + separator.length)];
+}
@@ -0,0 +1,434 @@
+import type * as ts from "typescript";
+import { isSimpleTypeLiteral, SimpleType, SimpleTypeClass, SimpleTypeInterface, SimpleTypeKind, SimpleTypeMember, SimpleTypeObject, SimpleTypeUnion } from "../simple-type";
+import { SimpleTypePath } from "../simple-type-path";
+import {
+	SimpleTypeCompiler,
+	SimpleTypeCompilerDeclarationLocation,
+	SimpleTypeCompilerNode,
+	SimpleTypeCompilerReferenceArgs,
+	SimpleTypeCompilerTarget,
+	SimpleTypeCompilerTargetFile
+} from "../transform/compiler";
+import { isAssignableToSimpleTypeKind } from "../is-assignable/is-assignable-to-simple-type-kind";
+import { toNullableSimpleType } from "../transform/inspect-simple-type";
+import { simpleTypeToString } from "../transform/simple-type-to-string";
+import { SimpleTypeKindVisitors, Visitor, VisitorArgs } from "../visitor";
+import { isDefined } from "./thrift";
+
+/**
+ * An Avro schema, in its JSON form.
+ * https://avro.apache.org/docs/1.11.1/specification/#schema-declaration
+ */
+export type AvroSchema = string | AvroSchema[] | { [key: string]: AvroSchema | AvroSchema[] | number | boolean | null | undefined };
+
+/**
+ * A named type (record or enum) in an Avro schema.
+ * It's written out in full the first time it appears in a file, and by its full name afterwards.
+ */
+class AvroNamedType {
+	constructor(public location: SimpleTypeCompilerDeclarationLocation) {}
+
+	get fullName(): string {
+		return [...(this.location.namespace ?? []), this.location.name].join(".");
+	}
+}
+
+type AvroSchemaWithNames = string | AvroNamedType | AvroSchemaWithNames[] | { [key: string]: AvroSchemaWithNames | AvroSchemaWithNames[] | number | boolean | null | undefined };
+
+const AVRO_NAME = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+/**
+ * Compiles types to Apache Avro schemas (`.avsc` JSON).
+ * To customize the compilation, make a subclass.
+ *
+ * Objects compile to records and string literal unions compile to enums, named
+ * by their declaration location. Nullable types compile to `["null", T]`, and
+ * nullable record fields default to `null`.
+ *
+ * https://avro.apache.org/docs/1.11.1/specification/
+ */
+export class AvroCompilerTarget implements SimpleTypeCompilerTarget {
+	static createCompiler<T extends AvroCompilerTarget>(this: { new (compiler: SimpleTypeCompiler): T }, typeChecker: ts.TypeChecker): SimpleTypeCompiler {
+		return new SimpleTypeCompiler(typeChecker, compiler => new this(compiler));
+	}
+
+	constructor(public compiler: SimpleTypeCompiler) {}
+
+	private nodeToAvro = new Map<SimpleTypeCompilerNode, AvroSchemaWithNames>();
+	/** Full definitions of named types, by their declaration location */
+	private namedTypeDefinitions = new WeakMap<SimpleTypeCompilerDeclarationLocation, AvroSchemaWithNames>();
+	/** Unions that have a declaration location, like entry points. Avro unions can't be named, so references to them repeat the union. */
+	private unionDefinitions = new WeakMap<SimpleTypeCompilerDeclarationLocation, AvroSchemaWithNames>();
+	/** Non-nullable halves of nullable unions, so each enum is only declared once */
+	private nonNullableTypes = new WeakMap<SimpleTypeUnion, SimpleType>();
+
+	private withAvro<T extends SimpleTypeCompilerNode>(node: T, schema: AvroSchemaWithNames): T {
+		this.nodeToAvro.set(node, schema);
+		return node;
+	}
+
+	private mustGetAvro = (node: SimpleTypeCompilerNode): AvroSchemaWithNames => {
+		const schema = this.nodeToAvro.get(node);
+		if (schema === undefined) {
+			const { type, path } = node;
+			const pathString = (path && SimpleTypePath.toString(path, type)) || "<unknown>";
+			throw new Error(`No Avro schema for node ${node} at path ${pathString}`);
+		}
+		return schema;
+	};
+
+	compileType: Visitor<SimpleTypeCompilerNode, SimpleType> = args => {
+		const { type, path, visit } = args;
+		if (type.error) {
+			throw new Error(`SimpleType kind ${type.kind} has error: ${type.error}`);
+		}
+		const compileTypeKind = this.compileKind[type.kind];
+		if (!compileTypeKind) {
+			throw new ReferenceError(`SimpleType kind ${type.kind} has no compiler defined`);
+		}
+
+		return compileTypeKind({ type: type as never, path, visit });
+	};
+
+	compileReference(args: SimpleTypeCompilerReferenceArgs): SimpleTypeCompilerNode {
+		const builder = this.compiler.anonymousNodeBuilder(args.from);
+		const named = new AvroNamedType(args.to.location);
+		return this.withAvro(builder.reference(args.to, JSON.stringify(named.fullName)), named);
+	}
+
+	/**
+	 * Each file contains the schemas of its entry points. If there's more than one,
+	 * the file contains a list of schemas.
+	 */
+	compileFile(file: SimpleTypeCompilerTargetFile): SimpleTypeCompilerNode {
+		const builder = this.compiler.anonymousNodeBuilder();
+		const program = this.compiler.getCurrentProgram();
+		const declared = new Set<string>();
+		const schemas: AvroSchema[] = [];
+		for (const [type, location] of program.entryPoints) {
+			if (location.fileName === file.fileName) {
+				schemas.push(this.resolveNamedTypes(this.mustGetAvro(this.compiler.compileType(type, undefined, location)), declared));
+			}
+		}
+
+		const schema = schemas.length === 1 ? schemas[0] : schemas;
+		return builder.node(JSON.stringify(schema, undefined, "  ") + "\n");
+	}
+
+	/**
+	 * Avro requires named types to be defined before they are referenced, so the
+	 * first occurrence of each named type in a file is its full definition.
+	 */
+	private resolveNamedTypes(schema: AvroSchemaWithNames, declared: Set<string>): AvroSchema {
+		if (schema instanceof AvroNamedType) {
+			const union = this.unionDefinitions.get(schema.location);
+			if (union !== undefined) {
+				return this.resolveNamedTypes(union, declared);
+			}
+			if (declared.has(schema.fullName)) {
+				return schema.fullName;
+			}
+			declared.add(schema.fullName);
+			const definition = this.namedTypeDefinitions.get(schema.location);
+			if (definition === undefined) {
+				throw new Error(`No definition for Avro named type ${schema.fullName}`);
+			}
+			return this.resolveNamedTypes(definition, declared);
+		}
+		if (Array.isArray(schema)) {
+			return schema.map(item => this.resolveNamedTypes(item, declared));
+		}
+		if (typeof schema === "object") {
+			return Object.fromEntries(
+				Object.entries(schema)
+					.filter(([, value]) => value !== undefined)
+					.map(([key, value]) => [key, value !== null && typeof value === "object" ? this.resolveNamedTypes(value, declared) : value])
+			) as AvroSchema;
+		}
+		return schema;
+	}
+
+	asAvro =
+		<ST extends SimpleType>(getSchema: (args: VisitorArgs<SimpleTypeCompilerNode, ST>) => AvroSchemaWithNames): Visitor<SimpleTypeCompilerNode, ST> =>
+		args => {
+			const schema = getSchema(args);
+			const builder = this.compiler.nodeBuilder(args.type, args.path);
+			return this.withAvro(builder.node(JSON.stringify(schema)), schema);
+		};
+
+	/**
+	 * Compile a type whose schema contains the schemas of its children.
+	 */
+	withChildren =
+		<ST extends SimpleType>(getSchema: (args: VisitorArgs<SimpleTypeCompilerNode, ST>) => [AvroSchemaWithNames, SimpleTypeCompilerNode[]]): Visitor<SimpleTypeCompilerNode, ST> =>
+		args => {
+			const [schema, children] = getSchema(args);
+			const builder = this.compiler.nodeBuilder(args.type, args.path);
+			return this.withAvro(builder.node(children), schema);
+		};
+
+	/**
+	 * Declare a named type. Its definition is written out where it's first used.
+	 */
+	declareNamedType(
+		type: SimpleType,
+		path: SimpleTypePath,
+		location: SimpleTypeCompilerDeclarationLocation,
+		definition: AvroSchemaWithNames,
+		children: SimpleTypeCompilerNode[]
+	): SimpleTypeCompilerNode {
+		if (!AVRO_NAME.test(location.name)) {
+			throw new Error(`Not a valid Avro name: ${JSON.stringify(location.name)}`);
+		}
+		this.namedTypeDefinitions.set(location, definition);
+		const builder = this.compiler.nodeBuilder(type, path);
+		return this.withAvro(builder.declaration(location, children.length ? children : [JSON.stringify(definition)]), new AvroNamedType(location));
+	}
+
+	doc(typeOrMember: SimpleType | SimpleTypeMember): string | undefined {
+		return this.compiler.getDocumentationComment(typeOrMember)?.docComment;
+	}
+
+	namespace(location: SimpleTypeCompilerDeclarationLocation): string | undefined {
+		return location.namespace?.length ? location.namespace.join(".") : undefined;
+	}
+
+	/**
+	 * @returns the type without `null` and `undefined` if it's a nullable union, looking through aliases.
+	 */
+	toNonNullableType(type: SimpleType): SimpleType | undefined {
+		switch (type.kind) {
+			case "ALIAS":
+				return this.toNonNullableType(type.target);
+			case "GENERIC_ARGUMENTS":
+				return this.toNonNullableType(type.instantiated);
+			case "UNION": {
+				const existing = this.nonNullableTypes.get(type);
+				if (existing) {
+					return existing;
+				}
+
+				const nullable = toNullableSimpleType(type);
+				if (nullable.kind !== "NULLABLE" || nullable.type.kind === "NEVER") {
+					return undefined;
+				}
+				this.nonNullableTypes.set(type, nullable.type);
+				return nullable.type;
+			}
+		}
+	}
+
+	/**
+	 * Unions can't directly contain other unions, so nested unions are flattened.
+	 * They also can't contain the same type twice, so repeated primitives and named types are dropped,
+	 * and more than one array or map is an error.
+	 */
+	toUnion(schemas: AvroSchemaWithNames[]): AvroSchemaWithNames[] {
+		const flattened = schemas.flatMap(schema => (Array.isArray(schema) ? this.toUnion(schema) : [schema]));
+		const names = new Set<string>();
+		const unnamedTypes = new Set<string>();
+		return flattened.filter(schema => {
+			if (typeof schema === "string" || schema instanceof AvroNamedType) {
+				const name = typeof schema === "string" ? schema : schema.fullName;
+				if (names.has(name)) {
+					return false;
+				}
+				names.add(name);
+				return true;
+			}
+
+			const unnamedType = !Array.isArray(schema) && schema.type;
+			if (unnamedType === "array" || unnamedType === "map") {
+				if (unnamedTypes.has(unnamedType)) {
+					throw new Error(`Avro unions can't contain more than one ${unnamedType}`);
+				}
+				unnamedTypes.add(unnamedType);
+			}
+			return true;
+		});
+	}
+
+	compileObjectLike: Visitor<SimpleTypeCompilerNode, SimpleTypeObject | SimpleTypeClass | SimpleTypeInterface> = ({ type, path, visit }) => {
+		// Objects with only a string index signature, like `Record<string, T>`, are maps.
+		const stringIndex = !type.members?.length && type.indexType?.STRING;
+		if (stringIndex) {
+			return this.withChildren<typeof type>(({ type, path, visit }) => {
+				const values = Visitor[type.kind].stringIndex({ type, path, visit }) as SimpleTypeCompilerNode;
+				return [{ type: "map", values: this.mustGetAvro(values) }, [values]];
+			})({ type, path, visit });
+		}
+
+		const loc = this.compiler.assignDeclarationLocation(type, path);
+		return this.compiler.withLocation(loc, () => {
+			const fields = Visitor[type.kind]
+				.mapNamedMembers<SimpleTypeCompilerNode | undefined>({
+					path,
+					type,
+					visit: visit.with(({ type, path }) => (this.dropMemberKinds.has(type.kind) ? undefined : this.compileField({ type, path, visit })))
+				})
+				.filter(isDefined);
+
+			const definition = {
+				type: "record",
+				name: loc.name,
+				namespace: this.namespace(loc),
+				doc: this.doc(type),
+				fields: fields.map(this.mustGetAvro)
+			};
+			return this.declareNamedType(type, path, loc, definition, fields);
+		});
+	};
+
+	compileField: Visitor<SimpleTypeCompilerNode> = ({ type, path }) => {
+		const step = SimpleTypePath.lastMustBe(path, "NAMED_MEMBER");
+		if (!AVRO_NAME.test(step.member.name)) {
+			throw new Error(`Not a valid Avro field name: ${JSON.stringify(step.member.name)}`);
+		}
+
+		const builder = this.compiler.nodeBuilder(type, path);
+		const nonNullable = this.toNonNullableType(type);
+		const nullable = Boolean(nonNullable || step.member.optional);
+		const typeNode = this.compiler.compileType(nonNullable ?? type, path);
+		const field = {
+			name: step.member.name,
+			doc: this.doc(step.member),
+			type: nullable ? this.toUnion(["null", this.mustGetAvro(typeNode)]) : this.mustGetAvro(typeNode),
+			// A union field's default must match the first branch of the union.
+			default: nullable ? null : undefined
+		};
+		return this.withAvro(builder.node([typeNode]), field);
+	};
+
+	throwUnsupported: Visitor<SimpleTypeCompilerNode> = ({ type }) => {
+		throw new Error(`Unsupported SimpleType kind: ${type.kind}`);
+	};
+
+	dropMemberKinds = new Set<SimpleTypeKind>(["FUNCTION", "METHOD"]);
+
+	compileEnum = (type: SimpleType, path: SimpleTypePath, symbols: string[]): SimpleTypeCompilerNode => {
+		const loc = this.compiler.assignDeclarationLocation(type, path);
+		const invalid = symbols.find(symbol => !AVRO_NAME.test(symbol));
+		if (invalid !== undefined) {
+			throw new Error(`Not a valid Avro enum symbol: ${JSON.stringify(invalid)} in ${simpleTypeToString(type)}`);
+		}
+		return this.declareNamedType(type, path, loc, { type: "enum", name: loc.name, namespace: this.namespace(loc), doc: this.doc(type), symbols }, []);
+	};
+
+	compileKind: SimpleTypeKindVisitors<SimpleTypeCompilerNode> = {
+		// Literals
+		STRING_LITERAL: this.asAvro(() => "string"),
+		NUMBER_LITERAL: this.asAvro(({ type }) => (Number.isInteger(type.value) ? "long" : "double")),
+		BOOLEAN_LITERAL: this.asAvro(() => "boolean"),
+		BIG_INT_LITERAL: this.asAvro(() => "long"),
+
+		// Primitives
+		BOOLEAN: this.asAvro(() => "boolean"),
+		STRING: this.asAvro(() => "string"),
+		TEMPLATE_LITERAL: this.asAvro(() => "string"),
+		STRING_MAPPING: this.asAvro(() => "string"),
+		BIG_INT: this.asAvro(() => "long"),
+		NUMBER: this.asAvro(() => "double"),
+
+		// None-like
+		NULL: this.asAvro(() => "null"),
+		UNDEFINED: this.asAvro(() => "null"),
+		VOID: this.asAvro(() => "null"),
+
+		// Well-known
+		DATE: this.asAvro(() => ({ type: "long", logicalType: "timestamp-millis" })),
+		MAP: this.withChildren(({ type, path, visit }) => {
+			if (!isAssignableToSimpleTypeKind(type.keyType, ["STRING", "STRING_LITERAL", "TEMPLATE_LITERAL", "STRING_MAPPING"])) {
+				throw new Error(`Avro map keys must be strings: ${simpleTypeToString(type)}`);
+			}
+			const value = Visitor.MAP.value({ type, path, visit });
+			return [{ type: "map", values: this.mustGetAvro(value) }, [value]];
+		}),
+		SET: this.withChildren(({ type, path, visit }) => {
+			const value = Visitor.SET.value({ type, path, visit });
+			return [{ type: "array", items: this.mustGetAvro(value) }, [value]];
+		}),
+		REGEXP: this.asAvro(() => "string"),
+		URL: this.asAvro(() => "string"),
+		BINARY: this.asAvro(() => "bytes"),
+
+		// Compile instantiated generics instead of copying the whole generic type
+		ALIAS: Visitor.ALIAS.aliased,
+		GENERIC_ARGUMENTS: Visitor.GENERIC_ARGUMENTS.aliased,
+
+		// Algebraic types
+		UNION: args => {
+			const { type, path, visit } = args;
+			const nonNullable = this.toNonNullableType(type);
+			if (nonNullable) {
+				return this.withChildren(() => {
+					const inner = visit(undefined, nonNullable);
+					return [this.toUnion(["null", this.mustGetAvro(inner)]), [inner]];
+				})(args);
+			}
+
+			if (type.types.every(variant => variant.kind === "STRING_LITERAL")) {
+				return this.compileEnum(
+					type,
+					path,
+					type.types.map(variant => String(isSimpleTypeLiteral(variant) && variant.value))
+				);
+			}
+
+			return this.withChildren<SimpleTypeUnion>(({ type, path, visit }) => {
+				const variants = Visitor.UNION.mapVariants({ type, path, visit });
+				const branches = this.toUnion(variants.map(this.mustGetAvro));
+				const union = branches.length === 1 ? branches[0] : branches;
+				const location = this.compiler.getCurrentProgram().getDeclarationLocation(type);
+				if (location) {
+					this.unionDefinitions.set(location, union);
+				}
+				return [union, variants];
+			})(args);
+		},
+		INTERSECTION: ({ type, visit }) => {
+			if (!type.intersected) {
+				throw new Error(`Target type system doesn't support intersection types`);
+			}
+			return visit(undefined, type.intersected);
+		},
+
+		// List types
+		ARRAY: this.withChildren(({ type, path, visit }) => {
+			const items = Visitor.ARRAY.numberIndex({ type, path, visit });
+			return [{ type: "array", items: this.mustGetAvro(items) }, [items]];
+		}),
+
+		// Object
+		INTERFACE: this.compileObjectLike,
+		CLASS: this.compileObjectLike,
+		OBJECT: this.compileObjectLike,
+
+		// Enum
+		ENUM: args => {
+			const values = args.type.types.map(member => (isSimpleTypeLiteral(member.type) ? member.type.value : undefined));
+			if (values.every(value => typeof value === "string")) {
+				return this.compileEnum(args.type, args.path, values as string[]);
+			}
+			// Avro enums are serialized by symbol, so numeric enums are serialized as their values.
+			return this.asAvro(() => (values.every(value => Number.isInteger(value)) ? "long" : "double"))(args);
+		},
+		ENUM_MEMBER: ({ type, visit }) => visit(undefined, type.type),
+
+		// Unsupported
+		UNKNOWN: this.throwUnsupported,
+		ANY: this.throwUnsupported,
+		NEVER: this.throwUnsupported,
+		ES_SYMBOL: this.throwUnsupported,
+		ES_SYMBOL_UNIQUE: this.throwUnsupported,
+		NON_PRIMITIVE: this.throwUnsupported,
+		PROMISE: this.throwUnsupported,
+		ERROR: this.throwUnsupported,
+		TUPLE: this.throwUnsupported,
+		FUNCTION: this.throwUnsupported,
+		METHOD: this.throwUnsupported,
+		GENERIC_PARAMETER: this.throwUnsupported,
+		INDEX: this.throwUnsupported,
+		INDEXED_ACCESS: this.throwUnsupported,
+		CONDITIONAL: this.throwUnsupported
+	};
+}
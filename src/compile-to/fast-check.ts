@@ -0,0 +1,343 @@
+import type * as ts from "typescript";
+import {
+	isSimpleTypeLiteral,
+	SimpleType,
+	SimpleTypeClass,
+	SimpleTypeFunction,
+	SimpleTypeInterface,
+	SimpleTypeKind,
+	SimpleTypeLiteral,
+	SimpleTypeMethod,
+	SimpleTypeObject,
+	SimpleTypeStringMappingKind,
+	SimpleTypeTemplateLiteral
+} from "../simple-type";
+import { SimpleTypePath } from "../simple-type-path";
+import {
+	SimpleTypeCompiler,
+	SimpleTypeCompilerDeclarationNode,
+	SimpleTypeCompilerLocation,
+	SimpleTypeCompilerNode,
+	SimpleTypeCompilerNodeBuilder,
+	SimpleTypeCompilerReferenceArgs,
+	SimpleTypeCompilerReferenceNode,
+	SimpleTypeCompilerTarget,
+	SimpleTypeCompilerTargetFile
+} from "../transform/compiler";
+import { simpleTypeToString } from "../transform/simple-type-to-string";
+import { getImportPath } from "../utils/path-util";
+import { templateLiteralToRegExpSource } from "../utils/simple-type-util";
+import { SimpleTypeKindVisitors, Visitor, VisitorArgs } from "../visitor";
+
+/** Typed arrays that fast-check has a built-in arbitrary for, like `fc.uint8Array()`. */
+const TYPED_ARRAYS = new Set([
+	"Int8Array",
+	"Uint8Array",
+	"Uint8ClampedArray",
+	"Int16Array",
+	"Uint16Array",
+	"Int32Array",
+	"Uint32Array",
+	"Float32Array",
+	"Float64Array",
+	"BigInt64Array",
+	"BigUint64Array"
+]);
+
+const STRING_MAPPINGS: Record<SimpleTypeStringMappingKind, string> = {
+	Uppercase: "value.toUpperCase()",
+	Lowercase: "value.toLowerCase()",
+	Capitalize: "value.charAt(0).toUpperCase() + value.slice(1)",
+	Uncapitalize: "value.charAt(0).toLowerCase() + value.slice(1)"
+};
+
+/**
+ * Compiles types to Typescript modules that declare fast-check arbitraries,
+ * for property-based tests.
+ * To customize the compilation, make a subclass.
+ *
+ * The arbitraries in each file are declared inside one `fc.letrec`, and refer
+ * to each other with `tie`, so recursive types and declaration order inside a
+ * file don't matter. Arbitraries imported from other files can't take part in
+ * a cycle.
+ *
+ * https://github.com/dubzzz/fast-check
+ */
+export class FastCheckCompilerTarget implements SimpleTypeCompilerTarget {
+	static createCompiler<T extends FastCheckCompilerTarget>(this: { new (compiler: SimpleTypeCompiler): T }, typeChecker: ts.TypeChecker): SimpleTypeCompiler {
+		return new SimpleTypeCompiler(typeChecker, compiler => new this(compiler));
+	}
+
+	constructor(public compiler: SimpleTypeCompiler) {}
+
+	compileType: Visitor<SimpleTypeCompilerNode, SimpleType> = args => {
+		const { type, path, visit } = args;
+		if (type.error) {
+			throw new Error(`SimpleType kind ${type.kind} has error: ${type.error}`);
+		}
+		const compileTypeKind = this.compileKind[type.kind];
+		if (!compileTypeKind) {
+			throw new ReferenceError(`SimpleType kind ${type.kind} has no compiler defined`);
+		}
+
+		if (this.compiler.isExportedFromSourceLocation(type) || this.compiler.getCurrentProgram().entryPoints.has(type)) {
+			// References inside the declaration are compiled from its file, so they know whether to `tie` or import.
+			const location = this.compiler.assignDeclarationLocation(type, path);
+			const arbitrary = this.compiler.withLocation(location, () => compileTypeKind({ type: type as never, path, visit }));
+			return this.toArbitraryDeclaration(args, arbitrary);
+		} else {
+			return compileTypeKind({ type: type as never, path, visit });
+		}
+	};
+
+	compileReference(args: SimpleTypeCompilerReferenceArgs): SimpleTypeCompilerNode {
+		const builder = this.compiler.anonymousNodeBuilder(args.from);
+		const location = args.to.location;
+		if (SimpleTypeCompilerLocation.fileAndNamespaceEqual(args.from, location)) {
+			return builder.reference(args.to, `tie(${JSON.stringify(location.name)})`);
+		}
+		return builder.reference(args.to, location.name);
+	}
+
+	compileFile(file: SimpleTypeCompilerTargetFile): SimpleTypeCompilerNode {
+		const builder = this.compiler.anonymousNodeBuilder();
+
+		const importedNames = new Map<string, Set<string>>();
+		file.references.forEach(ref => {
+			if (ref.fileName === file.fileName) {
+				return;
+			}
+			const names = importedNames.get(ref.fileName) ?? new Set<string>();
+			names.add(ref.name);
+			importedNames.set(ref.fileName, names);
+		});
+
+		const imports = [`import fc from "fast-check";`];
+		for (const [fileName, names] of importedNames) {
+			imports.push(`import { ${Array.from(names).join(", ")} } from ${JSON.stringify(getImportPath(file.fileName, fileName))};`);
+		}
+
+		const declarations = file.nodes.filter((node): node is SimpleTypeCompilerDeclarationNode => node instanceof SimpleTypeCompilerDeclarationNode);
+		const letrec = builder.node`const arbitraries = fc.letrec(tie => ({\n${builder.node(file.nodes.slice()).joinNodes("\n")}\n}));`;
+		const exports = declarations.map(node => `export const ${node.location.name} = arbitraries.${node.location.name};`);
+
+		return builder.node([builder.node(imports).joinNodes("\n"), letrec, builder.node(exports).joinNodes("\n"), builder.node``]).joinNodes("\n\n");
+	}
+
+	withBuilder = <ST extends SimpleType>(
+		visitor: (args: VisitorArgs<SimpleTypeCompilerNode, ST> & { builder: SimpleTypeCompilerNodeBuilder }) => SimpleTypeCompilerNode
+	): Visitor<SimpleTypeCompilerNode, ST> => {
+		return args => {
+			const builder = this.compiler.nodeBuilder(args.type, args.path);
+			return visitor({ ...args, builder });
+		};
+	};
+
+	/**
+	 * Build a `Name: arbitrary,` entry of the file's `fc.letrec`.
+	 */
+	toArbitraryDeclaration(args: VisitorArgs<SimpleTypeCompilerNode>, inner: SimpleTypeCompilerNode): SimpleTypeCompilerNode {
+		if (inner instanceof SimpleTypeCompilerReferenceNode || inner instanceof SimpleTypeCompilerDeclarationNode) {
+			return inner;
+		}
+
+		const builder = this.compiler.nodeBuilder(args.type, args.path);
+		const declarationLocation = this.compiler.assignDeclarationLocation(args.type, args.path);
+		return builder.declaration(declarationLocation, builder.node`  ${declarationLocation.name}: ${inner},`);
+	}
+
+	throwUnsupported: Visitor<SimpleTypeCompilerNode> = ({ type }) => {
+		throw new Error(`Unsupported SimpleType kind: ${type.kind}`);
+	};
+
+	compileArbitrary = (arbitrary: string) => this.withBuilder(({ builder }) => builder.node(arbitrary));
+
+	literalValue(type: SimpleTypeLiteral): string {
+		return typeof type.value === "bigint" ? `${type.value}n` : JSON.stringify(type.value);
+	}
+
+	compileLiteral = this.withBuilder<SimpleTypeLiteral>(({ builder, type }) => builder.node(`fc.constant(${this.literalValue(type)})`));
+
+	memberName(name: string): string {
+		return /^[A-Za-z_$][\w$]*$/.test(name) ? name : JSON.stringify(name);
+	}
+
+	compileObjectLike: Visitor<SimpleTypeCompilerNode, SimpleTypeObject | SimpleTypeClass | SimpleTypeInterface> = ({ type, path, visit }) => {
+		const loc = this.compiler.assignDeclarationLocation(type, path);
+		return this.compiler.withLocation(loc, () => this.compileRecord({ type, path, visit }));
+	};
+
+	/**
+	 * Compile an object type to `fc.record`. Optional members are left out of `requiredKeys`,
+	 * so the record may omit them.
+	 */
+	compileRecord: Visitor<SimpleTypeCompilerNode, SimpleTypeObject | SimpleTypeClass | SimpleTypeInterface> = ({ type, path, visit }) => {
+		const builder = this.compiler.nodeBuilder(type, path);
+		const requiredKeys: string[] = [];
+		let hasOptionalKeys = false;
+		const members = this.filterMembers(
+			Visitor[type.kind].mapNamedMembers<SimpleTypeCompilerNode>({
+				path,
+				type,
+				visit: visit.with(({ type, path }) => {
+					const builder = this.compiler.nodeBuilder(type, path);
+					const { member } = SimpleTypePath.lastMustBe(path, "NAMED_MEMBER");
+					if (!this.dropMemberKinds.has(type.kind)) {
+						if (member.optional) {
+							hasOptionalKeys = true;
+						} else {
+							requiredKeys.push(member.name);
+						}
+					}
+					return builder.node`    ${this.memberName(member.name)}: ${builder.reference(this.compiler.compileType(type, path))},`;
+				})
+			})
+		);
+
+		const index = builder.reference(Visitor[type.kind].stringIndex({ path, type, visit }) ?? Visitor[type.kind].numberIndex({ path, type, visit }));
+		const dictionary = index && builder.node`fc.dictionary(fc.string(), ${index})`;
+		if (dictionary && members.length === 0) {
+			return this.toArbitraryDeclaration({ type, path, visit }, dictionary);
+		}
+
+		const options = hasOptionalKeys ? `, { requiredKeys: [${requiredKeys.map(key => JSON.stringify(key)).join(", ")}] }` : "";
+		const record = members.length ? builder.node`fc.record({\n${builder.node(members).joinNodes("\n")}\n  }${options})` : builder.node`fc.record({})`;
+		const arbitrary = dictionary ? builder.node`fc.tuple(${record}, ${dictionary}).map(([record, extra]) => ({ ...extra, ...record }))` : record;
+		return this.toArbitraryDeclaration({ type, path, visit }, arbitrary);
+	};
+
+	compileCallable: Visitor<SimpleTypeCompilerNode, SimpleTypeMethod | SimpleTypeFunction> = this.withBuilder(({ builder, type, path, visit }) => {
+		const returnType = builder.reference(Visitor[type.kind].return({ path, type, visit }));
+		return builder.node`fc.func(${returnType ?? "fc.constant(undefined)"})`;
+	});
+
+	dropMemberKinds = new Set<SimpleTypeKind>(["FUNCTION", "METHOD"]);
+	private filterMembers = (members: SimpleTypeCompilerNode[]) => members.filter(node => !(node.type?.kind && this.dropMemberKinds.has(node.type.kind)));
+
+	compileKind: SimpleTypeKindVisitors<SimpleTypeCompilerNode> = {
+		// Literals
+		STRING_LITERAL: this.compileLiteral,
+		NUMBER_LITERAL: this.compileLiteral,
+		BOOLEAN_LITERAL: this.compileLiteral,
+		BIG_INT_LITERAL: this.compileLiteral,
+		ES_SYMBOL_UNIQUE: this.throwUnsupported,
+
+		// Primitives
+		BOOLEAN: this.compileArbitrary("fc.boolean()"),
+		STRING: this.compileArbitrary("fc.string()"),
+		BIG_INT: this.compileArbitrary("fc.bigInt()"),
+		NUMBER: this.compileArbitrary("fc.double()"),
+		ES_SYMBOL: this.compileArbitrary("fc.string().map(description => Symbol(description))"),
+		TEMPLATE_LITERAL: this.withBuilder<SimpleTypeTemplateLiteral>(({ builder, type }) => builder.node(`fc.stringMatching(/^${templateLiteralToRegExpSource(type).replace(/\//g, "\\/")}$/)`)),
+		STRING_MAPPING: this.withBuilder(({ builder, type, path, visit }) => {
+			const operand = builder.reference(Visitor.STRING_MAPPING.operand({ path, type, visit }));
+			return builder.node`${operand}.map(value => ${STRING_MAPPINGS[type.mapping]})`;
+		}),
+
+		// None-like
+		NULL: this.compileArbitrary("fc.constant(null)"),
+		UNDEFINED: this.compileArbitrary("fc.constant(undefined)"),
+		VOID: this.compileArbitrary("fc.constant(undefined)"),
+
+		// Top & bottom
+		UNKNOWN: this.compileArbitrary("fc.anything()"),
+		ANY: this.compileArbitrary("fc.anything()"),
+		NEVER: this.throwUnsupported,
+		NON_PRIMITIVE: this.compileArbitrary("fc.object()"),
+
+		// Well-known
+		DATE: this.compileArbitrary("fc.date()"),
+		PROMISE: this.withBuilder(({ builder, type, path, visit }) => builder.node`${builder.reference(Visitor.PROMISE.awaited({ path, type, visit }))}.map(value => Promise.resolve(value))`),
+		MAP: this.withBuilder(({ builder, type, path, visit }) => {
+			const key = builder.reference(Visitor.MAP.key({ path, type, visit }));
+			const value = builder.reference(Visitor.MAP.value({ path, type, visit }));
+			return builder.node`fc.array(fc.tuple(${key}, ${value})).map(entries => new Map(entries))`;
+		}),
+		SET: this.withBuilder(({ builder, type, path, visit }) => builder.node`fc.array(${builder.reference(Visitor.SET.value({ path, type, visit }))}).map(values => new Set(values))`),
+		REGEXP: this.compileArbitrary(`fc.constantFrom(/(?:)/, /^[a-z]+$/i, /\\d+/g)`),
+		ERROR: this.compileArbitrary("fc.string().map(message => new Error(message))"),
+		URL: this.compileArbitrary("fc.webUrl().map(url => new URL(url))"),
+		BINARY: this.withBuilder(({ builder, type }) => {
+			if (type.name && TYPED_ARRAYS.has(type.name)) {
+				return builder.node(`fc.${type.name.charAt(0).toLowerCase()}${type.name.slice(1)}()`);
+			}
+			return builder.node(type.name === "ArrayBuffer" ? "fc.uint8Array().map(bytes => bytes.buffer)" : "fc.uint8Array()");
+		}),
+
+		// Compile instantiated generics instead of copying the whole generic type
+		ALIAS: Visitor.ALIAS.aliased,
+		GENERIC_ARGUMENTS: Visitor.GENERIC_ARGUMENTS.aliased,
+
+		// Algebraic types
+		UNION: this.withBuilder(({ builder, type, path, visit }) => {
+			// Literal unions pick one of their values.
+			if (type.types.every(variant => isSimpleTypeLiteral(variant) || variant.kind === "NULL" || variant.kind === "UNDEFINED")) {
+				const values = type.types.map(variant => (variant.kind === "NULL" ? "null" : variant.kind === "UNDEFINED" ? "undefined" : this.literalValue(variant as SimpleTypeLiteral)));
+				return builder.node(`fc.constantFrom(${values.join(", ")})`);
+			}
+
+			// fc.oneof prefers its first arbitrary as recursion gets deeper, so references to other declarations go last.
+			const variants = Visitor.UNION.mapVariants({ path, type, visit }).map(variant => builder.reference(variant));
+			const isReference = (node: SimpleTypeCompilerNode) => node instanceof SimpleTypeCompilerReferenceNode;
+			const ordered = [...variants.filter(node => !isReference(node)), ...variants.filter(isReference)];
+			return builder.node`fc.oneof(${builder.node(ordered).joinNodes(", ")})`;
+		}),
+		INTERSECTION: ({ type, visit }) => {
+			if (!type.intersected) {
+				throw new Error(`Target type system doesn't support intersection types`);
+			}
+			return visit(undefined, type.intersected);
+		},
+
+		// List types
+		ARRAY: this.withBuilder(({ builder, type, path, visit }) => builder.node`fc.array(${builder.reference(Visitor.ARRAY.numberIndex({ path, type, visit }))})`),
+		TUPLE: this.withBuilder(({ builder, type, path, visit }) => {
+			const members = Visitor.TUPLE.mapIndexedMembers<SimpleTypeCompilerNode>({
+				path,
+				type,
+				visit: visit.with(({ type, path }) => builder.reference(this.compiler.compileType(type, path)))
+			});
+
+			if (type.rest && members.length > 0) {
+				const rest = members[members.length - 1];
+				return builder.node`fc.tuple(fc.tuple(${builder.node(members.slice(0, -1)).joinNodes(", ")}), fc.array(${rest})).map(([head, rest]) => [...head, ...rest])`;
+			}
+
+			return builder.node`fc.tuple(${builder.node(members).joinNodes(", ")})`;
+		}),
+
+		// Object
+		INTERFACE: this.compileObjectLike,
+		CLASS: this.compileObjectLike,
+		OBJECT: this.compileObjectLike,
+
+		// Enum
+		ENUM: ({ type, path, visit }) => {
+			this.compiler.assignDeclarationLocation(type, path);
+			const builder = this.compiler.nodeBuilder(type, path);
+			const values = type.types.map(member => {
+				if (!isSimpleTypeLiteral(member.type)) {
+					throw new Error(`Non-literal ENUM_MEMBER type: ${simpleTypeToString(member.type)}`);
+				}
+				return this.literalValue(member.type);
+			});
+			return this.toArbitraryDeclaration({ type, path, visit }, builder.node(`fc.constantFrom(${values.join(", ")})`));
+		},
+		ENUM_MEMBER: this.withBuilder(({ builder, type }) => {
+			if (!isSimpleTypeLiteral(type.type)) {
+				throw new Error(`Non-literal ENUM_MEMBER type: ${simpleTypeToString(type.type)}`);
+			}
+			return builder.node(`fc.constant(${this.literalValue(type.type)})`);
+		}),
+
+		// Callable
+		FUNCTION: this.compileCallable,
+		METHOD: this.compileCallable,
+
+		// Unsupported
+		GENERIC_PARAMETER: this.throwUnsupported,
+		INDEX: this.throwUnsupported,
+		INDEXED_ACCESS: this.throwUnsupported,
+		CONDITIONAL: this.throwUnsupported
+	};
+}
@@ -0,0 +1,354 @@
+import * as path from "path";
+import type * as ts from "typescript";
+import { isSimpleTypeLiteral, SimpleType, SimpleTypeClass, SimpleTypeInterface, SimpleTypeKind, SimpleTypeMember, SimpleTypeObject } from "../simple-type";
+import { SimpleTypePath, SimpleTypePathStepNamedMember } from "../simple-type-path";
+import {
+	SimpleTypeCompiler,
+	SimpleTypeCompilerDeclarationNode,
+	SimpleTypeCompilerNode,
+	SimpleTypeCompilerNodeBuilder,
+	SimpleTypeCompilerReferenceArgs,
+	SimpleTypeCompilerReferenceNode,
+	SimpleTypeCompilerTarget,
+	SimpleTypeCompilerTargetFile
+} from "../transform/compiler";
+import { toNullableSimpleType } from "../transform/inspect-simple-type";
+import { simpleTypeToString } from "../transform/simple-type-to-string";
+import { SimpleTypeKindVisitors, Visitor, VisitorArgs } from "../visitor";
+import { isDefined } from "./thrift";
+
+type SimpleTypeObjectLike = SimpleTypeObject | SimpleTypeClass | SimpleTypeInterface;
+
+/**
+ * Compiles types to Go structs that (un)marshal with `encoding/json`.
+ * To customize the compilation, make a subclass.
+ *
+ * Each output file is its own package, named after its directory and
+ * imported by that directory inside `modulePath`. Object types compile to
+ * structs whose exported fields carry `json` tags, with `omitempty` for
+ * optional members. Nullable members compile to pointers, unless the Go
+ * type is already nil-able, like a slice or map.
+ *
+ * https://pkg.go.dev/encoding/json#Marshal
+ */
+export class GoCompilerTarget implements SimpleTypeCompilerTarget {
+	static createCompiler<T extends GoCompilerTarget>(this: { new (compiler: SimpleTypeCompiler): T }, typeChecker: ts.TypeChecker, options: { modulePath?: string } = {}): SimpleTypeCompiler {
+		return new SimpleTypeCompiler(typeChecker, compiler => {
+			const target = new this(compiler);
+			target.modulePath = options.modulePath ?? target.modulePath;
+			return target;
+		});
+	}
+
+	constructor(public compiler: SimpleTypeCompiler) {}
+
+	/**
+	 * The path of the Go module that the output directory is the root of, like `example.com/app`.
+	 * Import paths of output packages start with it.
+	 */
+	modulePath = "";
+
+	compileType: Visitor<SimpleTypeCompilerNode, SimpleType> = args => {
+		const { type, path, visit } = args;
+		if (type.error) {
+			throw new Error(`SimpleType kind ${type.kind} has error: ${type.error}`);
+		}
+		const compileTypeKind = this.compileKind[type.kind];
+		if (!compileTypeKind) {
+			throw new ReferenceError(`SimpleType kind ${type.kind} has no compiler defined`);
+		}
+
+		const typeExpression = compileTypeKind({ type: type as never, path, visit });
+		if (this.compiler.isExportedFromSourceLocation(args.type)) {
+			return this.toTypeAliasDeclaration(args, typeExpression);
+		} else {
+			return typeExpression;
+		}
+	};
+
+	compileReference(args: SimpleTypeCompilerReferenceArgs): SimpleTypeCompilerNode {
+		const builder = this.compiler.anonymousNodeBuilder(args.from);
+		const location = args.to.location;
+		if (this.getGoImportPath(args.from.fileName) === this.getGoImportPath(location.fileName)) {
+			return builder.reference(args.to, location.name);
+		}
+
+		return builder.reference(args.to, `${this.getGoPackageName(location.fileName)}.${location.name}`);
+	}
+
+	compileFile(file: SimpleTypeCompilerTargetFile): SimpleTypeCompilerNode {
+		const builder = this.compiler.anonymousNodeBuilder();
+
+		const importPaths = new Set<string>();
+		file.references.forEach(ref => {
+			const importPath = this.getGoImportPath(ref.fileName);
+			if (importPath !== this.getGoImportPath(file.fileName)) {
+				importPaths.add(importPath);
+			}
+		});
+
+		const imports = Array.from(importPaths)
+			.sort()
+			.map(importPath => `\t${JSON.stringify(importPath)}`);
+		const importsNode = imports.length ? builder.node(["import (", ...imports, ")"]).joinNodes("\n") : undefined;
+		const packageNode = builder.node`package ${this.getGoPackageName(file.fileName)}`;
+
+		return builder.node([packageNode, importsNode, ...file.nodes, builder.node``].filter(isDefined)).joinNodes("\n\n");
+	}
+
+	/**
+	 * The import path of the package an output file belongs to, which is its directory inside {@link modulePath}.
+	 * Standard library references use their import path as the file name, like `time`.
+	 */
+	getGoImportPath(outputFileName: string): string {
+		if (path.extname(outputFileName) !== ".go") {
+			return outputFileName;
+		}
+		const dir = path.dirname(outputFileName);
+		return path.posix.join(this.modulePath, dir.split(path.sep).join("/")).replace(/^\.$/, "");
+	}
+
+	/**
+	 * The name of the package an output file belongs to.
+	 * Files at the root of the output are named after the file instead.
+	 */
+	getGoPackageName(outputFileName: string): string {
+		const importPath = this.getGoImportPath(outputFileName);
+		const name = importPath ? path.posix.basename(importPath) : path.basename(outputFileName, ".go");
+		return name.replace(/[^A-Za-z0-9_]/g, "_").toLowerCase();
+	}
+
+	/** Convert a Typescript member name or literal value to an exported Go identifier. */
+	exportedName(name: string): string {
+		const words = name.split(/[^A-Za-z0-9]+/).filter(Boolean);
+		const exportedName = words.map(word => word.charAt(0).toUpperCase() + word.slice(1)).join("");
+		return !exportedName || /^[0-9]/.test(exportedName) ? `X${exportedName}` : exportedName;
+	}
+
+	/** Go types that are already nil-able, so nullable values don't need a pointer. */
+	isNilable(type: SimpleType): boolean {
+		switch (type.kind) {
+			case "ARRAY":
+			case "MAP":
+			case "SET":
+			case "BINARY":
+			case "UNKNOWN":
+			case "ANY":
+				return true;
+			case "OBJECT":
+			case "INTERFACE":
+			case "CLASS":
+				return !type.members?.length && Boolean(type.indexType?.STRING);
+			default:
+				return false;
+		}
+	}
+
+	withBuilder = <ST extends SimpleType>(
+		visitor: (args: VisitorArgs<SimpleTypeCompilerNode, ST> & { builder: SimpleTypeCompilerNodeBuilder }) => SimpleTypeCompilerNode
+	): Visitor<SimpleTypeCompilerNode, ST> => {
+		return args => {
+			const builder = this.compiler.nodeBuilder(args.type, args.path);
+			return visitor({ ...args, builder });
+		};
+	};
+
+	throwUnsupported: Visitor<SimpleTypeCompilerNode> = ({ type }) => {
+		throw new Error(`Unsupported SimpleType kind: ${type.kind}`);
+	};
+
+	stdlibReference(builder: SimpleTypeCompilerNodeBuilder, importPath: string, exportName: string): SimpleTypeCompilerReferenceNode {
+		return builder.reference({
+			location: {
+				fileName: importPath,
+				name: exportName
+			}
+		});
+	}
+
+	toTypeAliasDeclaration(args: VisitorArgs<SimpleTypeCompilerNode>, inner: SimpleTypeCompilerNode): SimpleTypeCompilerNode {
+		if (inner instanceof SimpleTypeCompilerReferenceNode || inner instanceof SimpleTypeCompilerDeclarationNode) {
+			return inner;
+		}
+
+		const builder = this.compiler.nodeBuilder(args.type, args.path);
+		const declarationLocation = this.compiler.assignDeclarationLocation(args.type, args.path);
+		return builder.declaration(declarationLocation, this.withDocComment(builder, "", args.type, builder.node`type ${declarationLocation.name} = ${inner}`));
+	}
+
+	docCommentNode(builder: SimpleTypeCompilerNodeBuilder, indent: string, typeOrMember: SimpleType | SimpleTypeMember): SimpleTypeCompilerNode | undefined {
+		const docComment = this.compiler.getDocumentationComment(typeOrMember)?.docComment;
+		if (docComment) {
+			return builder.node(docComment.split("\n").map(line => `${indent}//${line ? " " + line : ""}`)).joinNodes("\n");
+		}
+	}
+
+	withDocComment(builder: SimpleTypeCompilerNodeBuilder, indent: string, typeOrMember: SimpleType | SimpleTypeMember, inner: SimpleTypeCompilerNode): SimpleTypeCompilerNode {
+		const docCommentNode = this.docCommentNode(builder, indent, typeOrMember);
+		return docCommentNode ? builder.node([docCommentNode, inner]).joinNodes("\n") : inner;
+	}
+
+	compileField(type: SimpleType, path: SimpleTypePath): SimpleTypeCompilerNode {
+		const builder = this.compiler.nodeBuilder(type, path);
+		const member = (SimpleTypePath.last(path) as SimpleTypePathStepNamedMember).member;
+		const goType = builder.reference(this.compiler.compileType(type, path));
+		const tag = `json:${JSON.stringify(member.optional ? `${member.name},omitempty` : member.name)}`;
+		return this.withDocComment(builder, "\t", member, builder.node`\t${this.exportedName(member.name)} ${goType} \`${tag}\``);
+	}
+
+	compileObjectLike: Visitor<SimpleTypeCompilerNode, SimpleTypeObjectLike> = ({ type, path, visit }) => {
+		if (!type.members?.length && type.indexType?.STRING) {
+			const builder = this.compiler.nodeBuilder(type, path);
+			return builder.node`map[string]${builder.reference(Visitor[type.kind].stringIndex({ type, path, visit })) ?? "any"}`;
+		}
+
+		const loc = this.compiler.assignDeclarationLocation(type, path);
+		return this.compiler.withLocation(loc, () => {
+			const builder = this.compiler.nodeBuilder(type, path);
+			const fields = Visitor[type.kind]
+				.mapNamedMembers<SimpleTypeCompilerNode | undefined>({
+					path,
+					type,
+					visit: visit.with(({ type, path }) => (this.dropMemberKinds.has(type.kind) ? undefined : this.compileField(type, path)))
+				})
+				.filter(isDefined);
+			const body = fields.length ? builder.node`struct {\n${builder.node(fields).joinNodes("\n")}\n}` : builder.node`struct{}`;
+			return builder.declaration(loc, this.withDocComment(builder, "", type, builder.node`type ${loc.name} ${body}`));
+		});
+	};
+
+	/**
+	 * Compile an enum-like type to a named type with a constant for each value.
+	 */
+	compileConstants(type: SimpleType, path: SimpleTypePath, underlyingType: string, constants: Array<{ name: string; value: string | number }>): SimpleTypeCompilerNode {
+		const loc = this.compiler.assignDeclarationLocation(type, path);
+		const builder = this.compiler.nodeBuilder(type, path);
+		const constantLines = constants.map(({ name, value }) => `\t${loc.name}${this.exportedName(name)} ${loc.name} = ${JSON.stringify(value)}`);
+		return builder.declaration(loc, this.withDocComment(builder, "", type, builder.node`type ${loc.name} ${underlyingType}\n\nconst (\n${constantLines.join("\n")}\n)`));
+	}
+
+	dropMemberKinds = new Set<SimpleTypeKind>(["FUNCTION", "METHOD"]);
+
+	compileKind: SimpleTypeKindVisitors<SimpleTypeCompilerNode> = {
+		// Literals
+		// Go has no literal types, so literals compile to their primitive type.
+		STRING_LITERAL: this.withBuilder(({ builder }) => builder.node`string`),
+		NUMBER_LITERAL: this.withBuilder(({ builder }) => builder.node`float64`),
+		BOOLEAN_LITERAL: this.withBuilder(({ builder }) => builder.node`bool`),
+		BIG_INT_LITERAL: this.withBuilder(({ builder }) => builder.node`int64`),
+		ES_SYMBOL_UNIQUE: this.throwUnsupported,
+
+		// Primitives
+		BOOLEAN: this.withBuilder(({ builder }) => builder.node`bool`),
+		STRING: this.withBuilder(({ builder }) => builder.node`string`),
+		TEMPLATE_LITERAL: this.withBuilder(({ builder }) => builder.node`string`),
+		STRING_MAPPING: this.withBuilder(({ builder }) => builder.node`string`),
+		BIG_INT: this.withBuilder(({ builder }) => builder.node`int64`),
+		NUMBER: this.withBuilder(({ builder }) => builder.node`float64`),
+
+		// None-like
+		NULL: this.withBuilder(({ builder }) => builder.node`*struct{}`),
+		UNDEFINED: this.withBuilder(({ builder }) => builder.node`*struct{}`),
+		VOID: this.withBuilder(({ builder }) => builder.node`*struct{}`),
+
+		// Top & bottom
+		UNKNOWN: this.withBuilder(({ builder }) => builder.node`any`),
+		ANY: this.withBuilder(({ builder }) => builder.node`any`),
+		NEVER: this.throwUnsupported,
+
+		// Well-known
+		DATE: this.withBuilder(({ builder }) => this.stdlibReference(builder, "time", "Time")),
+		MAP: this.withBuilder(({ builder, type, path, visit }) => {
+			// encoding/json only supports string and integer map keys.
+			const key = type.keyType.kind === "NUMBER" || type.keyType.kind === "NUMBER_LITERAL" ? "int64" : builder.reference(Visitor.MAP.key({ path, type, visit }));
+			const value = builder.reference(Visitor.MAP.value({ path, type, visit }));
+			return builder.node`map[${key}]${value}`;
+		}),
+		SET: this.withBuilder(({ builder, type, path, visit }) => builder.node`[]${builder.reference(Visitor.SET.value({ path, type, visit }))}`),
+		REGEXP: this.withBuilder(({ builder }) => builder.node`string`),
+		URL: this.withBuilder(({ builder }) => builder.node`string`),
+		BINARY: this.withBuilder(({ builder }) => builder.node`[]byte`),
+		ERROR: this.throwUnsupported,
+
+		// Compile instantiated generics instead of copying the whole generic type
+		ALIAS: Visitor.ALIAS.aliased,
+		GENERIC_ARGUMENTS: Visitor.GENERIC_ARGUMENTS.aliased,
+
+		// Algebraic types
+		UNION: this.withBuilder(({ builder, type, path, visit }) => {
+			const nullable = toNullableSimpleType(type);
+			if (nullable.kind === "NULLABLE") {
+				const nonNullable = nullable.type;
+				const inner = builder.reference(visit(undefined, nonNullable));
+				return this.isNilable(nonNullable) ? inner : builder.node`*${inner}`;
+			}
+
+			if (type.types.every(variant => variant.kind === "STRING_LITERAL")) {
+				const values = type.types.map(variant => String(isSimpleTypeLiteral(variant) && variant.value));
+				return this.compileConstants(
+					type,
+					path,
+					"string",
+					values.map(value => ({ name: value, value }))
+				);
+			}
+
+			// Go has no union types.
+			const kinds = new Set(type.types.map(variant => (variant.kind === "BOOLEAN_LITERAL" ? "BOOLEAN" : variant.kind === "NUMBER_LITERAL" ? "NUMBER" : variant.kind)));
+			if (kinds.size === 1 && (kinds.has("BOOLEAN") || kinds.has("NUMBER"))) {
+				return visit(undefined, type.types[0]);
+			}
+			return builder.node`any`;
+		}),
+		INTERSECTION: ({ type, visit }) => {
+			if (!type.intersected) {
+				throw new Error(`Target type system doesn't support intersection types`);
+			}
+			return visit(undefined, type.intersected);
+		},
+
+		// List types
+		ARRAY: this.withBuilder(({ builder, type, path, visit }) => builder.node`[]${builder.reference(Visitor.ARRAY.numberIndex({ path, type, visit }))}`),
+		// JSON arrays with mixed types can only be decoded into []any.
+		TUPLE: this.withBuilder(({ builder }) => builder.node`[]any`),
+
+		// Object
+		INTERFACE: this.compileObjectLike,
+		CLASS: this.compileObjectLike,
+		OBJECT: this.compileObjectLike,
+
+		// Enum
+		ENUM: ({ type, path }) => {
+			const values = type.types.map(member => member.type);
+			if (values.every(value => value.kind === "STRING_LITERAL")) {
+				return this.compileConstants(
+					type,
+					path,
+					"string",
+					type.types.map(member => ({ name: member.name, value: String(isSimpleTypeLiteral(member.type) && member.type.value) }))
+				);
+			}
+			if (values.every(value => value.kind === "NUMBER_LITERAL" && Number.isInteger(value.value))) {
+				return this.compileConstants(
+					type,
+					path,
+					"int",
+					type.types.map(member => ({ name: member.name, value: Number(isSimpleTypeLiteral(member.type) && member.type.value) }))
+				);
+			}
+			throw new Error(`Go enums must have all string or all integer values: ${simpleTypeToString(type)}`);
+		},
+		ENUM_MEMBER: ({ type, visit }) => visit(undefined, type.type),
+
+		// Unsupported
+		FUNCTION: this.throwUnsupported,
+		METHOD: this.throwUnsupported,
+		GENERIC_PARAMETER: this.throwUnsupported,
+		ES_SYMBOL: this.throwUnsupported,
+		NON_PRIMITIVE: this.throwUnsupported,
+		PROMISE: this.throwUnsupported,
+		INDEX: this.throwUnsupported,
+		INDEXED_ACCESS: this.throwUnsupported,
+		CONDITIONAL: this.throwUnsupported
+	};
+}
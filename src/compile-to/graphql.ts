@@ -0,0 +1,526 @@
+import * as path from "path";
+import type * as ts from "typescript";
+import {
+	isSimpleTypeLiteral,
+	SimpleType,
+	SimpleTypeClass,
+	SimpleTypeFunction,
+	SimpleTypeFunctionParameter,
+	SimpleTypeInterface,
+	SimpleTypeKind,
+	SimpleTypeMember,
+	SimpleTypeMethod,
+	SimpleTypeObject,
+	SimpleTypeUnion
+} from "../simple-type";
+import { SimpleTypePath } from "../simple-type-path";
+import {
+	SimpleTypeCompiler,
+	SimpleTypeCompilerDeclarationLocation,
+	SimpleTypeCompilerDeclarationNode,
+	SimpleTypeCompilerNode,
+	SimpleTypeCompilerNodeBuilder,
+	SimpleTypeCompilerReferenceArgs,
+	SimpleTypeCompilerReferenceNode,
+	SimpleTypeCompilerTarget,
+	SimpleTypeCompilerTargetFile
+} from "../transform/compiler";
+import { toNullableSimpleType } from "../transform/inspect-simple-type";
+import { simpleTypeToString } from "../transform/simple-type-to-string";
+import { Writable } from "../transform/to-simple-type";
+import { SimpleTypeKindVisitors, Visitor, VisitorArgs } from "../visitor";
+import { isDefined } from "./thrift";
+
+/**
+ * GraphQL has separate type systems for values returned by the server (`type`)
+ * and values sent by the client as arguments (`input`).
+ */
+export type GraphQLTypeKind = "type" | "input";
+
+type SimpleTypeObjectLike = SimpleTypeObject | SimpleTypeClass | SimpleTypeInterface;
+
+const GRAPHQL_NAME = /^[_A-Za-z][_0-9A-Za-z]*$/;
+
+/**
+ * Compiles types to GraphQL SDL.
+ * To customize the compilation, make a subclass.
+ *
+ * Object types compile to `type` declarations, and their `FUNCTION` or `METHOD`
+ * members compile to fields with arguments. Argument types, and entry points
+ * where {@link getEntryPointKind} returns "input", compile to `input`
+ * declarations with an `Input` suffix.
+ *
+ * Fields are non-null unless their type includes `null` or `undefined`, or
+ * the member is optional.
+ *
+ * https://spec.graphql.org/October2021/#sec-Type-System
+ */
+export class GraphQLCompilerTarget implements SimpleTypeCompilerTarget {
+	static createCompiler<T extends GraphQLCompilerTarget>(this: { new (compiler: SimpleTypeCompiler): T }, typeChecker: ts.TypeChecker): SimpleTypeCompiler {
+		return new SimpleTypeCompiler(typeChecker, compiler => new this(compiler));
+	}
+
+	constructor(public compiler: SimpleTypeCompiler) {}
+
+	/** Input copies of output types, see {@link toInputType} */
+	private inputTypes = new WeakMap<SimpleType, SimpleType>();
+	private isInputType = new WeakSet<SimpleType>();
+	/** Non-nullable halves of nullable unions, so each union declaration is only compiled once */
+	private nonNullableTypes = new WeakMap<SimpleTypeUnion, SimpleType>();
+	/** Custom scalar declarations, by program and scalar name */
+	private scalarDeclarations = new WeakMap<object, Map<string, SimpleTypeCompilerDeclarationNode>>();
+
+	/**
+	 * Choose whether an entry point compiles to an output `type` or an `input`.
+	 * Override this method in a subclass to compile some entry points as inputs.
+	 */
+	getEntryPointKind(_type: SimpleType, _location: SimpleTypeCompilerDeclarationLocation): GraphQLTypeKind {
+		return "type";
+	}
+
+	/** Input types share a namespace with output types, so they need a distinct name. */
+	inputTypeName(name: string): string {
+		return name.endsWith("Input") ? name : `${name}Input`;
+	}
+
+	compileType: Visitor<SimpleTypeCompilerNode, SimpleType> = args => {
+		const { type, path, visit } = args;
+		if (type.error) {
+			throw new Error(`SimpleType kind ${type.kind} has error: ${type.error}`);
+		}
+		const compileTypeKind = this.compileKind[type.kind];
+		if (!compileTypeKind) {
+			throw new ReferenceError(`SimpleType kind ${type.kind} has no compiler defined`);
+		}
+
+		const entryPointLocation = this.compiler.getCurrentProgram().entryPoints.get(type);
+		if (entryPointLocation && !this.isInputType.has(type) && this.getEntryPointKind(type, entryPointLocation) === "input") {
+			const inputType = this.toInputType(type);
+			if (entryPointLocation.name === this.inputTypeName(entryPointLocation.name)) {
+				// The entry point is already named like an input, so the input takes its place.
+				this.compiler.getCurrentProgram().setDeclarationLocation(inputType, entryPointLocation);
+			} else {
+				this.compiler.assignDeclarationLocation(inputType, path, { ...entryPointLocation, name: this.inputTypeName(entryPointLocation.name) });
+			}
+			return visit(undefined, inputType);
+		}
+
+		// GraphQL has no type aliases, so aliases of scalars and lists are inlined rather than declared.
+		return compileTypeKind({ type: type as never, path, visit });
+	};
+
+	compileReference(args: SimpleTypeCompilerReferenceArgs): SimpleTypeCompilerNode {
+		const builder = this.compiler.anonymousNodeBuilder(args.from);
+		return builder.reference(args.to, args.to.location.name);
+	}
+
+	compileFile(file: SimpleTypeCompilerTargetFile): SimpleTypeCompilerNode {
+		const builder = this.compiler.anonymousNodeBuilder();
+
+		const importedNames = new Map<string, Set<string>>();
+		file.references.forEach(ref => {
+			if (ref.fileName === file.fileName) {
+				return;
+			}
+			const names = importedNames.get(ref.fileName) ?? new Set<string>();
+			names.add(ref.name);
+			importedNames.set(ref.fileName, names);
+		});
+
+		// GraphQL has no module system. Document dependencies with graphql-import comments.
+		const imports: string[] = [];
+		for (const [fileName, names] of importedNames) {
+			imports.push(`# import ${Array.from(names).join(", ")} from ${JSON.stringify(path.relative(path.dirname(file.fileName), fileName))}`);
+		}
+
+		return builder.node([imports.length ? builder.node(imports).joinNodes("\n") : undefined, ...file.nodes, builder.node``].filter(isDefined)).joinNodes("\n\n");
+	}
+
+	withBuilder = <ST extends SimpleType>(
+		visitor: (args: VisitorArgs<SimpleTypeCompilerNode, ST> & { builder: SimpleTypeCompilerNodeBuilder }) => SimpleTypeCompilerNode
+	): Visitor<SimpleTypeCompilerNode, ST> => {
+		return args => {
+			const builder = this.compiler.nodeBuilder(args.type, args.path);
+			return visitor({ ...args, builder });
+		};
+	};
+
+	/**
+	 * Derive the `input` version of a type.
+	 * Object types are copied without their callable members, and containers of object types are copied to contain the input copies.
+	 * Types that don't contain objects are the same in both type systems, so they're returned unchanged.
+	 */
+	toInputType(type: SimpleType): SimpleType {
+		const existing = this.inputTypes.get(type);
+		if (existing) {
+			return existing;
+		}
+		// Assume the type is unchanged while we're deriving it, which ends recursion through containers.
+		this.inputTypes.set(type, type);
+
+		let input: Writable<SimpleType> = type;
+		switch (type.kind) {
+			case "INTERFACE":
+			case "OBJECT":
+			case "CLASS": {
+				const object: Writable<SimpleTypeObjectLike> = { ...type, call: undefined, ctor: undefined };
+				this.inputTypes.set(type, object);
+				this.isInputType.add(object);
+				object.members = type.members?.filter(member => !this.dropInputMemberKinds.has(member.type.kind)).map(member => ({ ...member, type: this.toInputType(member.type) }));
+				return object;
+			}
+			case "UNION":
+			case "INTERSECTION": {
+				const types = type.types.map(variant => this.toInputType(variant));
+				const intersected = type.kind === "INTERSECTION" && type.intersected && this.toInputType(type.intersected);
+				if (types.some((variant, i) => variant !== type.types[i]) || (intersected && intersected !== (type.kind === "INTERSECTION" && type.intersected))) {
+					input = { ...type, types, ...(intersected ? { intersected } : {}) };
+				}
+				break;
+			}
+			case "ARRAY":
+			case "PROMISE":
+			case "SET": {
+				const element = this.toInputType(type.type);
+				if (element !== type.type) {
+					input = { ...type, type: element };
+				}
+				break;
+			}
+			case "ALIAS": {
+				const target = this.toInputType(type.target);
+				if (target !== type.target) {
+					input = { ...type, target };
+				}
+				break;
+			}
+			case "GENERIC_ARGUMENTS": {
+				const instantiated = this.toInputType(type.instantiated);
+				if (instantiated !== type.instantiated) {
+					input = { ...type, instantiated };
+				}
+				break;
+			}
+		}
+
+		this.inputTypes.set(type, input);
+		return input;
+	}
+
+	/**
+	 * @returns the type without `null` and `undefined` if it's a nullable union, looking through aliases.
+	 */
+	toNonNullableType(type: SimpleType): SimpleType | undefined {
+		switch (type.kind) {
+			case "ALIAS":
+				return this.toNonNullableType(type.target);
+			case "GENERIC_ARGUMENTS":
+				return this.toNonNullableType(type.instantiated);
+			case "UNION": {
+				const existing = this.nonNullableTypes.get(type);
+				if (existing) {
+					return existing;
+				}
+
+				const nullable = toNullableSimpleType(type);
+				if (nullable.kind !== "NULLABLE") {
+					return undefined;
+				}
+				if (nullable.type.kind === "NEVER") {
+					throw new Error(`GraphQL has no type for ${simpleTypeToString(type)}`);
+				}
+
+				this.nonNullableTypes.set(type, nullable.type);
+				return nullable.type;
+			}
+		}
+	}
+
+	/**
+	 * Compile the type of a field, argument or list element, adding `!` unless it's nullable.
+	 */
+	compileNullableType(type: SimpleType, path: SimpleTypePath, optional: boolean): SimpleTypeCompilerNode {
+		const builder = this.compiler.nodeBuilder(type, path);
+		const nonNullable = this.toNonNullableType(type);
+		const typeNode = builder.reference(this.compiler.compileType(nonNullable ?? type, path));
+		return nonNullable || optional ? typeNode : builder.node`${typeNode}!`;
+	}
+
+	throwUnsupported: Visitor<SimpleTypeCompilerNode> = ({ type }) => {
+		throw new Error(`Unsupported SimpleType kind: ${type.kind}`);
+	};
+
+	compileScalar = (name: string) => this.withBuilder(({ builder }) => builder.node(name));
+
+	/**
+	 * Compile to a custom scalar, which is declared once in the first file that uses it.
+	 */
+	compileCustomScalar =
+		(name: string): Visitor<SimpleTypeCompilerNode> =>
+		({ type, path }) => {
+			const program = this.compiler.getCurrentProgram();
+			const declarations = this.scalarDeclarations.get(program) ?? new Map<string, SimpleTypeCompilerDeclarationNode>();
+			this.scalarDeclarations.set(program, declarations);
+
+			let declaration = declarations.get(name);
+			if (!declaration) {
+				const currentLocation = this.compiler.getCurrentLocation();
+				const loc = this.compiler.assignDeclarationLocation(type, path, { fileName: currentLocation?.fileName ?? "<no destination file specified>", name });
+				declaration = this.compiler.nodeBuilder(type, path).declaration(loc, `scalar ${loc.name}`);
+				declarations.set(name, declaration);
+			}
+			return declaration;
+		};
+
+	compileObjectLike: Visitor<SimpleTypeCompilerNode, SimpleTypeObjectLike> = ({ type, path, visit }) => {
+		const input = this.isInputType.has(type);
+		const currentLocation = this.compiler.getCurrentLocation();
+		const loc =
+			input && currentLocation
+				? this.compiler.assignDeclarationLocation(type, path, { ...currentLocation, name: this.inputTypeName(this.compiler.inferTypeName(type, path)) })
+				: this.compiler.assignDeclarationLocation(type, path);
+
+		return this.compiler.withLocation(loc, () => {
+			const builder = this.compiler.nodeBuilder(type, path);
+			const fields = this.filterMembers(
+				Visitor[type.kind].mapNamedMembers<SimpleTypeCompilerNode>({
+					path,
+					type,
+					visit: visit.with(this.compileField)
+				})
+			);
+
+			if (fields.length === 0) {
+				throw new Error(`GraphQL ${input ? "input" : "type"} ${loc.name} must have at least one field`);
+			}
+
+			return builder.declaration(loc, this.withDescription(type, path, "", builder.node`${input ? "input" : "type"} ${loc.name} {\n${builder.node(fields).joinNodes("\n")}\n}`));
+		});
+	};
+
+	/**
+	 * Compiles a member of a `type` or `input` declaration.
+	 * Callable members compile to fields with arguments that return the awaited return type.
+	 * Callable members that return `void` or `undefined` return a nullable `Boolean`.
+	 */
+	compileField: Visitor<SimpleTypeCompilerNode> = ({ type, path }) => {
+		const step = SimpleTypePath.lastMustBe(path, "NAMED_MEMBER");
+		const builder = this.compiler.nodeBuilder(type, path);
+		const name = this.fieldName(step.member.name);
+
+		let field: SimpleTypeCompilerNode;
+		if (type.kind === "FUNCTION" || type.kind === "METHOD") {
+			const args = this.compileArguments(type, path);
+			// GraphQL fields must return a value, so fields that return nothing, like mutations, return a nullable Boolean.
+			const returnType = type.returnType && this.awaited(type.returnType);
+			const returnNode =
+				returnType && returnType.kind !== "VOID" && returnType.kind !== "UNDEFINED"
+					? this.compileNullableType(returnType, SimpleTypePath.concat(path, { step: "RETURN", from: type }), false)
+					: builder.node`Boolean`;
+			field = builder.node`  ${name}${args ?? ""}: ${returnNode}`;
+		} else {
+			field = builder.node`  ${name}: ${this.compileNullableType(type, path, Boolean(step.member.optional))}`;
+		}
+
+		return this.withDescription(step.member, path, "  ", builder.node([field, this.deprecatedDirective(step.member)].filter(isDefined)));
+	};
+
+	compileArguments(type: SimpleTypeFunction | SimpleTypeMethod, path: SimpleTypePath): SimpleTypeCompilerNode | undefined {
+		const parameters = type.parameters ?? [];
+		if (parameters.length === 0) {
+			return undefined;
+		}
+
+		const builder = this.compiler.nodeBuilder(type, path);
+		const args = parameters.map((parameter, index) => {
+			if (parameter.rest) {
+				throw new Error(`GraphQL arguments can't be rest parameters: ...${parameter.name}`);
+			}
+			const parameterPath = SimpleTypePath.concat(path, { step: "PARAMETER", from: type, index, parameter });
+			return builder.node`${this.fieldName(parameter.name)}: ${this.compileNullableType(this.toInputType(parameter.type), parameterPath, this.isOptionalParameter(parameter))}`;
+		});
+		return builder.node`(${builder.node(args).joinNodes(", ")})`;
+	}
+
+	isOptionalParameter(parameter: SimpleTypeFunctionParameter): boolean {
+		return parameter.optional || parameter.initializer;
+	}
+
+	/** Resolvers may return promises, which GraphQL awaits. */
+	awaited(type: SimpleType): SimpleType {
+		return type.kind === "PROMISE" ? this.awaited(type.type) : type;
+	}
+
+	fieldName(name: string): string {
+		if (!GRAPHQL_NAME.test(name)) {
+			throw new Error(`Not a valid GraphQL name: ${JSON.stringify(name)}`);
+		}
+		return name;
+	}
+
+	description(typeOrMember: SimpleType | SimpleTypeMember): string | undefined {
+		return this.compiler.getDocumentationComment(typeOrMember)?.docComment;
+	}
+
+	withDescription(typeOrMember: SimpleType | SimpleTypeMember, path: SimpleTypePath, indent: string, inner: SimpleTypeCompilerNode): SimpleTypeCompilerNode {
+		const description = this.description(typeOrMember);
+		if (!description) {
+			return inner;
+		}
+
+		const builder = this.compiler.anonymousNodeBuilder();
+		const lines = description.replace(/"""/g, '\\"""').split("\n");
+		const descriptionNode = lines.length === 1 ? `${indent}${JSON.stringify(description)}` : [`${indent}"""`, ...lines.map(line => `${indent}${line}`), `${indent}"""`].join("\n");
+		return builder.node([descriptionNode, inner]).joinNodes("\n");
+	}
+
+	/**
+	 * Translate a `@deprecated` JSDoc tag to a `@deprecated` directive.
+	 */
+	deprecatedDirective(member: SimpleTypeMember): string | undefined {
+		const tags = this.compiler.getDocumentationComment(member)?.jsDocTags;
+		if (!tags?.has("deprecated")) {
+			return undefined;
+		}
+		const reason = tags.get("deprecated");
+		return reason ? ` @deprecated(reason: ${JSON.stringify(reason)})` : ` @deprecated`;
+	}
+
+	dropMemberKinds = new Set<SimpleTypeKind>([]);
+	dropInputMemberKinds = new Set<SimpleTypeKind>(["FUNCTION", "METHOD"]);
+	private filterMembers = (members: SimpleTypeCompilerNode[]) => members.filter(node => !(node.type?.kind && this.dropMemberKinds.has(node.type.kind)));
+
+	compileLiteralUnion(type: SimpleTypeUnion, path: SimpleTypePath): SimpleTypeCompilerNode {
+		if (type.types.every(variant => variant.kind === "NUMBER_LITERAL")) {
+			return this.compiler.nodeBuilder(type, path).node(type.types.every(variant => variant.kind === "NUMBER_LITERAL" && Number.isInteger(variant.value)) ? "Int" : "Float");
+		}
+		if (type.types.every(variant => variant.kind === "BOOLEAN_LITERAL")) {
+			return this.compiler.nodeBuilder(type, path).node("Boolean");
+		}
+		if (!type.types.every(variant => variant.kind === "STRING_LITERAL")) {
+			throw new Error(`GraphQL enums can only contain strings: ${simpleTypeToString(type)}`);
+		}
+
+		const loc = this.compiler.assignDeclarationLocation(type, path);
+		const builder = this.compiler.nodeBuilder(type, path);
+		const values = type.types.map(variant => `  ${this.fieldName(String(isSimpleTypeLiteral(variant) && variant.value))}`);
+		return builder.declaration(loc, this.withDescription(type, path, "", builder.node`enum ${loc.name} {\n${builder.node(values).joinNodes("\n")}\n}`));
+	}
+
+	compileKind: SimpleTypeKindVisitors<SimpleTypeCompilerNode> = {
+		// Literals
+		STRING_LITERAL: this.compileScalar("String"),
+		NUMBER_LITERAL: this.withBuilder(({ builder, type }) => builder.node(Number.isInteger(type.value) ? "Int" : "Float")),
+		BOOLEAN_LITERAL: this.compileScalar("Boolean"),
+		BIG_INT_LITERAL: this.compileCustomScalar("BigInt"),
+
+		// Primitives
+		BOOLEAN: this.compileScalar("Boolean"),
+		STRING: this.compileScalar("String"),
+		TEMPLATE_LITERAL: this.compileScalar("String"),
+		STRING_MAPPING: this.compileScalar("String"),
+		BIG_INT: this.compileCustomScalar("BigInt"),
+		NUMBER: this.compileScalar("Float"),
+
+		// Top
+		UNKNOWN: this.compileCustomScalar("JSON"),
+		ANY: this.compileCustomScalar("JSON"),
+
+		// Well-known
+		DATE: this.compileCustomScalar("DateTime"),
+		PROMISE: ({ type, visit }) => visit(undefined, this.awaited(type)),
+		MAP: this.compileCustomScalar("JSON"),
+		SET: this.withBuilder(({ builder, type, path }) => builder.node`[${this.compileNullableType(type.type, path, false)}]`),
+		REGEXP: this.compileScalar("String"),
+		URL: this.compileCustomScalar("URL"),
+
+		// Compile instantiated generics instead of copying the whole generic type
+		ALIAS: Visitor.ALIAS.aliased,
+		GENERIC_ARGUMENTS: Visitor.GENERIC_ARGUMENTS.aliased,
+
+		// Algebraic types
+		UNION: ({ type, path, visit }) => {
+			const nonNullable = this.toNonNullableType(type);
+			if (nonNullable) {
+				return visit(undefined, nonNullable);
+			}
+
+			if (type.types.every(isSimpleTypeLiteral)) {
+				return this.compileLiteralUnion(type, path);
+			}
+
+			if (this.isInputType.has(type) || type.types.some(variant => this.isInputType.has(variant))) {
+				throw new Error(`GraphQL input types can't be unions: ${simpleTypeToString(type)}`);
+			}
+
+			const loc = this.compiler.assignDeclarationLocation(type, path);
+			const builder = this.compiler.nodeBuilder(type, path);
+			const variants = Visitor.UNION.mapVariants<SimpleTypeCompilerNode>({
+				path,
+				type,
+				visit: visit.with(({ type, path }) => {
+					const variant = this.compiler.compileType(type, path);
+					if (!(variant instanceof SimpleTypeCompilerDeclarationNode || variant instanceof SimpleTypeCompilerReferenceNode)) {
+						throw new Error(`GraphQL unions can only contain object types: ${simpleTypeToString(type)}`);
+					}
+					return this.compiler.nodeBuilder(type, path).reference(variant);
+				})
+			});
+			return builder.declaration(loc, this.withDescription(type, path, "", builder.node`union ${loc.name} = ${builder.node(variants).joinNodes(" | ")}`));
+		},
+		INTERSECTION: ({ type, visit }) => {
+			if (!type.intersected) {
+				throw new Error(`Target type system doesn't support intersection types`);
+			}
+			return visit(undefined, type.intersected);
+		},
+
+		// List types
+		ARRAY: this.withBuilder(({ builder, type, path }) => builder.node`[${this.compileNullableType(type.type, SimpleTypePath.concat(path, { step: "NUMBER_INDEX", from: type }), false)}]`),
+
+		// Object
+		INTERFACE: this.compileObjectLike,
+		CLASS: this.compileObjectLike,
+		OBJECT: this.compileObjectLike,
+
+		// Enum
+		ENUM: ({ type, path, visit }) => {
+			const loc = this.compiler.assignDeclarationLocation(type, path);
+			return this.compiler.withLocation(loc, () => {
+				const builder = this.compiler.nodeBuilder(type, path);
+				const values = Visitor.ENUM.mapVariants<SimpleTypeCompilerNode>({
+					path,
+					type,
+					visit: visit.with(({ type, path }) => {
+						if (type.kind !== "ENUM_MEMBER") {
+							throw new Error(`Non ENUM_MEMBER in ENUM`);
+						}
+						return this.withDescription(type, path, "  ", this.compiler.nodeBuilder(type, path).node`  ${this.fieldName(type.name)}`);
+					})
+				});
+				return builder.declaration(loc, this.withDescription(type, path, "", builder.node`enum ${loc.name} {\n${builder.node(values).joinNodes("\n")}\n}`));
+			});
+		},
+		ENUM_MEMBER: ({ type, visit }) => visit(undefined, type.type),
+
+		// Callable
+		FUNCTION: this.throwUnsupported,
+		METHOD: this.throwUnsupported,
+
+		// Unsupported
+		NULL: this.throwUnsupported,
+		UNDEFINED: this.throwUnsupported,
+		VOID: this.throwUnsupported,
+		NEVER: this.throwUnsupported,
+		ES_SYMBOL: this.throwUnsupported,
+		ES_SYMBOL_UNIQUE: this.throwUnsupported,
+		NON_PRIMITIVE: this.throwUnsupported,
+		ERROR: this.throwUnsupported,
+		BINARY: this.throwUnsupported,
+		TUPLE: this.throwUnsupported,
+		GENERIC_PARAMETER: this.throwUnsupported,
+		INDEX: this.throwUnsupported,
+		INDEXED_ACCESS: this.throwUnsupported,
+		CONDITIONAL: this.throwUnsupported
+	};
+}
@@ -1,7 +1,18 @@
 import { SchemaOptions, TAnySchema, Type as ST } from "@sinclair/typebox";
 import * as path from "path";
 import type * as ts from "typescript";
-import { isSimpleTypeLiteral, SimpleType, SimpleTypeClass, SimpleTypeInterface, SimpleTypeKind, SimpleTypeLiteral, SimpleTypeObject } from "../simple-type";
+import {
+	isSimpleTypeLiteral,
+	SimpleType,
+	SimpleTypeClass,
+	SimpleTypeInterface,
+	SimpleTypeKind,
+	SimpleTypeLiteral,
+	SimpleTypeMember,
+	SimpleTypeObject,
+	SimpleTypeTemplateLiteral
+} from "../simple-type";
+import { isAssignableToSimpleTypeKind } from "../is-assignable/is-assignable-to-simple-type-kind";
 import { SimpleTypePath } from "../simple-type-path";
 import {
 	SimpleTypeCompiler,
@@ -15,6 +26,7 @@ import {
 	SimpleTypeCompilerTarget,
 	SimpleTypeCompilerTargetFile
 } from "../transform/compiler";
+import { templateLiteralToRegExpSource } from "../utils/simple-type-util";
 import { SimpleTypeKindVisitors, Visitor, VisitorArgs } from "../visitor";
 
 // TODO: extract more common features? Not sure if an inheritance hierarchy here is a good idea.
@@ -35,7 +47,7 @@ class BaseCompilerTarget {
 export class JSONSchemaCompilerTarget extends BaseCompilerTarget implements SimpleTypeCompilerTarget {
 	private nodeToJsonSchema = new Map<SimpleTypeCompilerNode, TAnySchema>();
 
-	private withSchema<T extends SimpleTypeCompilerNode>(node: T, schema: TAnySchema): T {
+	protected withSchema<T extends SimpleTypeCompilerNode>(node: T, schema: TAnySchema): T {
 		const existing = this.nodeToJsonSchema.get(node);
 		if (existing) {
 			throw new Error(`Node ${node} already has a schema: ${JSON.stringify(existing)} (new: ${JSON.stringify(schema)})`);
@@ -44,7 +56,7 @@ export class JSONSchemaCompilerTarget extends BaseCompilerTarget implements Simp
 		return node;
 	}
 
-	private mustGetSchema = (node: SimpleTypeCompilerNode): TAnySchema => {
+	protected mustGetSchema = (node: SimpleTypeCompilerNode): TAnySchema => {
 		const schema = this.nodeToJsonSchema.get(node);
 		if (!schema) {
 			const { type, path } = node;
@@ -193,7 +205,9 @@ export class JSONSchemaCompilerTarget extends BaseCompilerTarget implements Simp
 				visit: visit.with(({ type, path }) => {
 					const step = SimpleTypePath.lastMustBe(path, "NAMED_MEMBER");
 					const innerNode = this.compiler.compileType(type, path);
-					const schema = step.member.optional ? ST.Optional(this.mustGetSchema(innerNode)) : this.mustGetSchema(innerNode);
+					const memberOptions = this.dropMemberKinds.has(type.kind) ? {} : this.getJsDocSchemaOptions(step.member, path);
+					const innerSchema = Object.keys(memberOptions).length ? { ...this.mustGetSchema(innerNode), ...memberOptions } : this.mustGetSchema(innerNode);
+					const schema = step.member.optional ? ST.Optional(innerSchema) : innerSchema;
 					const node: SimpleTypeCompilerNode = this.withSchema(this.compiler.nodeBuilder(type, path).node(innerNode), schema);
 					node.name = step.member.name;
 					return node;
@@ -239,9 +253,82 @@ export class JSONSchemaCompilerTarget extends BaseCompilerTarget implements Simp
 			options.description = docInfo.docComment;
 		}
 
+		return { ...options, ...this.getJsDocSchemaOptions(type, path) };
+	}
+
+	/**
+	 * Map the JSDoc tags of a type or member to JSON Schema keywords with {@link jsDocTagSchemaOptions}.
+	 * Unknown tags and tags with invalid values are reported with {@link SimpleTypeCompiler#reportDiagnostic}.
+	 */
+	getJsDocSchemaOptions(typeOrMember: SimpleType | SimpleTypeMember, path: SimpleTypePath): SchemaOptions {
+		const options: SchemaOptions = {};
+		const jsDocTags = this.compiler.getDocumentationComment(typeOrMember)?.jsDocTags ?? new Map<string, string | undefined>();
+		for (const [tagName, text = ""] of jsDocTags) {
+			const getOptions = this.jsDocTagSchemaOptions.get(tagName);
+			if (!getOptions) {
+				if (!this.documentationJsDocTags.has(tagName)) {
+					this.compiler.reportDiagnostic(typeOrMember, path, `Unknown JSDoc tag @${tagName}`);
+				}
+				continue;
+			}
+
+			try {
+				Object.assign(options, getOptions(text.trim()));
+			} catch (error) {
+				this.compiler.reportDiagnostic(typeOrMember, path, `Invalid JSDoc tag @${tagName}: ${error instanceof Error ? error.message : error}`);
+			}
+		}
 		return options;
 	}
 
+	/**
+	 * JSDoc tags that map to JSON Schema keywords, like `@minimum 0` or `@format email`.
+	 * Each function parses the tag's text, and throws if the text is invalid.
+	 */
+	jsDocTagSchemaOptions = new Map<string, (text: string) => SchemaOptions>([
+		["minimum", text => ({ minimum: parseNumberTag(text) })],
+		["maximum", text => ({ maximum: parseNumberTag(text) })],
+		["exclusiveMinimum", text => ({ exclusiveMinimum: parseNumberTag(text) })],
+		["exclusiveMaximum", text => ({ exclusiveMaximum: parseNumberTag(text) })],
+		["multipleOf", text => ({ multipleOf: parseNumberTag(text) })],
+		["minLength", text => ({ minLength: parseNumberTag(text) })],
+		["maxLength", text => ({ maxLength: parseNumberTag(text) })],
+		["minItems", text => ({ minItems: parseNumberTag(text) })],
+		["maxItems", text => ({ maxItems: parseNumberTag(text) })],
+		["pattern", text => ({ pattern: parsePatternTag(text) })],
+		["format", text => ({ format: parseStringTag(text) })],
+		["default", text => ({ default: parseJsonTag(text) })],
+		["defaultValue", text => ({ default: parseJsonOrTextTag(text) })],
+		["example", text => ({ examples: [parseJsonOrTextTag(text)] })],
+		["deprecated", () => ({ deprecated: true })]
+	]);
+
+	/** JSDoc and TSDoc tags that only document the source, so they don't need a JSON Schema keyword. */
+	documentationJsDocTags = new Set([
+		"see",
+		"since",
+		"remarks",
+		"privateRemarks",
+		"author",
+		"todo",
+		"internal",
+		"public",
+		"alpha",
+		"beta",
+		"experimental",
+		"readonly",
+		"sealed",
+		"virtual",
+		"override",
+		"inheritDoc",
+		"link",
+		"label",
+		"typeParam",
+		"param",
+		"returns",
+		"throws"
+	]);
+
 	dropMemberKinds = new Set<SimpleTypeKind>(["FUNCTION", "METHOD"]);
 	private filterMembers = (members: SimpleTypeCompilerNode[]) => members.filter(node => !(node.type?.kind && this.dropMemberKinds.has(node.type.kind)));
 
@@ -271,6 +358,8 @@ export class JSONSchemaCompilerTarget extends BaseCompilerTarget implements Simp
 		STRING: this.asSchema(() => ST.String()),
 		BIG_INT: this.asSchema(() => ST.Integer()),
 		NUMBER: this.asSchema(() => ST.Number()),
+		TEMPLATE_LITERAL: this.asSchema<SimpleTypeTemplateLiteral>(({ type, path }) => ST.String({ ...this.getSchemaOptions(type, path), pattern: `^${templateLiteralToRegExpSource(type)}$` })),
+		STRING_MAPPING: this.asSchema(() => ST.String()),
 
 		// None-like
 		NULL: this.asSchema(() => ST.Null()),
@@ -284,6 +373,26 @@ export class JSONSchemaCompilerTarget extends BaseCompilerTarget implements Simp
 
 		// Well-known
 		DATE: this.throwUnsupported,
+		MAP: this.asSchema(({ type, path, visit }) => {
+			// JSON object keys are always strings, so only string-like key types narrow the property names
+			const value = Visitor.MAP.value({ type, path, visit });
+			const key = type.keyType.kind !== "STRING" && isAssignableToSimpleTypeKind(type.keyType, STRING_KEY_KINDS) ? Visitor.MAP.key({ type, path, visit }) : undefined;
+			const schema = ST.Unsafe({
+				...this.getSchemaOptions(type, path),
+				type: "object",
+				...(key ? { propertyNames: this.mustGetSchema(key) } : {}),
+				additionalProperties: this.mustGetSchema(value)
+			});
+			return [schema, [key, value].filter(isDefined)];
+		}),
+		SET: this.asSchema(({ type, path, visit }) => {
+			const inner = Visitor.SET.value({ type, path, visit });
+			return [ST.Array(this.mustGetSchema(inner), { ...this.getSchemaOptions(type, path), uniqueItems: true }), [inner]];
+		}),
+		REGEXP: this.asSchema(({ type, path }) => ST.String({ ...this.getSchemaOptions(type, path), format: "regex" })),
+		URL: this.asSchema(({ type, path }) => ST.String({ ...this.getSchemaOptions(type, path), format: "uri" })),
+		BINARY: this.asSchema(({ type, path }) => ST.String({ ...this.getSchemaOptions(type, path), contentEncoding: "base64" })),
+		ERROR: this.asSchema(({ type, path }) => ST.Object({ name: ST.String(), message: ST.String(), stack: ST.Optional(ST.String()) }, this.getSchemaOptions(type, path))),
 
 		// Compile instantiated generics instead of copying the whole generic type
 		ALIAS: Visitor.ALIAS.aliased,
@@ -337,10 +446,52 @@ export class JSONSchemaCompilerTarget extends BaseCompilerTarget implements Simp
 		GENERIC_PARAMETER: this.throwUnsupported,
 		ES_SYMBOL: this.throwUnsupported,
 		NON_PRIMITIVE: this.throwUnsupported,
-		PROMISE: this.throwUnsupported
+		PROMISE: this.throwUnsupported,
+		INDEX: this.throwUnsupported,
+		INDEXED_ACCESS: this.throwUnsupported,
+		CONDITIONAL: this.throwUnsupported
 	};
 }
 
+const STRING_KEY_KINDS: SimpleTypeKind[] = ["STRING", "STRING_LITERAL", "TEMPLATE_LITERAL", "STRING_MAPPING"];
+
+function parseNumberTag(text: string): number {
+	const value = Number(text);
+	if (text === "" || Number.isNaN(value)) {
+		throw new Error(`${JSON.stringify(text)} is not a number`);
+	}
+	return value;
+}
+
+function parseStringTag(text: string): string {
+	if (text === "") {
+		throw new Error("expected a value");
+	}
+	return text;
+}
+
+function parsePatternTag(text: string): string {
+	new RegExp(parseStringTag(text), "u");
+	return text;
+}
+
+function parseJsonTag(text: string): unknown {
+	try {
+		return JSON.parse(text);
+	} catch {
+		throw new Error(`${JSON.stringify(text)} is not JSON`);
+	}
+}
+
+/** Text that isn't JSON is a string, like `@example ada@example.com`, as in `generateValue`. */
+function parseJsonOrTextTag(text: string): unknown {
+	try {
+		return JSON.parse(text);
+	} catch {
+		return text;
+	}
+}
+
 export function isDefined<T>(value: T | undefined): value is T {
 	return value !== undefined;
 }
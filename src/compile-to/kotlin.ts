@@ -0,0 +1,461 @@
+import * as path from "path";
+import type * as ts from "typescript";
+import { isSimpleTypeLiteral, SimpleType, SimpleTypeClass, SimpleTypeEnum, SimpleTypeInterface, SimpleTypeKind, SimpleTypeMember, SimpleTypeObject, SimpleTypeUnion } from "../simple-type";
+import { SimpleTypePath, SimpleTypePathStepNamedMember } from "../simple-type-path";
+import {
+	SimpleTypeCompiler,
+	SimpleTypeCompilerDeclarationNode,
+	SimpleTypeCompilerNode,
+	SimpleTypeCompilerNodeBuilder,
+	SimpleTypeCompilerReferenceArgs,
+	SimpleTypeCompilerReferenceNode,
+	SimpleTypeCompilerTarget,
+	SimpleTypeCompilerTargetFile
+} from "../transform/compiler";
+import { toEnumTaggedUnion, toNullableSimpleType, unionAsEnums } from "../transform/inspect-simple-type";
+import { simpleTypeToString } from "../transform/simple-type-to-string";
+import { SimpleTypeKindVisitors, Visitor, VisitorArgs } from "../visitor";
+import { isDefined } from "./thrift";
+
+type SimpleTypeObjectLike = SimpleTypeObject | SimpleTypeClass | SimpleTypeInterface;
+
+/** https://kotlinlang.org/docs/keyword-reference.html#hard-keywords */
+const KOTLIN_KEYWORDS = new Set([
+	"as",
+	"break",
+	"class",
+	"continue",
+	"do",
+	"else",
+	"false",
+	"for",
+	"fun",
+	"if",
+	"in",
+	"interface",
+	"is",
+	"null",
+	"object",
+	"package",
+	"return",
+	"super",
+	"this",
+	"throw",
+	"true",
+	"try",
+	"typealias",
+	"typeof",
+	"val",
+	"var",
+	"when",
+	"while"
+]);
+
+const KOTLIN_IDENTIFIER = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+/** Split a name or literal value into words, at separators and camelCase boundaries. */
+function words(name: string): string[] {
+	return name
+		.replace(/([a-z0-9])([A-Z])/g, "$1 $2")
+		.split(/[^A-Za-z0-9]+/)
+		.filter(Boolean);
+}
+
+/**
+ * Compiles types to Kotlin classes that (de)serialize with kotlinx.serialization.
+ * To customize the compilation, make a subclass.
+ *
+ * Object types compile to `@Serializable data class`es. Nullable members
+ * compile to `T?`, and optional members default to `null`. String literal
+ * unions compile to `enum class`es, and discriminated unions compile to
+ * `sealed class`es with a subclass for each variant.
+ *
+ * Each output file's package is named after its directory.
+ *
+ * https://github.com/Kotlin/kotlinx.serialization/blob/master/docs/serialization-guide.md
+ */
+export class KotlinCompilerTarget implements SimpleTypeCompilerTarget {
+	static createCompiler<T extends KotlinCompilerTarget>(this: { new (compiler: SimpleTypeCompiler): T }, typeChecker: ts.TypeChecker): SimpleTypeCompiler {
+		return new SimpleTypeCompiler(typeChecker, compiler => new this(compiler));
+	}
+
+	constructor(public compiler: SimpleTypeCompiler) {}
+
+	/** String enums split out of literal unions, so each enum is only compiled once */
+	private unionEnums = new WeakMap<SimpleTypeUnion, SimpleTypeEnum>();
+
+	compileType: Visitor<SimpleTypeCompilerNode, SimpleType> = args => {
+		const { type, path, visit } = args;
+		if (type.error) {
+			throw new Error(`SimpleType kind ${type.kind} has error: ${type.error}`);
+		}
+		const compileTypeKind = this.compileKind[type.kind];
+		if (!compileTypeKind) {
+			throw new ReferenceError(`SimpleType kind ${type.kind} has no compiler defined`);
+		}
+
+		const typeExpression = compileTypeKind({ type: type as never, path, visit });
+		if (this.compiler.isExportedFromSourceLocation(args.type)) {
+			return this.toTypeAliasDeclaration(args, typeExpression);
+		} else {
+			return typeExpression;
+		}
+	};
+
+	compileReference(args: SimpleTypeCompilerReferenceArgs): SimpleTypeCompilerNode {
+		const builder = this.compiler.anonymousNodeBuilder(args.from);
+		const location = args.to.location;
+		// References to other packages are imported by compileFile.
+		return builder.reference(args.to, [...(location.namespace || []), location.name].join("."));
+	}
+
+	compileFile(file: SimpleTypeCompilerTargetFile): SimpleTypeCompilerNode {
+		const builder = this.compiler.anonymousNodeBuilder();
+		const packageName = this.getKotlinPackage(file.fileName);
+
+		const imports = new Set<string>();
+		file.references.forEach(ref => {
+			const refPackage = this.getKotlinPackage(ref.fileName);
+			if (refPackage !== packageName) {
+				imports.add(`import ${refPackage}.${ref.namespace?.[0] ?? ref.name}`);
+			}
+		});
+
+		const packageNode = packageName ? builder.node`package ${packageName}` : undefined;
+		const importsNode = imports.size ? builder.node(Array.from(imports).sort()).joinNodes("\n") : undefined;
+		return builder.node([packageNode, importsNode, ...file.nodes, builder.node``].filter(isDefined)).joinNodes("\n\n");
+	}
+
+	/**
+	 * The package of an output file, which is named after its directory.
+	 * Library references use their package as the file name, like `kotlinx.serialization`.
+	 */
+	getKotlinPackage(outputFileName: string): string {
+		if (path.extname(outputFileName) !== ".kt") {
+			return outputFileName;
+		}
+		const dir = path.dirname(outputFileName);
+		return dir === "." ? "" : dir.split(path.sep).join(".");
+	}
+
+	/** Convert a Typescript member name to a Kotlin property name. */
+	propertyName(name: string): string {
+		if (!KOTLIN_IDENTIFIER.test(name)) {
+			const [first = "", ...rest] = words(name);
+			name = first.toLowerCase() + rest.map(word => word.charAt(0).toUpperCase() + word.slice(1)).join("");
+			name = /^[A-Za-z_]/.test(name) ? name : `_${name}`;
+		}
+		return KOTLIN_KEYWORDS.has(name) ? `\`${name}\`` : name;
+	}
+
+	/** Convert a literal value to an UPPER_SNAKE_CASE enum constant name. */
+	enumConstantName(value: string): string {
+		const name = words(value)
+			.map(word => word.toUpperCase())
+			.join("_");
+		return /^[A-Za-z_]/.test(name) ? name : `_${name}`;
+	}
+
+	/** Convert a literal value to a PascalCase class name. */
+	className(value: string): string {
+		const name = words(value)
+			.map(word => word.charAt(0).toUpperCase() + word.slice(1))
+			.join("");
+		return /^[A-Za-z_]/.test(name) ? name : `_${name}`;
+	}
+
+	withBuilder = <ST extends SimpleType>(
+		visitor: (args: VisitorArgs<SimpleTypeCompilerNode, ST> & { builder: SimpleTypeCompilerNodeBuilder }) => SimpleTypeCompilerNode
+	): Visitor<SimpleTypeCompilerNode, ST> => {
+		return args => {
+			const builder = this.compiler.nodeBuilder(args.type, args.path);
+			return visitor({ ...args, builder });
+		};
+	};
+
+	throwUnsupported: Visitor<SimpleTypeCompilerNode> = ({ type }) => {
+		throw new Error(`Unsupported SimpleType kind: ${type.kind}`);
+	};
+
+	libraryReference(builder: SimpleTypeCompilerNodeBuilder, packageName: string, exportName: string): SimpleTypeCompilerReferenceNode {
+		return builder.reference({
+			location: {
+				fileName: packageName,
+				name: exportName
+			}
+		});
+	}
+
+	serializable(builder: SimpleTypeCompilerNodeBuilder): SimpleTypeCompilerNode {
+		return builder.node`@${this.libraryReference(builder, "kotlinx.serialization", "Serializable")}`;
+	}
+
+	/** A `@SerialName` annotation, if the Kotlin name differs from the serialized name. */
+	serialName(builder: SimpleTypeCompilerNodeBuilder, kotlinName: string, serializedName: string): SimpleTypeCompilerNode | string {
+		if (kotlinName.replace(/`/g, "") === serializedName) {
+			return "";
+		}
+		return builder.node`@${this.libraryReference(builder, "kotlinx.serialization", "SerialName")}(${JSON.stringify(serializedName)}) `;
+	}
+
+	jsonElement(builder: SimpleTypeCompilerNodeBuilder): SimpleTypeCompilerNode {
+		return this.libraryReference(builder, "kotlinx.serialization.json", "JsonElement");
+	}
+
+	toTypeAliasDeclaration(args: VisitorArgs<SimpleTypeCompilerNode>, inner: SimpleTypeCompilerNode): SimpleTypeCompilerNode {
+		if (inner instanceof SimpleTypeCompilerReferenceNode || inner instanceof SimpleTypeCompilerDeclarationNode) {
+			return inner;
+		}
+
+		const builder = this.compiler.nodeBuilder(args.type, args.path);
+		const declarationLocation = this.compiler.assignDeclarationLocation(args.type, args.path);
+		return builder.declaration(declarationLocation, this.withDocComment(builder, "", args.type, builder.node`typealias ${declarationLocation.name} = ${inner}`));
+	}
+
+	docCommentNode(builder: SimpleTypeCompilerNodeBuilder, indent: string, typeOrMember: SimpleType | SimpleTypeMember): SimpleTypeCompilerNode | undefined {
+		const docComment = this.compiler.getDocumentationComment(typeOrMember)?.docComment;
+		if (docComment) {
+			const lines = docComment.split("\n").map(line => `${indent} *${line ? " " + line : ""}`);
+			return builder.node([`${indent}/**`, ...lines, `${indent} */`]).joinNodes("\n");
+		}
+	}
+
+	withDocComment(builder: SimpleTypeCompilerNodeBuilder, indent: string, typeOrMember: SimpleType | SimpleTypeMember, inner: SimpleTypeCompilerNode): SimpleTypeCompilerNode {
+		const docCommentNode = this.docCommentNode(builder, indent, typeOrMember);
+		return docCommentNode ? builder.node([docCommentNode, inner]).joinNodes("\n") : inner;
+	}
+
+	/**
+	 * Compile the members of an object type to constructor properties.
+	 */
+	compileProperties(args: VisitorArgs<SimpleTypeCompilerNode, SimpleTypeObjectLike>, indent: string, skipMember?: string): SimpleTypeCompilerNode[] {
+		const { type, path, visit } = args;
+		return Visitor[type.kind]
+			.mapNamedMembers<SimpleTypeCompilerNode | undefined>({
+				path,
+				type,
+				visit: visit.with(({ type, path }) => {
+					const member = (SimpleTypePath.last(path) as SimpleTypePathStepNamedMember).member;
+					if (member.name === skipMember || this.dropMemberKinds.has(type.kind)) {
+						return undefined;
+					}
+					return this.compileProperty(type, path, member, indent);
+				})
+			})
+			.filter(isDefined);
+	}
+
+	compileProperty(type: SimpleType, path: SimpleTypePath, member: SimpleTypeMember & { name: string }, indent: string): SimpleTypeCompilerNode {
+		const builder = this.compiler.nodeBuilder(type, path);
+		const nullable = type.kind === "UNION" && toNullableSimpleType(type).kind === "NULLABLE";
+		const propertyType = builder.reference(this.compiler.compileType(type, path));
+		const kotlinType = member.optional && !nullable ? builder.node`${propertyType}?` : propertyType;
+		const name = this.propertyName(member.name);
+		const defaultValue = member.optional ? " = null" : "";
+		return this.withDocComment(builder, indent, member, builder.node`${indent}${this.serialName(builder, name, member.name)}val ${name}: ${kotlinType}${defaultValue},`);
+	}
+
+	compileObjectLike: Visitor<SimpleTypeCompilerNode, SimpleTypeObjectLike> = args => {
+		const { type, path, visit } = args;
+		if (!type.members?.length && type.indexType?.STRING) {
+			const builder = this.compiler.nodeBuilder(type, path);
+			return builder.node`Map<String, ${builder.reference(Visitor[type.kind].stringIndex({ type, path, visit })) ?? this.jsonElement(builder)}>`;
+		}
+
+		const loc = this.compiler.assignDeclarationLocation(type, path);
+		return this.compiler.withLocation(loc, () => {
+			const builder = this.compiler.nodeBuilder(type, path);
+			const properties = this.compileProperties(args, "    ");
+			const body = properties.length ? builder.node`data class ${loc.name}(\n${builder.node(properties).joinNodes("\n")}\n)` : builder.node`class ${loc.name}`;
+			return builder.declaration(loc, this.withDocComment(builder, "", type, builder.node`${this.serializable(builder)}\n${body}`));
+		});
+	};
+
+	/**
+	 * Compile a string enum to an `enum class`, with `@SerialName` for values that aren't constant names.
+	 */
+	compileStringEnum(type: SimpleTypeEnum, path: SimpleTypePath, docType: SimpleType = type): SimpleTypeCompilerNode {
+		const loc = this.compiler.assignDeclarationLocation(type, path);
+		const builder = this.compiler.nodeBuilder(type, path);
+		const constants = type.types.map(member => {
+			const value = String(isSimpleTypeLiteral(member.type) && member.type.value);
+			const name = this.enumConstantName(member.name);
+			return builder.node`    ${this.serialName(builder, name, value)}${name},`;
+		});
+		return builder.declaration(
+			loc,
+			this.withDocComment(builder, "", docType, builder.node`${this.serializable(builder)}\nenum class ${loc.name} {\n${builder.node(constants).joinNodes("\n")}\n}`)
+		);
+	}
+
+	/**
+	 * Compile a discriminated union to a `sealed class` with a nested subclass for each variant.
+	 */
+	compileTaggedUnion(args: VisitorArgs<SimpleTypeCompilerNode, SimpleTypeUnion>, tag: string): SimpleTypeCompilerNode {
+		const { type, path, visit } = args;
+		const loc = this.compiler.assignDeclarationLocation(type, path);
+		return this.compiler.withLocation(loc, () => {
+			const builder = this.compiler.nodeBuilder(type, path);
+			const subclasses = Visitor.UNION.mapVariants<SimpleTypeCompilerNode>({
+				path,
+				type,
+				visit: visit.with(({ type: variant, path, visit }) => {
+					const builder = this.compiler.nodeBuilder(variant, path);
+					if (!(variant.kind === "OBJECT" || variant.kind === "INTERFACE" || variant.kind === "CLASS")) {
+						throw new Error(`Non-object variant in tagged union: ${simpleTypeToString(variant)}`);
+					}
+
+					const discriminant = variant.members?.find(member => member.name === tag)?.type;
+					const value = String(discriminant && isSimpleTypeLiteral(discriminant) && discriminant.value);
+					const name = this.className(value);
+					const serialName = builder.node`@${this.libraryReference(builder, "kotlinx.serialization", "SerialName")}(${JSON.stringify(value)})`;
+					const properties = this.compileProperties({ type: variant, path, visit }, "        ", tag);
+					const declaration = properties.length
+						? builder.node`    data class ${name}(\n${builder.node(properties).joinNodes("\n")}\n    ) : ${loc.name}()`
+						: builder.node`    object ${name} : ${loc.name}()`;
+					return this.withDocComment(builder, "    ", variant, builder.node`    ${this.serializable(builder)}\n    ${serialName}\n${declaration}`);
+				})
+			});
+
+			const optIn = builder.node`@OptIn(${this.libraryReference(builder, "kotlinx.serialization", "ExperimentalSerializationApi")}::class)`;
+			const discriminator = builder.node`@${this.libraryReference(builder, "kotlinx.serialization.json", "JsonClassDiscriminator")}(${JSON.stringify(tag)})`;
+			return builder.declaration(
+				loc,
+				this.withDocComment(
+					builder,
+					"",
+					type,
+					builder.node`${optIn}\n${this.serializable(builder)}\n${discriminator}\nsealed class ${loc.name} {\n${builder.node(subclasses).joinNodes("\n\n")}\n}`
+				)
+			);
+		});
+	}
+
+	toUnionEnum(type: SimpleTypeUnion): SimpleTypeEnum | undefined {
+		let memo = this.unionEnums.get(type);
+		if (!memo) {
+			const { strings, numbers, rest } = unionAsEnums(type);
+			if (!strings?.types.length || numbers?.types.length || rest?.types.length) {
+				return undefined;
+			}
+			memo = strings;
+			this.unionEnums.set(type, memo);
+		}
+		return memo;
+	}
+
+	dropMemberKinds = new Set<SimpleTypeKind>(["FUNCTION", "METHOD"]);
+
+	compileKind: SimpleTypeKindVisitors<SimpleTypeCompilerNode> = {
+		// Literals
+		// Kotlin has no literal types, so literals compile to their primitive type.
+		STRING_LITERAL: this.withBuilder(({ builder }) => builder.node`String`),
+		NUMBER_LITERAL: this.withBuilder(({ builder }) => builder.node`Double`),
+		BOOLEAN_LITERAL: this.withBuilder(({ builder }) => builder.node`Boolean`),
+		BIG_INT_LITERAL: this.withBuilder(({ builder }) => builder.node`Long`),
+		ES_SYMBOL_UNIQUE: this.throwUnsupported,
+
+		// Primitives
+		BOOLEAN: this.withBuilder(({ builder }) => builder.node`Boolean`),
+		STRING: this.withBuilder(({ builder }) => builder.node`String`),
+		TEMPLATE_LITERAL: this.withBuilder(({ builder }) => builder.node`String`),
+		STRING_MAPPING: this.withBuilder(({ builder }) => builder.node`String`),
+		BIG_INT: this.withBuilder(({ builder }) => builder.node`Long`),
+		NUMBER: this.withBuilder(({ builder }) => builder.node`Double`),
+
+		// None-like
+		NULL: this.withBuilder(({ builder }) => builder.node`Nothing?`),
+		UNDEFINED: this.withBuilder(({ builder }) => builder.node`Nothing?`),
+		VOID: this.withBuilder(({ builder }) => builder.node`Nothing?`),
+
+		// Top & bottom
+		UNKNOWN: this.withBuilder(({ builder }) => this.jsonElement(builder)),
+		ANY: this.withBuilder(({ builder }) => this.jsonElement(builder)),
+		NEVER: this.withBuilder(({ builder }) => builder.node`Nothing`),
+
+		// Well-known
+		DATE: this.withBuilder(({ builder }) => builder.node`String`),
+		MAP: this.withBuilder(({ builder, type, path, visit }) => {
+			const key = builder.reference(Visitor.MAP.key({ path, type, visit }));
+			const value = builder.reference(Visitor.MAP.value({ path, type, visit }));
+			return builder.node`Map<${key}, ${value}>`;
+		}),
+		SET: this.withBuilder(({ builder, type, path, visit }) => builder.node`Set<${builder.reference(Visitor.SET.value({ path, type, visit }))}>`),
+		REGEXP: this.withBuilder(({ builder }) => builder.node`String`),
+		URL: this.withBuilder(({ builder }) => builder.node`String`),
+		BINARY: this.withBuilder(({ builder }) => builder.node`ByteArray`),
+		ERROR: this.throwUnsupported,
+
+		// Compile instantiated generics instead of copying the whole generic type
+		ALIAS: Visitor.ALIAS.aliased,
+		GENERIC_ARGUMENTS: Visitor.GENERIC_ARGUMENTS.aliased,
+
+		// Algebraic types
+		UNION: args => {
+			const { type, path, visit } = args;
+			const builder = this.compiler.nodeBuilder(type, path);
+			const nullable = toNullableSimpleType(type);
+			if (nullable.kind === "NULLABLE") {
+				return builder.node`${builder.reference(visit(undefined, nullable.type))}?`;
+			}
+
+			const stringEnum = this.toUnionEnum(type);
+			if (stringEnum) {
+				// The enum takes the union's place, and its inferred name.
+				this.compiler.getCurrentProgram().setDeclarationLocation(stringEnum, this.compiler.assignDeclarationLocation(type, path));
+				return this.compileStringEnum(stringEnum, path, type);
+			}
+
+			const taggedUnion = toEnumTaggedUnion(type);
+			if (taggedUnion && "name" in taggedUnion.discriminantMember && taggedUnion.tag.types.every(member => member.type.kind === "STRING_LITERAL")) {
+				return this.compileTaggedUnion(args, taggedUnion.discriminantMember.name);
+			}
+
+			const kinds = new Set(type.types.map(variant => (variant.kind === "BOOLEAN_LITERAL" ? "BOOLEAN" : variant.kind === "NUMBER_LITERAL" ? "NUMBER" : variant.kind)));
+			if (kinds.size === 1 && (kinds.has("BOOLEAN") || kinds.has("NUMBER"))) {
+				return visit(undefined, type.types[0]);
+			}
+
+			// kotlinx.serialization has no untagged unions.
+			return this.jsonElement(builder);
+		},
+		INTERSECTION: ({ type, visit }) => {
+			if (!type.intersected) {
+				throw new Error(`Target type system doesn't support intersection types`);
+			}
+			return visit(undefined, type.intersected);
+		},
+
+		// List types
+		ARRAY: this.withBuilder(({ builder, type, path, visit }) => builder.node`List<${builder.reference(Visitor.ARRAY.numberIndex({ path, type, visit }))}>`),
+		TUPLE: this.withBuilder(({ builder }) => builder.node`List<${this.jsonElement(builder)}>`),
+
+		// Object
+		INTERFACE: this.compileObjectLike,
+		CLASS: this.compileObjectLike,
+		OBJECT: this.compileObjectLike,
+
+		// Enum
+		ENUM: ({ type, path }) => {
+			if (type.types.every(member => member.type.kind === "STRING_LITERAL")) {
+				return this.compileStringEnum(type, path);
+			}
+			if (type.types.every(member => member.type.kind === "NUMBER_LITERAL")) {
+				return this.compiler.nodeBuilder(type, path).node`Double`;
+			}
+			throw new Error(`Kotlin enums must have all string or all number values: ${simpleTypeToString(type)}`);
+		},
+		ENUM_MEMBER: ({ type, visit }) => visit(undefined, type.type),
+
+		// Unsupported
+		FUNCTION: this.throwUnsupported,
+		METHOD: this.throwUnsupported,
+		GENERIC_PARAMETER: this.throwUnsupported,
+		ES_SYMBOL: this.throwUnsupported,
+		NON_PRIMITIVE: this.throwUnsupported,
+		PROMISE: this.throwUnsupported,
+		INDEX: this.throwUnsupported,
+		INDEXED_ACCESS: this.throwUnsupported,
+		CONDITIONAL: this.throwUnsupported
+	};
+}
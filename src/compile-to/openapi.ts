@@ -0,0 +1,312 @@
+import { TAnySchema, Type as ST } from "@sinclair/typebox";
+import * as path from "path";
+import {
+	SimpleType,
+	SimpleTypeClass,
+	SimpleTypeFunction,
+	SimpleTypeFunctionParameter,
+	SimpleTypeInterface,
+	SimpleTypeMember,
+	SimpleTypeMethod,
+	SimpleTypeObject,
+	SimpleTypeUnion
+} from "../simple-type";
+import { SimpleTypePath } from "../simple-type-path";
+import {
+	SimpleTypeCompilerDeclarationLocation,
+	SimpleTypeCompilerDeclarationNode,
+	SimpleTypeCompilerLocation,
+	SimpleTypeCompilerNode,
+	SimpleTypeCompilerReferenceArgs,
+	SimpleTypeCompilerTargetFile
+} from "../transform/compiler";
+import { SimpleTypeKindVisitors, Visitor } from "../visitor";
+import { isDefined, JSONSchemaCompilerTarget } from "./json-schema";
+
+/**
+ * Where a handler parameter goes in an HTTP request.
+ */
+export type OpenAPIParameterLocation = "path" | "query" | "header" | "cookie" | "body";
+
+/**
+ * https://spec.openapis.org/oas/v3.1.0#info-object
+ */
+export interface OpenAPIInfo {
+	title: string;
+	version: string;
+	description?: string;
+}
+
+/**
+ * A route table key, like `GET /users/{id}`.
+ */
+export interface OpenAPIRoute {
+	method: string;
+	path: string;
+	pathParameters: Set<string>;
+}
+
+type OpenAPIObject = Record<string, unknown>;
+type SimpleTypeObjectLike = SimpleTypeObject | SimpleTypeClass | SimpleTypeInterface;
+
+const HTTP_METHODS = ["get", "put", "post", "delete", "options", "head", "patch", "trace"];
+const METHODS_WITH_BODY = new Set(["put", "post", "patch"]);
+const COMPONENT_SCHEMAS = ["components", "schemas"];
+const CONTENT_TYPE = "application/json";
+
+/**
+ * Compiles route tables to OpenAPI 3.1 documents, using {@link JSONSchemaCompilerTarget} for request and response schemas.
+ * To customize the compilation, make a subclass.
+ *
+ * A route table is an entry point object type whose members are all functions,
+ * keyed by method and path:
+ *
+ * ```typescript
+ * export interface Routes {
+ *   "GET /users/{id}"(id: string): Promise<User>
+ *   "POST /users"(body: CreateUser): Promise<User>
+ * }
+ * ```
+ *
+ * Parameters named in the path template are path parameters. For methods with a
+ * request body, the first remaining parameter is the body. Other parameters are
+ * query parameters. Override {@link getParameterLocation} to change this.
+ *
+ * The awaited return type of each handler is the response schema.
+ * Named types are declared once in `components/schemas` and referenced with `$ref`.
+ *
+ * https://spec.openapis.org/oas/v3.1.0
+ */
+export class OpenAPICompilerTarget extends JSONSchemaCompilerTarget {
+	private routeTables = new WeakSet<SimpleType>();
+
+	/**
+	 * @returns true if `type` should compile to `paths`, rather than a schema.
+	 */
+	isRouteTable(type: SimpleType): type is SimpleTypeObjectLike {
+		if (!this.compiler.getCurrentProgram().entryPoints.has(type)) {
+			return false;
+		}
+		if (type.kind !== "OBJECT" && type.kind !== "INTERFACE" && type.kind !== "CLASS") {
+			return false;
+		}
+		return Boolean(type.members?.length) && type.members!.every(member => member.type.kind === "FUNCTION" || member.type.kind === "METHOD");
+	}
+
+	/**
+	 * Choose where a handler parameter goes in the request.
+	 * @param bodyAvailable true if the route's method has a request body, and no earlier parameter is the body.
+	 */
+	getParameterLocation(parameter: SimpleTypeFunctionParameter, route: OpenAPIRoute, bodyAvailable: boolean): OpenAPIParameterLocation {
+		if (route.pathParameters.has(parameter.name)) {
+			return "path";
+		}
+		return bodyAvailable ? "body" : "query";
+	}
+
+	/**
+	 * Build the document's `info` object from the route table's documentation.
+	 * The version comes from a `@version` JSDoc tag.
+	 */
+	getInfo(routeTable: SimpleType | undefined): OpenAPIInfo {
+		const docs = routeTable && this.compiler.getDocumentationComment(routeTable);
+		return {
+			title: routeTable?.name ?? "API",
+			version: docs?.jsDocTags?.get("version") ?? "0.0.0",
+			...(docs?.docComment ? { description: docs.docComment } : {})
+		};
+	}
+
+	private compileSchema = this.compileType;
+
+	compileType: Visitor<SimpleTypeCompilerNode, SimpleType> = args => {
+		if (!this.isRouteTable(args.type)) {
+			// Declare named schemas before compiling them, so recursive references can use $ref.
+			if (args.type.kind !== "ALIAS" && args.type.kind !== "GENERIC_ARGUMENTS" && this.compiler.isExportedFromSourceLocation(args.type)) {
+				this.compiler.assignDeclarationLocation(args.type, args.path);
+			}
+			return this.compileSchema(args);
+		}
+
+		const { type, path, visit } = args;
+		const loc = this.compiler.assignDeclarationLocation(type, path);
+		const builder = this.compiler.nodeBuilder(type, path);
+		const operations = Visitor[type.kind].mapNamedMembers<SimpleTypeCompilerNode>({
+			path,
+			type,
+			visit: visit.with(this.compileOperation)
+		});
+
+		const paths: Record<string, Record<string, TAnySchema>> = {};
+		for (const operation of operations) {
+			const route = this.parseRoute(operation.name ?? "");
+			const pathItem = (paths[route.path] ??= {});
+			if (pathItem[route.method]) {
+				throw new Error(`Duplicate route: ${route.method.toUpperCase()} ${route.path}`);
+			}
+			pathItem[route.method] = this.mustGetSchema(operation);
+		}
+
+		this.routeTables.add(type);
+		return this.withSchema(builder.declaration(loc, operations), ST.Unsafe(paths));
+	};
+
+	compileReference(args: SimpleTypeCompilerReferenceArgs): SimpleTypeCompilerNode {
+		const builder = this.compiler.anonymousNodeBuilder(args.from);
+		const fileName = args.to.location.fileName === args.from.fileName ? "" : path.relative(path.dirname(args.from.fileName), args.to.location.fileName);
+		const schemaPath = (args.to.location.namespace || []).concat(args.to.location.name);
+		const ref = ST.Unsafe({ $ref: `${fileName}#/${schemaPath.join("/")}` });
+		return this.withSchema(builder.reference(args.to, JSON.stringify(ref)), ref);
+	}
+
+	suggestDeclarationLocation = (type: SimpleType, from: SimpleTypeCompilerLocation): SimpleTypeCompilerLocation | SimpleTypeCompilerDeclarationLocation => {
+		const entrypoint = this.compiler.getCurrentProgram().entryPoints.get(type);
+		if (entrypoint && this.isRouteTable(type)) {
+			return entrypoint;
+		}
+
+		return {
+			fileName: (entrypoint ?? from).fileName,
+			namespace: COMPONENT_SCHEMAS
+		};
+	};
+
+	compileFile(file: SimpleTypeCompilerTargetFile): SimpleTypeCompilerNode {
+		const builder = this.compiler.anonymousNodeBuilder();
+		const declarations = file.nodes.filter((node): node is SimpleTypeCompilerDeclarationNode => node instanceof SimpleTypeCompilerDeclarationNode);
+		const routeTables = declarations.filter(node => node.type && this.routeTables.has(node.type));
+		const schemas = declarations.filter(node => node.location.namespace?.join("/") === COMPONENT_SCHEMAS.join("/"));
+
+		const paths: Record<string, Record<string, TAnySchema>> = {};
+		for (const node of routeTables) {
+			for (const [route, operations] of Object.entries(this.mustGetSchema(node))) {
+				paths[route] = { ...paths[route], ...(operations as Record<string, TAnySchema>) };
+			}
+		}
+
+		const document = ST.Unsafe({
+			openapi: "3.1.0",
+			info: this.getInfo(routeTables[0]?.type),
+			paths,
+			components: {
+				schemas: Object.fromEntries(
+					schemas.map(node => {
+						// Component schemas are addressed by their location, and an $id would change the base URI of the $refs inside them.
+						const schema = { ...this.mustGetSchema(node) };
+						delete schema.$id;
+						return [node.location.name, schema];
+					})
+				)
+			}
+		});
+
+		return this.withSchema(builder.node(JSON.stringify(document, undefined, "  ") + "\n"), document);
+	}
+
+	parseRoute(key: string): OpenAPIRoute {
+		const match = /^([A-Za-z]+)\s+(\/\S*)$/.exec(key);
+		const method = match?.[1].toLowerCase();
+		if (!match || !method || !HTTP_METHODS.includes(method)) {
+			throw new Error(`Route must look like "GET /path/{param}": ${JSON.stringify(key)}`);
+		}
+
+		const routePath = match[2];
+		const pathParameters = new Set(Array.from(routePath.matchAll(/\{([^}]+)\}/g), match => match[1]));
+		return { method, path: routePath, pathParameters };
+	}
+
+	private definedTypes = new WeakMap<SimpleTypeUnion, SimpleType>();
+
+	/**
+	 * JSON has no `undefined`, and optional members and parameters are already not `required`.
+	 * @returns the union without `undefined` variants.
+	 */
+	withoutUndefined(type: SimpleTypeUnion): SimpleType {
+		const existing = this.definedTypes.get(type);
+		if (existing) {
+			return existing;
+		}
+
+		const types = type.types.filter(variant => variant.kind !== "UNDEFINED" && variant.kind !== "VOID");
+		const defined = types.length === type.types.length || types.length === 0 ? type : types.length === 1 ? types[0] : { ...type, types };
+		this.definedTypes.set(type, defined);
+		return defined;
+	}
+
+	private compileUnion = this.compileKind.UNION;
+
+	compileKind: SimpleTypeKindVisitors<SimpleTypeCompilerNode> = {
+		...this.compileKind,
+		UNION: args => {
+			const defined = this.withoutUndefined(args.type);
+			return defined === args.type ? this.compileUnion(args) : args.visit(undefined, defined);
+		}
+	};
+
+	/**
+	 * Compiles a member of a route table to an operation object.
+	 */
+	compileOperation: Visitor<SimpleTypeCompilerNode> = ({ type, path, visit }) => {
+		const step = SimpleTypePath.lastMustBe(path, "NAMED_MEMBER");
+		if (type.kind !== "FUNCTION" && type.kind !== "METHOD") {
+			throw new Error(`Route ${step.member.name} must be a function, got ${type.kind}`);
+		}
+
+		const route = this.parseRoute(step.member.name);
+		const builder = this.compiler.nodeBuilder(type, path);
+		const parameterNodes = Visitor[type.kind].mapParameters<SimpleTypeCompilerNode>({ type, path, visit: visit.with(({ type, path }) => this.compiler.compileType(type, path)) });
+		const parameters: OpenAPIObject[] = [];
+		let requestBody: OpenAPIObject | undefined;
+
+		(type.parameters ?? []).forEach((parameter, index) => {
+			const schema = this.mustGetSchema(parameterNodes[index]);
+			const required = !parameter.optional && !parameter.initializer;
+			const location = this.getParameterLocation(parameter, route, METHODS_WITH_BODY.has(route.method) && !requestBody);
+			if (location === "body") {
+				requestBody = { required, content: { [CONTENT_TYPE]: { schema } } };
+			} else {
+				parameters.push({ name: parameter.name, in: location, required: required || location === "path", schema });
+			}
+		});
+
+		const missing = Array.from(route.pathParameters).filter(name => !parameters.some(parameter => parameter.in === "path" && parameter.name === name));
+		if (missing.length) {
+			throw new Error(`Route ${step.member.name} has no parameters for path template {${missing.join("}, {")}}`);
+		}
+
+		const [responseStatus, response, responseNode] = this.compileResponse(type, path, step.member);
+		const docs = this.compiler.getDocumentationComment(step.member);
+		const operation = ST.Unsafe({
+			...(docs?.jsDocTags?.get("operationId") ? { operationId: docs.jsDocTags.get("operationId") } : {}),
+			...(docs?.docComment ? { description: docs.docComment } : {}),
+			...(docs?.jsDocTags?.has("deprecated") ? { deprecated: true } : {}),
+			...(parameters.length ? { parameters } : {}),
+			...(requestBody ? { requestBody } : {}),
+			responses: { [responseStatus]: response }
+		});
+
+		const node = this.withSchema(builder.node([...parameterNodes, responseNode].filter(isDefined)), operation);
+		node.name = step.member.name;
+		return node;
+	};
+
+	/**
+	 * Compiles the awaited return type of a handler to a response.
+	 * Handlers that return nothing respond with 204 No Content.
+	 */
+	compileResponse(type: SimpleTypeFunction | SimpleTypeMethod, path: SimpleTypePath, member: SimpleTypeMember): [status: string, response: OpenAPIObject, node: SimpleTypeCompilerNode | undefined] {
+		const description = this.compiler.getDocumentationComment(member)?.jsDocTags?.get("returns");
+		const returnType = type.returnType;
+		const awaited = returnType?.kind === "PROMISE" ? returnType.type : returnType;
+		if (!returnType || !awaited || awaited.kind === "VOID" || awaited.kind === "UNDEFINED") {
+			return ["204", { description: description ?? "No Content" }, undefined];
+		}
+
+		const returnPath = SimpleTypePath.concat(path, { step: "RETURN", from: type });
+		const node =
+			returnType.kind === "PROMISE"
+				? this.compiler.compileType(awaited, SimpleTypePath.concat(returnPath, { step: "AWAITED", from: returnType }))
+				: this.compiler.compileType(returnType, returnPath);
+		return ["200", { description: description ?? "OK", content: { [CONTENT_TYPE]: { schema: this.mustGetSchema(node) } } }, node];
+	}
+}
@@ -1,6 +1,7 @@
 import * as path from "path";
 import type * as ts from "typescript";
 import { isSimpleTypeLiteral, SimpleType, SimpleTypeClass, SimpleTypeInterface, SimpleTypeKind, SimpleTypeLiteral, SimpleTypeMember, SimpleTypeObject } from "../simple-type";
+import { t } from "../simple-type-builder";
 import { SimpleTypePath } from "../simple-type-path";
 import {
 	SimpleTypeCompiler,
@@ -11,6 +12,7 @@ import {
 	SimpleTypeCompilerTarget,
 	SimpleTypeCompilerTargetFile
 } from "../transform/compiler";
+import { isAssignableToSimpleTypeKind } from "../is-assignable/is-assignable-to-simple-type-kind";
 import { toNullableSimpleType } from "../transform/inspect-simple-type";
 import { simpleTypeToString } from "../transform/simple-type-to-string";
 import { SimpleTypeKindVisitors, Visitor, VisitorArgs } from "../visitor";
@@ -137,6 +139,8 @@ export class Proto3CompilerTarget implements SimpleTypeCompilerTarget {
 		throw new Error(`Unsupported SimpleType kind: ${type.kind}`);
 	};
 
+	compileStringLike = this.withBuilder(({ type, builder }) => builder.node`/** ${simpleTypeToString(type)} */ ${this.primitiveKind.STRING}`);
+
 	compilePrimitive = this.withBuilder(({ type, builder }) => {
 		if (!(type.kind in this.primitiveKind)) {
 			throw new Error(`Unsupported SimpleTypePrimitive kind: ${type.kind}`);
@@ -153,7 +157,7 @@ export class Proto3CompilerTarget implements SimpleTypeCompilerTarget {
 			return false;
 		}
 
-		if (type.kind === "ARRAY" || type.kind === "UNION") {
+		if (type.kind === "ARRAY" || type.kind === "SET" || type.kind === "MAP" || type.kind === "UNION") {
 			const program = this.compiler.getCurrentProgram();
 			if (program.getDeclarationLocation(type) || program.entryPoints.get(type)) {
 				return true;
@@ -169,7 +173,8 @@ export class Proto3CompilerTarget implements SimpleTypeCompilerTarget {
 	 * Compiles a member of a message or message oneOf.
 	 * This function does quite a bit of work for Protobuf:
 	 *
-	 * - If member type is Array, member should be repeated, unless we already declared a wrapper type.
+	 * - If member type is Array or Set, member should be repeated, unless we already declared a wrapper type.
+	 * - If member type is Map, member should be a map field, unless we already declared a wrapper type.
 	 * - If member type is Union, member should be oneOf, unless we already declared a wrapper type.
 	 */
 	compileMember = this.withBuilder(({ type, path, visit }) => {
@@ -223,7 +228,13 @@ export class Proto3CompilerTarget implements SimpleTypeCompilerTarget {
 			});
 			const oneOfMemberNode = builder.node`  oneOf ${location.name} {\n${builder.node(oneOfVariants).joinNodes("\n")}\n  };`;
 			return builder.node([docCommentNode, oneOfMemberNode].filter(isDefined)).joinNodes("\n");
-		} else if (type.kind === "ARRAY" && !this.preferWrappedType(type, path)) {
+		} else if (type.kind === "MAP" && !this.preferWrappedType(type, path)) {
+			const keyType = builder.node(this.compileMapKey(type.keyType));
+			const valueType = builder.reference(this.compiler.compileType(type.valueType, SimpleTypePath.concat(path, { step: "VALUE", from: type })));
+
+			const memberNode: SimpleTypeCompilerNode = builder.node`  map<${keyType}, ${valueType}> ${location.name} = ${this.compileIndex(step.index)};`;
+			return builder.node([docCommentNode, memberNode].filter(isDefined)).joinNodes("\n");
+		} else if ((type.kind === "ARRAY" || type.kind === "SET") && !this.preferWrappedType(type, path)) {
 			const innerType = builder.reference(this.compiler.compileType(type.type, path));
 
 			const memberNode: SimpleTypeCompilerNode = builder.node`  repeated ${optional ? "optional " : ""}${innerType} ${location.name} = ${this.compileIndex(step.index)}${
@@ -239,6 +250,25 @@ export class Proto3CompilerTarget implements SimpleTypeCompilerTarget {
 		}
 	});
 
+	/**
+	 * Protobuf map keys must be an integral or string scalar type.
+	 */
+	compileMapKey(keyType: SimpleType): string {
+		if (isAssignableToSimpleTypeKind(keyType, ["STRING", "STRING_LITERAL", "TEMPLATE_LITERAL", "STRING_MAPPING"])) {
+			return this.primitiveKind.STRING;
+		}
+
+		if (isAssignableToSimpleTypeKind(keyType, ["NUMBER", "NUMBER_LITERAL", "BIG_INT", "BIG_INT_LITERAL"])) {
+			return "int64";
+		}
+
+		if (isAssignableToSimpleTypeKind(keyType, ["BOOLEAN", "BOOLEAN_LITERAL"])) {
+			return this.primitiveKind.BOOLEAN;
+		}
+
+		throw new Error(`Unsupported map key type: ${simpleTypeToString(keyType)}`);
+	}
+
 	docCommentNode(builder: SimpleTypeCompilerNodeBuilder, prefix: string, typeOrMember: SimpleType | SimpleTypeMember): SimpleTypeCompilerNode | undefined {
 		const docCommentInfo = this.compiler.getDocumentationComment(typeOrMember);
 		if (!docCommentInfo) {
@@ -279,15 +309,10 @@ export class Proto3CompilerTarget implements SimpleTypeCompilerTarget {
 		}
 
 		const newType: SimpleTypeInterface = {
-			name: wrap.name ?? this.compiler.inferTypeName(wrap, path),
-			getTypescript: wrap.getTypescript,
-			kind: "INTERFACE",
-			members: [
-				{
-					name: "t", // Should we use the type name?
-					type: wrap
-				}
-			]
+			...t.interface(wrap.name ?? this.compiler.inferTypeName(wrap, path), {
+				t: wrap // Should we use the type name?
+			}),
+			getTypescript: wrap.getTypescript
 		};
 		this.wrapperTypeMap.set(wrap, newType);
 
@@ -329,6 +354,8 @@ export class Proto3CompilerTarget implements SimpleTypeCompilerTarget {
 		// Primitives
 		BOOLEAN: this.compilePrimitive,
 		STRING: this.compilePrimitive,
+		TEMPLATE_LITERAL: this.compileStringLike,
+		STRING_MAPPING: this.compileStringLike,
 		BIG_INT: this.compilePrimitive,
 		NUMBER: this.compilePrimitive,
 
@@ -345,6 +372,17 @@ export class Proto3CompilerTarget implements SimpleTypeCompilerTarget {
 
 		// Well-known
 		DATE: this.throwUnsupported,
+		REGEXP: this.compileStringLike,
+		URL: this.compileStringLike,
+		BINARY: this.withBuilder(({ builder }) => builder.node`bytes`),
+		ERROR: ({ type, path }) => {
+			const loc = this.compiler.assignDeclarationLocation(type, path);
+			const builder = this.compiler.nodeBuilder(type, path);
+			return builder.declaration(
+				loc,
+				this.withDeclarationDocComment(type, path, builder.node`message ${loc.name} {\n  string name = 1;\n  string message = 2;\n  optional string stack = 3;\n}`)
+			);
+		},
 
 		// Compile instantiated generics instead of copying the whole generic type
 		ALIAS: Visitor.ALIAS.aliased,
@@ -381,6 +419,8 @@ export class Proto3CompilerTarget implements SimpleTypeCompilerTarget {
 		// List types
 		// No stand-alone list type. Delegate to member rendering in an interface
 		ARRAY: ({ type, path, visit }) => visit(undefined, this.createWrapperInterfaceType(type, path)),
+		SET: ({ type, path, visit }) => visit(undefined, this.createWrapperInterfaceType(type, path)),
+		MAP: ({ type, path, visit }) => visit(undefined, this.createWrapperInterfaceType(type, path)),
 		TUPLE: ({ path, type, visit }) => {
 			// Compile tuple as a struct with indexed fields
 			const loc = this.compiler.assignDeclarationLocation(type, path);
@@ -444,7 +484,10 @@ export class Proto3CompilerTarget implements SimpleTypeCompilerTarget {
 		GENERIC_PARAMETER: this.throwUnsupported,
 		ES_SYMBOL: this.throwUnsupported,
 		NON_PRIMITIVE: this.throwUnsupported,
-		PROMISE: this.throwUnsupported
+		PROMISE: this.throwUnsupported,
+		INDEX: this.throwUnsupported,
+		INDEXED_ACCESS: this.throwUnsupported,
+		CONDITIONAL: this.throwUnsupported
 	};
 }
 
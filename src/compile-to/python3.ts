@@ -1,7 +1,7 @@
 import * as path from "path";
 import type * as ts from "typescript";
-import { isSimpleTypeLiteral, SimpleType, SimpleTypeClass, SimpleTypeFunction, SimpleTypeInterface, SimpleTypeLiteral, SimpleTypeMethod, SimpleTypeObject } from "../simple-type";
-import { SimpleTypePath, SimpleTypePathStepNamedMember } from "../simple-type-path";
+import { isSimpleTypeLiteral, SimpleType, SimpleTypeClass, SimpleTypeFunction, SimpleTypeInterface, SimpleTypeLiteral, SimpleTypeMember, SimpleTypeMethod, SimpleTypeObject } from "../simple-type";
+import { SimpleTypePath, SimpleTypePathStepNamedMember, SimpleTypePathStepParameter } from "../simple-type-path";
 import {
 	SimpleTypeCompiler,
 	SimpleTypeCompilerDeclarationNode,
@@ -13,9 +13,66 @@ import {
 	SimpleTypeCompilerTarget,
 	SimpleTypeCompilerTargetFile
 } from "../transform/compiler";
-import { toNullableSimpleType } from "../transform/inspect-simple-type";
+import { toEnumTaggedUnion, toNullableSimpleType } from "../transform/inspect-simple-type";
 import { simpleTypeToString } from "../transform/simple-type-to-string";
+import { getTypescriptModule } from "../ts-module";
 import { SimpleTypeKindVisitors, VisitorArgs, Visitor } from "../visitor";
+import { isDefined } from "./thrift";
+
+/**
+ * How {@link PythonCompilerTarget} compiles object types.
+ *
+ * - `dataclass`: `@dataclass` classes.
+ * - `pydantic`: Pydantic v2 `BaseModel` subclasses, which validate their input.
+ *   Members that aren't Python identifiers use `Field(alias=...)`, and
+ *   discriminated unions validate by their discriminant.
+ * - `typeddict`: `TypedDict` classes, for JSON-shaped data that stays a `dict`.
+ *   Optional members are `NotRequired`. Methods are dropped.
+ */
+export type PythonModelKind = "dataclass" | "pydantic" | "typeddict";
+
+/** https://docs.python.org/3/reference/lexical_analysis.html#keywords */
+const PYTHON_KEYWORDS = new Set([
+	"False",
+	"None",
+	"True",
+	"and",
+	"as",
+	"assert",
+	"async",
+	"await",
+	"break",
+	"class",
+	"continue",
+	"def",
+	"del",
+	"elif",
+	"else",
+	"except",
+	"finally",
+	"for",
+	"from",
+	"global",
+	"if",
+	"import",
+	"in",
+	"is",
+	"lambda",
+	"nonlocal",
+	"not",
+	"or",
+	"pass",
+	"raise",
+	"return",
+	"try",
+	"while",
+	"with",
+	"yield"
+]);
+
+function isPythonIdentifier(name: string): boolean {
+	return /^[A-Za-z_][A-Za-z0-9_]*$/.test(name) && !PYTHON_KEYWORDS.has(name);
+}
 
 /**
  * Compiles types to Python3.
@@ -28,6 +85,18 @@ export class PythonCompilerTarget implements SimpleTypeCompilerTarget {
 
 	constructor(public compiler: SimpleTypeCompiler) {}
 
+	/**
+	 * How to compile object types. Override this in a subclass to emit Pydantic models.
+	 * See {@link PythonModelKind}.
+	 */
+	modelKind: PythonModelKind = "dataclass";
+
+	/**
+	 * Compile classes that have methods to `typing.Protocol` classes with method stubs,
+	 * instead of the {@link modelKind} class.
+	 */
+	classesAsProtocols = false;
+
 	compileType: Visitor<SimpleTypeCompilerNode, SimpleType> = args => {
 		const { type, path, visit } = args;
 		if (type.error) {
@@ -71,6 +140,10 @@ export class PythonCompilerTarget implements SimpleTypeCompilerTarget {
 			const refNode = builder.node(Array.from(importFiles)).joinNodes("\n");
 			finalNodeList.unshift(refNode);
 		}
+		if (this.modelKind !== "dataclass" || this.classesAsProtocols) {
+			// Annotations may refer to classes declared later in the file.
+			finalNodeList.unshift(builder.node`from __future__ import annotations`);
+		}
 		return builder.node(finalNodeList).joinNodes("\n\n");
 	}
 
@@ -80,6 +153,18 @@ export class PythonCompilerTarget implements SimpleTypeCompilerTarget {
 		return [...dir, parsed.name].join(".");
 	}
 
+	/**
+	 * Convert a member name to a Python identifier.
+	 * Pydantic treats names with a leading underscore as private, so those are removed too.
+	 */
+	getPythonIdentifier(name: string): string {
+		let identifier = name.replace(/[^A-Za-z0-9_]/g, "_").replace(/^_+/, "");
+		if (!identifier || /^[0-9]/.test(identifier)) {
+			identifier = `field_${identifier}`;
+		}
+		return isPythonIdentifier(identifier) ? identifier : `${identifier}_`;
+	}
+
 	withBuilder = <ST extends SimpleType>(
 		visitor: (args: VisitorArgs<SimpleTypeCompilerNode, ST> & { builder: SimpleTypeCompilerNodeBuilder }) => SimpleTypeCompilerNode
 	): Visitor<SimpleTypeCompilerNode, ST> => {
@@ -94,12 +179,23 @@ export class PythonCompilerTarget implements SimpleTypeCompilerTarget {
 			return type.value ? builder.node("True") : builder.node("False");
 		}
 
-		return builder.node(`Literal[${JSON.stringify(type.value)}]`);
+		const Literal = this.stdlibReference(builder, "typing", "Literal");
+		return builder.node`${Literal}[${JSON.stringify(type.value)}]`;
 	});
 
 	compileNone = this.withBuilder(({ builder }) => builder.node`None`);
 
 	compileObjectLike: Visitor<SimpleTypeCompilerNode, SimpleTypeObject | SimpleTypeClass | SimpleTypeInterface> = this.withBuilder(({ builder, type, path, visit }) => {
+		if (this.classesAsProtocols && type.kind === "CLASS" && type.members?.some(member => this.isMethodMember(member))) {
+			return this.compileProtocol({ type, path, visit });
+		}
+		if (this.modelKind === "pydantic") {
+			return this.compilePydanticModel({ type, path, visit });
+		}
+		if (this.modelKind === "typeddict") {
+			return this.compileTypedDict({ type, path, visit });
+		}
+
 		const name = this.compiler.assignDeclarationLocation(type, path);
 		const members = Visitor[type.kind].mapNamedMembers<SimpleTypeCompilerNode>({
 			path,
@@ -116,6 +212,144 @@ export class PythonCompilerTarget implements SimpleTypeCompilerTarget {
 		return builder.declaration(name, ["@", dataclass, `\nclass ${name.name}:\n`, builder.node(members).joinNodes("\n") ?? "pass"]);
 	});
 
+	/**
+	 * Compile an object type to a Pydantic model.
+	 * Methods are dropped, since Pydantic can't validate them.
+	 * Optional members default to `None`.
+	 */
+	compilePydanticModel: Visitor<SimpleTypeCompilerNode, SimpleTypeObject | SimpleTypeClass | SimpleTypeInterface> = this.withBuilder(({ builder, type, path, visit }) => {
+		const name = this.compiler.assignDeclarationLocation(type, path);
+		const members = Visitor[type.kind]
+			.mapNamedMembers<SimpleTypeCompilerNode | undefined>({
+				path,
+				type,
+				visit: visit.with(({ type, path }) => {
+					if (type.kind === "FUNCTION" || type.kind === "METHOD") {
+						return undefined;
+					}
+
+					const builder = this.compiler.nodeBuilder(type, path);
+					const member = (SimpleTypePath.last(path) as SimpleTypePathStepNamedMember).member;
+					const memberType = builder.reference(this.compiler.compileType(type, path, name));
+					const identifier = this.getPythonIdentifier(member.name);
+					if (identifier !== member.name) {
+						const Field = this.stdlibReference(builder, "pydantic", "Field");
+						return builder.node`    ${identifier}: ${memberType} = ${Field}(${member.optional ? "default=None, " : ""}alias=${JSON.stringify(member.name)})`;
+					}
+					return builder.node`    ${identifier}: ${memberType}${member.optional ? " = None" : ""}`;
+				})
+			})
+			.filter(isDefined);
+
+		const BaseModel = this.stdlibReference(builder, "pydantic", "BaseModel");
+		return builder.declaration(name, [`class ${name.name}(`, BaseModel, `):\n`, members.length ? builder.node(members).joinNodes("\n") : "    pass"]);
+	});
+
+	/**
+	 * Compile an object type to a `TypedDict`.
+	 * Uses the functional syntax when a member name isn't a Python identifier.
+	 */
+	compileTypedDict: Visitor<SimpleTypeCompilerNode, SimpleTypeObject | SimpleTypeClass | SimpleTypeInterface> = this.withBuilder(({ builder, type, path, visit }) => {
+		const name = this.compiler.assignDeclarationLocation(type, path);
+		const functional = type.members?.some(member => !this.isMethodMember(member) && !isPythonIdentifier(member.name));
+		const members = Visitor[type.kind]
+			.mapNamedMembers<SimpleTypeCompilerNode | undefined>({
+				path,
+				type,
+				visit: visit.with(({ type, path }) => {
+					if (this.isMethodMember(SimpleTypePath.lastMustBe(path, "NAMED_MEMBER").member)) {
+						return undefined;
+					}
+
+					const builder = this.compiler.nodeBuilder(type, path);
+					const member = (SimpleTypePath.last(path) as SimpleTypePathStepNamedMember).member;
+					let memberType = builder.reference(this.compiler.compileType(type, path, name));
+					if (member.optional) {
+						const NotRequired = this.stdlibReference(builder, "typing", "NotRequired");
+						memberType = builder.node`${NotRequired}[${memberType}]`;
+					}
+					return functional ? builder.node`    ${JSON.stringify(member.name)}: ${memberType},` : builder.node`    ${member.name}: ${memberType}`;
+				})
+			})
+			.filter(isDefined);
+
+		const TypedDict = this.stdlibReference(builder, "typing", "TypedDict");
+		if (functional) {
+			return builder.declaration(name, [`${name.name} = `, TypedDict, `(${JSON.stringify(name.name)}, {\n`, builder.node(members).joinNodes("\n"), `\n})`]);
+		}
+		return builder.declaration(name, [`class ${name.name}(`, TypedDict, `):\n`, members.length ? builder.node(members).joinNodes("\n") : "    pass"]);
+	});
+
+	/**
+	 * Compile a class to a `typing.Protocol`.
+	 * Methods become stubs, and other members become attributes.
+	 */
+	compileProtocol: Visitor<SimpleTypeCompilerNode, SimpleTypeObject | SimpleTypeClass | SimpleTypeInterface> = this.withBuilder(({ builder, type, path, visit }) => {
+		const name = this.compiler.assignDeclarationLocation(type, path);
+		const members = Visitor[type.kind].mapNamedMembers<SimpleTypeCompilerNode>({
+			path,
+			type,
+			visit: visit.with(({ type, path, visit }) => {
+				const builder = this.compiler.nodeBuilder(type, path);
+				const member = (SimpleTypePath.last(path) as SimpleTypePathStepNamedMember).member;
+				const identifier = this.getPythonIdentifier(member.name);
+				const compileType = visit.with<SimpleTypeCompilerNode>(({ type, path }) => this.compiler.compileType(type, path, name));
+				const compileStub = visit.with<SimpleTypeCompilerNode>(({ type, path, visit }) => {
+					if (type.kind !== "METHOD" && type.kind !== "FUNCTION") {
+						throw new Error(`Non-callable method type: ${simpleTypeToString(type)}`);
+					}
+					const builder = this.compiler.nodeBuilder(type, path);
+					const parameters = Visitor[type.kind].mapParameters<SimpleTypeCompilerNode>({
+						path,
+						type,
+						visit: visit.with(({ type, path }) => {
+							const builder = this.compiler.nodeBuilder(type, path);
+							const parameter = (SimpleTypePath.last(path) as SimpleTypePathStepParameter).parameter;
+							const parameterName = this.getPythonIdentifier(parameter.name);
+							if (parameter.rest && type.kind === "ARRAY") {
+								const element = Visitor.ARRAY.numberIndex({ path, type, visit: compileType });
+								return builder.node`*${parameterName}: ${builder.reference(element)}`;
+							}
+							const parameterType = builder.reference(this.compiler.compileType(type, path, name));
+							return builder.node`${parameterName}: ${parameterType}${parameter.optional ? " = ..." : ""}`;
+						})
+					});
+					const returnType = builder.reference(Visitor[type.kind].return({ path, type, visit: compileType })) ?? "None";
+					return builder.node`    def ${identifier}(${builder.node(["self", ...parameters]).joinNodes(", ")}) -> ${returnType}: ...`;
+				});
+
+				if (this.isMethodMember(member)) {
+					// Class methods are objects with a call signature.
+					const stub = type.kind === "OBJECT" ? Visitor.OBJECT.callSignature({ path, type, visit: compileStub }) : compileStub(undefined, type);
+					if (stub) {
+						return stub;
+					}
+				}
+				return builder.node`    ${identifier}: ${builder.reference(this.compiler.compileType(type, path, name))}`;
+			})
+		});
+
+		const Protocol = this.stdlibReference(builder, "typing", "Protocol");
+		return builder.declaration(name, [`class ${name.name}(`, Protocol, `):\n`, members.length ? builder.node(members).joinNodes("\n") : "    pass"]);
+	});
+
+	/**
+	 * Members of interfaces declared with method syntax are METHODs, but methods of classes are objects with a call signature,
+	 * so class members are checked by their declaration.
+	 */
+	isMethodMember(member: SimpleTypeMember): boolean {
+		if (member.type.kind === "METHOD") {
+			return true;
+		}
+		const { SyntaxKind } = getTypescriptModule();
+		return Boolean(
+			member
+				.getTypescript?.()
+				.symbol.getDeclarations()
+				?.some(declaration => declaration.kind === SyntaxKind.MethodDeclaration)
+		);
+	}
+
 	compileCallable: Visitor<SimpleTypeCompilerNode, SimpleTypeMethod | SimpleTypeFunction> = this.withBuilder(({ builder, type, path, visit }) => {
 		return builder.node([
 			`Callable[[`,
@@ -160,6 +394,8 @@ export class PythonCompilerTarget implements SimpleTypeCompilerTarget {
 		// Primitives
 		BOOLEAN: this.withBuilder(({ builder }) => builder.node`bool`),
 		STRING: this.withBuilder(({ builder }) => builder.node`str`),
+		TEMPLATE_LITERAL: this.withBuilder(({ builder }) => builder.node`str`),
+		STRING_MAPPING: this.withBuilder(({ builder }) => builder.node`str`),
 		BIG_INT: this.withBuilder(({ builder }) => builder.node`int`),
 		NUMBER: this.withBuilder(({ builder }) => builder.node`float`),
 
@@ -176,6 +412,18 @@ export class PythonCompilerTarget implements SimpleTypeCompilerTarget {
 
 		// Well-known
 		DATE: this.withBuilder(({ builder }) => this.stdlibReference(builder, "datetime", "date")),
+		MAP: this.withBuilder(({ builder, type, path, visit }) => {
+			const Dict = this.stdlibReference(builder, "typing", "Dict");
+			return builder.node`${Dict}[${builder.reference(Visitor.MAP.key({ path, type, visit }))}, ${builder.reference(Visitor.MAP.value({ path, type, visit }))}]`;
+		}),
+		SET: this.withBuilder(({ builder, type, path, visit }) => {
+			const Set = this.stdlibReference(builder, "typing", "Set");
+			return builder.node`${Set}[${builder.reference(Visitor.SET.value({ path, type, visit }))}]`;
+		}),
+		REGEXP: this.withBuilder(({ builder }) => this.stdlibReference(builder, "re", "Pattern")),
+		ERROR: this.withBuilder(({ builder }) => builder.node`Exception`),
+		URL: this.withBuilder(({ builder }) => builder.node`str`),
+		BINARY: this.withBuilder(({ builder }) => builder.node`bytes`),
 
 		// Compile instantiated generics instead of copying the whole generic type
 		ALIAS: Visitor.ALIAS.aliased,
@@ -189,7 +437,16 @@ export class PythonCompilerTarget implements SimpleTypeCompilerTarget {
 				return builder.node`${Optional}[${builder.reference(visit(undefined, nullable.type))}]`;
 			} else {
 				const Union = this.stdlibReference(builder, "typing", "Union");
-				return builder.node`${Union}[${builder.references(Visitor.UNION.mapVariants({ path, type, visit })).joinNodes(", ")}]`;
+				const union = builder.node`${Union}[${builder.references(Visitor.UNION.mapVariants({ path, type, visit })).joinNodes(", ")}]`;
+
+				// Pydantic validates discriminated unions by their discriminant, rather than trying each variant.
+				const taggedUnion = this.modelKind === "pydantic" ? toEnumTaggedUnion(type) : undefined;
+				if (taggedUnion && "name" in taggedUnion.discriminantMember) {
+					const Annotated = this.stdlibReference(builder, "typing", "Annotated");
+					const Field = this.stdlibReference(builder, "pydantic", "Field");
+					return builder.node`${Annotated}[${union}, ${Field}(discriminator=${JSON.stringify(taggedUnion.discriminantMember.name)})]`;
+				}
+				return union;
 			}
 		}),
 		INTERSECTION: ({ type, visit }) => {
@@ -251,6 +508,9 @@ export class PythonCompilerTarget implements SimpleTypeCompilerTarget {
 		GENERIC_PARAMETER: this.throwUnsupported,
 		ES_SYMBOL: this.throwUnsupported,
 		NON_PRIMITIVE: this.throwUnsupported,
-		PROMISE: this.throwUnsupported
+		PROMISE: this.throwUnsupported,
+		INDEX: this.throwUnsupported,
+		INDEXED_ACCESS: this.throwUnsupported,
+		CONDITIONAL: this.throwUnsupported
 	};
 }
@@ -0,0 +1,546 @@
+import * as path from "path";
+import type * as ts from "typescript";
+import { isSimpleTypeLiteral, SimpleType, SimpleTypeClass, SimpleTypeInterface, SimpleTypeKind, SimpleTypeMember, SimpleTypeObject, SimpleTypeUnion } from "../simple-type";
+import { SimpleTypePath, SimpleTypePathStepNamedMember } from "../simple-type-path";
+import {
+	SimpleTypeCompiler,
+	SimpleTypeCompilerDeclarationNode,
+	SimpleTypeCompilerLocation,
+	SimpleTypeCompilerNode,
+	SimpleTypeCompilerNodeBuilder,
+	SimpleTypeCompilerReferenceArgs,
+	SimpleTypeCompilerReferenceNode,
+	SimpleTypeCompilerTarget,
+	SimpleTypeCompilerTargetFile
+} from "../transform/compiler";
+import { toEnumTaggedUnion, toNullableSimpleType } from "../transform/inspect-simple-type";
+import { simpleTypeToString } from "../transform/simple-type-to-string";
+import { SimpleTypeKindVisitors, Visitor, VisitorArgs } from "../visitor";
+import { isDefined } from "./thrift";
+
+type SimpleTypeObjectLike = SimpleTypeObject | SimpleTypeClass | SimpleTypeInterface;
+
+/** https://doc.rust-lang.org/reference/keywords.html */
+const RUST_KEYWORDS = new Set([
+	"as",
+	"async",
+	"await",
+	"break",
+	"const",
+	"continue",
+	"dyn",
+	"else",
+	"enum",
+	"extern",
+	"false",
+	"fn",
+	"for",
+	"if",
+	"impl",
+	"in",
+	"let",
+	"loop",
+	"match",
+	"mod",
+	"move",
+	"mut",
+	"pub",
+	"ref",
+	"return",
+	"static",
+	"struct",
+	"trait",
+	"true",
+	"type",
+	"unsafe",
+	"use",
+	"where",
+	"while",
+	"abstract",
+	"become",
+	"box",
+	"do",
+	"final",
+	"macro",
+	"override",
+	"priv",
+	"try",
+	"typeof",
+	"unsized",
+	"virtual",
+	"yield"
+]);
+
+/** Keywords that can't be used as raw identifiers. */
+const RUST_RESERVED = new Set(["crate", "self", "Self", "super"]);
+
+/**
+ * Compiles types to Rust structs and enums that (de)serialize with serde.
+ * To customize the compilation, make a subclass.
+ *
+ * Object types compile to structs with snake_case fields, renamed to their
+ * Typescript names with `#[serde(rename)]`. Optional or nullable members
+ * compile to `Option<T>`. Discriminated unions compile to internally tagged
+ * enums, and other unions compile to untagged enums. Number map keys and set
+ * elements compile to `i64`, because `f64` can't be hashed.
+ *
+ * References to a type from inside its own declaration are wrapped in
+ * `Box<T>`, since Rust types must have a known size. References inside a
+ * `Vec`, `HashMap` or `HashSet` are already on the heap and aren't boxed.
+ *
+ * https://serde.rs/attributes.html
+ */
+export class RustCompilerTarget implements SimpleTypeCompilerTarget {
+	static createCompiler<T extends RustCompilerTarget>(this: { new (compiler: SimpleTypeCompiler): T }, typeChecker: ts.TypeChecker): SimpleTypeCompiler {
+		return new SimpleTypeCompiler(typeChecker, compiler => new this(compiler));
+	}
+
+	constructor(public compiler: SimpleTypeCompiler) {}
+
+	/** Traits derived by structs and enums with data */
+	derives = ["Debug", "Clone", "PartialEq", "Serialize", "Deserialize"];
+	/** Traits derived by enums without data */
+	unitEnumDerives = ["Debug", "Clone", "Copy", "PartialEq", "Eq", "Hash", "Serialize", "Deserialize"];
+
+	compileType: Visitor<SimpleTypeCompilerNode, SimpleType> = args => {
+		const { type, path, visit } = args;
+		if (type.error) {
+			throw new Error(`SimpleType kind ${type.kind} has error: ${type.error}`);
+		}
+		const compileTypeKind = this.compileKind[type.kind];
+		if (!compileTypeKind) {
+			throw new ReferenceError(`SimpleType kind ${type.kind} has no compiler defined`);
+		}
+
+		const typeExpression = compileTypeKind({ type: type as never, path, visit });
+		if (this.compiler.isExportedFromSourceLocation(args.type)) {
+			return this.toTypeAliasDeclaration(args, typeExpression);
+		} else {
+			return typeExpression;
+		}
+	};
+
+	compileReference(args: SimpleTypeCompilerReferenceArgs): SimpleTypeCompilerNode {
+		const builder = this.compiler.anonymousNodeBuilder(args.from);
+		const location = args.to.location;
+		const name = SimpleTypeCompilerLocation.fileAndNamespaceEqual(args.from, location)
+			? location.name
+			: ["crate", ...this.getRustModulePath(location.fileName), ...(location.namespace || []), location.name].join("::");
+
+		// A type can't contain itself directly, so recursive references need indirection - unless a collection already provides it.
+		const needsBox = args.circular && !args.cycle?.some(step => this.isHeapIndirection(step));
+		return builder.reference(args.to, needsBox ? `Box<${name}>` : name);
+	}
+
+	/** Vec, HashMap and HashSet store their elements on the heap. */
+	private isHeapIndirection(step: SimpleTypePath[number]): boolean {
+		return step.step === "STRING_INDEX" || step.from.kind === "ARRAY" || step.from.kind === "MAP" || step.from.kind === "SET";
+	}
+
+	compileFile(file: SimpleTypeCompilerTargetFile): SimpleTypeCompilerNode {
+		const builder = this.compiler.anonymousNodeBuilder();
+		return builder.node([builder.node`use serde::{Deserialize, Serialize};`, ...file.nodes, builder.node``]).joinNodes("\n\n");
+	}
+
+	/**
+	 * The module path of an output file, relative to the crate root.
+	 * `lib.rs` and `main.rs` are the crate root, and `mod.rs` is its directory's module.
+	 */
+	getRustModulePath(outputFileName: string): string[] {
+		const parsed = path.parse(outputFileName);
+		const dir = parsed.dir === "" ? [] : parsed.dir.split(path.sep);
+		if (parsed.name === "mod" || (dir.length === 0 && (parsed.name === "lib" || parsed.name === "main"))) {
+			return dir;
+		}
+		return [...dir, parsed.name];
+	}
+
+	/** Convert a Typescript member name to a snake_case Rust field name. */
+	fieldName(name: string): string {
+		let snakeName = name
+			.replace(/([a-z0-9])([A-Z])/g, "$1_$2")
+			.replace(/([A-Z]+)([A-Z][a-z])/g, "$1_$2")
+			.replace(/[^A-Za-z0-9_]+/g, "_")
+			.toLowerCase();
+		if (!snakeName || /^[0-9]/.test(snakeName)) {
+			snakeName = `_${snakeName}`;
+		}
+		if (RUST_RESERVED.has(snakeName)) {
+			return `${snakeName}_`;
+		}
+		return RUST_KEYWORDS.has(snakeName) ? `r#${snakeName}` : snakeName;
+	}
+
+	/** Convert a literal value or Typescript name to a PascalCase Rust enum variant name. */
+	variantName(value: string): string {
+		const words = value.split(/[^A-Za-z0-9]+/).filter(Boolean);
+		const pascalName = words.map(word => word.charAt(0).toUpperCase() + word.slice(1)).join("");
+		if (!pascalName || /^[0-9]/.test(pascalName)) {
+			return `V${pascalName}`;
+		}
+		return RUST_RESERVED.has(pascalName) ? `${pascalName}_` : pascalName;
+	}
+
+	withBuilder = <ST extends SimpleType>(
+		visitor: (args: VisitorArgs<SimpleTypeCompilerNode, ST> & { builder: SimpleTypeCompilerNodeBuilder }) => SimpleTypeCompilerNode
+	): Visitor<SimpleTypeCompilerNode, ST> => {
+		return args => {
+			const builder = this.compiler.nodeBuilder(args.type, args.path);
+			return visitor({ ...args, builder });
+		};
+	};
+
+	throwUnsupported: Visitor<SimpleTypeCompilerNode> = ({ type }) => {
+		throw new Error(`Unsupported SimpleType kind: ${type.kind}`);
+	};
+
+	toTypeAliasDeclaration(args: VisitorArgs<SimpleTypeCompilerNode>, inner: SimpleTypeCompilerNode): SimpleTypeCompilerNode {
+		if (inner instanceof SimpleTypeCompilerReferenceNode || inner instanceof SimpleTypeCompilerDeclarationNode) {
+			return inner;
+		}
+
+		const builder = this.compiler.nodeBuilder(args.type, args.path);
+		const declarationLocation = this.compiler.assignDeclarationLocation(args.type, args.path);
+		return builder.declaration(declarationLocation, this.withDocComment(builder, "", args.type, builder.node`pub type ${declarationLocation.name} = ${inner};`));
+	}
+
+	docCommentNode(builder: SimpleTypeCompilerNodeBuilder, indent: string, typeOrMember: SimpleType | SimpleTypeMember): SimpleTypeCompilerNode | undefined {
+		const docComment = this.compiler.getDocumentationComment(typeOrMember)?.docComment;
+		if (docComment) {
+			return builder.node(docComment.split("\n").map(line => `${indent}///${line ? " " + line : ""}`)).joinNodes("\n");
+		}
+	}
+
+	withDocComment(builder: SimpleTypeCompilerNodeBuilder, indent: string, typeOrMember: SimpleType | SimpleTypeMember, inner: SimpleTypeCompilerNode): SimpleTypeCompilerNode {
+		const docCommentNode = this.docCommentNode(builder, indent, typeOrMember);
+		return docCommentNode ? builder.node([docCommentNode, inner]).joinNodes("\n") : inner;
+	}
+
+	/** A `#[serde(rename)]` line, if the Rust name differs from the serialized name. */
+	renameAttribute(rustName: string, serializedName: string, indent: string): string {
+		return rustName === serializedName ? "" : `${indent}#[serde(rename = ${JSON.stringify(serializedName)})]\n`;
+	}
+
+	deriveAttribute(derives: string[]): string {
+		return `#[derive(${derives.join(", ")})]`;
+	}
+
+	/**
+	 * Compile the fields of an object type.
+	 * Struct fields are `pub`, while fields of enum struct variants can't have a visibility.
+	 */
+	compileFields(args: VisitorArgs<SimpleTypeCompilerNode, SimpleTypeObjectLike>, indent: string, visibility: string, skipMember?: string): SimpleTypeCompilerNode[] {
+		const { type, path, visit } = args;
+		const fields = Visitor[type.kind].mapNamedMembers<SimpleTypeCompilerNode | undefined>({
+			path,
+			type,
+			visit: visit.with(({ type, path }) => {
+				const step = SimpleTypePath.last(path) as SimpleTypePathStepNamedMember;
+				if (step.member.name === skipMember || this.dropMemberKinds.has(type.kind)) {
+					return undefined;
+				}
+				return this.compileField(type, path, step.member, indent, visibility);
+			})
+		});
+
+		const extra = Visitor[type.kind].stringIndex<SimpleTypeCompilerNode>({
+			path,
+			type,
+			visit: visit.with(({ type, path }) => {
+				const builder = this.compiler.nodeBuilder(type, path);
+				const valueType = builder.reference(this.compiler.compileType(type, path));
+				return builder.node`${indent}#[serde(flatten)]\n${indent}${visibility}extra: std::collections::HashMap<String, ${valueType}>,`;
+			})
+		});
+
+		return [...fields, extra].filter(isDefined);
+	}
+
+	compileField(type: SimpleType, path: SimpleTypePath, member: SimpleTypeMember & { name: string }, indent: string, visibility: string): SimpleTypeCompilerNode {
+		const builder = this.compiler.nodeBuilder(type, path);
+		const nullable = type.kind === "UNION" && toNullableSimpleType(type).kind === "NULLABLE";
+		const fieldType = builder.reference(this.compiler.compileType(type, path));
+		const rustType = member.optional && !nullable ? builder.node`Option<${fieldType}>` : fieldType;
+
+		const fieldName = this.fieldName(member.name);
+		const attributes: string[] = [];
+		if (fieldName.replace(/^r#/, "") !== member.name) {
+			attributes.push(`rename = ${JSON.stringify(member.name)}`);
+		}
+		if (member.optional) {
+			attributes.push(`default`, `skip_serializing_if = "Option::is_none"`);
+		}
+
+		const attributeNode = attributes.length ? `${indent}#[serde(${attributes.join(", ")})]\n` : "";
+		return this.withDocComment(builder, indent, member, builder.node`${attributeNode}${indent}${visibility}${fieldName}: ${rustType},`);
+	}
+
+	compileObjectLike: Visitor<SimpleTypeCompilerNode, SimpleTypeObjectLike> = args => {
+		const { type, path, visit } = args;
+		if (!type.members?.length && type.indexType?.STRING) {
+			const builder = this.compiler.nodeBuilder(type, path);
+			return builder.node`std::collections::HashMap<String, ${builder.reference(Visitor[type.kind].stringIndex({ type, path, visit })) ?? "serde_json::Value"}>`;
+		}
+
+		const loc = this.compiler.assignDeclarationLocation(type, path);
+		return this.compiler.withLocation(loc, () => {
+			const builder = this.compiler.nodeBuilder(type, path);
+			const fields = this.compileFields(args, "    ", "pub ");
+			const body = fields.length ? builder.node`pub struct ${loc.name} {\n${builder.node(fields).joinNodes("\n")}\n}` : builder.node`pub struct ${loc.name} {}`;
+			return builder.declaration(loc, this.withDocComment(builder, "", type, builder.node`${this.deriveAttribute(this.derives)}\n${body}`));
+		});
+	};
+
+	/**
+	 * Compile a union of string literals to an enum of unit variants.
+	 */
+	compileStringLiteralUnion: Visitor<SimpleTypeCompilerNode, SimpleTypeUnion> = ({ type, path }) => {
+		const loc = this.compiler.assignDeclarationLocation(type, path);
+		const builder = this.compiler.nodeBuilder(type, path);
+		const variants = type.types.map(variant => {
+			const value = String(isSimpleTypeLiteral(variant) && variant.value);
+			const name = this.variantName(value);
+			return `${this.renameAttribute(name, value, "    ")}    ${name},`;
+		});
+		return builder.declaration(loc, this.withDocComment(builder, "", type, builder.node`${this.deriveAttribute(this.unitEnumDerives)}\npub enum ${loc.name} {\n${variants.join("\n")}\n}`));
+	};
+
+	/**
+	 * Compile a discriminated union to an internally tagged enum.
+	 * Each variant's fields, except the discriminant, become a struct variant.
+	 */
+	compileTaggedUnion(args: VisitorArgs<SimpleTypeCompilerNode, SimpleTypeUnion>, tag: string): SimpleTypeCompilerNode {
+		const { type, path, visit } = args;
+		const loc = this.compiler.assignDeclarationLocation(type, path);
+		return this.compiler.withLocation(loc, () => {
+			const builder = this.compiler.nodeBuilder(type, path);
+			const variants = Visitor.UNION.mapVariants<SimpleTypeCompilerNode>({
+				path,
+				type,
+				visit: visit.with(({ type: variant, path, visit }) => {
+					const builder = this.compiler.nodeBuilder(variant, path);
+					if (!(variant.kind === "OBJECT" || variant.kind === "INTERFACE" || variant.kind === "CLASS")) {
+						throw new Error(`Non-object variant in tagged union: ${simpleTypeToString(variant)}`);
+					}
+
+					const discriminant = variant.members?.find(member => member.name === tag)?.type;
+					const value = String(discriminant && isSimpleTypeLiteral(discriminant) && discriminant.value);
+					const name = this.variantName(value);
+					const rename = this.renameAttribute(name, value, "    ");
+					const fields = this.compileFields({ type: variant, path, visit }, "        ", "", tag);
+					const body = fields.length ? builder.node` {\n${builder.node(fields).joinNodes("\n")}\n    }` : "";
+					return this.withDocComment(builder, "    ", variant, builder.node`${rename}    ${name}${body},`);
+				})
+			});
+
+			return builder.declaration(
+				loc,
+				this.withDocComment(
+					builder,
+					"",
+					type,
+					builder.node`${this.deriveAttribute(this.derives)}\n#[serde(tag = ${JSON.stringify(tag)})]\npub enum ${loc.name} {\n${builder.node(variants).joinNodes("\n")}\n}`
+				)
+			);
+		});
+	}
+
+	/**
+	 * Compile any other union to an untagged enum, which tries each variant in order.
+	 */
+	compileUntaggedUnion(args: VisitorArgs<SimpleTypeCompilerNode, SimpleTypeUnion>): SimpleTypeCompilerNode {
+		const { type, path, visit } = args;
+		const loc = this.compiler.assignDeclarationLocation(type, path);
+		return this.compiler.withLocation(loc, () => {
+			const builder = this.compiler.nodeBuilder(type, path);
+			const names = new Set<string>();
+			const variants = Visitor.UNION.mapVariants<SimpleTypeCompilerNode>({
+				path,
+				type,
+				visit: visit.with(({ type: variant, path }) => {
+					const builder = this.compiler.nodeBuilder(variant, path);
+					const variantType = builder.reference(this.compiler.compileType(variant, path));
+					let name = this.variantName(this.compiler.inferTypeName(variant, path));
+					for (let i = 1; names.has(name); i++) {
+						name = `${name.replace(/[0-9]+$/, "")}${i}`;
+					}
+					names.add(name);
+					return builder.node`    ${name}(${variantType}),`;
+				})
+			});
+
+			return builder.declaration(
+				loc,
+				this.withDocComment(builder, "", type, builder.node`${this.deriveAttribute(this.derives)}\n#[serde(untagged)]\npub enum ${loc.name} {\n${builder.node(variants).joinNodes("\n")}\n}`)
+			);
+		});
+	}
+
+	/**
+	 * HashMap keys and HashSet elements must be `Hash` and `Eq`, which `f64` and the derived structs aren't.
+	 * Numbers compile to `i64` instead, and other types that can't be hashed are an error.
+	 */
+	compileHashKey(builder: SimpleTypeCompilerNodeBuilder, type: SimpleType, compileKey: () => SimpleTypeCompilerNode): SimpleTypeCompilerNode {
+		if (type.kind === "NUMBER" || type.kind === "NUMBER_LITERAL") {
+			return builder.node`i64`;
+		}
+		if (!this.isHashable(type)) {
+			throw new Error(`Rust HashMap keys and HashSet elements must be Hash and Eq: ${simpleTypeToString(type)}`);
+		}
+		return builder.reference(compileKey());
+	}
+
+	/** Types that compile to strings, integers, booleans or unit enums, which are all `Hash` and `Eq`. */
+	isHashable(type: SimpleType): boolean {
+		switch (type.kind) {
+			case "STRING":
+			case "STRING_LITERAL":
+			case "TEMPLATE_LITERAL":
+			case "STRING_MAPPING":
+			case "BOOLEAN":
+			case "BOOLEAN_LITERAL":
+			case "BIG_INT":
+			case "BIG_INT_LITERAL":
+			case "DATE":
+			case "REGEXP":
+			case "URL":
+			case "ENUM":
+				return true;
+			case "UNION":
+				return type.types.every(variant => variant.kind === "STRING_LITERAL");
+			case "ALIAS":
+				return this.isHashable(type.target);
+			default:
+				return false;
+		}
+	}
+
+	dropMemberKinds = new Set<SimpleTypeKind>(["FUNCTION", "METHOD"]);
+
+	compileKind: SimpleTypeKindVisitors<SimpleTypeCompilerNode> = {
+		// Literals
+		// Rust has no literal types, so literals compile to their primitive type.
+		STRING_LITERAL: this.withBuilder(({ builder }) => builder.node`String`),
+		NUMBER_LITERAL: this.withBuilder(({ builder }) => builder.node`f64`),
+		BOOLEAN_LITERAL: this.withBuilder(({ builder }) => builder.node`bool`),
+		BIG_INT_LITERAL: this.withBuilder(({ builder }) => builder.node`i64`),
+		ES_SYMBOL_UNIQUE: this.throwUnsupported,
+
+		// Primitives
+		BOOLEAN: this.withBuilder(({ builder }) => builder.node`bool`),
+		STRING: this.withBuilder(({ builder }) => builder.node`String`),
+		TEMPLATE_LITERAL: this.withBuilder(({ builder }) => builder.node`String`),
+		STRING_MAPPING: this.withBuilder(({ builder }) => builder.node`String`),
+		BIG_INT: this.withBuilder(({ builder }) => builder.node`i64`),
+		NUMBER: this.withBuilder(({ builder }) => builder.node`f64`),
+
+		// None-like
+		NULL: this.withBuilder(({ builder }) => builder.node`()`),
+		UNDEFINED: this.withBuilder(({ builder }) => builder.node`()`),
+		VOID: this.withBuilder(({ builder }) => builder.node`()`),
+
+		// Top & bottom
+		UNKNOWN: this.withBuilder(({ builder }) => builder.node`serde_json::Value`),
+		ANY: this.withBuilder(({ builder }) => builder.node`serde_json::Value`),
+		NEVER: this.throwUnsupported,
+
+		// Well-known
+		DATE: this.withBuilder(({ builder }) => builder.node`String`),
+		MAP: this.withBuilder(({ builder, type, path, visit }) => {
+			const key = this.compileHashKey(builder, type.keyType, () => Visitor.MAP.key({ path, type, visit }));
+			const value = builder.reference(Visitor.MAP.value({ path, type, visit }));
+			return builder.node`std::collections::HashMap<${key}, ${value}>`;
+		}),
+		SET: this.withBuilder(({ builder, type, path, visit }) => {
+			const value = this.compileHashKey(builder, type.type, () => Visitor.SET.value({ path, type, visit }));
+			return builder.node`std::collections::HashSet<${value}>`;
+		}),
+		REGEXP: this.withBuilder(({ builder }) => builder.node`String`),
+		URL: this.withBuilder(({ builder }) => builder.node`String`),
+		BINARY: this.withBuilder(({ builder }) => builder.node`Vec<u8>`),
+		ERROR: this.throwUnsupported,
+
+		// Compile instantiated generics instead of copying the whole generic type
+		ALIAS: Visitor.ALIAS.aliased,
+		GENERIC_ARGUMENTS: Visitor.GENERIC_ARGUMENTS.aliased,
+
+		// Algebraic types
+		UNION: args => {
+			const { type, path, visit } = args;
+			const nullable = toNullableSimpleType(type);
+			if (nullable.kind === "NULLABLE") {
+				const builder = this.compiler.nodeBuilder(type, path);
+				return builder.node`Option<${builder.reference(visit(undefined, nullable.type))}>`;
+			}
+
+			if (type.types.every(variant => variant.kind === "STRING_LITERAL")) {
+				return this.compileStringLiteralUnion(args);
+			}
+
+			// serde only supports string tags
+			const taggedUnion = toEnumTaggedUnion(type);
+			if (taggedUnion && "name" in taggedUnion.discriminantMember && taggedUnion.tag.types.every(member => member.type.kind === "STRING_LITERAL")) {
+				return this.compileTaggedUnion(args, taggedUnion.discriminantMember.name);
+			}
+
+			return this.compileUntaggedUnion(args);
+		},
+		INTERSECTION: ({ type, visit }) => {
+			if (!type.intersected) {
+				throw new Error(`Target type system doesn't support intersection types`);
+			}
+			return visit(undefined, type.intersected);
+		},
+
+		// List types
+		ARRAY: this.withBuilder(({ builder, type, path, visit }) => builder.node`Vec<${builder.reference(Visitor.ARRAY.numberIndex({ path, type, visit }))}>`),
+		TUPLE: this.withBuilder(({ builder, type, path, visit }) => {
+			if (type.rest) {
+				throw new Error(`Rust tuples can't have rest elements: ${simpleTypeToString(type)}`);
+			}
+			const members = builder.references(Visitor.TUPLE.mapIndexedMembers({ path, type, visit }));
+			return builder.node`(${members.joinNodes(", ")}${type.members.length === 1 ? "," : ""})`;
+		}),
+
+		// Object
+		INTERFACE: this.compileObjectLike,
+		CLASS: this.compileObjectLike,
+		OBJECT: this.compileObjectLike,
+
+		// Enum
+		ENUM: ({ type, path }) => {
+			const loc = this.compiler.assignDeclarationLocation(type, path);
+			const builder = this.compiler.nodeBuilder(type, path);
+			const values = type.types.map(member => member.type);
+			if (values.every(value => value.kind === "NUMBER_LITERAL" && Number.isInteger(value.value))) {
+				const variants = type.types.map(member => `    ${this.variantName(member.name)} = ${String(isSimpleTypeLiteral(member.type) && member.type.value)},`);
+				const derives = this.unitEnumDerives.map(derive => (derive === "Serialize" || derive === "Deserialize" ? `serde_repr::${derive}_repr` : derive));
+				return builder.declaration(
+					loc,
+					this.withDocComment(builder, "", type, builder.node`${this.deriveAttribute(derives)}\n#[repr(i64)]\npub enum ${loc.name} {\n${variants.join("\n")}\n}`)
+				);
+			}
+			if (!values.every(value => value.kind === "STRING_LITERAL")) {
+				throw new Error(`Rust enums must have all string or all integer values: ${simpleTypeToString(type)}`);
+			}
+
+			const variants = type.types.map(member => {
+				const name = this.variantName(member.name);
+				return `${this.renameAttribute(name, String(isSimpleTypeLiteral(member.type) && member.type.value), "    ")}    ${name},`;
+			});
+			return builder.declaration(loc, this.withDocComment(builder, "", type, builder.node`${this.deriveAttribute(this.unitEnumDerives)}\npub enum ${loc.name} {\n${variants.join("\n")}\n}`));
+		},
+		ENUM_MEMBER: ({ type, visit }) => visit(undefined, type.type),
+
+		// Unsupported
+		FUNCTION: this.throwUnsupported,
+		METHOD: this.throwUnsupported,
+		GENERIC_PARAMETER: this.throwUnsupported,
+		ES_SYMBOL: this.throwUnsupported,
+		NON_PRIMITIVE: this.throwUnsupported,
+		PROMISE: this.throwUnsupported,
+		INDEX: this.throwUnsupported,
+		INDEXED_ACCESS: this.throwUnsupported,
+		CONDITIONAL: this.throwUnsupported
+	};
+}
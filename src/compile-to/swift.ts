@@ -0,0 +1,537 @@
+import type * as ts from "typescript";
+import { isSimpleTypeLiteral, SimpleType, SimpleTypeClass, SimpleTypeEnum, SimpleTypeInterface, SimpleTypeKind, SimpleTypeMember, SimpleTypeObject, SimpleTypeUnion } from "../simple-type";
+import { SimpleTypePath, SimpleTypePathStepNamedMember } from "../simple-type-path";
+import {
+	SimpleTypeCompiler,
+	SimpleTypeCompilerDeclarationLocation,
+	SimpleTypeCompilerDeclarationNode,
+	SimpleTypeCompilerNode,
+	SimpleTypeCompilerNodeBuilder,
+	SimpleTypeCompilerReferenceArgs,
+	SimpleTypeCompilerReferenceNode,
+	SimpleTypeCompilerTarget,
+	SimpleTypeCompilerTargetFile
+} from "../transform/compiler";
+import { toEnumTaggedUnion, toNullableSimpleType, unionAsEnums } from "../transform/inspect-simple-type";
+import { simpleTypeToString } from "../transform/simple-type-to-string";
+import { SimpleTypeKindVisitors, Visitor, VisitorArgs } from "../visitor";
+import { isDefined } from "./thrift";
+
+type SimpleTypeObjectLike = SimpleTypeObject | SimpleTypeClass | SimpleTypeInterface;
+
+/** https://docs.swift.org/swift-book/documentation/the-swift-programming-language/lexicalstructure/#Keywords-and-Punctuation */
+const SWIFT_KEYWORDS = new Set([
+	"associatedtype",
+	"class",
+	"deinit",
+	"enum",
+	"extension",
+	"fileprivate",
+	"func",
+	"import",
+	"init",
+	"inout",
+	"internal",
+	"let",
+	"open",
+	"operator",
+	"private",
+	"protocol",
+	"public",
+	"rethrows",
+	"static",
+	"struct",
+	"subscript",
+	"typealias",
+	"var",
+	"break",
+	"case",
+	"continue",
+	"default",
+	"defer",
+	"do",
+	"else",
+	"fallthrough",
+	"for",
+	"guard",
+	"if",
+	"in",
+	"repeat",
+	"return",
+	"switch",
+	"where",
+	"while",
+	"as",
+	"catch",
+	"false",
+	"is",
+	"nil",
+	"super",
+	"self",
+	"Self",
+	"throw",
+	"throws",
+	"true",
+	"try"
+]);
+
+const SWIFT_IDENTIFIER = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+/** Split a name or literal value into words, at separators and camelCase boundaries. */
+function words(name: string): string[] {
+	return name
+		.replace(/([a-z0-9])([A-Z])/g, "$1 $2")
+		.split(/[^A-Za-z0-9]+/)
+		.filter(Boolean);
+}
+
+/**
+ * Compiles types to Swift types that conform to `Codable`.
+ * To customize the compilation, make a subclass.
+ *
+ * Object types compile to structs, or to final classes if they contain
+ * themselves. Nullable and optional members compile to `T?`. String literal
+ * unions compile to `String` enums, and other unions compile to enums with
+ * associated values, which are `indirect` if they contain themselves.
+ * Discriminated unions decode by their tag, while other unions try each
+ * variant in order.
+ *
+ * Swift modules don't import their own files, so declarations in other output
+ * files are referenced by name.
+ *
+ * https://developer.apple.com/documentation/foundation/archives_and_serialization/encoding_and_decoding_custom_types
+ */
+export class SwiftCompilerTarget implements SimpleTypeCompilerTarget {
+	static createCompiler<T extends SwiftCompilerTarget>(this: { new (compiler: SimpleTypeCompiler): T }, typeChecker: ts.TypeChecker): SimpleTypeCompiler {
+		return new SimpleTypeCompiler(typeChecker, compiler => new this(compiler));
+	}
+
+	constructor(public compiler: SimpleTypeCompiler) {}
+
+	/** String enums split out of literal unions, so each enum is only compiled once */
+	private unionEnums = new WeakMap<SimpleTypeUnion, SimpleTypeEnum>();
+	/** Declarations that reference themselves, which can't be structs */
+	private recursiveLocations = new WeakSet<SimpleTypeCompilerDeclarationLocation>();
+
+	compileType: Visitor<SimpleTypeCompilerNode, SimpleType> = args => {
+		const { type, path, visit } = args;
+		if (type.error) {
+			throw new Error(`SimpleType kind ${type.kind} has error: ${type.error}`);
+		}
+		const compileTypeKind = this.compileKind[type.kind];
+		if (!compileTypeKind) {
+			throw new ReferenceError(`SimpleType kind ${type.kind} has no compiler defined`);
+		}
+
+		const typeExpression = compileTypeKind({ type: type as never, path, visit });
+		if (this.compiler.isExportedFromSourceLocation(args.type)) {
+			return this.toTypeAliasDeclaration(args, typeExpression);
+		} else {
+			return typeExpression;
+		}
+	};
+
+	compileReference(args: SimpleTypeCompilerReferenceArgs): SimpleTypeCompilerNode {
+		const builder = this.compiler.anonymousNodeBuilder(args.from);
+		const location = args.to.location;
+		if (args.circular) {
+			this.recursiveLocations.add(location);
+		}
+		return builder.reference(args.to, [...(location.namespace || []), location.name].join("."));
+	}
+
+	compileFile(file: SimpleTypeCompilerTargetFile): SimpleTypeCompilerNode {
+		const builder = this.compiler.anonymousNodeBuilder();
+		return builder.node([builder.node`import Foundation`, ...file.nodes, builder.node``]).joinNodes("\n\n");
+	}
+
+	/** Convert a Typescript member name or literal value to a lowerCamelCase Swift identifier. */
+	identifier(name: string): string {
+		if (!SWIFT_IDENTIFIER.test(name)) {
+			const [first = "", ...rest] = words(name);
+			name = first.charAt(0).toLowerCase() + first.slice(1) + rest.map(word => word.charAt(0).toUpperCase() + word.slice(1)).join("");
+			name = /^[A-Za-z_]/.test(name) ? name : `_${name}`;
+		}
+		return SWIFT_KEYWORDS.has(name) ? `\`${name}\`` : name;
+	}
+
+	/** Convert a literal value to a PascalCase type name. */
+	typeName(value: string): string {
+		const name = words(value)
+			.map(word => word.charAt(0).toUpperCase() + word.slice(1))
+			.join("");
+		return /^[A-Za-z_]/.test(name) ? name : `_${name}`;
+	}
+
+	/** A coding key or enum case, with its serialized value if that differs from its name. */
+	caseWithRawValue(name: string, rawValue: string): string {
+		return name.replace(/`/g, "") === rawValue ? `case ${name}` : `case ${name} = ${JSON.stringify(rawValue)}`;
+	}
+
+	withBuilder = <ST extends SimpleType>(
+		visitor: (args: VisitorArgs<SimpleTypeCompilerNode, ST> & { builder: SimpleTypeCompilerNodeBuilder }) => SimpleTypeCompilerNode
+	): Visitor<SimpleTypeCompilerNode, ST> => {
+		return args => {
+			const builder = this.compiler.nodeBuilder(args.type, args.path);
+			return visitor({ ...args, builder });
+		};
+	};
+
+	throwUnsupported: Visitor<SimpleTypeCompilerNode> = ({ type }) => {
+		throw new Error(`Unsupported SimpleType kind: ${type.kind}`);
+	};
+
+	toTypeAliasDeclaration(args: VisitorArgs<SimpleTypeCompilerNode>, inner: SimpleTypeCompilerNode): SimpleTypeCompilerNode {
+		if (inner instanceof SimpleTypeCompilerReferenceNode || inner instanceof SimpleTypeCompilerDeclarationNode) {
+			return inner;
+		}
+
+		const builder = this.compiler.nodeBuilder(args.type, args.path);
+		const declarationLocation = this.compiler.assignDeclarationLocation(args.type, args.path);
+		return builder.declaration(declarationLocation, this.withDocComment(builder, "", args.type, builder.node`typealias ${declarationLocation.name} = ${inner}`));
+	}
+
+	docCommentNode(builder: SimpleTypeCompilerNodeBuilder, indent: string, typeOrMember: SimpleType | SimpleTypeMember): SimpleTypeCompilerNode | undefined {
+		const docComment = this.compiler.getDocumentationComment(typeOrMember)?.docComment;
+		if (docComment) {
+			return builder.node(docComment.split("\n").map(line => `${indent}///${line ? " " + line : ""}`)).joinNodes("\n");
+		}
+	}
+
+	withDocComment(builder: SimpleTypeCompilerNodeBuilder, indent: string, typeOrMember: SimpleType | SimpleTypeMember, inner: SimpleTypeCompilerNode): SimpleTypeCompilerNode {
+		const docCommentNode = this.docCommentNode(builder, indent, typeOrMember);
+		return docCommentNode ? builder.node([docCommentNode, inner]).joinNodes("\n") : inner;
+	}
+
+	/**
+	 * Compile an object type's members to the body of a struct or class.
+	 * If any property is renamed, the body includes `CodingKeys` for every property.
+	 */
+	compileStructBody(args: VisitorArgs<SimpleTypeCompilerNode, SimpleTypeObjectLike>, indent: string, skipMember?: string): SimpleTypeCompilerNode[] {
+		const { type, path, visit } = args;
+		const codingKeys: string[] = [];
+		const properties = Visitor[type.kind]
+			.mapNamedMembers<SimpleTypeCompilerNode | undefined>({
+				path,
+				type,
+				visit: visit.with(({ type, path }) => {
+					const member = (SimpleTypePath.last(path) as SimpleTypePathStepNamedMember).member;
+					if (member.name === skipMember || this.dropMemberKinds.has(type.kind)) {
+						return undefined;
+					}
+
+					const builder = this.compiler.nodeBuilder(type, path);
+					const nullable = type.kind === "UNION" && toNullableSimpleType(type).kind === "NULLABLE";
+					const propertyType = builder.reference(this.compiler.compileType(type, path));
+					const name = this.identifier(member.name);
+					codingKeys.push(this.caseWithRawValue(name, member.name));
+					return this.withDocComment(builder, indent, member, builder.node`${indent}let ${name}: ${propertyType}${member.optional && !nullable ? "?" : ""}`);
+				})
+			})
+			.filter(isDefined);
+
+		if (codingKeys.every(codingKey => !codingKey.includes("="))) {
+			return properties;
+		}
+
+		const builder = this.compiler.nodeBuilder(type, path);
+		const codingKeysNode = builder.node([`${indent}enum CodingKeys: String, CodingKey {`, ...codingKeys.map(codingKey => `${indent}    ${codingKey}`), `${indent}}`].join("\n"));
+		return [...properties, builder.node``, codingKeysNode];
+	}
+
+	compileObjectLike: Visitor<SimpleTypeCompilerNode, SimpleTypeObjectLike> = args => {
+		const { type, path, visit } = args;
+		if (!type.members?.length && type.indexType?.STRING) {
+			const builder = this.compiler.nodeBuilder(type, path);
+			const value = builder.reference(Visitor[type.kind].stringIndex({ type, path, visit }));
+			if (!value) {
+				throw new Error(`Unsupported index signature: ${simpleTypeToString(type)}`);
+			}
+			return builder.node`[String: ${value}]`;
+		}
+
+		const loc = this.compiler.assignDeclarationLocation(type, path);
+		return this.compiler.withLocation(loc, () => {
+			const builder = this.compiler.nodeBuilder(type, path);
+			const body = this.compileStructBody(args, "    ");
+			// Structs can't contain themselves, but classes can.
+			const keyword = this.recursiveLocations.has(loc) ? "final class" : "struct";
+			const braces = body.length ? builder.node`{\n${builder.node(body).joinNodes("\n")}\n}` : "{}";
+			return builder.declaration(loc, this.withDocComment(builder, "", type, builder.node`${keyword} ${loc.name}: Codable ${braces}`));
+		});
+	};
+
+	/**
+	 * Compile an enum of literals to an enum with raw values.
+	 */
+	compileRawValueEnum(type: SimpleTypeEnum, path: SimpleTypePath, docType: SimpleType = type): SimpleTypeCompilerNode {
+		const loc = this.compiler.assignDeclarationLocation(type, path);
+		const builder = this.compiler.nodeBuilder(type, path);
+		const isString = type.types.every(member => member.type.kind === "STRING_LITERAL");
+		const cases = type.types.map(member => {
+			const value = isSimpleTypeLiteral(member.type) ? member.type.value : undefined;
+			const name = this.identifier(member.name);
+			return isString ? `    ${this.caseWithRawValue(name, String(value))}` : `    case ${name} = ${String(value)}`;
+		});
+		return builder.declaration(loc, this.withDocComment(builder, "", docType, builder.node`enum ${loc.name}: ${isString ? "String" : "Int"}, Codable {\n${cases.join("\n")}\n}`));
+	}
+
+	/**
+	 * Compile a discriminated union to an enum with a case for each variant.
+	 * Each variant's fields, except the discriminant, are decoded into a nested struct.
+	 */
+	compileTaggedUnion(args: VisitorArgs<SimpleTypeCompilerNode, SimpleTypeUnion>, tag: string): SimpleTypeCompilerNode {
+		const { type, path, visit } = args;
+		const loc = this.compiler.assignDeclarationLocation(type, path);
+		return this.compiler.withLocation(loc, () => {
+			const builder = this.compiler.nodeBuilder(type, path);
+			const variants = Visitor.UNION.mapVariants<{ value: string; caseName: string; payload?: string; declaration?: SimpleTypeCompilerNode }>({
+				path,
+				type,
+				visit: visit.with(({ type: variant, path, visit }) => {
+					const builder = this.compiler.nodeBuilder(variant, path);
+					if (!(variant.kind === "OBJECT" || variant.kind === "INTERFACE" || variant.kind === "CLASS")) {
+						throw new Error(`Non-object variant in tagged union: ${simpleTypeToString(variant)}`);
+					}
+
+					const discriminant = variant.members?.find(member => member.name === tag)?.type;
+					const value = String(discriminant && isSimpleTypeLiteral(discriminant) && discriminant.value);
+					const caseName = this.identifier(this.typeName(value).replace(/^./, first => first.toLowerCase()));
+					const body = this.compileStructBody({ type: variant, path, visit: visit.with(this.compileType) }, "        ", tag);
+					if (!body.length) {
+						return { value, caseName };
+					}
+
+					const payload = this.typeName(value);
+					const declaration = this.withDocComment(builder, "    ", variant, builder.node`    struct ${payload}: Codable {\n${builder.node(body).joinNodes("\n")}\n    }`);
+					return { value, caseName, payload, declaration };
+				})
+			});
+
+			const tagKey = JSON.stringify(tag);
+			const cases = variants.map(({ caseName, payload }) => `    case ${caseName}${payload ? `(${payload})` : ""}`);
+			const decodeCases = variants.map(
+				({ value, caseName, payload }) => `        case ${JSON.stringify(value)}: self = ${payload ? `.${caseName}(try ${payload}(from: decoder))` : `.${caseName}`}`
+			);
+			const encodeCases = variants.map(({ value, caseName, payload }) =>
+				[
+					`        case .${caseName}${payload ? "(let value)" : ""}:`,
+					`            try container.encode(${JSON.stringify(value)}, forKey: .tag)`,
+					...(payload ? [`            try value.encode(to: encoder)`] : [])
+				].join("\n")
+			);
+			const coding = [
+				`    private enum TagCodingKeys: String, CodingKey {`,
+				`        case tag = ${tagKey}`,
+				`    }`,
+				``,
+				`    init(from decoder: Decoder) throws {`,
+				`        let container = try decoder.container(keyedBy: TagCodingKeys.self)`,
+				`        switch try container.decode(String.self, forKey: .tag) {`,
+				...decodeCases,
+				`        case let tag: throw DecodingError.dataCorruptedError(forKey: .tag, in: container, debugDescription: "Unknown ${tag.replace(/["\\]/g, "")} \\(tag)")`,
+				`        }`,
+				`    }`,
+				``,
+				`    func encode(to encoder: Encoder) throws {`,
+				`        var container = encoder.container(keyedBy: TagCodingKeys.self)`,
+				`        switch self {`,
+				...encodeCases,
+				`        }`,
+				`    }`
+			].join("\n");
+
+			const members = [builder.node(cases).joinNodes("\n"), ...variants.map(variant => variant.declaration).filter(isDefined), builder.node(coding)];
+			return builder.declaration(loc, this.withDocComment(builder, "", type, builder.node`${this.enumKeyword(loc)} ${loc.name}: Codable {\n${builder.node(members).joinNodes("\n\n")}\n}`));
+		});
+	}
+
+	/** Enums can only contain themselves through `indirect` cases. */
+	enumKeyword(loc: SimpleTypeCompilerDeclarationLocation): string {
+		return this.recursiveLocations.has(loc) ? "indirect enum" : "enum";
+	}
+
+	/**
+	 * Compile any other union to an enum that decodes the first variant that matches.
+	 */
+	compileUntaggedUnion(args: VisitorArgs<SimpleTypeCompilerNode, SimpleTypeUnion>): SimpleTypeCompilerNode {
+		const { type, path, visit } = args;
+		const loc = this.compiler.assignDeclarationLocation(type, path);
+		return this.compiler.withLocation(loc, () => {
+			const builder = this.compiler.nodeBuilder(type, path);
+			const names = new Set<string>();
+			const variants = Visitor.UNION.mapVariants<{ caseName: string; variantType: SimpleTypeCompilerNode }>({
+				path,
+				type,
+				visit: visit.with(({ type: variant, path }) => {
+					const builder = this.compiler.nodeBuilder(variant, path);
+					const variantType = builder.reference(this.compiler.compileType(variant, path));
+					let caseName = this.identifier(this.typeName(this.compiler.inferTypeName(variant, path)).replace(/^./, first => first.toLowerCase()));
+					for (let i = 1; names.has(caseName); i++) {
+						caseName = `${caseName.replace(/[0-9]+$/, "")}${i}`;
+					}
+					names.add(caseName);
+					return { caseName, variantType };
+				})
+			});
+
+			const members = [
+				builder.node(variants.map(({ caseName, variantType }) => builder.node`    case ${caseName}(${variantType})`)).joinNodes("\n"),
+				builder
+					.node([
+						`    init(from decoder: Decoder) throws {`,
+						`        let container = try decoder.singleValueContainer()`,
+						...variants.map(
+							({ caseName, variantType }) =>
+								builder.node`        if let value = try? container.decode(${variantType}.self) {\n            self = .${caseName}(value)\n            return\n        }`
+						),
+						`        throw DecodingError.typeMismatch(${loc.name}.self, DecodingError.Context(codingPath: decoder.codingPath, debugDescription: "No variant matched"))`,
+						`    }`
+					])
+					.joinNodes("\n"),
+				builder
+					.node([
+						`    func encode(to encoder: Encoder) throws {`,
+						`        var container = encoder.singleValueContainer()`,
+						`        switch self {`,
+						...variants.map(({ caseName }) => `        case .${caseName}(let value): try container.encode(value)`),
+						`        }`,
+						`    }`
+					])
+					.joinNodes("\n")
+			];
+			return builder.declaration(loc, this.withDocComment(builder, "", type, builder.node`${this.enumKeyword(loc)} ${loc.name}: Codable {\n${builder.node(members).joinNodes("\n\n")}\n}`));
+		});
+	}
+
+	/**
+	 * Split a union of only string literals, or only integer literals, into an enum.
+	 */
+	toUnionEnum(type: SimpleTypeUnion): SimpleTypeEnum | undefined {
+		let memo = this.unionEnums.get(type);
+		if (!memo) {
+			const { strings, numbers, rest } = unionAsEnums(type);
+			if (rest?.types.length) {
+				return undefined;
+			}
+			if (strings?.types.length && !numbers?.types.length) {
+				memo = strings;
+			} else if (numbers?.types.length && !strings?.types.length && numbers.types.every(member => member.type.kind === "NUMBER_LITERAL" && Number.isInteger(member.type.value))) {
+				memo = numbers;
+			} else {
+				return undefined;
+			}
+			this.unionEnums.set(type, memo);
+		}
+		return memo;
+	}
+
+	dropMemberKinds = new Set<SimpleTypeKind>(["FUNCTION", "METHOD"]);
+
+	compileKind: SimpleTypeKindVisitors<SimpleTypeCompilerNode> = {
+		// Literals
+		// Swift has no literal types, so literals compile to their primitive type.
+		STRING_LITERAL: this.withBuilder(({ builder }) => builder.node`String`),
+		NUMBER_LITERAL: this.withBuilder(({ builder }) => builder.node`Double`),
+		BOOLEAN_LITERAL: this.withBuilder(({ builder }) => builder.node`Bool`),
+		BIG_INT_LITERAL: this.withBuilder(({ builder }) => builder.node`Int64`),
+		ES_SYMBOL_UNIQUE: this.throwUnsupported,
+
+		// Primitives
+		BOOLEAN: this.withBuilder(({ builder }) => builder.node`Bool`),
+		STRING: this.withBuilder(({ builder }) => builder.node`String`),
+		TEMPLATE_LITERAL: this.withBuilder(({ builder }) => builder.node`String`),
+		STRING_MAPPING: this.withBuilder(({ builder }) => builder.node`String`),
+		BIG_INT: this.withBuilder(({ builder }) => builder.node`Int64`),
+		NUMBER: this.withBuilder(({ builder }) => builder.node`Double`),
+
+		// None-like
+		NULL: this.throwUnsupported,
+		UNDEFINED: this.throwUnsupported,
+		VOID: this.throwUnsupported,
+
+		// Top & bottom
+		// Foundation has no Codable type for arbitrary JSON.
+		UNKNOWN: this.throwUnsupported,
+		ANY: this.throwUnsupported,
+		NEVER: this.throwUnsupported,
+
+		// Well-known
+		DATE: this.withBuilder(({ builder }) => builder.node`String`),
+		MAP: this.withBuilder(({ builder, type, path, visit }) => {
+			const key = builder.reference(Visitor.MAP.key({ path, type, visit }));
+			const value = builder.reference(Visitor.MAP.value({ path, type, visit }));
+			return builder.node`[${key}: ${value}]`;
+		}),
+		SET: this.withBuilder(({ builder, type, path, visit }) => builder.node`Set<${builder.reference(Visitor.SET.value({ path, type, visit }))}>`),
+		REGEXP: this.withBuilder(({ builder }) => builder.node`String`),
+		URL: this.withBuilder(({ builder }) => builder.node`URL`),
+		BINARY: this.withBuilder(({ builder }) => builder.node`Data`),
+		ERROR: this.throwUnsupported,
+
+		// Compile instantiated generics instead of copying the whole generic type
+		ALIAS: Visitor.ALIAS.aliased,
+		GENERIC_ARGUMENTS: Visitor.GENERIC_ARGUMENTS.aliased,
+
+		// Algebraic types
+		UNION: args => {
+			const { type, path, visit } = args;
+			const nullable = toNullableSimpleType(type);
+			if (nullable.kind === "NULLABLE") {
+				const builder = this.compiler.nodeBuilder(type, path);
+				return builder.node`${builder.reference(visit(undefined, nullable.type))}?`;
+			}
+
+			const rawValueEnum = this.toUnionEnum(type);
+			if (rawValueEnum) {
+				// The enum takes the union's place, and its inferred name.
+				this.compiler.getCurrentProgram().setDeclarationLocation(rawValueEnum, this.compiler.assignDeclarationLocation(type, path));
+				return this.compileRawValueEnum(rawValueEnum, path, type);
+			}
+
+			const taggedUnion = toEnumTaggedUnion(type);
+			if (taggedUnion && "name" in taggedUnion.discriminantMember && taggedUnion.tag.types.every(member => member.type.kind === "STRING_LITERAL")) {
+				return this.compileTaggedUnion(args, taggedUnion.discriminantMember.name);
+			}
+
+			return this.compileUntaggedUnion(args);
+		},
+		INTERSECTION: ({ type, visit }) => {
+			if (!type.intersected) {
+				throw new Error(`Target type system doesn't support intersection types`);
+			}
+			return visit(undefined, type.intersected);
+		},
+
+		// List types
+		ARRAY: this.withBuilder(({ builder, type, path, visit }) => builder.node`[${builder.reference(Visitor.ARRAY.numberIndex({ path, type, visit }))}]`),
+		TUPLE: this.throwUnsupported,
+
+		// Object
+		INTERFACE: this.compileObjectLike,
+		CLASS: this.compileObjectLike,
+		OBJECT: this.compileObjectLike,
+
+		// Enum
+		ENUM: ({ type, path }) => {
+			const isString = type.types.every(member => member.type.kind === "STRING_LITERAL");
+			const isInteger = type.types.every(member => member.type.kind === "NUMBER_LITERAL" && Number.isInteger(member.type.value));
+			if (!isString && !isInteger) {
+				throw new Error(`Swift enums must have all string or all integer values: ${simpleTypeToString(type)}`);
+			}
+			return this.compileRawValueEnum(type, path);
+		},
+		ENUM_MEMBER: ({ type, visit }) => visit(undefined, type.type),
+
+		// Unsupported
+		FUNCTION: this.throwUnsupported,
+		METHOD: this.throwUnsupported,
+		GENERIC_PARAMETER: this.throwUnsupported,
+		ES_SYMBOL: this.throwUnsupported,
+		NON_PRIMITIVE: this.throwUnsupported,
+		PROMISE: this.throwUnsupported,
+		INDEX: this.throwUnsupported,
+		INDEXED_ACCESS: this.throwUnsupported,
+		CONDITIONAL: this.throwUnsupported
+	};
+}
@@ -124,6 +124,8 @@ export class ThriftCompilerTarget implements SimpleTypeCompilerTarget {
 		throw new Error(`Unsupported SimpleType kind: ${type.kind}`);
 	};
 
+	compileStringLike = this.withBuilder(({ type, builder }) => builder.node`/** ${simpleTypeToString(type)} */ ${this.primitiveKind.STRING}`);
+
 	compilePrimitive = this.withBuilder(({ type, builder }) => {
 		if (!(type.kind in this.primitiveKind)) {
 			throw new Error(`Unsupported SimpleTypePrimitive kind: ${type.kind}`);
@@ -230,6 +232,8 @@ export class ThriftCompilerTarget implements SimpleTypeCompilerTarget {
 		// Primitives
 		BOOLEAN: this.compilePrimitive,
 		STRING: this.compilePrimitive,
+		TEMPLATE_LITERAL: this.compileStringLike,
+		STRING_MAPPING: this.compileStringLike,
 		BIG_INT: this.compilePrimitive,
 		NUMBER: this.compilePrimitive,
 
@@ -246,6 +250,20 @@ export class ThriftCompilerTarget implements SimpleTypeCompilerTarget {
 
 		// Well-known
 		DATE: this.throwUnsupported,
+		MAP: this.withBuilder(({ builder, type, path, visit }) => {
+			const key = builder.reference(Visitor.MAP.key({ path, type, visit }));
+			const value = builder.reference(Visitor.MAP.value({ path, type, visit }));
+			return builder.node`map<${key}, ${value}>`;
+		}),
+		SET: this.withBuilder(({ builder, type, path, visit }) => builder.node`set<${builder.reference(Visitor.SET.value({ path, type, visit }))}>`),
+		REGEXP: this.compileStringLike,
+		URL: this.compileStringLike,
+		BINARY: this.withBuilder(({ builder }) => builder.node`binary`),
+		ERROR: ({ type, path }) => {
+			const loc = this.compiler.assignDeclarationLocation(type, path);
+			const builder = this.compiler.nodeBuilder(type, path);
+			return builder.declaration(loc, this.withDeclarationDocComment(type, path, builder.node`exception ${loc.name} {\n  1: string name,\n  2: string message,\n  3: optional string stack\n}`));
+		},
 
 		// Compile instantiated generics instead of copying the whole generic type
 		ALIAS: Visitor.ALIAS.aliased,
@@ -363,7 +381,10 @@ union SomeUnion {
 		GENERIC_PARAMETER: this.throwUnsupported,
 		ES_SYMBOL: this.throwUnsupported,
 		NON_PRIMITIVE: this.throwUnsupported,
-		PROMISE: this.throwUnsupported
+		PROMISE: this.throwUnsupported,
+		INDEX: this.throwUnsupported,
+		INDEXED_ACCESS: this.throwUnsupported,
+		CONDITIONAL: this.throwUnsupported
 	};
 }
 
@@ -0,0 +1,459 @@
+import type * as ts from "typescript";
+import {
+	isSimpleTypeLiteral,
+	SimpleType,
+	SimpleTypeClass,
+	SimpleTypeFunction,
+	SimpleTypeGenericParameter,
+	SimpleTypeInterface,
+	SimpleTypeKind,
+	SimpleTypeLiteral,
+	SimpleTypeMember,
+	SimpleTypeMethod,
+	SimpleTypeObject,
+	SimpleTypeTemplateLiteral
+} from "../simple-type";
+import { SimpleTypePath } from "../simple-type-path";
+import {
+	SimpleTypeCompiler,
+	SimpleTypeCompilerDeclarationNode,
+	SimpleTypeCompilerNode,
+	SimpleTypeCompilerNodeBuilder,
+	SimpleTypeCompilerReferenceArgs,
+	SimpleTypeCompilerReferenceNode,
+	SimpleTypeCompilerTarget,
+	SimpleTypeCompilerTargetFile
+} from "../transform/compiler";
+import { simpleTypeToString } from "../transform/simple-type-to-string";
+import { getImportPath } from "../utils/path-util";
+import { SimpleTypeKindVisitors, Visitor, VisitorArgs } from "../visitor";
+import { isDefined } from "./thrift";
+
+type SimpleTypeObjectLike = SimpleTypeObject | SimpleTypeClass | SimpleTypeInterface;
+
+/**
+ * Compiles types to Typescript declaration files (`.d.ts`).
+ * To customize the compilation, make a subclass.
+ *
+ * Interfaces, classes, enums and generic aliases become declarations, as do
+ * other named types, so the output keeps the names of the input.
+ * Classes become interfaces, since a SimpleType has no implementation to declare.
+ * Types from the default library, like `Record` or `HTMLElement`, are referenced by name.
+ */
+export class TypeScriptCompilerTarget implements SimpleTypeCompilerTarget {
+	static createCompiler<T extends TypeScriptCompilerTarget>(this: { new (compiler: SimpleTypeCompiler): T }, typeChecker: ts.TypeChecker): SimpleTypeCompiler {
+		return new SimpleTypeCompiler(typeChecker, compiler => new this(compiler));
+	}
+
+	constructor(public compiler: SimpleTypeCompiler) {}
+
+	/** Structural types that become a `type` alias declaration when they have a name. */
+	namedAliasKinds = new Set<SimpleTypeKind>(["OBJECT", "UNION", "INTERSECTION", "TUPLE", "TEMPLATE_LITERAL", "CONDITIONAL"]);
+
+	compileType: Visitor<SimpleTypeCompilerNode, SimpleType> = args => {
+		const { type, path, visit } = args;
+		if (type.error) {
+			throw new Error(`SimpleType kind ${type.kind} has error: ${type.error}`);
+		}
+		const compileTypeKind = this.compileKind[type.kind];
+		if (!compileTypeKind) {
+			throw new ReferenceError(`SimpleType kind ${type.kind} has no compiler defined`);
+		}
+
+		if (this.isDefaultLibraryType(type)) {
+			return this.compiler.nodeBuilder(type, path).node(type.name);
+		}
+
+		// Assign the location first, so recursive aliases can refer to themselves.
+		const declare = this.compiler.isExportedFromSourceLocation(type) || this.compiler.getCurrentProgram().entryPoints.has(type) || Boolean(type.name && this.namedAliasKinds.has(type.kind));
+		if (declare) {
+			this.compiler.assignDeclarationLocation(type, path);
+		}
+
+		const typeExpression = compileTypeKind({ type: type as never, path, visit });
+		return declare ? this.toTypeAliasDeclaration(args, typeExpression) : typeExpression;
+	};
+
+	compileReference(args: SimpleTypeCompilerReferenceArgs): SimpleTypeCompilerNode {
+		const builder = this.compiler.anonymousNodeBuilder(args.from);
+		return builder.reference(args.to, args.to.location.name);
+	}
+
+	compileFile(file: SimpleTypeCompilerTargetFile): SimpleTypeCompilerNode {
+		const builder = this.compiler.anonymousNodeBuilder();
+
+		const importedNames = new Map<string, Set<string>>();
+		file.references.forEach(ref => {
+			if (ref.fileName === file.fileName) {
+				return;
+			}
+			const names = importedNames.get(ref.fileName) ?? new Set<string>();
+			names.add(ref.name);
+			importedNames.set(ref.fileName, names);
+		});
+
+		const imports: string[] = [];
+		for (const [fileName, names] of importedNames) {
+			imports.push(`import type { ${Array.from(names).join(", ")} } from ${JSON.stringify(getImportPath(file.fileName, fileName))};`);
+		}
+
+		const nodes = imports.length ? [builder.node(imports).joinNodes("\n"), ...file.nodes] : file.nodes;
+		return builder.node([...nodes, builder.node``]).joinNodes("\n\n");
+	}
+
+	/**
+	 * @returns true if `type` is declared by the default library, like `lib.dom.d.ts`.
+	 * Those declarations are available everywhere, so they're referenced by name instead of copied.
+	 */
+	isDefaultLibraryType(type: SimpleType): type is SimpleType & { name: string } {
+		if (!type.name || !(type.kind === "INTERFACE" || type.kind === "CLASS" || type.kind === "ALIAS" || this.namedAliasKinds.has(type.kind))) {
+			return false;
+		}
+		return Boolean(this.compiler.getSourceLocation(type).typescript?.sourceFile.hasNoDefaultLib);
+	}
+
+	withBuilder = <ST extends SimpleType>(
+		visitor: (args: VisitorArgs<SimpleTypeCompilerNode, ST> & { builder: SimpleTypeCompilerNodeBuilder }) => SimpleTypeCompilerNode
+	): Visitor<SimpleTypeCompilerNode, ST> => {
+		return args => {
+			const builder = this.compiler.nodeBuilder(args.type, args.path);
+			return visitor({ ...args, builder });
+		};
+	};
+
+	toTypeAliasDeclaration(args: VisitorArgs<SimpleTypeCompilerNode>, inner: SimpleTypeCompilerNode): SimpleTypeCompilerNode {
+		if (inner instanceof SimpleTypeCompilerReferenceNode || inner instanceof SimpleTypeCompilerDeclarationNode) {
+			return inner;
+		}
+
+		const builder = this.compiler.nodeBuilder(args.type, args.path);
+		const declarationLocation = this.compiler.assignDeclarationLocation(args.type, args.path);
+		return builder.declaration(declarationLocation, this.withDocComment(builder, "", args.type, builder.node`export type ${declarationLocation.name} = ${inner};`));
+	}
+
+	throwUnsupported: Visitor<SimpleTypeCompilerNode> = ({ type }) => {
+		throw new Error(`Unsupported SimpleType kind: ${type.kind}`);
+	};
+
+	docCommentNode(builder: SimpleTypeCompilerNodeBuilder, indent: string, typeOrMember: SimpleType | SimpleTypeMember): SimpleTypeCompilerNode | undefined {
+		const docCommentInfo = this.compiler.getDocumentationComment(typeOrMember);
+		if (!docCommentInfo) {
+			return;
+		}
+
+		const { docComment, jsDocTags } = docCommentInfo;
+		const lines = docComment ? docComment.split("\n") : [];
+		if (jsDocTags?.size) {
+			if (lines.length) {
+				lines.push("");
+			}
+			for (const [tag, value] of jsDocTags) {
+				lines.push(`@${tag}${value ? " " + value : ""}`);
+			}
+		}
+
+		if (lines.length) {
+			return builder.node([`${indent}/**`, ...lines.map(line => `${indent} *${line ? " " + line : ""}`), `${indent} */`]).joinNodes("\n");
+		}
+	}
+
+	withDocComment(builder: SimpleTypeCompilerNodeBuilder, indent: string, typeOrMember: SimpleType | SimpleTypeMember, inner: SimpleTypeCompilerNode): SimpleTypeCompilerNode {
+		const docCommentNode = this.docCommentNode(builder, indent, typeOrMember);
+		return docCommentNode ? builder.node([docCommentNode, inner]).joinNodes("\n") : inner;
+	}
+
+	memberName(name: string): string {
+		return /^[A-Za-z_$][\w$]*$/.test(name) ? name : JSON.stringify(name);
+	}
+
+	/** Kinds that need parentheses when they're the operand of `[]`, `&`, `|`, `keyof` or an indexed access. */
+	parenthesizedKinds = new Set<SimpleTypeKind>(["UNION", "INTERSECTION", "FUNCTION", "METHOD", "CONDITIONAL", "INDEX"]);
+
+	/**
+	 * Reference `node` as an operand of a type operator, adding parentheses if needed.
+	 */
+	operand(builder: SimpleTypeCompilerNodeBuilder, node: SimpleTypeCompilerNode): SimpleTypeCompilerNode {
+		const reference = builder.reference(node);
+		if (reference instanceof SimpleTypeCompilerReferenceNode || !reference.type || !this.parenthesizedKinds.has(reference.type.kind)) {
+			return reference;
+		}
+		return builder.node`(${reference})`;
+	}
+
+	/**
+	 * Compile type parameter declarations, like `<T extends string, U = T>`.
+	 */
+	compileTypeParameters(
+		builder: SimpleTypeCompilerNodeBuilder,
+		args: VisitorArgs<SimpleTypeCompilerNode, SimpleTypeObjectLike | SimpleTypeFunction | SimpleTypeMethod | Extract<SimpleType, { kind: "ALIAS" }>>
+	): SimpleTypeCompilerNode | string {
+		const { type, path, visit } = args;
+		const parameters = Visitor[type.kind].mapTypeParameters<SimpleTypeCompilerNode>({
+			path,
+			type: type as never,
+			visit: visit.with(({ type, path, visit }) => {
+				const builder = this.compiler.nodeBuilder(type, path);
+				const compileChild = visit.with<SimpleTypeCompilerNode>(({ type, path }) => this.compiler.compileType(type, path));
+				const constraint = builder.reference(Visitor.GENERIC_PARAMETER.typeParameterConstraint({ path, type: type as SimpleTypeGenericParameter, visit: compileChild }));
+				const defaultType = builder.reference(Visitor.GENERIC_PARAMETER.typeParameterDefault({ path, type: type as SimpleTypeGenericParameter, visit: compileChild }));
+				return builder.node([type.name ?? "T", constraint ? builder.node` extends ${constraint}` : "", defaultType ? builder.node` = ${defaultType}` : ""]);
+			})
+		});
+		return parameters.length ? builder.node`<${builder.node(parameters).joinNodes(", ")}>` : "";
+	}
+
+	/**
+	 * Compile the parts of a call signature: type parameters, `(parameters)` and the return type.
+	 */
+	compileSignature(
+		builder: SimpleTypeCompilerNodeBuilder,
+		args: VisitorArgs<SimpleTypeCompilerNode, SimpleTypeFunction | SimpleTypeMethod>
+	): { typeParameters: SimpleTypeCompilerNode | string; parameters: SimpleTypeCompilerNode; returnType: SimpleTypeCompilerNode | string } {
+		const { type, path, visit } = args;
+		const parameters = Visitor[type.kind].mapParameters<SimpleTypeCompilerNode>({
+			path,
+			type,
+			visit: visit.with(({ type, path }) => {
+				const builder = this.compiler.nodeBuilder(type, path);
+				const { parameter } = SimpleTypePath.lastMustBe(path, "PARAMETER");
+				const parameterType = builder.reference(this.compiler.compileType(type, path));
+				const optional = parameter.optional && !parameter.rest ? "?" : "";
+				return builder.node`${parameter.rest ? "..." : ""}${parameter.name}${optional}: ${parameterType}`;
+			})
+		});
+		return {
+			typeParameters: this.compileTypeParameters(builder, args),
+			parameters: builder.node`(${builder.node(parameters).joinNodes(", ")})`,
+			returnType: builder.reference(Visitor[type.kind].return({ path, type, visit })) ?? "void"
+		};
+	}
+
+	compileLiteral = this.withBuilder<SimpleTypeLiteral>(({ builder, type }) => {
+		if (typeof type.value === "bigint") {
+			return builder.node(`${type.value}n`);
+		}
+
+		return builder.node(JSON.stringify(type.value));
+	});
+
+	compileKeyword = (keyword: string) => this.withBuilder(({ builder }) => builder.node(keyword));
+
+	compileObjectLike: Visitor<SimpleTypeCompilerNode, SimpleTypeObjectLike> = this.withBuilder(({ builder, type, path, visit }) => {
+		// Function types like `(a: number) => string` are objects with only a call signature.
+		if (type.kind === "OBJECT" && type.call && !type.ctor && !type.indexType && !type.members?.length) {
+			return builder.reference(Visitor.OBJECT.callSignature({ path, type, visit }) as SimpleTypeCompilerNode);
+		}
+
+		const location = type.kind === "OBJECT" ? undefined : this.compiler.assignDeclarationLocation(type, path);
+		// Declared types are written one member per line. Inline object types are written on one line, without doc comments.
+		const multiline = Boolean(location || this.compiler.getCurrentProgram().getDeclarationLocation(type));
+		const indent = multiline ? "  " : "";
+
+		const members = Visitor[type.kind].mapNamedMembers<SimpleTypeCompilerNode>({
+			path,
+			type,
+			visit: visit.with(({ type, path, visit }) => {
+				const builder = this.compiler.nodeBuilder(type, path);
+				const { member } = SimpleTypePath.lastMustBe(path, "NAMED_MEMBER");
+				const name = this.memberName(member.name);
+				const optional = member.optional ? "?" : "";
+				let memberNode: SimpleTypeCompilerNode;
+				if (type.kind === "METHOD") {
+					const signature = this.compileSignature(builder, { type, path, visit: visit.with(({ type, path }) => this.compiler.compileType(type, path)) });
+					memberNode = builder.node`${indent}${name}${optional}${signature.typeParameters}${signature.parameters}: ${signature.returnType};`;
+				} else {
+					const readonly = member.modifiers?.includes("READONLY") ? "readonly " : "";
+					memberNode = builder.node`${indent}${readonly}${name}${optional}: ${builder.reference(this.compiler.compileType(type, path))};`;
+				}
+				return multiline ? this.withDocComment(builder, indent, member, memberNode) : memberNode;
+			})
+		});
+
+		const callSignature = Visitor[type.kind].callSignature({ path, type, visit: visit.with<SimpleTypeCompilerNode>(args => this.compileCallSignature(args, indent)) });
+		const ctorSignature = Visitor[type.kind].ctorSignature({ path, type, visit: visit.with<SimpleTypeCompilerNode>(args => this.compileCallSignature(args, `${indent}new `)) });
+		const stringIndex = builder.reference(Visitor[type.kind].stringIndex({ path, type, visit }));
+		const numberIndex = builder.reference(Visitor[type.kind].numberIndex({ path, type, visit }));
+		const lines = [
+			callSignature,
+			ctorSignature,
+			stringIndex && builder.node`${indent}[key: string]: ${stringIndex};`,
+			numberIndex && builder.node`${indent}[index: number]: ${numberIndex};`,
+			...members
+		].filter(isDefined);
+
+		let body: SimpleTypeCompilerNode;
+		if (!lines.length) {
+			body = builder.node`{}`;
+		} else if (multiline) {
+			body = builder.node`{\n${builder.node(lines).joinNodes("\n")}\n}`;
+		} else {
+			body = builder.node`{ ${builder.node(lines).joinNodes(" ")} }`;
+		}
+
+		if (!location) {
+			return body;
+		}
+		const typeParameters = this.compileTypeParameters(builder, { type, path, visit });
+		return builder.declaration(location, this.withDocComment(builder, "", type, builder.node`export interface ${location.name}${typeParameters} ${body}`));
+	});
+
+	/** Compile a call or construct signature of an object type, like `new (x: number): Foo;`. */
+	compileCallSignature(args: VisitorArgs<SimpleTypeCompilerNode>, prefix: string): SimpleTypeCompilerNode {
+		const { type, path, visit } = args;
+		if (type.kind !== "FUNCTION" && type.kind !== "METHOD") {
+			throw new Error(`Non-callable signature: ${simpleTypeToString(type)}`);
+		}
+		const builder = this.compiler.nodeBuilder(type, path);
+		const signature = this.compileSignature(builder, { type, path, visit: visit.with(({ type, path }) => this.compiler.compileType(type, path)) });
+		return builder.node`${prefix}${signature.typeParameters}${signature.parameters}: ${signature.returnType};`;
+	}
+
+	compileCallable: Visitor<SimpleTypeCompilerNode, SimpleTypeFunction | SimpleTypeMethod> = this.withBuilder(({ builder, type, path, visit }) => {
+		const signature = this.compileSignature(builder, { type, path, visit });
+		return builder.node`${signature.typeParameters}${signature.parameters} => ${signature.returnType}`;
+	});
+
+	compileKind: SimpleTypeKindVisitors<SimpleTypeCompilerNode> = {
+		// Literals
+		STRING_LITERAL: this.compileLiteral,
+		NUMBER_LITERAL: this.compileLiteral,
+		BOOLEAN_LITERAL: this.compileLiteral,
+		BIG_INT_LITERAL: this.compileLiteral,
+		// `unique symbol` is only allowed on const declarations.
+		ES_SYMBOL_UNIQUE: this.compileKeyword("symbol"),
+
+		// Primitives
+		BOOLEAN: this.compileKeyword("boolean"),
+		STRING: this.compileKeyword("string"),
+		BIG_INT: this.compileKeyword("bigint"),
+		NUMBER: this.compileKeyword("number"),
+		ES_SYMBOL: this.compileKeyword("symbol"),
+		NON_PRIMITIVE: this.compileKeyword("object"),
+		TEMPLATE_LITERAL: this.withBuilder<SimpleTypeTemplateLiteral>(({ builder, type, path, visit }) => {
+			const escape = (text: string) => text.replace(/[`\\]|\$\{/g, match => `\\${match}`);
+			const spans = Visitor.TEMPLATE_LITERAL.mapTemplateSpans({ path, type, visit });
+			return builder.node(["`", escape(type.texts[0]), ...spans.flatMap((span, i) => ["${", builder.reference(span), "}", escape(type.texts[i + 1])]), "`"]);
+		}),
+		STRING_MAPPING: this.withBuilder(({ builder, type, path, visit }) => builder.node`${type.mapping}<${builder.reference(Visitor.STRING_MAPPING.operand({ path, type, visit }))}>`),
+
+		// None-like
+		NULL: this.compileKeyword("null"),
+		UNDEFINED: this.compileKeyword("undefined"),
+		VOID: this.compileKeyword("void"),
+
+		// Top & bottom
+		UNKNOWN: this.compileKeyword("unknown"),
+		ANY: this.compileKeyword("any"),
+		NEVER: this.compileKeyword("never"),
+
+		// Well-known
+		DATE: this.compileKeyword("Date"),
+		PROMISE: this.withBuilder(({ builder, type, path, visit }) => builder.node`Promise<${builder.reference(Visitor.PROMISE.awaited({ path, type, visit }))}>`),
+		MAP: this.withBuilder(({ builder, type, path, visit }) => {
+			const key = builder.reference(Visitor.MAP.key({ path, type, visit }));
+			const value = builder.reference(Visitor.MAP.value({ path, type, visit }));
+			return builder.node`Map<${key}, ${value}>`;
+		}),
+		SET: this.withBuilder(({ builder, type, path, visit }) => builder.node`Set<${builder.reference(Visitor.SET.value({ path, type, visit }))}>`),
+		REGEXP: this.compileKeyword("RegExp"),
+		ERROR: this.compileKeyword("Error"),
+		URL: this.compileKeyword("URL"),
+		BINARY: this.withBuilder(({ builder, type }) => builder.node(type.name ?? "ArrayBuffer")),
+
+		// Generics
+		ALIAS: this.withBuilder(({ builder, type, path, visit }) => {
+			const location = this.compiler.assignDeclarationLocation(type, path);
+			const target = builder.reference(Visitor.ALIAS.aliased({ path, type, visit }));
+			const typeParameters = this.compileTypeParameters(builder, { type, path, visit });
+			return builder.declaration(location, this.withDocComment(builder, "", type, builder.node`export type ${location.name}${typeParameters} = ${target};`));
+		}),
+		GENERIC_ARGUMENTS: this.withBuilder(({ builder, type, path, visit }) => {
+			const typeArguments = builder.references(Visitor.GENERIC_ARGUMENTS.mapGenericArguments({ path, type, visit })).joinNodes(", ");
+			const target = this.isDefaultLibraryType(type.target) ? type.target.name : builder.reference(Visitor.GENERIC_ARGUMENTS.genericTarget({ path, type, visit }));
+			return builder.node`${target}<${typeArguments}>`;
+		}),
+		GENERIC_PARAMETER: this.withBuilder(({ builder, type }) => builder.node(type.name)),
+
+		// Algebraic types
+		UNION: this.withBuilder(({ builder, type, path, visit }) => {
+			const variants = Visitor.UNION.mapVariants({ path, type, visit }).map(variant => this.operand(builder, variant));
+			return builder.node(variants).joinNodes(" | ");
+		}),
+		INTERSECTION: this.withBuilder(({ builder, type, path, visit }) => {
+			const variants = Visitor.INTERSECTION.mapVariants({ path, type, visit }).map(variant => this.operand(builder, variant));
+			return builder.node(variants).joinNodes(" & ");
+		}),
+
+		// List types
+		ARRAY: this.withBuilder(({ builder, type, path, visit }) => builder.node`${this.operand(builder, Visitor.ARRAY.numberIndex({ path, type, visit }))}[]`),
+		TUPLE: this.withBuilder(({ builder, type, path, visit }) => {
+			const members = Visitor.TUPLE.mapIndexedMembers<SimpleTypeCompilerNode>({
+				path,
+				type,
+				visit: visit.with(({ type: memberType, path }) => {
+					const { member } = SimpleTypePath.lastMustBe(path, "INDEXED_MEMBER");
+					const node = this.compiler.compileType(memberType, path);
+					if (type.rest && member.index === type.members.length - 1) {
+						return builder.node`...${this.operand(builder, node)}[]`;
+					}
+					return member.optional ? builder.node`${this.operand(builder, node)}?` : builder.reference(node);
+				})
+			});
+			return builder.node`[${builder.node(members).joinNodes(", ")}]`;
+		}),
+
+		// Object
+		INTERFACE: this.compileObjectLike,
+		CLASS: this.compileObjectLike,
+		OBJECT: this.compileObjectLike,
+
+		// Enum
+		ENUM: this.withBuilder(({ builder, type, path, visit }) => {
+			const location = this.compiler.assignDeclarationLocation(type, path);
+			const members = Visitor.ENUM.mapVariants<SimpleTypeCompilerNode>({
+				path,
+				type,
+				visit: visit.with(({ type, path }) => {
+					if (type.kind !== "ENUM_MEMBER") {
+						throw new Error(`Non ENUM_MEMBER in ENUM`);
+					}
+					if (!isSimpleTypeLiteral(type.type)) {
+						throw new Error(`Non-literal ENUM_MEMBER type: ${simpleTypeToString(type.type)}`);
+					}
+
+					const builder = this.compiler.nodeBuilder(type, path);
+					return this.withDocComment(builder, "  ", type, builder.node`  ${this.memberName(type.name)} = ${JSON.stringify(type.type.value)},`);
+				})
+			});
+			return builder.declaration(location, this.withDocComment(builder, "", type, builder.node`export enum ${location.name} {\n${builder.node(members).joinNodes("\n")}\n}`));
+		}),
+		ENUM_MEMBER: this.withBuilder(({ builder, type, path }) => {
+			// Reference the member through the declaration of its enum, which may be renamed or in another file.
+			const parentSymbol = (type.getTypescript?.().symbol as (ts.Symbol & { parent?: ts.Symbol }) | undefined)?.parent;
+			if (!parentSymbol) {
+				throw new Error(`Can't find the enum of ENUM_MEMBER ${type.fullName}; convert types with the compiler's toSimpleType`);
+			}
+			const enumNode = this.compiler.compileType(this.compiler.checker.getDeclaredTypeOfSymbol(parentSymbol), path);
+			return builder.node`${builder.reference(enumNode)}.${type.name}`;
+		}),
+
+		// Callable
+		FUNCTION: this.compileCallable,
+		METHOD: this.compileCallable,
+
+		// Type operators
+		INDEX: this.withBuilder(({ builder, type, path, visit }) => builder.node`keyof ${this.operand(builder, Visitor.INDEX.operand({ path, type, visit }))}`),
+		INDEXED_ACCESS: this.withBuilder(({ builder, type, path, visit }) => {
+			const objectType = this.operand(builder, Visitor.INDEXED_ACCESS.objectType({ path, type, visit }));
+			const indexType = builder.reference(Visitor.INDEXED_ACCESS.indexType({ path, type, visit }));
+			return builder.node`${objectType}[${indexType}]`;
+		}),
+		CONDITIONAL: this.withBuilder(({ builder, type, path, visit }) => {
+			const checkType = this.operand(builder, Visitor.CONDITIONAL.checkType({ path, type, visit }));
+			const extendsType = this.operand(builder, Visitor.CONDITIONAL.extendsType({ path, type, visit }));
+			const trueType = builder.reference(Visitor.CONDITIONAL.trueType({ path, type, visit }));
+			const falseType = builder.reference(Visitor.CONDITIONAL.falseType({ path, type, visit }));
+			return builder.node`${checkType} extends ${extendsType} ? ${trueType} : ${falseType}`;
+		})
+	};
+}
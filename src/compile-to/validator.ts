@@ -0,0 +1,524 @@
+import * as path from "path";
+import type * as ts from "typescript";
+import {
+	isSimpleTypeLiteral,
+	SimpleType,
+	SimpleTypeClass,
+	SimpleTypeInterface,
+	SimpleTypeKind,
+	SimpleTypeLiteral,
+	SimpleTypeMember,
+	SimpleTypeObject,
+	SimpleTypeTemplateLiteral
+} from "../simple-type";
+import { SimpleTypePath } from "../simple-type-path";
+import {
+	SimpleTypeCompiler,
+	SimpleTypeCompilerDeclarationLocation,
+	SimpleTypeCompilerDeclarationNode,
+	SimpleTypeCompilerNode,
+	SimpleTypeCompilerNodeBuilder,
+	SimpleTypeCompilerReferenceArgs,
+	SimpleTypeCompilerReferenceNode,
+	SimpleTypeCompilerTarget,
+	SimpleTypeCompilerTargetFile
+} from "../transform/compiler";
+import { simpleTypeToString } from "../transform/simple-type-to-string";
+import { getImportPath } from "../utils/path-util";
+import { templateLiteralToRegExpSource } from "../utils/simple-type-util";
+import { SimpleTypeKindVisitors, Visitor, VisitorArgs } from "../visitor";
+import { isDefined } from "./thrift";
+
+/**
+ * Helpers shared by the validators in a generated file.
+ * They're copied into every file so the output has no runtime dependencies.
+ */
+const VALIDATOR_RUNTIME = `export interface ValidationError {
+  /** JSON path to the invalid value, like \`$.users[0].name\` */
+  path: string;
+  message: string;
+}
+
+export type Validator = (value: unknown, path: string, errors: ValidationError[]) => boolean;
+
+function fail(value: unknown, path: string, errors: ValidationError[], expected: string): false {
+  const actual = value === null ? "null" : Array.isArray(value) ? "array" : typeof value;
+  errors.push({ path, message: \`expected \${expected}, got \${actual}\` });
+  return false;
+}
+
+function check(expected: string, test: (value: unknown) => boolean): Validator {
+  return (value, path, errors) => test(value) || fail(value, path, errors, expected);
+}
+
+function typeOf(expected: "string" | "number" | "boolean" | "bigint" | "symbol" | "function" | "undefined"): Validator {
+  return check(expected, value => typeof value === expected);
+}
+
+function literals(expected: string, values: unknown[]): Validator {
+  return check(expected, value => values.includes(value));
+}
+
+function instance(expected: string, constructor: abstract new (...args: never[]) => unknown): Validator {
+  return check(expected, value => value instanceof constructor);
+}
+
+function lazy(get: () => Validator): Validator {
+  return (value, path, errors) => get()(value, path, errors);
+}
+
+function memberPath(path: string, key: string): string {
+  return /^[A-Za-z_$][\\w$]*$/.test(key) ? \`\${path}.\${key}\` : \`\${path}[\${JSON.stringify(key)}]\`;
+}
+
+function array(element: Validator): Validator {
+  return (value, path, errors) => {
+    if (!Array.isArray(value)) {
+      return fail(value, path, errors, "array");
+    }
+    return value.map((item, i) => element(item, \`\${path}[\${i}]\`, errors)).every(Boolean);
+  };
+}
+
+function tuple(elements: Array<[Validator, boolean]>, rest?: Validator): Validator {
+  const required = elements.filter(([, optional]) => !optional).length;
+  return (value, path, errors) => {
+    if (!Array.isArray(value)) {
+      return fail(value, path, errors, "tuple");
+    }
+    if (value.length < required || (!rest && value.length > elements.length)) {
+      errors.push({ path, message: \`expected \${rest ? \`at least \${required}\` : elements.length} elements, got \${value.length}\` });
+      return false;
+    }
+    return value.map((item, i) => (i < elements.length ? elements[i][0] : rest!)(item, \`\${path}[\${i}]\`, errors)).every(Boolean);
+  };
+}
+
+function object(members: Record<string, [Validator, boolean]>, index?: Validator): Validator {
+  return (value, path, errors) => {
+    if (typeof value !== "object" || value === null) {
+      return fail(value, path, errors, "object");
+    }
+    const record = value as Record<string, unknown>;
+    let valid = true;
+    for (const [key, [member, optional]] of Object.entries(members)) {
+      if (!(key in record)) {
+        if (!optional) {
+          errors.push({ path: memberPath(path, key), message: "is required" });
+          valid = false;
+        }
+        continue;
+      }
+      valid = member(record[key], memberPath(path, key), errors) && valid;
+    }
+    if (index) {
+      for (const key of Object.keys(record)) {
+        if (!Object.prototype.hasOwnProperty.call(members, key)) {
+          valid = index(record[key], memberPath(path, key), errors) && valid;
+        }
+      }
+    }
+    return valid;
+  };
+}
+
+function union(expected: string, variants: Validator[]): Validator {
+  return (value, path, errors) => {
+    const variantErrors: ValidationError[][] = [];
+    for (const variant of variants) {
+      const nested: ValidationError[] = [];
+      if (variant(value, path, nested)) {
+        return true;
+      }
+      variantErrors.push(nested);
+    }
+    // Report the closest variant if the value has the right shape for it, like a tagged object with a wrong member.
+    const closest = variantErrors
+      .filter(nested => nested.length > 0 && nested.every(error => error.path !== path))
+      .reduce<ValidationError[] | undefined>((closest, nested) => (closest && closest.length <= nested.length ? closest : nested), undefined);
+    if (closest) {
+      errors.push(...closest);
+      return false;
+    }
+    return fail(value, path, errors, expected);
+  };
+}
+
+function intersection(parts: Validator[]): Validator {
+  return (value, path, errors) => parts.map(part => part(value, path, errors)).every(Boolean);
+}
+
+function map(key: Validator, item: Validator): Validator {
+  return (value, path, errors) => {
+    if (!(value instanceof Map)) {
+      return fail(value, path, errors, "Map");
+    }
+    return Array.from(value).map(([k, v], i) => key(k, \`\${path}[\${i}][0]\`, errors) && item(v, \`\${path}[\${i}][1]\`, errors)).every(Boolean);
+  };
+}
+
+function set(item: Validator): Validator {
+  return (value, path, errors) => {
+    if (!(value instanceof Set)) {
+      return fail(value, path, errors, "Set");
+    }
+    return Array.from(value).map((v, i) => item(v, \`\${path}[\${i}]\`, errors)).every(Boolean);
+  };
+}
+
+const anything: Validator = () => true;
+
+function assertValid(validator: Validator, value: unknown): void {
+  const errors: ValidationError[] = [];
+  if (!validator(value, "$", errors)) {
+    throw Object.assign(new TypeError(errors.map(error => \`\${error.path}: \${error.message}\`).join("\\n")), { errors });
+  }
+}`;
+
+/**
+ * Compiles types to standalone Typescript validators with no runtime dependencies.
+ * To customize the compilation, make a subclass.
+ *
+ * Each declaration `Name` compiles to a `validateName` function that collects
+ * {@link ValidationError}s with JSON paths to the invalid values.
+ * Types exported from their source file also get `isName` and `assertName`
+ * guards, which import the original type.
+ *
+ * Every reference to another validator is wrapped in `lazy`, so
+ * declaration order inside a file and import cycles between files don't matter.
+ */
+export class ValidatorCompilerTarget implements SimpleTypeCompilerTarget {
+	static createCompiler<T extends ValidatorCompilerTarget>(this: { new (compiler: SimpleTypeCompiler): T }, typeChecker: ts.TypeChecker, options: { outputRoot?: string } = {}): SimpleTypeCompiler {
+		return new SimpleTypeCompiler(typeChecker, compiler => {
+			const target = new this(compiler);
+			target.outputRoot = options.outputRoot ?? target.outputRoot;
+			return target;
+		});
+	}
+
+	constructor(public compiler: SimpleTypeCompiler) {}
+
+	/**
+	 * The directory that output file names are relative to, like the `outDir` of `emitCompilerOutput`.
+	 * Source types are imported by their path relative to the output file inside this directory,
+	 * and relative source file names are relative to this directory too.
+	 * Defaults to the current directory.
+	 */
+	outputRoot = ".";
+
+	/** Source types to import into each output file, for use in guard signatures. */
+	private typeImports = new Map<string, Map<string, Set<string>>>();
+
+	compileType: Visitor<SimpleTypeCompilerNode, SimpleType> = args => {
+		const { type, path, visit } = args;
+		if (type.error) {
+			throw new Error(`SimpleType kind ${type.kind} has error: ${type.error}`);
+		}
+		const compileTypeKind = this.compileKind[type.kind];
+		if (!compileTypeKind) {
+			throw new ReferenceError(`SimpleType kind ${type.kind} has no compiler defined`);
+		}
+
+		if (this.compiler.isExportedFromSourceLocation(type) || this.compiler.getCurrentProgram().entryPoints.has(type)) {
+			// Assign the location before compiling, so recursive aliases like `type Json = string | Json[]` become references.
+			this.compiler.assignDeclarationLocation(type, path);
+			return this.toValidatorDeclaration(args, compileTypeKind({ type: type as never, path, visit }));
+		} else {
+			return compileTypeKind({ type: type as never, path, visit });
+		}
+	};
+
+	compileReference(args: SimpleTypeCompilerReferenceArgs): SimpleTypeCompilerNode {
+		const builder = this.compiler.anonymousNodeBuilder(args.from);
+		return builder.reference(args.to, `lazy(() => ${this.validatorName(args.to.location)})`);
+	}
+
+	compileFile(file: SimpleTypeCompilerTargetFile): SimpleTypeCompilerNode {
+		const builder = this.compiler.anonymousNodeBuilder();
+
+		const importedNames = new Map<string, Set<string>>();
+		file.references.forEach(ref => {
+			if (ref.fileName === file.fileName) {
+				return;
+			}
+			const names = importedNames.get(ref.fileName) ?? new Set<string>();
+			names.add(this.validatorName(ref));
+			importedNames.set(ref.fileName, names);
+		});
+
+		const imports: string[] = [];
+		for (const [sourceFileName, names] of this.typeImports.get(file.fileName) ?? []) {
+			// Output file names are relative to the output root, but source file names are usually absolute.
+			const importPath = getImportPath(path.resolve(this.outputRoot, file.fileName), path.resolve(this.outputRoot, sourceFileName));
+			imports.push(`import type { ${Array.from(names).join(", ")} } from ${JSON.stringify(importPath)};`);
+		}
+		for (const [fileName, names] of importedNames) {
+			imports.push(`import { ${Array.from(names).join(", ")} } from ${JSON.stringify(getImportPath(file.fileName, fileName))};`);
+		}
+
+		return builder.node([imports.length ? builder.node(imports).joinNodes("\n") : undefined, builder.node(VALIDATOR_RUNTIME), ...file.nodes, builder.node``].filter(isDefined)).joinNodes("\n\n");
+	}
+
+	validatorName(location: SimpleTypeCompilerDeclarationLocation): string {
+		return `validate${location.name}`;
+	}
+
+	withBuilder = <ST extends SimpleType>(
+		visitor: (args: VisitorArgs<SimpleTypeCompilerNode, ST> & { builder: SimpleTypeCompilerNodeBuilder }) => SimpleTypeCompilerNode
+	): Visitor<SimpleTypeCompilerNode, ST> => {
+		return args => {
+			const builder = this.compiler.nodeBuilder(args.type, args.path);
+			return visitor({ ...args, builder });
+		};
+	};
+
+	/**
+	 * Build a `export const validateName: Validator = ...;` declaration node,
+	 * followed by `isName` and `assertName` guards if the source type can be imported.
+	 */
+	declareValidator(type: SimpleType, path: SimpleTypePath, location: SimpleTypeCompilerDeclarationLocation, inner: SimpleTypeCompilerNode): SimpleTypeCompilerDeclarationNode {
+		const builder = this.compiler.nodeBuilder(type, path);
+		const validatorName = this.validatorName(location);
+		const declaration = builder.node`export const ${validatorName}: Validator = ${inner};`;
+		const docCommentNode = this.docCommentNode(builder, "", type);
+		const nodes = [docCommentNode ? builder.node([docCommentNode, declaration]).joinNodes("\n") : declaration];
+
+		const typeName = this.getImportableTypeName(type, location);
+		if (typeName) {
+			nodes.push(
+				builder.node([`export function is${location.name}(value: unknown): value is ${typeName} {`, `  return ${validatorName}(value, "$", []);`, `}`]).joinNodes("\n"),
+				builder.node([`export function assert${location.name}(value: unknown): asserts value is ${typeName} {`, `  assertValid(${validatorName}, value);`, `}`]).joinNodes("\n")
+			);
+		}
+
+		return builder.declaration(location, builder.node(nodes).joinNodes("\n\n"));
+	}
+
+	/**
+	 * Register an import of `type` from its source file into the declaration's output file.
+	 * @returns the imported type name, or undefined if the type isn't exported from its source file.
+	 */
+	getImportableTypeName(type: SimpleType, location: SimpleTypeCompilerDeclarationLocation): string | undefined {
+		if (type.kind === "GENERIC_ARGUMENTS" || ("typeParameters" in type && type.typeParameters?.length) || !this.compiler.isExportedFromSourceLocation(type)) {
+			return;
+		}
+
+		const { typescript } = this.compiler.getSourceLocation(type);
+		if (!typescript || typescript.sourceFile.isDeclarationFile) {
+			return;
+		}
+
+		const typeName = typescript.symbol.getName();
+		const fileImports = this.typeImports.get(location.fileName) ?? new Map<string, Set<string>>();
+		const names = fileImports.get(typescript.sourceFile.fileName) ?? new Set<string>();
+		names.add(typeName);
+		fileImports.set(typescript.sourceFile.fileName, names);
+		this.typeImports.set(location.fileName, fileImports);
+		return typeName;
+	}
+
+	toValidatorDeclaration(args: VisitorArgs<SimpleTypeCompilerNode>, inner: SimpleTypeCompilerNode): SimpleTypeCompilerNode {
+		if (inner instanceof SimpleTypeCompilerReferenceNode || inner instanceof SimpleTypeCompilerDeclarationNode) {
+			return inner;
+		}
+
+		const declarationLocation = this.compiler.assignDeclarationLocation(args.type, args.path);
+		return this.declareValidator(args.type, args.path, declarationLocation, inner);
+	}
+
+	throwUnsupported: Visitor<SimpleTypeCompilerNode> = ({ type }) => {
+		throw new Error(`Unsupported SimpleType kind: ${type.kind}`);
+	};
+
+	literalValue(type: SimpleTypeLiteral): string {
+		return typeof type.value === "bigint" ? `${type.value}n` : JSON.stringify(type.value);
+	}
+
+	compileLiteral = this.withBuilder<SimpleTypeLiteral>(({ builder, type }) => builder.node(`literals(${JSON.stringify(simpleTypeToString(type))}, [${this.literalValue(type)}])`));
+
+	compileValidator = (validator: string) => this.withBuilder(({ builder }) => builder.node(validator));
+
+	compileInstance = (constructor: string) => this.compileValidator(`instance(${JSON.stringify(constructor)}, ${constructor})`);
+
+	memberName(name: string): string {
+		return /^[A-Za-z_$][\w$]*$/.test(name) ? name : JSON.stringify(name);
+	}
+
+	compileObjectLike: Visitor<SimpleTypeCompilerNode, SimpleTypeObject | SimpleTypeClass | SimpleTypeInterface> = ({ type, path, visit }) => {
+		const loc = this.compiler.assignDeclarationLocation(type, path);
+		const builder = this.compiler.nodeBuilder(type, path);
+		const members = this.filterMembers(
+			Visitor[type.kind].mapNamedMembers<SimpleTypeCompilerNode>({
+				path,
+				type,
+				visit: visit.with(({ type, path }) => {
+					const builder = this.compiler.nodeBuilder(type, path);
+					const step = SimpleTypePath.lastMustBe(path, "NAMED_MEMBER");
+					const validator = builder.reference(this.compiler.compileType(type, path));
+					const docCommentNode = this.docCommentNode(builder, "  ", step.member);
+					const memberNode = builder.node`  ${this.memberName(step.member.name)}: [${validator}, ${String(Boolean(step.member.optional))}],`;
+					return builder.node([docCommentNode, memberNode].filter(isDefined)).joinNodes("\n");
+				})
+			})
+		);
+
+		const index = builder.reference(Visitor[type.kind].stringIndex({ path, type, visit }) ?? Visitor[type.kind].numberIndex({ path, type, visit }));
+		const object = members.length ? builder.node`{\n${builder.node(members).joinNodes("\n")}\n}` : builder.node`{}`;
+		return this.declareValidator(type, path, loc, index ? builder.node`object(${object}, ${index})` : builder.node`object(${object})`);
+	};
+
+	docCommentNode(builder: SimpleTypeCompilerNodeBuilder, prefix: string, typeOrMember: SimpleType | SimpleTypeMember): SimpleTypeCompilerNode | undefined {
+		const docCommentInfo = this.compiler.getDocumentationComment(typeOrMember);
+		if (!docCommentInfo) {
+			return;
+		}
+
+		const { docComment, jsDocTags } = docCommentInfo;
+		const unIndentedParts: string[] = [];
+		if (docComment) {
+			unIndentedParts.push(docComment);
+		}
+		if (jsDocTags) {
+			if (unIndentedParts.length) {
+				unIndentedParts.push("");
+			}
+
+			for (const [tag, value] of jsDocTags) {
+				unIndentedParts.push(`@${tag}${value ? " " + value : ""}`);
+			}
+		}
+
+		const text = unIndentedParts.join("\n");
+		if (text) {
+			const body = text.split("\n").map(line => `${prefix} * ${line}`);
+			return builder.node([`${prefix}/**`, ...body, `${prefix} */`]).joinNodes("\n");
+		}
+	}
+
+	dropMemberKinds = new Set<SimpleTypeKind>(["FUNCTION", "METHOD"]);
+	private filterMembers = (members: SimpleTypeCompilerNode[]) => members.filter(node => !(node.type?.kind && this.dropMemberKinds.has(node.type.kind)));
+
+	compileKind: SimpleTypeKindVisitors<SimpleTypeCompilerNode> = {
+		// Literals
+		STRING_LITERAL: this.compileLiteral,
+		NUMBER_LITERAL: this.compileLiteral,
+		BOOLEAN_LITERAL: this.compileLiteral,
+		BIG_INT_LITERAL: this.compileLiteral,
+		ES_SYMBOL_UNIQUE: this.compileValidator(`typeOf("symbol")`),
+
+		// Primitives
+		BOOLEAN: this.compileValidator(`typeOf("boolean")`),
+		STRING: this.compileValidator(`typeOf("string")`),
+		BIG_INT: this.compileValidator(`typeOf("bigint")`),
+		NUMBER: this.compileValidator(`typeOf("number")`),
+		ES_SYMBOL: this.compileValidator(`typeOf("symbol")`),
+		NON_PRIMITIVE: this.compileValidator(`check("object", value => (typeof value === "object" && value !== null) || typeof value === "function")`),
+		TEMPLATE_LITERAL: this.withBuilder<SimpleTypeTemplateLiteral>(({ builder, type }) => {
+			const regExp = `/^${templateLiteralToRegExpSource(type).replace(/\//g, "\\/")}$/s`;
+			return builder.node(`check(${JSON.stringify(simpleTypeToString(type))}, value => typeof value === "string" && ${regExp}.test(value))`);
+		}),
+		STRING_MAPPING: this.compileValidator(`typeOf("string")`),
+
+		// None-like
+		NULL: this.compileValidator(`literals("null", [null])`),
+		UNDEFINED: this.compileValidator(`typeOf("undefined")`),
+		VOID: this.compileValidator(`typeOf("undefined")`),
+
+		// Top & bottom
+		UNKNOWN: this.compileValidator("anything"),
+		ANY: this.compileValidator("anything"),
+		NEVER: this.compileValidator(`check("never", () => false)`),
+
+		// Well-known
+		DATE: this.compileValidator(`check("Date", value => value instanceof Date && !isNaN(value.getTime()))`),
+		PROMISE: this.compileValidator(`check("Promise", value => typeof (value as PromiseLike<unknown> | undefined)?.then === "function")`),
+		MAP: this.withBuilder(({ builder, type, path, visit }) => {
+			const key = builder.reference(Visitor.MAP.key({ type, path, visit }));
+			const value = builder.reference(Visitor.MAP.value({ type, path, visit }));
+			return builder.node`map(${key}, ${value})`;
+		}),
+		SET: this.withBuilder(({ builder, type, path, visit }) => builder.node`set(${builder.reference(Visitor.SET.value({ type, path, visit }))})`),
+		REGEXP: this.compileInstance("RegExp"),
+		ERROR: this.compileInstance("Error"),
+		URL: this.compileInstance("URL"),
+		BINARY: this.withBuilder(({ builder, type }) => {
+			const constructor = type.name ?? "ArrayBuffer";
+			return builder.node(`instance(${JSON.stringify(constructor)}, ${constructor})`);
+		}),
+
+		// Compile instantiated generics instead of copying the whole generic type
+		ALIAS: Visitor.ALIAS.aliased,
+		GENERIC_ARGUMENTS: Visitor.GENERIC_ARGUMENTS.aliased,
+
+		// Algebraic types
+		UNION: this.withBuilder(({ builder, type, path, visit }) => {
+			const expected = JSON.stringify(simpleTypeToString(type));
+			if (type.types.every(isSimpleTypeLiteral)) {
+				return builder.node(`literals(${expected}, [${type.types.map(variant => this.literalValue(variant)).join(", ")}])`);
+			}
+
+			return builder.node`union(${expected}, [${builder.references(Visitor.UNION.mapVariants({ path, type, visit })).joinNodes(", ")}])`;
+		}),
+		INTERSECTION: this.withBuilder(({ builder, type, path, visit }) => {
+			if (type.intersected) {
+				return builder.reference(visit(undefined, type.intersected));
+			}
+			return builder.node`intersection([${builder.references(Visitor.INTERSECTION.mapVariants({ path, type, visit })).joinNodes(", ")}])`;
+		}),
+
+		// List types
+		ARRAY: this.withBuilder(({ builder, type, path, visit }) => builder.node`array(${builder.reference(Visitor.ARRAY.numberIndex({ path, type, visit }))})`),
+		TUPLE: this.withBuilder(({ builder, type, path, visit }) => {
+			const members = Visitor.TUPLE.mapIndexedMembers<SimpleTypeCompilerNode>({
+				path,
+				type,
+				visit: visit.with(({ type, path }) => {
+					const step = SimpleTypePath.lastMustBe(path, "INDEXED_MEMBER");
+					const validator = builder.reference(this.compiler.compileType(type, path));
+					return builder.node`[${validator}, ${String(Boolean(step.member.optional))}]`;
+				})
+			});
+
+			if (type.rest && members.length > 0) {
+				const rest = builder.reference(this.compiler.compileType(type.members[type.members.length - 1].type, path));
+				return builder.node`tuple([${builder.node(members.slice(0, -1)).joinNodes(", ")}], ${rest})`;
+			}
+
+			return builder.node`tuple([${builder.node(members).joinNodes(", ")}])`;
+		}),
+
+		// Object
+		INTERFACE: this.compileObjectLike,
+		CLASS: this.compileObjectLike,
+		OBJECT: this.compileObjectLike,
+
+		// Enum
+		ENUM: ({ type, path }) => {
+			const loc = this.compiler.assignDeclarationLocation(type, path);
+			const builder = this.compiler.nodeBuilder(type, path);
+			const values = type.types.map(member => {
+				if (!isSimpleTypeLiteral(member.type)) {
+					throw new Error(`Non-literal ENUM_MEMBER type: ${simpleTypeToString(member.type)}`);
+				}
+				return this.literalValue(member.type);
+			});
+			return this.declareValidator(type, path, loc, builder.node(`literals(${JSON.stringify(type.name)}, [${values.join(", ")}])`));
+		},
+		ENUM_MEMBER: this.withBuilder(({ builder, type }) => {
+			if (!isSimpleTypeLiteral(type.type)) {
+				throw new Error(`Non-literal ENUM_MEMBER type: ${simpleTypeToString(type.type)}`);
+			}
+			return builder.node(`literals(${JSON.stringify(type.fullName)}, [${this.literalValue(type.type)}])`);
+		}),
+
+		// Callable
+		FUNCTION: this.compileValidator(`typeOf("function")`),
+		METHOD: this.compileValidator(`typeOf("function")`),
+
+		// Unsupported
+		GENERIC_PARAMETER: this.throwUnsupported,
+		INDEX: this.throwUnsupported,
+		INDEXED_ACCESS: this.throwUnsupported,
+		CONDITIONAL: this.throwUnsupported
+	};
+}
@@ -0,0 +1,366 @@
+import type * as ts from "typescript";
+import {
+	isSimpleTypeLiteral,
+	SimpleType,
+	SimpleTypeClass,
+	SimpleTypeFunction,
+	SimpleTypeInterface,
+	SimpleTypeKind,
+	SimpleTypeLiteral,
+	SimpleTypeMember,
+	SimpleTypeMethod,
+	SimpleTypeObject,
+	SimpleTypeTemplateLiteral
+} from "../simple-type";
+import { SimpleTypePath } from "../simple-type-path";
+import {
+	SimpleTypeCompiler,
+	SimpleTypeCompilerDeclarationLocation,
+	SimpleTypeCompilerDeclarationNode,
+	SimpleTypeCompilerNode,
+	SimpleTypeCompilerNodeBuilder,
+	SimpleTypeCompilerReferenceArgs,
+	SimpleTypeCompilerReferenceNode,
+	SimpleTypeCompilerTarget,
+	SimpleTypeCompilerTargetFile
+} from "../transform/compiler";
+import { toNullableSimpleType } from "../transform/inspect-simple-type";
+import { simpleTypeToString } from "../transform/simple-type-to-string";
+import { getImportPath } from "../utils/path-util";
+import { templateLiteralToRegExpSource } from "../utils/simple-type-util";
+import { SimpleTypeKindVisitors, Visitor, VisitorArgs } from "../visitor";
+import { isDefined } from "./thrift";
+
+/**
+ * Compiles types to Typescript modules that declare Zod schemas.
+ * To customize the compilation, make a subclass.
+ *
+ * Every reference to another schema declaration is wrapped in `z.lazy`, so
+ * declaration order inside a file and import cycles between files don't matter.
+ * Declarations that take part in a cycle are annotated as `z.ZodTypeAny`,
+ * because Typescript can't infer the type of a self-referential initializer.
+ *
+ * https://github.com/colinhacks/zod
+ */
+export class ZodCompilerTarget implements SimpleTypeCompilerTarget {
+	static createCompiler<T extends ZodCompilerTarget>(this: { new (compiler: SimpleTypeCompiler): T }, typeChecker: ts.TypeChecker): SimpleTypeCompiler {
+		return new SimpleTypeCompiler(typeChecker, compiler => new this(compiler));
+	}
+
+	constructor(public compiler: SimpleTypeCompiler) {}
+
+	/** Declarations whose schema is currently being compiled. */
+	private declarationStack: SimpleTypeCompilerDeclarationLocation[] = [];
+	/** Declarations that were referenced while they were still being compiled. */
+	private recursiveDeclarations = new Set<SimpleTypeCompilerDeclarationLocation>();
+
+	compileType: Visitor<SimpleTypeCompilerNode, SimpleType> = args => {
+		const { type, path, visit } = args;
+		if (type.error) {
+			throw new Error(`SimpleType kind ${type.kind} has error: ${type.error}`);
+		}
+		const compileTypeKind = this.compileKind[type.kind];
+		if (!compileTypeKind) {
+			throw new ReferenceError(`SimpleType kind ${type.kind} has no compiler defined`);
+		}
+
+		if (this.compiler.isExportedFromSourceLocation(type) || this.compiler.getCurrentProgram().entryPoints.has(type)) {
+			return this.toConstDeclaration(args, () => compileTypeKind({ type: type as never, path, visit }));
+		} else {
+			return compileTypeKind({ type: type as never, path, visit });
+		}
+	};
+
+	compileReference(args: SimpleTypeCompilerReferenceArgs): SimpleTypeCompilerNode {
+		const builder = this.compiler.anonymousNodeBuilder(args.from);
+		const location = args.to.location;
+		if (this.declarationStack.includes(location)) {
+			this.recursiveDeclarations.add(location);
+		}
+		return builder.reference(args.to, `z.lazy(() => ${location.name})`);
+	}
+
+	compileFile(file: SimpleTypeCompilerTargetFile): SimpleTypeCompilerNode {
+		const builder = this.compiler.anonymousNodeBuilder();
+
+		const importedNames = new Map<string, Set<string>>();
+		file.references.forEach(ref => {
+			if (ref.fileName === file.fileName) {
+				return;
+			}
+			const names = importedNames.get(ref.fileName) ?? new Set<string>();
+			names.add(ref.name);
+			importedNames.set(ref.fileName, names);
+		});
+
+		const imports = [`import { z } from "zod";`];
+		for (const [fileName, names] of importedNames) {
+			imports.push(`import { ${Array.from(names).join(", ")} } from ${JSON.stringify(getImportPath(file.fileName, fileName))};`);
+		}
+
+		return builder.node([builder.node(imports).joinNodes("\n"), ...file.nodes, builder.node``]).joinNodes("\n\n");
+	}
+
+	withBuilder = <ST extends SimpleType>(
+		visitor: (args: VisitorArgs<SimpleTypeCompilerNode, ST> & { builder: SimpleTypeCompilerNodeBuilder }) => SimpleTypeCompilerNode
+	): Visitor<SimpleTypeCompilerNode, ST> => {
+		return args => {
+			const builder = this.compiler.nodeBuilder(args.type, args.path);
+			return visitor({ ...args, builder });
+		};
+	};
+
+	/**
+	 * Build a `export const Name = schema;` declaration node.
+	 * Recursion is only detected once `inner` is compiled, so `getInner` runs with the declaration on the stack.
+	 */
+	declareSchema(type: SimpleType, path: SimpleTypePath, location: SimpleTypeCompilerDeclarationLocation, getInner: () => SimpleTypeCompilerNode): SimpleTypeCompilerDeclarationNode {
+		this.declarationStack.push(location);
+		let inner: SimpleTypeCompilerNode;
+		try {
+			inner = getInner();
+		} finally {
+			this.declarationStack.pop();
+		}
+
+		const builder = this.compiler.nodeBuilder(type, path);
+		const annotation = this.recursiveDeclarations.has(location) ? ": z.ZodTypeAny" : "";
+		const declaration = builder.node`export const ${location.name}${annotation} = ${inner};`;
+		const docCommentNode = this.docCommentNode(builder, "", type);
+		return builder.declaration(location, docCommentNode ? builder.node([docCommentNode, declaration]).joinNodes("\n") : declaration);
+	}
+
+	/**
+	 * Declare a schema for a type that doesn't declare itself, like a union alias.
+	 * The location is assigned before `getInner` runs, so recursive references resolve to the declaration.
+	 */
+	toConstDeclaration(args: VisitorArgs<SimpleTypeCompilerNode>, getInner: () => SimpleTypeCompilerNode): SimpleTypeCompilerNode {
+		const declarationLocation = this.compiler.assignDeclarationLocation(args.type, args.path);
+		let inner: SimpleTypeCompilerNode | undefined;
+		const declaration = this.declareSchema(args.type, args.path, declarationLocation, () => (inner = getInner()));
+		if (inner instanceof SimpleTypeCompilerReferenceNode || inner instanceof SimpleTypeCompilerDeclarationNode) {
+			return inner;
+		}
+		return declaration;
+	}
+
+	throwUnsupported: Visitor<SimpleTypeCompilerNode> = ({ type }) => {
+		throw new Error(`Unsupported SimpleType kind: ${type.kind}`);
+	};
+
+	compileLiteral = this.withBuilder<SimpleTypeLiteral>(({ builder, type }) => {
+		if (typeof type.value === "bigint") {
+			return builder.node(`z.literal(${type.value}n)`);
+		}
+
+		return builder.node(`z.literal(${JSON.stringify(type.value)})`);
+	});
+
+	compileSchema = (schema: string) => this.withBuilder(({ builder }) => builder.node(schema));
+
+	memberName(name: string): string {
+		return /^[A-Za-z_$][\w$]*$/.test(name) ? name : JSON.stringify(name);
+	}
+
+	compileObjectLike: Visitor<SimpleTypeCompilerNode, SimpleTypeObject | SimpleTypeClass | SimpleTypeInterface> = ({ type, path, visit }) => {
+		const loc = this.compiler.assignDeclarationLocation(type, path);
+		return this.declareSchema(type, path, loc, () => {
+			const builder = this.compiler.nodeBuilder(type, path);
+			const members = this.filterMembers(
+				Visitor[type.kind].mapNamedMembers<SimpleTypeCompilerNode>({
+					path,
+					type,
+					visit: visit.with(({ type, path }) => {
+						const builder = this.compiler.nodeBuilder(type, path);
+						const step = SimpleTypePath.lastMustBe(path, "NAMED_MEMBER");
+						const schema = builder.reference(this.compiler.compileType(type, path));
+						const docCommentNode = this.docCommentNode(builder, "  ", step.member);
+						// `foo?: T` is usually `T | undefined` by now, which already compiles to `.optional()`.
+						const optional = step.member.optional && !(type.kind === "UNION" && type.types.some(variant => variant.kind === "UNDEFINED"));
+						const memberNode = builder.node`  ${this.memberName(step.member.name)}: ${schema}${optional ? ".optional()" : ""},`;
+						return builder.node([docCommentNode, memberNode].filter(isDefined)).joinNodes("\n");
+					})
+				})
+			);
+
+			const index = builder.reference(Visitor[type.kind].stringIndex({ path, type, visit }) ?? Visitor[type.kind].numberIndex({ path, type, visit }));
+			if (index && members.length === 0) {
+				return builder.node`z.record(z.string(), ${index})`;
+			}
+
+			const object = members.length ? builder.node`z.object({\n${builder.node(members).joinNodes("\n")}\n})` : builder.node`z.object({})`;
+			return index ? builder.node`${object}.catchall(${index})` : object;
+		});
+	};
+
+	compileCallable: Visitor<SimpleTypeCompilerNode, SimpleTypeMethod | SimpleTypeFunction> = this.withBuilder(({ builder, type, path, visit }) => {
+		const returnType = builder.reference(Visitor.FUNCTION.return({ path, type, visit }));
+		return builder.node([
+			`z.function().args(`,
+			builder.references(Visitor[type.kind].mapParameters({ path, type, visit })).joinNodes(", "),
+			`)`,
+			returnType ? builder.node`.returns(${returnType})` : ""
+		]);
+	});
+
+	docCommentNode(builder: SimpleTypeCompilerNodeBuilder, prefix: string, typeOrMember: SimpleType | SimpleTypeMember): SimpleTypeCompilerNode | undefined {
+		const docCommentInfo = this.compiler.getDocumentationComment(typeOrMember);
+		if (!docCommentInfo) {
+			return;
+		}
+
+		const { docComment, jsDocTags } = docCommentInfo;
+		const unIndentedParts: string[] = [];
+		if (docComment) {
+			unIndentedParts.push(docComment);
+		}
+		if (jsDocTags) {
+			if (unIndentedParts.length) {
+				unIndentedParts.push("");
+			}
+
+			for (const [tag, value] of jsDocTags) {
+				unIndentedParts.push(`@${tag}${value ? " " + value : ""}`);
+			}
+		}
+
+		const text = unIndentedParts.join("\n");
+		if (text) {
+			const body = text.split("\n").map(line => `${prefix} * ${line}`);
+			return builder.node([`${prefix}/**`, ...body, `${prefix} */`]).joinNodes("\n");
+		}
+	}
+
+	dropMemberKinds = new Set<SimpleTypeKind>(["FUNCTION", "METHOD"]);
+	private filterMembers = (members: SimpleTypeCompilerNode[]) => members.filter(node => !(node.type?.kind && this.dropMemberKinds.has(node.type.kind)));
+
+	compileKind: SimpleTypeKindVisitors<SimpleTypeCompilerNode> = {
+		// Literals
+		STRING_LITERAL: this.compileLiteral,
+		NUMBER_LITERAL: this.compileLiteral,
+		BOOLEAN_LITERAL: this.compileLiteral,
+		BIG_INT_LITERAL: this.compileLiteral,
+		ES_SYMBOL_UNIQUE: this.compileSchema("z.symbol()"),
+
+		// Primitives
+		BOOLEAN: this.compileSchema("z.boolean()"),
+		STRING: this.compileSchema("z.string()"),
+		BIG_INT: this.compileSchema("z.bigint()"),
+		NUMBER: this.compileSchema("z.number()"),
+		ES_SYMBOL: this.compileSchema("z.symbol()"),
+		TEMPLATE_LITERAL: this.withBuilder<SimpleTypeTemplateLiteral>(({ builder, type }) => builder.node(`z.string().regex(/^${templateLiteralToRegExpSource(type).replace(/\//g, "\\/")}$/)`)),
+		STRING_MAPPING: this.compileSchema("z.string()"),
+
+		// None-like
+		NULL: this.compileSchema("z.null()"),
+		UNDEFINED: this.compileSchema("z.undefined()"),
+		VOID: this.compileSchema("z.void()"),
+
+		// Top & bottom
+		UNKNOWN: this.compileSchema("z.unknown()"),
+		ANY: this.compileSchema("z.any()"),
+		NEVER: this.compileSchema("z.never()"),
+
+		// Well-known
+		DATE: this.compileSchema("z.date()"),
+		PROMISE: this.withBuilder(({ builder, type, path, visit }) => builder.node`z.promise(${builder.reference(Visitor.PROMISE.awaited({ type, path, visit }))})`),
+		MAP: this.withBuilder(({ builder, type, path, visit }) => {
+			const key = builder.reference(Visitor.MAP.key({ type, path, visit }));
+			const value = builder.reference(Visitor.MAP.value({ type, path, visit }));
+			return builder.node`z.map(${key}, ${value})`;
+		}),
+		SET: this.withBuilder(({ builder, type, path, visit }) => builder.node`z.set(${builder.reference(Visitor.SET.value({ type, path, visit }))})`),
+		REGEXP: this.compileSchema("z.instanceof(RegExp)"),
+		ERROR: this.compileSchema("z.instanceof(Error)"),
+		URL: this.compileSchema("z.instanceof(URL)"),
+		BINARY: this.withBuilder(({ builder, type }) => builder.node`z.instanceof(${type.name ?? "ArrayBuffer"})`),
+
+		// Compile instantiated generics instead of copying the whole generic type
+		ALIAS: Visitor.ALIAS.aliased,
+		GENERIC_ARGUMENTS: Visitor.GENERIC_ARGUMENTS.aliased,
+
+		// Algebraic types
+		UNION: this.withBuilder(({ builder, type, path, visit }) => {
+			const nullable = toNullableSimpleType(type);
+			if (nullable.kind === "NULLABLE" && nullable.type.kind !== "NEVER") {
+				const modifier = nullable.orNull && nullable.orUndefined ? "nullish" : nullable.orNull ? "nullable" : "optional";
+				return builder.node`${builder.reference(visit(undefined, nullable.type))}.${modifier}()`;
+			}
+
+			return builder.node`z.union([${builder.references(Visitor.UNION.mapVariants({ path, type, visit })).joinNodes(", ")}])`;
+		}),
+		INTERSECTION: ({ type, visit }) => {
+			if (!type.intersected) {
+				throw new Error(`Target type system doesn't support intersection types`);
+			}
+			return visit(undefined, type.intersected);
+		},
+
+		// List types
+		ARRAY: this.withBuilder(({ builder, type, path, visit }) => builder.node`z.array(${builder.reference(Visitor.ARRAY.numberIndex({ path, type, visit }))})`),
+		TUPLE: this.withBuilder(({ builder, type, path, visit }) => {
+			const members = Visitor.TUPLE.mapIndexedMembers<SimpleTypeCompilerNode>({
+				path,
+				type,
+				visit: visit.with(({ type, path }) => {
+					const step = SimpleTypePath.lastMustBe(path, "INDEXED_MEMBER");
+					const schema = builder.reference(this.compiler.compileType(type, path));
+					return step.member.optional ? builder.node`${schema}.optional()` : schema;
+				})
+			});
+
+			if (type.rest && members.length > 0) {
+				const rest = builder.reference(this.compiler.compileType(type.members[type.members.length - 1].type, path));
+				return builder.node`z.tuple([${builder.node(members.slice(0, -1)).joinNodes(", ")}]).rest(${rest})`;
+			}
+
+			return builder.node`z.tuple([${builder.node(members).joinNodes(", ")}])`;
+		}),
+
+		// Object
+		INTERFACE: this.compileObjectLike,
+		CLASS: this.compileObjectLike,
+		OBJECT: this.compileObjectLike,
+
+		// Enum
+		ENUM: ({ type, path, visit }) => {
+			const loc = this.compiler.assignDeclarationLocation(type, path);
+			return this.declareSchema(type, path, loc, () => {
+				const builder = this.compiler.nodeBuilder(type, path);
+				const members = Visitor.ENUM.mapVariants<SimpleTypeCompilerNode>({
+					path,
+					type,
+					visit: visit.with(({ type, path }) => {
+						if (type.kind !== "ENUM_MEMBER") {
+							throw new Error(`Non ENUM_MEMBER in ENUM`);
+						}
+						if (!isSimpleTypeLiteral(type.type)) {
+							throw new Error(`Non-literal ENUM_MEMBER type: ${simpleTypeToString(type.type)}`);
+						}
+
+						const builder = this.compiler.nodeBuilder(type, path);
+						return builder.node`  ${this.memberName(type.name)}: ${JSON.stringify(type.type.value)},`;
+					})
+				});
+				return builder.node`z.nativeEnum({\n${builder.node(members).joinNodes("\n")}\n} as const)`;
+			});
+		},
+		ENUM_MEMBER: this.withBuilder(({ builder, type }) => {
+			if (!isSimpleTypeLiteral(type.type)) {
+				throw new Error(`Non-literal ENUM_MEMBER type: ${simpleTypeToString(type.type)}`);
+			}
+			return builder.node(`z.literal(${JSON.stringify(type.type.value)})`);
+		}),
+
+		// Callable
+		FUNCTION: this.compileCallable,
+		METHOD: this.compileCallable,
+
+		// Unsupported
+		GENERIC_PARAMETER: this.throwUnsupported,
+		NON_PRIMITIVE: this.throwUnsupported,
+		INDEX: this.throwUnsupported,
+		INDEXED_ACCESS: this.throwUnsupported,
+		CONDITIONAL: this.throwUnsupported
+	};
+}
@@ -1,5 +1,6 @@
 export * from "./simple-type";
 export * from "./simple-type-path";
+export * from "./simple-type-builder";
 export * from "./visitor";
 export * from "./ts-module";
 
@@ -8,11 +9,17 @@ export * from "./is-assignable/is-assignable-to-primitive-type";
 export * from "./is-assignable/is-assignable-to-type";
 export * from "./is-assignable/is-assignable-to-value";
 export * from "./is-assignable/is-assignable-to-simple-type-kind";
+export * from "./is-assignable/explain-assignability";
 
 export * from "./transform/to-simple-type";
+export * from "./transform/from-json-schema";
 export * from "./transform/type-to-string";
 export * from "./transform/serialize-simple-type";
+export * from "./transform/diff-simple-types";
+export * from "./transform/generate-value";
 export * from "./transform/compiler";
+export * from "./transform/emit-compiler-output";
+export * from "./transform/watch-compiler-output";
 
 export * from "./utils/validate-type";
 
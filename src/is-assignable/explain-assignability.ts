@@ -0,0 +1,435 @@
+import { SimpleType, SimpleTypeClass, SimpleTypeFunction, SimpleTypeFunctionParameter, SimpleTypeInterface, SimpleTypeMethod, SimpleTypeObject } from "../simple-type";
+import { SimpleTypePath, SimpleTypePathStep } from "../simple-type-path";
+import { simpleTypeToString } from "../transform/simple-type-to-string";
+import { getTupleLengthType } from "../utils/simple-type-util";
+import { isAssignableToSimpleType } from "./is-assignable-to-simple-type";
+import { SimpleTypeComparisonOptions } from "./simple-type-comparison-options";
+
+export type AssignabilityFailureReason =
+	/** typeB is not assignable to typeA, and there's nothing more specific to say. */
+	| "NOT_ASSIGNABLE"
+	/** typeA is a union, and typeB isn't assignable to any of its variants. */
+	| "NO_MATCHING_VARIANT"
+	/** typeB is a union, and at least one of its variants isn't assignable to typeA. */
+	| "VARIANT_NOT_ASSIGNABLE"
+	/** typeA is an intersection, and typeB isn't assignable to at least one of its types. */
+	| "INTERSECTION_MEMBER_NOT_ASSIGNABLE"
+	/** typeA requires a member that typeB doesn't have. */
+	| "MEMBER_MISSING"
+	/** typeA requires a member that's optional in typeB. */
+	| "MEMBER_OPTIONAL"
+	/** A member of typeB isn't assignable to the same member in typeA. */
+	| "MEMBER_NOT_ASSIGNABLE"
+	/** typeA has only optional members, and typeB shares none of them. */
+	| "NO_MEMBERS_IN_COMMON"
+	/** typeA has a call or construct signature that typeB lacks. */
+	| "SIGNATURE_MISSING"
+	/** The call or construct signature of typeB isn't assignable to typeA's. */
+	| "SIGNATURE_NOT_ASSIGNABLE"
+	/** An element of array, tuple, map or set typeB isn't assignable to the element of typeA. */
+	| "ELEMENT_NOT_ASSIGNABLE"
+	/** Tuple typeB has a length that tuple typeA doesn't allow. */
+	| "TUPLE_LENGTH_MISMATCH"
+	/** The return type of function typeB isn't assignable to the return type of typeA. */
+	| "RETURN_NOT_ASSIGNABLE"
+	/** The type predicate of function typeB doesn't match the one of typeA. */
+	| "TYPE_PREDICATE_MISMATCH"
+	/** Function typeB requires more parameters than typeA provides. */
+	| "TOO_MANY_PARAMETERS"
+	/** A parameter of typeA isn't assignable to the same parameter of typeB. */
+	| "PARAMETER_NOT_CONTRAVARIANT"
+	/** The awaited type of Promise typeB isn't assignable to the awaited type of typeA. */
+	| "AWAITED_NOT_ASSIGNABLE";
+
+/**
+ * One reason why `typeB` isn't assignable to `typeA`.
+ * Paths start at the types passed to {@link explainAssignability}.
+ */
+export interface AssignabilityFailure {
+	reason: AssignabilityFailureReason;
+	/** Human-readable explanation, in the style of Typescript's diagnostics. */
+	message: string;
+	typeA: SimpleType;
+	pathA: SimpleTypePath;
+	typeB: SimpleType;
+	pathB: SimpleTypePath;
+	/**
+	 * More specific failures that caused this one.
+	 * Note that function parameters are compared contravariantly, so below a
+	 * PARAMETER_NOT_CONTRAVARIANT failure the A and B sides swap.
+	 */
+	causes: AssignabilityFailure[];
+}
+
+interface ExplainAssignabilityInternalOptions {
+	config: SimpleTypeComparisonOptions;
+	comparingTypes: Map<SimpleType, Set<SimpleType>>;
+	depth: number;
+}
+
+type SimpleTypeObjectLike = SimpleTypeObject | SimpleTypeInterface | SimpleTypeClass;
+
+interface Side<T extends SimpleType = SimpleType> {
+	type: T;
+	path: SimpleTypePath;
+}
+
+/**
+ * Explains why `typeB` is not assignable to `typeA`.
+ * @param typeA Type A
+ * @param typeB Type B
+ * @param config
+ * @returns undefined if `typeB` is assignable to `typeA`, otherwise a tree of failures.
+ */
+export function explainAssignability(typeA: SimpleType, typeB: SimpleType, config?: SimpleTypeComparisonOptions): AssignabilityFailure | undefined {
+	return explainAssignabilityInternal(
+		{ type: typeA, path: SimpleTypePath.empty() },
+		{ type: typeB, path: SimpleTypePath.empty() },
+		{
+			config: config ?? {},
+			comparingTypes: new Map(),
+			depth: 0
+		}
+	);
+}
+
+/**
+ * Format a failure tree as an indented elaboration chain, like Typescript does.
+ */
+export function assignabilityFailureToString(failure: AssignabilityFailure, indent = ""): string {
+	return [`${indent}${failure.message}`, ...failure.causes.map(cause => assignabilityFailureToString(cause, indent + "  "))].join("\n");
+}
+
+function explainAssignabilityInternal(a: Side, b: Side, options: ExplainAssignabilityInternalOptions): AssignabilityFailure | undefined {
+	if (isAssignableToSimpleType(a.type, b.type, options.config)) {
+		return undefined;
+	}
+
+	// Nested occurrences of a pair already being explained are explained further up, so stop with a generic failure.
+	if (options.comparingTypes.get(a.type)?.has(b.type) || options.depth >= (options.config.maxDepth ?? 50)) {
+		return failure("NOT_ASSIGNABLE", a, b);
+	}
+
+	const comparingTypes = new Map(options.comparingTypes);
+	comparingTypes.set(a.type, new Set([...(comparingTypes.get(a.type) ?? []), b.type]));
+	const nested: ExplainAssignabilityInternalOptions = { ...options, comparingTypes, depth: options.depth + 1 };
+
+	return explainExpandB(a, b, nested) ?? explainExpandA(a, b, nested) ?? explainCompare(a, b, nested) ?? failure("NOT_ASSIGNABLE", a, b);
+}
+
+function explainExpandB(a: Side, b: Side, options: ExplainAssignabilityInternalOptions): AssignabilityFailure | undefined {
+	switch (b.type.kind) {
+		case "ALIAS":
+			return explainAssignabilityInternal(a, step(b, { step: "ALIASED", from: b.type }, b.type.target), options);
+
+		case "UNION": {
+			const causes = b.type.types.map((variant, index) => explainAssignabilityInternal(a, step(b, { step: "VARIANT", from: b.type, index }, variant), options)).filter(isFailure);
+			return failure("VARIANT_NOT_ASSIGNABLE", a, b, causes);
+		}
+
+		case "ENUM_MEMBER":
+			return explainAssignabilityInternal(a, { type: b.type.type, path: b.path }, options);
+	}
+}
+
+function explainExpandA(a: Side, b: Side, options: ExplainAssignabilityInternalOptions): AssignabilityFailure | undefined {
+	switch (a.type.kind) {
+		case "ALIAS":
+			return explainAssignabilityInternal(step(a, { step: "ALIASED", from: a.type }, a.type.target), b, options);
+
+		case "UNION": {
+			const causes = a.type.types.map((variant, index) => explainAssignabilityInternal(step(a, { step: "VARIANT", from: a.type, index }, variant), b, options)).filter(isFailure);
+			return failure("NO_MATCHING_VARIANT", a, b, causes);
+		}
+
+		case "INTERSECTION": {
+			const causes = a.type.types.map((member, index) => explainAssignabilityInternal(step(a, { step: "VARIANT", from: a.type, index }, member), b, options)).filter(isFailure);
+			return failure("INTERSECTION_MEMBER_NOT_ASSIGNABLE", a, b, causes);
+		}
+	}
+}
+
+function explainCompare(a: Side, b: Side, options: ExplainAssignabilityInternalOptions): AssignabilityFailure | undefined {
+	const typeA = a.type;
+	const typeB = b.type;
+
+	switch (typeA.kind) {
+		case "ARRAY": {
+			if (typeB.kind === "ARRAY") {
+				const cause = elementFailure(
+					explainAssignabilityInternal(step(a, { step: "NUMBER_INDEX", from: typeA }, typeA.type), step(b, { step: "NUMBER_INDEX", from: typeB }, typeB.type), options)
+				);
+				return cause && failure("NOT_ASSIGNABLE", a, b, [cause]);
+			}
+
+			if (typeB.kind === "TUPLE") {
+				const element = step(a, { step: "NUMBER_INDEX", from: typeA }, typeA.type);
+				const causes = typeB.members
+					.map((member, index) => elementFailure(explainAssignabilityInternal(element, step(b, { step: "INDEXED_MEMBER", from: typeB, member, index }, member.type), options)))
+					.filter(isFailure);
+				return causes.length ? failure("NOT_ASSIGNABLE", a, b, causes) : undefined;
+			}
+
+			return undefined;
+		}
+
+		case "TUPLE": {
+			if (typeB.kind !== "TUPLE") {
+				return undefined;
+			}
+
+			if (!isAssignableToSimpleType(getTupleLengthType(typeA), getTupleLengthType(typeB), options.config)) {
+				return failure("TUPLE_LENGTH_MISMATCH", a, b, [], `Source has ${typeB.members.length} element(s) but target allows ${typeA.rest ? "a different number" : typeA.members.length}.`);
+			}
+
+			const causes = typeB.members
+				.map((memberB, index) => {
+					const indexA = Math.min(index, typeA.members.length - 1);
+					const memberA = typeA.members[indexA];
+					if (memberA == null || (index !== indexA && !typeA.rest)) {
+						return undefined;
+					}
+
+					return elementFailure(
+						explainAssignabilityInternal(
+							step(a, { step: "INDEXED_MEMBER", from: typeA, member: memberA, index: indexA }, memberA.type),
+							step(b, { step: "INDEXED_MEMBER", from: typeB, member: memberB, index }, memberB.type),
+							options
+						)
+					);
+				})
+				.filter(isFailure);
+			return causes.length ? failure("NOT_ASSIGNABLE", a, b, causes) : undefined;
+		}
+
+		case "PROMISE": {
+			if (typeB.kind !== "PROMISE") {
+				return undefined;
+			}
+
+			const cause = explainAssignabilityInternal(step(a, { step: "AWAITED", from: typeA }, typeA.type), step(b, { step: "AWAITED", from: typeB }, typeB.type), options);
+			return cause && failure("AWAITED_NOT_ASSIGNABLE", a, b, [cause]);
+		}
+
+		case "MAP": {
+			if (typeB.kind !== "MAP") {
+				return undefined;
+			}
+
+			const causes = [
+				explainAssignabilityInternal(step(a, { step: "KEY", from: typeA }, typeA.keyType), step(b, { step: "KEY", from: typeB }, typeB.keyType), options),
+				explainAssignabilityInternal(step(a, { step: "VALUE", from: typeA }, typeA.valueType), step(b, { step: "VALUE", from: typeB }, typeB.valueType), options)
+			]
+				.map(elementFailure)
+				.filter(isFailure);
+			return causes.length ? failure("NOT_ASSIGNABLE", a, b, causes) : undefined;
+		}
+
+		case "SET": {
+			if (typeB.kind !== "SET") {
+				return undefined;
+			}
+
+			const cause = elementFailure(explainAssignabilityInternal(step(a, { step: "VALUE", from: typeA }, typeA.type), step(b, { step: "VALUE", from: typeB }, typeB.type), options));
+			return cause && failure("NOT_ASSIGNABLE", a, b, [cause]);
+		}
+
+		case "FUNCTION":
+		case "METHOD": {
+			if ("call" in typeB && typeB.call != null) {
+				return explainSignature(a as Side<SimpleTypeFunction | SimpleTypeMethod>, step(b, { step: "CALL_SIGNATURE", from: typeB }, typeB.call), options);
+			}
+
+			if (typeB.kind !== "FUNCTION" && typeB.kind !== "METHOD") {
+				return undefined;
+			}
+
+			return explainCallable(a as Side<SimpleTypeFunction | SimpleTypeMethod>, b as Side<SimpleTypeFunction | SimpleTypeMethod>, options);
+		}
+
+		case "INTERFACE":
+		case "OBJECT":
+		case "CLASS": {
+			if (typeB.kind === "FUNCTION" || typeB.kind === "METHOD") {
+				if (typeA.call == null) {
+					return failure("SIGNATURE_MISSING", a, b, [], `Type '${simpleTypeToString(typeA)}' has no call signatures.`);
+				}
+
+				return explainSignature(step(a, { step: "CALL_SIGNATURE", from: typeA }, typeA.call), b, options);
+			}
+
+			if (typeB.kind !== "INTERFACE" && typeB.kind !== "OBJECT" && typeB.kind !== "CLASS") {
+				return undefined;
+			}
+
+			return explainObject(a as Side<typeof typeA>, b as Side<typeof typeB>, options);
+		}
+	}
+
+	return undefined;
+}
+
+function explainObject(a: Side<SimpleTypeObjectLike>, b: Side<SimpleTypeObjectLike>, options: ExplainAssignabilityInternalOptions): AssignabilityFailure | undefined {
+	const typeA = a.type;
+	const typeB = b.type;
+	const membersA = typeA.members ?? [];
+	const membersB = typeB.members ?? [];
+	const causes: AssignabilityFailure[] = [];
+
+	membersA.forEach((memberA, indexA) => {
+		const indexB = membersB.findIndex(memberB => memberB.name === memberA.name);
+		const memberB = membersB[indexB];
+		const memberPathA = step(a, { step: "NAMED_MEMBER", from: typeA, member: memberA, index: indexA }, memberA.type);
+
+		if (memberB == null) {
+			if (!memberA.optional) {
+				causes.push(
+					failure("MEMBER_MISSING", memberPathA, b, [], `Property '${memberA.name}' is missing in type '${simpleTypeToString(typeB)}' but required in type '${simpleTypeToString(typeA)}'.`)
+				);
+			}
+			return;
+		}
+
+		const memberPathB = step(b, { step: "NAMED_MEMBER", from: typeB, member: memberB, index: indexB }, memberB.type);
+		if (!memberA.optional && memberB.optional) {
+			causes.push(
+				failure(
+					"MEMBER_OPTIONAL",
+					memberPathA,
+					memberPathB,
+					[],
+					`Property '${memberA.name}' is optional in type '${simpleTypeToString(typeB)}' but required in type '${simpleTypeToString(typeA)}'.`
+				)
+			);
+			return;
+		}
+
+		const cause = explainAssignabilityInternal(memberPathA, memberPathB, options);
+		if (cause) {
+			causes.push(failure("MEMBER_NOT_ASSIGNABLE", memberPathA, memberPathB, [cause], `Types of property '${memberA.name}' are incompatible.`));
+		}
+	});
+
+	if (typeA.ctor != null && typeA.kind !== "CLASS") {
+		const ctorA = step(a, { step: "CTOR_SIGNATURE", from: typeA }, typeA.ctor);
+		if (typeB.ctor != null && typeB.kind !== "CLASS") {
+			causes.push(...[explainSignature(ctorA, step(b, { step: "CTOR_SIGNATURE", from: typeB }, typeB.ctor), options)].filter(isFailure));
+		} else {
+			causes.push(failure("SIGNATURE_MISSING", ctorA, b, [], `Type '${simpleTypeToString(typeB)}' provides no match for the signature '${simpleTypeToString(typeA.ctor)}'.`));
+		}
+	}
+
+	if (typeA.call != null) {
+		const callA = step(a, { step: "CALL_SIGNATURE", from: typeA }, typeA.call);
+		if (typeB.call != null) {
+			causes.push(...[explainSignature(callA, step(b, { step: "CALL_SIGNATURE", from: typeB }, typeB.call), options)].filter(isFailure));
+		} else {
+			causes.push(failure("SIGNATURE_MISSING", callA, b, [], `Type '${simpleTypeToString(typeB)}' provides no match for the signature '${simpleTypeToString(typeA.call)}'.`));
+		}
+	}
+
+	if (causes.length === 0 && !membersA.some(memberA => membersB.some(memberB => memberB.name === memberA.name))) {
+		return failure("NO_MEMBERS_IN_COMMON", a, b, [], `Type '${simpleTypeToString(typeB)}' has no properties in common with type '${simpleTypeToString(typeA)}'.`);
+	}
+
+	return causes.length ? failure("NOT_ASSIGNABLE", a, b, causes) : undefined;
+}
+
+function explainSignature(a: Side, b: Side, options: ExplainAssignabilityInternalOptions): AssignabilityFailure | undefined {
+	const cause = explainAssignabilityInternal(a, b, options);
+	return cause && failure("SIGNATURE_NOT_ASSIGNABLE", a, b, [cause], `Call signature '${simpleTypeToString(b.type)}' is not assignable to '${simpleTypeToString(a.type)}'.`);
+}
+
+function explainCallable(
+	a: Side<SimpleTypeFunction | SimpleTypeMethod>,
+	b: Side<SimpleTypeFunction | SimpleTypeMethod>,
+	options: ExplainAssignabilityInternalOptions
+): AssignabilityFailure | undefined {
+	const typeA = a.type;
+	const typeB = b.type;
+	if (typeA.parameters == null || typeA.returnType == null || typeB.parameters == null || typeB.returnType == null) {
+		return undefined;
+	}
+
+	const causes: AssignabilityFailure[] = [];
+
+	if (typeA.returnType.kind !== "VOID") {
+		const cause = explainAssignabilityInternal(step(a, { step: "RETURN", from: typeA }, typeA.returnType), step(b, { step: "RETURN", from: typeB }, typeB.returnType), options);
+		if (cause) {
+			causes.push(
+				failure("RETURN_NOT_ASSIGNABLE", a, b, [cause], `Call signature return types '${simpleTypeToString(typeB.returnType)}' and '${simpleTypeToString(typeA.returnType)}' are incompatible.`)
+			);
+		}
+	}
+
+	if (typeA.typePredicate) {
+		if (
+			!typeB.typePredicate ||
+			typeA.typePredicate.parameterIndex !== typeB.typePredicate.parameterIndex ||
+			!isAssignableToSimpleType(typeA.typePredicate.type, typeB.typePredicate.type, options.config)
+		) {
+			causes.push(failure("TYPE_PREDICATE_MISMATCH", a, b, [], `Signature '${simpleTypeToString(typeB)}' must be a type predicate matching '${simpleTypeToString(typeA)}'.`));
+		}
+	}
+
+	const paramsA = typeA.parameters.filter(param => param.name !== "this");
+	const paramsB = typeB.parameters.filter(param => param.name !== "this");
+	const requiredParamCountB = paramsB.filter(param => !param.optional && !param.rest).length;
+	if (requiredParamCountB > paramsA.length) {
+		causes.push(failure("TOO_MANY_PARAMETERS", a, b, [], `Target signature provides too few arguments. Expected ${requiredParamCountB} or more, but got ${paramsA.length}.`));
+		return failure("NOT_ASSIGNABLE", a, b, causes);
+	}
+
+	// Method parameters are checked bivariantly, see isAssignableToSimpleType
+	const parameterOptions: ExplainAssignabilityInternalOptions =
+		typeA.kind === "METHOD" || typeB.kind === "METHOD" ? { ...options, config: { ...options.config, strictNullChecks: false, strictFunctionTypes: false } } : options;
+
+	for (let i = 0; i < Math.min(paramsA.length, paramsB.length); i++) {
+		const paramA = paramsA[i];
+		const paramB = paramsB[i];
+		const sideA = step(a, { step: "PARAMETER", from: typeA, index: typeA.parameters.indexOf(paramA), parameter: paramA }, parameterElementType(paramA));
+		const sideB = step(b, { step: "PARAMETER", from: typeB, index: typeB.parameters.indexOf(paramB), parameter: paramB }, parameterElementType(paramB));
+
+		if (parameterOptions.config.strictFunctionTypes === false && isAssignableToSimpleType(sideA.type, sideB.type, parameterOptions.config)) {
+			continue;
+		}
+
+		// Contravariant: swap the sides
+		const cause = explainAssignabilityInternal(sideB, sideA, parameterOptions);
+		if (cause) {
+			causes.push(
+				failure("PARAMETER_NOT_CONTRAVARIANT", sideA, sideB, [cause], `Types of parameters '${paramB.name}' and '${paramA.name}' are incompatible (parameter ${i + 1} is not contravariant).`)
+			);
+		}
+	}
+
+	return causes.length ? failure("NOT_ASSIGNABLE", a, b, causes) : undefined;
+}
+
+function parameterElementType(param: SimpleTypeFunctionParameter): SimpleType {
+	return param.rest && param.type.kind === "ARRAY" ? param.type.type : param.type;
+}
+
+function elementFailure(cause: AssignabilityFailure | undefined): AssignabilityFailure | undefined {
+	return cause && failure("ELEMENT_NOT_ASSIGNABLE", { type: cause.typeA, path: cause.pathA }, { type: cause.typeB, path: cause.pathB }, [cause], `Element types are incompatible.`);
+}
+
+function step(side: Side, pathStep: SimpleTypePathStep, type: SimpleType): Side {
+	return { type, path: SimpleTypePath.concat(side.path, pathStep) };
+}
+
+function failure(reason: AssignabilityFailureReason, a: Side, b: Side, causes: AssignabilityFailure[] = [], message?: string): AssignabilityFailure {
+	return {
+		reason,
+		message: message ?? `Type '${simpleTypeToString(b.type)}' is not assignable to type '${simpleTypeToString(a.type)}'.`,
+		typeA: a.type,
+		pathA: a.path,
+		typeB: b.type,
+		pathB: b.path,
+		causes
+	};
+}
+
+function isFailure(value: AssignabilityFailure | undefined): value is AssignabilityFailure {
+	return value != null;
+}
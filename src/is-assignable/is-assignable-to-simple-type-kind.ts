@@ -54,6 +54,12 @@ export function isAssignableToSimpleTypeKind(
 			case "ENUM_MEMBER": {
 				return isAssignableToSimpleTypeKind(simpleType.type, kind, options);
 			}
+
+			// Template literals and string mappings always produce strings
+			case "TEMPLATE_LITERAL":
+			case "STRING_MAPPING": {
+				return isAssignableToSimpleTypeKind({ kind: "STRING" }, kind, options);
+			}
 		}
 	});
 }
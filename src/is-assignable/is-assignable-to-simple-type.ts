@@ -3,20 +3,25 @@ import {
 	isSimpleTypeLiteral,
 	isSimpleTypePrimitive,
 	SimpleType,
+	SimpleTypeConditional,
 	SimpleTypeFunctionParameter,
 	SimpleTypeGenericArguments,
 	SimpleTypeGenericParameter,
+	SimpleTypeIndex,
+	SimpleTypeIndexedAccess,
 	SimpleTypeIntersection,
 	SimpleTypeKind,
 	SimpleTypeMemberNamed,
 	SimpleTypeObject,
 	SimpleTypeObjectTypeBase,
+	SimpleTypeStringMapping,
+	SimpleTypeTemplateLiteral,
 	SimpleTypeTuple
 } from "../simple-type";
 import { simpleTypeToString } from "../transform/simple-type-to-string";
 import { and, or } from "../utils/list-util";
 import { resolveType as resolveTypeUnsafe } from "../utils/resolve-type";
-import { extendTypeParameterMap, getTupleLengthType } from "../utils/simple-type-util";
+import { applyStringMapping, extendTypeParameterMap, getTupleLengthType, templateLiteralToRegExpSource } from "../utils/simple-type-util";
 import { isAssignableToSimpleTypeKind } from "./is-assignable-to-simple-type-kind";
 import { SimpleTypeComparisonOptions } from "./simple-type-comparison-options";
 
@@ -123,6 +128,11 @@ function isCacheableType(simpleType: SimpleType, options: IsAssignableToSimpleTy
 	switch (simpleType.kind) {
 		case "UNION":
 		case "INTERSECTION":
+		case "TEMPLATE_LITERAL":
+		case "STRING_MAPPING":
+		case "INDEX":
+		case "INDEXED_ACCESS":
+		case "CONDITIONAL":
 			if (options.genericParameterMapA.size !== 0 || options.genericParameterMapB.size !== 0) {
 				return false;
 			}
@@ -320,6 +330,24 @@ function isAssignableToSimpleTypeInternal(typeA: SimpleType, typeB: SimpleType,
 
 			return isAssignableToSimpleTypeCached(typeA, realTypeB, options);
 		}
+
+		// [typeB] (expand)
+		case "TEMPLATE_LITERAL":
+		case "STRING_MAPPING":
+		case "INDEX":
+		case "INDEXED_ACCESS":
+		case "CONDITIONAL": {
+			const reduced = reduceTypeOperatorIfPossible(typeB, options.genericParameterMapB, options);
+			if (reduced == null) {
+				break;
+			}
+
+			if (options.config.debug) {
+				logDebug(options, "type operator", `Reduced typeB to: ${simpleTypeToStringLazy(reduced)}`);
+			}
+
+			return isAssignableToSimpleTypeCached(typeA, reduced, options);
+		}
 	}
 
 	// #####################
@@ -358,6 +386,47 @@ function isAssignableToSimpleTypeInternal(typeA: SimpleType, typeB: SimpleType,
 			// "never" can be assigned to anything
 			return true;
 		}
+
+		// [typeB] (compare)
+		case "INDEX": {
+			// A deferred "keyof T" can be any property key
+			if (typeA.kind !== "INDEX") {
+				return isAssignableToSimpleTypeCached(typeA, KEYOF_CONSTRAINT_TYPE, options);
+			}
+
+			break;
+		}
+
+		// [typeB] (compare)
+		case "INDEXED_ACCESS": {
+			if (typeA.kind === "INDEXED_ACCESS") {
+				break;
+			}
+
+			// A deferred "T[K]" is assignable to typeA if the same access on the constraints of T and K is
+			const objectConstraint = typeB.objectType.kind === "GENERIC_PARAMETER" ? typeB.objectType.constraint : undefined;
+			const indexConstraint = typeB.indexType.kind === "GENERIC_PARAMETER" ? typeB.indexType.constraint : undefined;
+			const reduced =
+				objectConstraint || indexConstraint
+					? reduceTypeOperatorIfPossible(
+							{ kind: "INDEXED_ACCESS", objectType: objectConstraint ?? typeB.objectType, indexType: indexConstraint ?? typeB.indexType },
+							options.genericParameterMapB,
+							options
+					  )
+					: undefined;
+
+			return reduced != null && isAssignableToSimpleTypeCached(typeA, reduced, options);
+		}
+
+		// [typeB] (compare)
+		case "CONDITIONAL": {
+			// A deferred conditional type is assignable to typeA if both of its branches are
+			if (typeA.kind !== "CONDITIONAL") {
+				return isAssignableToSimpleTypeCached(typeA, typeB.trueType, options) && isAssignableToSimpleTypeCached(typeA, typeB.falseType, options);
+			}
+
+			break;
+		}
 	}
 
 	// #####################
@@ -450,6 +519,24 @@ function isAssignableToSimpleTypeInternal(typeA: SimpleType, typeB: SimpleType,
 			// A type T is assignable to an intersection type I if T is assignable to each type in I.
 			return and(combined.types, memberA => isAssignableToSimpleTypeCached(memberA, typeB, options));
 		}
+
+		// [typeA] (expand)
+		case "TEMPLATE_LITERAL":
+		case "STRING_MAPPING":
+		case "INDEX":
+		case "INDEXED_ACCESS":
+		case "CONDITIONAL": {
+			const reduced = reduceTypeOperatorIfPossible(typeA, options.genericParameterMapA, options);
+			if (reduced == null) {
+				break;
+			}
+
+			if (options.config.debug) {
+				logDebug(options, "type operator", `Reduced typeA to: ${simpleTypeToStringLazy(reduced)}`);
+			}
+
+			return isAssignableToSimpleTypeCached(reduced, typeB, options);
+		}
 	}
 
 	// #####################
@@ -466,6 +553,10 @@ function isAssignableToSimpleTypeInternal(typeA: SimpleType, typeB: SimpleType,
 				return typeB.name != null;
 			}
 
+			if (typeB.kind === "TEMPLATE_LITERAL" || typeB.kind === "STRING_MAPPING") {
+				return false;
+			}
+
 			return typeB.kind !== "UNKNOWN";
 		}
 
@@ -514,6 +605,11 @@ function isAssignableToSimpleTypeInternal(typeA: SimpleType, typeB: SimpleType,
 		case "NUMBER":
 		case "ES_SYMBOL":
 		case "BIG_INT": {
+			// Template literals and string mappings are always strings, even when they have a name.
+			if (typeB.kind === "TEMPLATE_LITERAL" || typeB.kind === "STRING_MAPPING") {
+				return typeA.kind === "STRING";
+			}
+
 			if (typeB.name != null) {
 				return false;
 			}
@@ -793,6 +889,10 @@ function isAssignableToSimpleTypeInternal(typeA: SimpleType, typeB: SimpleType,
 				case "METHOD":
 					return typeA.call != null && isAssignableToSimpleTypeCached(typeA.call, typeB, options);
 
+				// Typescript doesn't apply the weak type check to template literals, so they are assignable to objects with only optional members.
+				case "TEMPLATE_LITERAL":
+					return typeA.call == null && typeA.ctor == null && isObjectEmpty(typeA, { ignoreOptionalMembers: true });
+
 				case "INTERFACE":
 				case "OBJECT":
 				case "CLASS": {
@@ -934,6 +1034,104 @@ function isAssignableToSimpleTypeInternal(typeA: SimpleType, typeB: SimpleType,
 		case "DATE": {
 			return typeB.kind === "DATE";
 		}
+
+		// [typeA] (compare)
+		case "MAP": {
+			return typeB.kind === "MAP" && isAssignableToSimpleTypeCached(typeA.keyType, typeB.keyType, options) && isAssignableToSimpleTypeCached(typeA.valueType, typeB.valueType, options);
+		}
+
+		// [typeA] (compare)
+		case "SET": {
+			return typeB.kind === "SET" && isAssignableToSimpleTypeCached(typeA.type, typeB.type, options);
+		}
+
+		// [typeA] (compare)
+		case "REGEXP":
+		case "ERROR":
+		case "URL": {
+			return typeB.kind === typeA.kind;
+		}
+
+		// [typeA] (compare)
+		case "BINARY": {
+			// Typed arrays differ by their Symbol.toStringTag, so they are only assignable to themselves
+			return typeB.kind === "BINARY" && (typeA.name == null || typeB.name == null || typeA.name === typeB.name);
+		}
+
+		// [typeA] (compare)
+		case "TEMPLATE_LITERAL": {
+			if (typeB.kind === "STRING_LITERAL") {
+				return new RegExp(`^${templateLiteralToRegExpSource(typeA)}$`, "s").test(typeB.value);
+			}
+
+			if (typeB.kind === "TEMPLATE_LITERAL") {
+				// Only compare templates with the same shape, eg. `on${string}` === `on${"click" | "focus"}`
+				return (
+					typeA.texts.length === typeB.texts.length &&
+					typeA.texts.every((text, i) => text === typeB.texts[i]) &&
+					and(typeA.types, (spanA, i) => isAssignableToSimpleTypeCached(spanA, typeB.types[i], options))
+				);
+			}
+
+			return false;
+		}
+
+		// [typeA] (compare)
+		case "STRING_MAPPING": {
+			if (typeB.kind === "STRING_LITERAL") {
+				return applyStringMapping(typeA.mapping, typeB.value) === typeB.value && isAssignableToSimpleTypeCached(typeA.type, typeB, options);
+			}
+
+			if (typeB.kind === "STRING_MAPPING") {
+				return typeA.mapping === typeB.mapping && isAssignableToSimpleTypeCached(typeA.type, typeB.type, options);
+			}
+
+			return false;
+		}
+
+		// [typeA] (compare)
+		case "INDEX": {
+			// "keyof" is contravariant: keyof A accepts keyof B when A is assignable to B
+			if (typeB.kind === "INDEX") {
+				return isAssignableToSimpleTypeCached(typeB.type, typeA.type, {
+					...options,
+					genericParameterMapA: options.genericParameterMapB,
+					genericParameterMapB: options.genericParameterMapA
+				});
+			}
+
+			return false;
+		}
+
+		// [typeA] (compare)
+		case "INDEXED_ACCESS": {
+			if (typeB.kind === "INDEXED_ACCESS") {
+				return (
+					isAssignableToSimpleTypeCached(typeA.objectType, typeB.objectType, options) &&
+					isAssignableToSimpleTypeCached(typeA.indexType, typeB.indexType, options) &&
+					isAssignableToSimpleTypeCached(typeB.indexType, typeA.indexType, options)
+				);
+			}
+
+			return false;
+		}
+
+		// [typeA] (compare)
+		case "CONDITIONAL": {
+			// Two deferred conditional types are related if their conditions are identical and their branches are related
+			if (typeB.kind === "CONDITIONAL") {
+				return (
+					isAssignableToSimpleTypeCached(typeA.checkType, typeB.checkType, options) &&
+					isAssignableToSimpleTypeCached(typeB.checkType, typeA.checkType, options) &&
+					isAssignableToSimpleTypeCached(typeA.extendsType, typeB.extendsType, options) &&
+					isAssignableToSimpleTypeCached(typeB.extendsType, typeA.extendsType, options) &&
+					isAssignableToSimpleTypeCached(typeA.trueType, typeB.trueType, options) &&
+					isAssignableToSimpleTypeCached(typeA.falseType, typeB.falseType, options)
+				);
+			}
+
+			return false;
+		}
 	}
 
 	// If we some how end up here (we shouldn't), return "true" as a safe fallback
@@ -1027,6 +1225,178 @@ function reduceIntersectionIfPossible(simpleType: SimpleTypeIntersection, parame
 	return simpleType;
 }
 
+/**
+ * Try to compute the type a deferred type operator refers to, once generic parameters are known.
+ * @returns undefined if the type operator is still deferred
+ */
+function reduceTypeOperatorIfPossible(
+	simpleType: SimpleTypeTemplateLiteral | SimpleTypeStringMapping | SimpleTypeIndex | SimpleTypeIndexedAccess | SimpleTypeConditional,
+	parameterMap: Map<string, SimpleType>,
+	options: IsAssignableToSimpleTypeInternalOptions
+): SimpleType | undefined {
+	switch (simpleType.kind) {
+		case "TEMPLATE_LITERAL":
+		case "STRING_MAPPING": {
+			// Only reduce when every span is known, eg. `on${Capitalize<T>}` where T = "click"
+			const values = getStringLiteralValuesIfPossible(simpleType, parameterMap, options);
+			if (values == null) {
+				return undefined;
+			}
+
+			const literals: SimpleType[] = values.map(value => ({ kind: "STRING_LITERAL", value }));
+			return literals.length === 0 ? NEVER_TYPE : literals.length === 1 ? literals[0] : { kind: "UNION", types: literals };
+		}
+
+		case "INDEX": {
+			const target = resolveType(simpleType.type, parameterMap);
+			if (target.kind !== "OBJECT" && target.kind !== "INTERFACE" && target.kind !== "CLASS") {
+				return undefined;
+			}
+
+			const keys: SimpleType[] = (target.members || []).map(member => ({ kind: "STRING_LITERAL", value: member.name }));
+			if (target.indexType?.STRING) {
+				keys.push({ kind: "STRING" }, { kind: "NUMBER" });
+			} else if (target.indexType?.NUMBER) {
+				keys.push({ kind: "NUMBER" });
+			}
+
+			return keys.length === 0 ? NEVER_TYPE : keys.length === 1 ? keys[0] : { kind: "UNION", types: keys };
+		}
+
+		case "INDEXED_ACCESS": {
+			const target = resolveType(simpleType.objectType, parameterMap);
+			const index = resolveType(simpleType.indexType, parameterMap);
+			const indexes = index.kind === "UNION" ? index.types.map(t => resolveType(t, parameterMap)) : [index];
+
+			const accessed: SimpleType[] = [];
+			for (const key of indexes) {
+				const result = accessIndexIfPossible(target, key);
+				if (result == null) {
+					return undefined;
+				}
+				accessed.push(result);
+			}
+
+			return accessed.length === 1 ? accessed[0] : { kind: "UNION", types: accessed };
+		}
+
+		case "CONDITIONAL": {
+			const checkType = resolveType(simpleType.checkType, parameterMap);
+			if (checkType === DEFAULT_GENERIC_PARAMETER_TYPE || (checkType.kind === "UNION" && simpleType.distributive)) {
+				return undefined;
+			}
+
+			if (checkType.kind === "NEVER" && simpleType.distributive) {
+				return NEVER_TYPE;
+			}
+
+			const extendsType = resolveType(simpleType.extendsType, parameterMap);
+			const matches = isAssignableToSimpleTypeCached(extendsType, checkType, {
+				...options,
+				genericParameterMapA: parameterMap,
+				genericParameterMapB: parameterMap,
+				preventCaching: () => {}
+			});
+			return matches ? simpleType.trueType : simpleType.falseType;
+		}
+	}
+}
+
+function getStringLiteralValuesIfPossible(simpleType: SimpleType, parameterMap: Map<string, SimpleType>, options: IsAssignableToSimpleTypeInternalOptions): string[] | undefined {
+	const resolved = resolveType(simpleType, parameterMap);
+	switch (resolved.kind) {
+		case "STRING_LITERAL":
+		case "NUMBER_LITERAL":
+		case "BOOLEAN_LITERAL":
+		case "BIG_INT_LITERAL":
+			return [String(resolved.value)];
+
+		case "NULL":
+			return ["null"];
+
+		case "UNDEFINED":
+			return ["undefined"];
+
+		case "UNION": {
+			const values: string[] = [];
+			for (const type of resolved.types) {
+				const typeValues = getStringLiteralValuesIfPossible(type, parameterMap, options);
+				if (typeValues == null) {
+					return undefined;
+				}
+				values.push(...typeValues);
+			}
+			return values;
+		}
+
+		case "STRING_MAPPING":
+			return getStringLiteralValuesIfPossible(resolved.type, parameterMap, options)?.map(value => applyStringMapping(resolved.mapping, value));
+
+		case "TEMPLATE_LITERAL": {
+			let values = [resolved.texts[0]];
+			for (const [i, span] of resolved.types.entries()) {
+				const spanValues = getStringLiteralValuesIfPossible(span, parameterMap, options);
+				if (spanValues == null || values.length * spanValues.length > MAX_TEMPLATE_LITERAL_VALUES) {
+					return undefined;
+				}
+				values = values.flatMap(value => spanValues.map(spanValue => `${value}${spanValue}${resolved.texts[i + 1]}`));
+			}
+			return values;
+		}
+
+		case "INDEX":
+		case "INDEXED_ACCESS":
+		case "CONDITIONAL": {
+			const reduced = reduceTypeOperatorIfPossible(resolved, parameterMap, options);
+			return reduced == null ? undefined : getStringLiteralValuesIfPossible(reduced, parameterMap, options);
+		}
+	}
+
+	return undefined;
+}
+
+function accessIndexIfPossible(target: SimpleType, key: SimpleType): SimpleType | undefined {
+	switch (target.kind) {
+		case "OBJECT":
+		case "INTERFACE":
+		case "CLASS": {
+			if (key.kind === "STRING_LITERAL" || key.kind === "NUMBER_LITERAL") {
+				const member = target.members?.find(member => member.name === String(key.value));
+				if (member != null) {
+					return member.type;
+				}
+			}
+
+			if (key.kind === "NUMBER" || key.kind === "NUMBER_LITERAL") {
+				return target.indexType?.NUMBER ?? target.indexType?.STRING;
+			}
+
+			if (key.kind === "STRING" || key.kind === "STRING_LITERAL") {
+				return target.indexType?.STRING;
+			}
+
+			return undefined;
+		}
+
+		case "ARRAY":
+			return key.kind === "NUMBER" || key.kind === "NUMBER_LITERAL" ? target.type : undefined;
+
+		case "TUPLE": {
+			if (key.kind === "NUMBER_LITERAL") {
+				return target.members[key.value]?.type;
+			}
+
+			if (key.kind === "NUMBER") {
+				return { kind: "UNION", types: target.members.map(member => member.type) };
+			}
+
+			return undefined;
+		}
+	}
+
+	return undefined;
+}
+
 function isObjectEmpty(simpleType: SimpleTypeObjectTypeBase, { ignoreOptionalMembers }: { ignoreOptionalMembers?: boolean }): boolean {
 	return simpleType.members == null || simpleType.members.length === 0 || (ignoreOptionalMembers && !simpleType.members.some(m => !m.optional)) || false;
 }
@@ -1105,6 +1475,13 @@ function colorText(options: IsAssignableToSimpleTypeInternalOptions, text: unkno
 	return `${COLOR}${text}${RESET}`;
 }
 
+const MAX_TEMPLATE_LITERAL_VALUES = 100;
+
+const KEYOF_CONSTRAINT_TYPE: SimpleType = {
+	kind: "UNION",
+	types: [{ kind: "STRING" }, { kind: "NUMBER" }, { kind: "ES_SYMBOL" }]
+};
+
 const PRIMITIVE_TYPE_TO_LITERAL_MAP = {
 	["STRING"]: "STRING_LITERAL",
 	["NUMBER"]: "NUMBER_LITERAL",
@@ -1,105 +1,401 @@
 import { Node, Program, Type, TypeChecker } from "typescript";
-import { SimpleType, SimpleTypeMemberNamed } from "../simple-type";
-import { isAssignableToType } from "./is-assignable-to-type";
+import { SimpleType, SimpleTypeClass, SimpleTypeEnum, SimpleTypeInterface, SimpleTypeIntersection, SimpleTypeObject, SimpleTypeTuple, SimpleTypeUnion } from "../simple-type";
+import { SimpleTypePath, SimpleTypePathStep } from "../simple-type-path";
+import { simpleTypeToString } from "../transform/simple-type-to-string";
+import { toSimpleType } from "../transform/to-simple-type";
+import { applyStringMapping, templateLiteralToRegExpSource } from "../utils/simple-type-util";
+import { isProgram } from "../utils/ts-util";
 
 /**
  * Tests if a type is assignable to a value.
- * Tests "type = value" in strict mode.
+ * Tests "type = value". Own properties that the type doesn't declare are allowed, use {@link findValueMismatches} with `strict` to report them.
  * @param type The type to test.
  * @param value The value to test.
  */
 export function isAssignableToValue(type: SimpleType, value: unknown): boolean;
 export function isAssignableToValue(type: SimpleType | Type | Node, value: unknown, checker: TypeChecker | Program): boolean;
 export function isAssignableToValue(type: SimpleType | Type | Node, value: unknown, checker?: TypeChecker | Program): boolean {
-	const typeB = convertValueToSimpleType(value, { visitValueSet: new Set(), widening: false });
-	return isAssignableToType(type, typeB, checker!, { strict: true });
+	const simpleType = toSimpleType(type, isProgram(checker) ? checker.getTypeChecker() : checker!);
+	return findValueMismatches(simpleType, value).length === 0;
 }
 
-function convertValueToSimpleType(value: unknown, { visitValueSet, widening }: { visitValueSet: Set<unknown>; widening: boolean }): SimpleType {
-	if (visitValueSet.has(value)) {
-		return { kind: "ANY" };
-	}
+export type ValueMismatchReason =
+	/** The value isn't a value of the type, and there's nothing more specific to say. */
+	| "NOT_ASSIGNABLE"
+	/** The type is a union or enum, and the value isn't a value of any of its variants. */
+	| "NO_MATCHING_VARIANT"
+	/** The type requires a member that the value doesn't have. */
+	| "MEMBER_MISSING"
+	/** In strict mode: the value has an own property that the type doesn't declare. */
+	| "EXCESS_MEMBER"
+	/** The value is an array with a length that the tuple type doesn't allow. */
+	| "TUPLE_LENGTH_MISMATCH";
+
+/**
+ * A key on the way from the checked value to a nested value.
+ * Map and Set entries are addressed like `[...map]` and `[...set]`, so the key of the first entry of a Map is `0, 0`.
+ */
+export type ValuePathKey = string | number;
+
+/**
+ * One reason why a value isn't a value of a type.
+ * Paths start at the type and value passed to {@link findValueMismatches}.
+ */
+export interface ValueMismatch {
+	reason: ValueMismatchReason;
+	/** Human-readable explanation, in the style of Typescript's diagnostics. */
+	message: string;
+	type: SimpleType;
+	path: SimpleTypePath;
+	value: unknown;
+	valuePath: ValuePathKey[];
+}
+
+export interface FindValueMismatchesOptions {
+	/** Report own properties of objects that the type doesn't declare, like Typescript does for object literals. */
+	strict?: boolean;
+}
+
+interface FindValueMismatchesInternalOptions {
+	strict: boolean;
+	/** The value whose excess members are checked further up, against all parts of an intersection or all variants of a union. */
+	excessMembersCheckedFor?: object;
+	/** Pairs of values and types that are being checked further up, which are assumed to match. */
+	checking: Map<object, Set<SimpleType>>;
+}
+
+type SimpleTypeObjectLike = SimpleTypeObject | SimpleTypeInterface | SimpleTypeClass;
+
+interface Side {
+	type: SimpleType;
+	path: SimpleTypePath;
+	value: unknown;
+	valuePath: ValuePathKey[];
+}
+
+/**
+ * Checks `value` against `type`, including every array element, own property and Map and Set entry.
+ * Types that depend on unresolved type parameters, like conditional types, match any value.
+ * @returns the mismatches found, or an empty list if `value` is a value of `type`.
+ */
+export function findValueMismatches(type: SimpleType, value: unknown, options: FindValueMismatchesOptions = {}): ValueMismatch[] {
+	return findValueMismatchesInternal({ type, path: SimpleTypePath.empty(), value, valuePath: [] }, { strict: options.strict ?? false, checking: new Map() });
+}
 
-	if (value === undefined) {
-		return {
-			kind: "UNDEFINED"
-		};
-	} else if (value === null) {
-		return {
-			kind: "NULL"
-		};
-	} else if (typeof value === "string") {
-		if (widening) {
-			return { kind: "STRING" };
+/**
+ * Format a mismatch with the path to the mismatched value, like `value.users[0].name: ...`.
+ */
+export function valueMismatchToString(mismatch: ValueMismatch): string {
+	const path = mismatch.valuePath.map(key => (typeof key === "string" && /^[A-Za-z_$][\w$]*$/.test(key) ? `.${key}` : `[${JSON.stringify(key)}]`)).join("");
+	return `value${path}: ${mismatch.message}`;
+}
+
+function findValueMismatchesInternal(side: Side, options: FindValueMismatchesInternalOptions): ValueMismatch[] {
+	const { type, value } = side;
+
+	if (isObject(value)) {
+		const checkingTypes = options.checking.get(value);
+		if (checkingTypes?.has(type)) {
+			return [];
 		}
+		const checking = new Map(options.checking);
+		checking.set(value, new Set([...(checkingTypes ?? []), type]));
+		options = { ...options, checking };
+	}
+
+	switch (type.kind) {
+		case "ANY":
+		case "UNKNOWN":
+		case "INDEXED_ACCESS":
+		case "CONDITIONAL":
+			return [];
+		case "NEVER":
+			return [mismatch("NOT_ASSIGNABLE", side)];
+		case "STRING":
+			return check(typeof value === "string", side);
+		case "NUMBER":
+			return check(typeof value === "number", side);
+		case "BOOLEAN":
+			return check(typeof value === "boolean", side);
+		case "BIG_INT":
+			return check(typeof value === "bigint", side);
+		case "ES_SYMBOL":
+		case "ES_SYMBOL_UNIQUE":
+			return check(typeof value === "symbol", side);
+		case "STRING_LITERAL":
+		case "NUMBER_LITERAL":
+		case "BOOLEAN_LITERAL":
+		case "BIG_INT_LITERAL":
+			return check(value === type.value, side);
+		case "NULL":
+			return check(value === null, side);
+		case "UNDEFINED":
+		case "VOID":
+			return check(value === undefined, side);
+		case "NON_PRIMITIVE":
+			return check(isObject(value), side);
+		case "INDEX":
+			return check(typeof value === "string" || typeof value === "number" || typeof value === "symbol", side);
+		case "TEMPLATE_LITERAL":
+			return check(typeof value === "string" && new RegExp(`^${templateLiteralToRegExpSource(type)}$`).test(value), side);
+		case "STRING_MAPPING":
+			if (typeof value !== "string" || applyStringMapping(type.mapping, value) !== value) {
+				return [mismatch("NOT_ASSIGNABLE", side)];
+			}
+			return findValueMismatchesInternal(step(side, { step: "OPERAND", from: type }, type.type), options);
+		case "ENUM_MEMBER":
+			return findValueMismatchesInternal(step(side, { step: "ALIASED", from: type }, type.type), options);
+		case "ALIAS":
+			return findValueMismatchesInternal(step(side, { step: "ALIASED", from: type }, type.target), options);
+		case "GENERIC_ARGUMENTS":
+			return findValueMismatchesInternal(step(side, { step: "ALIASED", from: type }, type.instantiated), options);
+		case "GENERIC_PARAMETER":
+			return type.constraint ? findValueMismatchesInternal(step(side, { step: "TYPE_PARAMETER_CONSTRAINT", from: type }, type.constraint), options) : [];
+		case "ENUM":
+		case "UNION":
+			return findVariantMismatches(type, side, options);
+		case "INTERSECTION":
+			return findIntersectionMismatches(type, side, options);
+		case "OBJECT":
+		case "INTERFACE":
+		case "CLASS":
+			return findObjectMismatches(type, side, options);
+		case "FUNCTION":
+		case "METHOD":
+			return check(typeof value === "function", side);
+		case "ARRAY":
+			if (!Array.isArray(value)) {
+				return [mismatch("NOT_ASSIGNABLE", side)];
+			}
+			return value.flatMap((element, index) => findValueMismatchesInternal(step(side, { step: "NUMBER_INDEX", from: type }, type.type, element, index), options));
+		case "TUPLE":
+			return findTupleMismatches(type, side, options);
+		case "MAP":
+			if (!(value instanceof Map)) {
+				return [mismatch("NOT_ASSIGNABLE", side)];
+			}
+			return [...value].flatMap(([entryKey, entryValue], index) => [
+				...findValueMismatchesInternal(step(side, { step: "KEY", from: type }, type.keyType, entryKey, index, 0), options),
+				...findValueMismatchesInternal(step(side, { step: "VALUE", from: type }, type.valueType, entryValue, index, 1), options)
+			]);
+		case "SET":
+			if (!(value instanceof Set)) {
+				return [mismatch("NOT_ASSIGNABLE", side)];
+			}
+			return [...value].flatMap((element, index) => findValueMismatchesInternal(step(side, { step: "VALUE", from: type }, type.type, element, index), options));
+		case "PROMISE":
+			return check(value instanceof Promise, side);
+		case "DATE":
+			return check(value instanceof Date, side);
+		case "REGEXP":
+			return check(value instanceof RegExp, side);
+		case "ERROR":
+			return check(value instanceof Error, side);
+		case "URL":
+			return check(Object.prototype.toString.call(value) === "[object URL]", side);
+		case "BINARY":
+			return check(value instanceof ArrayBuffer || ArrayBuffer.isView(value), side);
+	}
+}
 
-		return {
-			kind: "STRING_LITERAL",
-			value
-		};
-	} else if (typeof value === "number") {
-		if (widening) {
-			return { kind: "NUMBER" };
+function findVariantMismatches(type: SimpleTypeUnion | SimpleTypeEnum, side: Side, options: FindValueMismatchesInternalOptions): ValueMismatch[] {
+	// Each variant only declares some of the members, so excess members are checked against all variants together.
+	const variantOptions = excessMembersCheckedHere(side, options) ? { ...options, excessMembersCheckedFor: side.value as object } : options;
+	const variantMismatches: ValueMismatch[][] = [];
+	for (const [index, variant] of type.types.entries()) {
+		const mismatches = findValueMismatchesInternal(step(side, { step: "VARIANT", from: type, index }, variant), variantOptions);
+		if (mismatches.length === 0) {
+			// Only objects of an object-like variant can have excess members, but they may be declared by any of the variants.
+			if (variantOptions === options || !getKnownKeys(variant)) {
+				return [];
+			}
+			const knownKeys = type.types.map(getKnownKeys).filter(isDefined);
+			return findExcessMembers(side, key => knownKeys.some(isKnownKey => isKnownKey(key)));
 		}
+		variantMismatches.push(mismatches);
+	}
+
+	// Explain the closest variant if the value has the right shape for it, like a tagged object with a wrong member.
+	const nested = variantMismatches.filter(mismatches => mismatches.every(({ valuePath }) => valuePath.length > side.valuePath.length));
+	if (nested.length) {
+		return nested.reduce((closest, mismatches) => (mismatches.length < closest.length ? mismatches : closest));
+	}
+
+	return [mismatch("NO_MATCHING_VARIANT", side, `Value ${valueToString(side.value)} is not assignable to any variant of type '${simpleTypeToString(type)}'.`)];
+}
+
+function findIntersectionMismatches(type: SimpleTypeIntersection, side: Side, options: FindValueMismatchesInternalOptions): ValueMismatch[] {
+	// Each part only declares some of the members, so excess members are checked against all parts together.
+	const checkExcess = excessMembersCheckedHere(side, options);
+	const partOptions = checkExcess ? { ...options, excessMembersCheckedFor: side.value as object } : options;
+	const mismatches = type.types.flatMap((variant, index) => findValueMismatchesInternal(step(side, { step: "VARIANT", from: type, index }, variant), partOptions));
+	if (mismatches.length || !checkExcess) {
+		return mismatches;
+	}
+
+	const isKnownKey = getKnownKeys(type);
+	return isKnownKey ? findExcessMembers(side, isKnownKey) : [];
+}
 
-		return {
-			kind: "NUMBER_LITERAL",
-			value
-		};
-	} else if (typeof value === "boolean") {
-		if (widening) {
-			return { kind: "BOOLEAN" };
+function findObjectMismatches(type: SimpleTypeObjectLike, side: Side, options: FindValueMismatchesInternalOptions): ValueMismatch[] {
+	const { value } = side;
+	const isCallable = Boolean(type.call || type.ctor);
+	if (isCallable ? typeof value !== "function" : !isObject(value)) {
+		return [mismatch("NOT_ASSIGNABLE", side)];
+	}
+
+	const object = value as Record<string, unknown>;
+	const mismatches: ValueMismatch[] = [];
+	const memberNames = new Set<string>();
+
+	type.members?.forEach((member, index) => {
+		memberNames.add(member.name);
+		const memberSide = step(side, { step: "NAMED_MEMBER", from: type, index, member }, member.type, object[member.name], member.name);
+		if (!(member.name in object)) {
+			if (!member.optional) {
+				mismatches.push(mismatch("MEMBER_MISSING", memberSide, `Property '${member.name}' is missing in value but required in type '${simpleTypeToString(type)}'.`));
+			}
+			return;
 		}
+		mismatches.push(...findValueMismatchesInternal(memberSide, options));
+	});
 
-		return {
-			kind: "BOOLEAN_LITERAL",
-			value
-		};
-	} else if (typeof value === "symbol") {
-		if (widening) {
-			return { kind: "ES_SYMBOL" };
+	const { STRING, NUMBER } = type.indexType ?? {};
+	for (const key of Object.keys(object)) {
+		if (memberNames.has(key)) {
+			continue;
 		}
+		if (NUMBER && isNumericKey(key)) {
+			mismatches.push(...findValueMismatchesInternal(step(side, { step: "NUMBER_INDEX", from: type }, NUMBER, object[key], key), options));
+		} else if (STRING) {
+			mismatches.push(...findValueMismatchesInternal(step(side, { step: "STRING_INDEX", from: type }, STRING, object[key], key), options));
+		}
+	}
 
-		return {
-			kind: "ES_SYMBOL_UNIQUE",
-			value: Math.random().toString()
-		};
-	} else if (Array.isArray(value)) {
-		visitValueSet.add(value);
+	if (excessMembersCheckedHere(side, options) && !STRING && !isCallable) {
+		mismatches.push(...findExcessMembers(side, key => memberNames.has(key) || (NUMBER != null && isNumericKey(key))));
+	}
 
-		const firstElement = value[0];
-		if (firstElement != null) {
-			return { kind: "ARRAY", type: convertValueToSimpleType(firstElement, { visitValueSet, widening: true }) };
-		}
-		return {
-			kind: "ARRAY",
-			type: { kind: "ANY" }
-		};
-	} else if (value instanceof Promise) {
-		return {
-			kind: "PROMISE",
-			type: { kind: "ANY" }
-		};
-	} else if (value instanceof Date) {
-		return {
-			kind: "DATE"
-		};
-	} else if (typeof value === "object" && value != null) {
-		visitValueSet.add(value);
-
-		const members = Object.entries(value).map(
-			([key, value]) =>
-				({
-					name: key,
-					type: convertValueToSimpleType(value, { visitValueSet, widening })
-				} as SimpleTypeMemberNamed)
+	return mismatches;
+}
+
+function findTupleMismatches(type: SimpleTypeTuple, side: Side, options: FindValueMismatchesInternalOptions): ValueMismatch[] {
+	const { value } = side;
+	if (!Array.isArray(value)) {
+		return [mismatch("NOT_ASSIGNABLE", side)];
+	}
+
+	const fixedLength = type.rest ? type.members.length - 1 : type.members.length;
+	const requiredLength = type.members.slice(0, fixedLength).filter(member => !member.optional).length;
+	if (value.length < requiredLength || (!type.rest && value.length > fixedLength)) {
+		const allowed = type.rest ? `at least ${requiredLength}` : requiredLength === fixedLength ? `${fixedLength}` : `${requiredLength}-${fixedLength}`;
+		return [mismatch("TUPLE_LENGTH_MISMATCH", side, `Value has ${value.length} element(s) but type '${simpleTypeToString(type)}' allows ${allowed}.`)];
+	}
+
+	return value.flatMap((element, index) => {
+		const memberIndex = Math.min(index, type.members.length - 1);
+		const member = type.members[memberIndex];
+		return findValueMismatchesInternal(step(side, { step: "INDEXED_MEMBER", from: type, index: memberIndex, member }, member.type, element, index), options);
+	});
+}
+
+function findExcessMembers(side: Side, isKnownKey: (key: string) => boolean): ValueMismatch[] {
+	return Object.keys(side.value as object)
+		.filter(key => !isKnownKey(key))
+		.map(key =>
+			mismatch(
+				"EXCESS_MEMBER",
+				{ ...side, value: (side.value as Record<string, unknown>)[key], valuePath: [...side.valuePath, key] },
+				`Object literal may only specify known properties, and '${key}' does not exist in type '${simpleTypeToString(side.type)}'.`
+			)
 		);
+}
+
+function excessMembersCheckedHere(side: Side, options: FindValueMismatchesInternalOptions): boolean {
+	return options.strict && isObject(side.value) && options.excessMembersCheckedFor !== side.value;
+}
 
-		return {
-			kind: "OBJECT",
-			members
-		};
+/**
+ * Returns a test for the keys that objects of `type` may have, or undefined if any key is allowed or `type` isn't object-like.
+ */
+function getKnownKeys(type: SimpleType): ((key: string) => boolean) | undefined {
+	switch (type.kind) {
+		case "ALIAS":
+			return getKnownKeys(type.target);
+		case "GENERIC_ARGUMENTS":
+			return getKnownKeys(type.instantiated);
+		case "INTERSECTION": {
+			const parts = type.types.map(getKnownKeys);
+			return parts.every(isDefined) ? key => parts.some(isKnownKey => isKnownKey!(key)) : undefined;
+		}
+		case "OBJECT":
+		case "INTERFACE":
+		case "CLASS": {
+			if (type.indexType?.STRING || type.call || type.ctor) {
+				return undefined;
+			}
+			const memberNames = new Set(type.members?.map(member => member.name));
+			const hasNumberIndex = type.indexType?.NUMBER != null;
+			return key => memberNames.has(key) || (hasNumberIndex && isNumericKey(key));
+		}
+		default:
+			return undefined;
+	}
+}
+
+/** Step into `type` from `side`. If `valuePath` is given, also step into the nested `value`, otherwise the value stays the same. */
+function step(side: Side, pathStep: SimpleTypePathStep, type: SimpleType, value?: unknown, ...valuePath: ValuePathKey[]): Side {
+	return {
+		type,
+		path: SimpleTypePath.concat(side.path, pathStep),
+		value: valuePath.length ? value : side.value,
+		valuePath: valuePath.length ? [...side.valuePath, ...valuePath] : side.valuePath
+	};
+}
+
+function check(matches: boolean, side: Side): ValueMismatch[] {
+	return matches ? [] : [mismatch("NOT_ASSIGNABLE", side)];
+}
+
+function mismatch(reason: ValueMismatchReason, side: Side, message?: string): ValueMismatch {
+	return {
+		reason,
+		message: message ?? `Value ${valueToString(side.value)} is not assignable to type '${simpleTypeToString(side.type)}'.`,
+		type: side.type,
+		path: side.path,
+		value: side.value,
+		valuePath: side.valuePath
+	};
+}
+
+function valueToString(value: unknown): string {
+	switch (typeof value) {
+		case "string":
+			return JSON.stringify(value);
+		case "bigint":
+			return `${value}n`;
+		case "symbol":
+			return value.toString();
+		case "function":
+			return "function";
+		case "object":
+			if (value === null) {
+				return "null";
+			}
+			return Array.isArray(value) ? `array of length ${value.length}` : value.constructor?.name ?? "object";
+		default:
+			return String(value);
 	}
+}
+
+function isObject(value: unknown): value is object {
+	return (typeof value === "object" && value !== null) || typeof value === "function";
+}
+
+function isNumericKey(key: string): boolean {
+	return key !== "" && String(Number(key)) === key;
+}
 
-	return { kind: "ANY" };
+function isDefined<T>(value: T | undefined): value is T {
+	return value !== undefined;
 }
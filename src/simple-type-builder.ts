@@ -0,0 +1,327 @@
+import {
+	SimpleType,
+	SimpleTypeAlias,
+	SimpleTypeAny,
+	SimpleTypeArray,
+	SimpleTypeBigInt,
+	SimpleTypeBigIntLiteral,
+	SimpleTypeBinary,
+	SimpleTypeBoolean,
+	SimpleTypeBooleanLiteral,
+	SimpleTypeClass,
+	SimpleTypeDate,
+	SimpleTypeEnum,
+	SimpleTypeEnumMember,
+	SimpleTypeError,
+	SimpleTypeESSymbol,
+	SimpleTypeFunction,
+	SimpleTypeFunctionParameter,
+	SimpleTypeGenericArguments,
+	SimpleTypeGenericParameter,
+	SimpleTypeInterface,
+	SimpleTypeIntersection,
+	SimpleTypeMap,
+	SimpleTypeMemberIndexed,
+	SimpleTypeMemberNamed,
+	SimpleTypeModifierKind,
+	SimpleTypeNever,
+	SimpleTypeNonPrimitive,
+	SimpleTypeNull,
+	SimpleTypeNumber,
+	SimpleTypeNumberLiteral,
+	SimpleTypeObject,
+	SimpleTypeObjectTypeBase,
+	SimpleTypePromise,
+	SimpleTypeRegExp,
+	SimpleTypeSet,
+	SimpleTypeString,
+	SimpleTypeStringLiteral,
+	SimpleTypeTemplateLiteral,
+	SimpleTypeTuple,
+	SimpleTypeUndefined,
+	SimpleTypeUnion,
+	SimpleTypeUnknown,
+	SimpleTypeUrl,
+	SimpleTypeVoid
+} from "./simple-type";
+
+/**
+ * A reference to a type that isn't built yet, created by {@link SimpleTypeBuilder.ref}.
+ * Builders resolve it the first time the property holding it is read, so types can refer to themselves.
+ */
+export class SimpleTypeRef {
+	constructor(public readonly resolve: () => SimpleType) {}
+}
+
+/** A member or tuple element created by {@link SimpleTypeBuilder.optional} or {@link SimpleTypeBuilder.member}. */
+export class SimpleTypeMemberInput {
+	constructor(public readonly type: SimpleTypeInput, public readonly optional: boolean, public readonly modifiers?: SimpleTypeModifierKind[]) {}
+}
+
+export type SimpleTypeInput = SimpleType | SimpleTypeRef;
+export type SimpleTypeMemberInputs = Record<string, SimpleTypeInput | SimpleTypeMemberInput>;
+
+export interface SimpleTypeObjectBuilderOptions {
+	name?: string;
+	/** Index signatures, like `{ [key: string]: T }` */
+	index?: { string?: SimpleTypeInput; number?: SimpleTypeInput };
+	typeParameters?: SimpleTypeGenericParameter[];
+}
+
+export interface SimpleTypeParameterInput {
+	name: string;
+	type: SimpleTypeInput;
+	optional?: boolean;
+	rest?: boolean;
+	initializer?: boolean;
+}
+
+export interface SimpleTypeGenericParameterInput {
+	name: string;
+	constraint?: SimpleTypeInput;
+	default?: SimpleTypeInput;
+}
+
+type Literal = string | number | boolean | bigint;
+type LiteralType<T extends Literal> = T extends string ? SimpleTypeStringLiteral : T extends number ? SimpleTypeNumberLiteral : T extends boolean ? SimpleTypeBooleanLiteral : SimpleTypeBigIntLiteral;
+
+/** Generic types built by {@link SimpleTypeBuilder.generic}, mapped to the function that instantiates their body. */
+const GENERIC_BODIES = new WeakMap<SimpleType, (...typeArguments: SimpleType[]) => SimpleType>();
+
+/**
+ * Build {@link SimpleType}s in code, instead of writing object literals by hand.
+ *
+ * ```
+ * const Node = t.interface("Node", {
+ *   value: t.string(),
+ *   children: t.array(t.ref(() => Node)),
+ *   parent: t.optional(t.ref(() => Node))
+ * });
+ * ```
+ *
+ * Optional members keep the type they're given; wrap it in `t.union(type, t.undefined())` to
+ * match what {@link toSimpleType} produces under `strictNullChecks`.
+ */
+export const SimpleTypeBuilder = {
+	string: (): SimpleTypeString => ({ kind: "STRING" }),
+	number: (): SimpleTypeNumber => ({ kind: "NUMBER" }),
+	boolean: (): SimpleTypeBoolean => ({ kind: "BOOLEAN" }),
+	bigint: (): SimpleTypeBigInt => ({ kind: "BIG_INT" }),
+	symbol: (): SimpleTypeESSymbol => ({ kind: "ES_SYMBOL" }),
+	null: (): SimpleTypeNull => ({ kind: "NULL" }),
+	undefined: (): SimpleTypeUndefined => ({ kind: "UNDEFINED" }),
+	void: (): SimpleTypeVoid => ({ kind: "VOID" }),
+	never: (): SimpleTypeNever => ({ kind: "NEVER" }),
+	any: (): SimpleTypeAny => ({ kind: "ANY" }),
+	unknown: (): SimpleTypeUnknown => ({ kind: "UNKNOWN" }),
+	/** The `object` type. */
+	nonPrimitive: (): SimpleTypeNonPrimitive => ({ kind: "NON_PRIMITIVE" }),
+	date: (): SimpleTypeDate => ({ kind: "DATE" }),
+	regexp: (): SimpleTypeRegExp => ({ kind: "REGEXP" }),
+	error: (name = "Error"): SimpleTypeError => ({ kind: "ERROR", name }),
+	url: (): SimpleTypeUrl => ({ kind: "URL" }),
+	/** Binary data, like `Uint8Array` or `ArrayBuffer`. */
+	binary: (name = "Uint8Array"): SimpleTypeBinary => ({ kind: "BINARY", name }),
+
+	literal<T extends Literal>(value: T): LiteralType<T> {
+		switch (typeof value) {
+			case "string":
+				return { kind: "STRING_LITERAL", value } as LiteralType<T>;
+			case "number":
+				return { kind: "NUMBER_LITERAL", value } as LiteralType<T>;
+			case "boolean":
+				return { kind: "BOOLEAN_LITERAL", value } as LiteralType<T>;
+			default:
+				return { kind: "BIG_INT_LITERAL", value } as LiteralType<T>;
+		}
+	},
+
+	/** Refer to a type that is built later, like the type that contains the reference. */
+	ref: (resolve: () => SimpleType): SimpleTypeRef => new SimpleTypeRef(resolve),
+
+	/** An optional member of an object, or an optional element of a tuple. */
+	optional: (type: SimpleTypeInput): SimpleTypeMemberInput => new SimpleTypeMemberInput(type, true),
+
+	member: (type: SimpleTypeInput, options: { optional?: boolean; modifiers?: SimpleTypeModifierKind[] } = {}): SimpleTypeMemberInput =>
+		new SimpleTypeMemberInput(type, options.optional ?? false, options.modifiers),
+
+	/** An anonymous object type, like `{ id: string }`. */
+	object(members: SimpleTypeMemberInputs, options: SimpleTypeObjectBuilderOptions = {}): SimpleTypeObject {
+		return objectLike("OBJECT", members, options);
+	},
+
+	interface(name: string, members: SimpleTypeMemberInputs, options: Omit<SimpleTypeObjectBuilderOptions, "name"> = {}): SimpleTypeInterface {
+		return objectLike("INTERFACE", members, { ...options, name });
+	},
+
+	class(name: string, members: SimpleTypeMemberInputs, options: Omit<SimpleTypeObjectBuilderOptions, "name"> = {}): SimpleTypeClass {
+		return objectLike("CLASS", members, { ...options, name });
+	},
+
+	array(type: SimpleTypeInput): SimpleTypeArray {
+		return withTypes<SimpleTypeArray>({ kind: "ARRAY" }, { type });
+	},
+
+	/** A tuple type. With `rest`, the last element is the element type of a rest element, like `[string, ...number[]]`. */
+	tuple(elements: Array<SimpleTypeInput | SimpleTypeMemberInput>, options: { rest?: boolean } = {}): SimpleTypeTuple {
+		const members = elements.map((element, index) => memberOf<SimpleTypeMemberIndexed>({ index }, element));
+		return { kind: "TUPLE", members, ...(options.rest ? { rest: true } : {}) };
+	},
+
+	union(...types: SimpleTypeInput[]): SimpleTypeUnion {
+		const union: SimpleTypeUnion = { kind: "UNION", types: typeList(types) };
+		const discriminantMembers = types.every(isBuilt) ? getDiscriminantMembers(types as SimpleType[]) : [];
+		return discriminantMembers.length ? { ...union, discriminantMembers } : union;
+	},
+
+	intersection(...types: SimpleTypeInput[]): SimpleTypeIntersection {
+		return { kind: "INTERSECTION", types: typeList(types) };
+	},
+
+	/** A string enum or numeric enum, like `enum Color { Red = "red" }`. */
+	enum(name: string, members: Record<string, string | number>): SimpleTypeEnum {
+		const types = Object.entries(members).map(
+			([memberName, value]): SimpleTypeEnumMember => ({
+				kind: "ENUM_MEMBER",
+				name: memberName,
+				fullName: `${name}.${memberName}`,
+				type: SimpleTypeBuilder.literal(value)
+			})
+		);
+		return { kind: "ENUM", name, types };
+	},
+
+	function(parameters: SimpleTypeParameterInput[], returnType: SimpleTypeInput, options: { name?: string; typeParameters?: SimpleTypeGenericParameter[] } = {}): SimpleTypeFunction {
+		const fn: SimpleTypeFunction = {
+			kind: "FUNCTION",
+			...(options.name ? { name: options.name } : {}),
+			parameters: parameters.map(parameter =>
+				withTypes<SimpleTypeFunctionParameter>(
+					{ name: parameter.name, optional: parameter.optional ?? false, rest: parameter.rest ?? false, initializer: parameter.initializer ?? false },
+					{ type: parameter.type }
+				)
+			),
+			...(options.typeParameters ? { typeParameters: options.typeParameters } : {})
+		};
+		return withTypes(fn, { returnType });
+	},
+
+	promise(type: SimpleTypeInput): SimpleTypePromise {
+		return withTypes<SimpleTypePromise>({ kind: "PROMISE" }, { type });
+	},
+
+	map(keyType: SimpleTypeInput, valueType: SimpleTypeInput): SimpleTypeMap {
+		return withTypes<SimpleTypeMap>({ kind: "MAP" }, { keyType, valueType });
+	},
+
+	set(type: SimpleTypeInput): SimpleTypeSet {
+		return withTypes<SimpleTypeSet>({ kind: "SET" }, { type });
+	},
+
+	/** A template literal type, written as a tagged template: t.template`/users/${t.number()}` */
+	template(texts: TemplateStringsArray, ...types: SimpleTypeInput[]): SimpleTypeTemplateLiteral {
+		return { kind: "TEMPLATE_LITERAL", texts: [...texts], types: typeList(types) };
+	},
+
+	/** A named alias of another type, like `type UserId = string`. */
+	alias(name: string, target: SimpleTypeInput): SimpleTypeAlias {
+		return withTypes<SimpleTypeAlias>({ kind: "ALIAS", name }, { target });
+	},
+
+	typeParameter(name: string, options: Omit<SimpleTypeGenericParameterInput, "name"> = {}): SimpleTypeGenericParameter {
+		return withTypes<SimpleTypeGenericParameter>({ kind: "GENERIC_PARAMETER", name }, { constraint: options.constraint, default: options.default });
+	},
+
+	/**
+	 * A generic type alias, like `type Page<T> = { items: T[] }`.
+	 * `body` is called with the type parameters to build the alias, and again with the type arguments by {@link SimpleTypeBuilder.instantiate}.
+	 */
+	generic(name: string, typeParameters: Array<string | SimpleTypeGenericParameterInput>, body: (...typeParameters: SimpleType[]) => SimpleType): SimpleTypeAlias {
+		const parameters = typeParameters.map(parameter => (typeof parameter === "string" ? SimpleTypeBuilder.typeParameter(parameter) : SimpleTypeBuilder.typeParameter(parameter.name, parameter)));
+		const alias: SimpleTypeAlias = { kind: "ALIAS", name, target: body(...parameters), typeParameters: parameters };
+		GENERIC_BODIES.set(alias, body);
+		return alias;
+	},
+
+	/**
+	 * Apply type arguments to a generic type, like `Page<User>`.
+	 * Types not built by {@link SimpleTypeBuilder.generic} need the `instantiated` result of the application.
+	 */
+	instantiate(target: SimpleTypeGenericArguments["target"], typeArguments: SimpleType[], instantiated?: SimpleType): SimpleTypeGenericArguments {
+		const body = GENERIC_BODIES.get(target);
+		const result = instantiated ?? body?.(...typeArguments);
+		if (!result) {
+			throw new Error(`Cannot instantiate ${target.name ?? target.kind}: it wasn't built by SimpleTypeBuilder.generic, so the instantiated type is required`);
+		}
+		return { kind: "GENERIC_ARGUMENTS", ...(target.name ? { name: target.name } : {}), target, typeArguments, instantiated: result };
+	}
+};
+
+/** Short name for {@link SimpleTypeBuilder}. */
+export const t = SimpleTypeBuilder;
+
+function objectLike<K extends "OBJECT" | "INTERFACE" | "CLASS">(kind: K, members: SimpleTypeMemberInputs, options: SimpleTypeObjectBuilderOptions): SimpleTypeObjectTypeBase & { kind: K } {
+	const namedMembers = Object.entries(members).map(([name, member]) => memberOf<SimpleTypeMemberNamed>({ name }, member));
+	const indexType = options.index && withTypes<NonNullable<SimpleTypeObjectTypeBase["indexType"]>>({}, { STRING: options.index.string, NUMBER: options.index.number });
+	return {
+		kind,
+		...(options.name ? { name: options.name } : {}),
+		members: namedMembers,
+		...(indexType ? { indexType } : {}),
+		...(options.typeParameters ? { typeParameters: options.typeParameters } : {})
+	};
+}
+
+function memberOf<M extends SimpleTypeMemberNamed | SimpleTypeMemberIndexed>(key: Omit<M, "type">, input: SimpleTypeInput | SimpleTypeMemberInput): M {
+	const member = input instanceof SimpleTypeMemberInput ? input : new SimpleTypeMemberInput(input, false);
+	const base = {
+		...key,
+		...(member.optional ? { optional: true } : {}),
+		...(member.modifiers ? { modifiers: member.modifiers } : {})
+	};
+	return withTypes<M>(base as Partial<M>, { type: member.type });
+}
+
+/** Add the `types` properties to `target`. References become getters that resolve the referenced type; undefined types are left out. */
+function withTypes<T extends object>(target: Partial<T>, types: Record<string, SimpleTypeInput | undefined>): T {
+	for (const [key, input] of Object.entries(types)) {
+		if (input === undefined) {
+			continue;
+		}
+		defineType(target, key, input);
+	}
+	return target as T;
+}
+
+function typeList(inputs: SimpleTypeInput[]): SimpleType[] {
+	const types = new Array<SimpleType>(inputs.length);
+	inputs.forEach((input, index) => defineType(types, String(index), input));
+	return types;
+}
+
+function defineType(target: object, key: string, input: SimpleTypeInput) {
+	if (input instanceof SimpleTypeRef) {
+		Object.defineProperty(target, key, { enumerable: true, configurable: true, get: input.resolve });
+	} else {
+		Object.defineProperty(target, key, { enumerable: true, configurable: true, writable: true, value: input });
+	}
+}
+
+function isBuilt(input: SimpleTypeInput): input is SimpleType {
+	return !(input instanceof SimpleTypeRef);
+}
+
+/** Members that every variant has with a literal type, like `kind` in `{ kind: "a" } | { kind: "b" }`. */
+function getDiscriminantMembers(variants: SimpleType[]): SimpleTypeMemberNamed[] {
+	const objects = variants.map(variant => (variant.kind === "OBJECT" || variant.kind === "INTERFACE" || variant.kind === "CLASS" ? variant : undefined));
+	const [first, ...rest] = objects;
+	if (!first || rest.some(object => !object)) {
+		return [];
+	}
+
+	const isLiteralMember = (object: SimpleTypeObjectTypeBase | undefined, name: string) => {
+		const member = object?.members?.find(member => member.name === name);
+		return Boolean(member && !member.optional && ["STRING_LITERAL", "NUMBER_LITERAL", "BOOLEAN_LITERAL", "NULL", "UNDEFINED"].includes(member.type.kind));
+	};
+	return first.members?.filter(member => rest.every(object => isLiteralMember(object, member.name)) && isLiteralMember(first, member.name)) ?? [];
+}
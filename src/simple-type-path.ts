@@ -18,7 +18,17 @@ type SimpleTypePathStepKind =
 	| "CALL_SIGNATURE"
 	| "CTOR_SIGNATURE"
 	| "GENERIC_TARGET"
-	| "ALIASED";
+	| "ALIASED"
+	| "KEY"
+	| "VALUE"
+	| "TEMPLATE_SPAN"
+	| "OPERAND"
+	| "OBJECT_TYPE"
+	| "INDEX_TYPE"
+	| "CHECK_TYPE"
+	| "EXTENDS_TYPE"
+	| "TRUE_TYPE"
+	| "FALSE_TYPE";
 
 export interface SimpleTypePathStepBase {
 	step: SimpleTypePathStepKind;
@@ -133,6 +143,62 @@ export interface SimpleTypePathStepAliased extends SimpleTypePathStepBase {
 	step: "ALIASED";
 }
 
+/** Step from a MAP to its key type. */
+export interface SimpleTypePathStepKey extends SimpleTypePathStepBase {
+	step: "KEY";
+}
+
+/** Step from a MAP or SET to its value type. */
+export interface SimpleTypePathStepValue extends SimpleTypePathStepBase {
+	step: "VALUE";
+}
+
+/** Step from a TEMPLATE_LITERAL to the type of one of its `${placeholder}` spans. */
+export interface SimpleTypePathStepTemplateSpan extends SimpleTypePathStepBase {
+	step: "TEMPLATE_SPAN";
+	index: number;
+}
+
+/** Step from a type operator like `keyof T` or `Capitalize<T>` to `T`. */
+export interface SimpleTypePathStepOperand extends SimpleTypePathStepBase {
+	step: "OPERAND";
+}
+
+/** Step from an INDEXED_ACCESS `T[K]` to `T`. */
+export interface SimpleTypePathStepObjectType extends SimpleTypePathStepBase {
+	step: "OBJECT_TYPE";
+}
+
+/** Step from an INDEXED_ACCESS `T[K]` to `K`. */
+export interface SimpleTypePathStepIndexType extends SimpleTypePathStepBase {
+	step: "INDEX_TYPE";
+}
+
+/**
+ * Steps from a CONDITIONAL to one of its parts.
+ *
+ * ```typescript
+ * //   CHECK_TYPE  EXTENDS_TYPE  TRUE_TYPE  FALSE_TYPE
+ * //   vvv         vvvvvv        vvvvvv     vvvvvvvvv
+ * type IsString<T> = T extends string ? "yes" : "no"
+ * ```
+ */
+export interface SimpleTypePathStepCheckType extends SimpleTypePathStepBase {
+	step: "CHECK_TYPE";
+}
+
+export interface SimpleTypePathStepExtendsType extends SimpleTypePathStepBase {
+	step: "EXTENDS_TYPE";
+}
+
+export interface SimpleTypePathStepTrueType extends SimpleTypePathStepBase {
+	step: "TRUE_TYPE";
+}
+
+export interface SimpleTypePathStepFalseType extends SimpleTypePathStepBase {
+	step: "FALSE_TYPE";
+}
+
 export type SimpleTypePathStep =
 	| SimpleTypePathStepNamedMember
 	| SimpleTypePathStepIndexedMember
@@ -149,7 +215,17 @@ export type SimpleTypePathStep =
 	| SimpleTypePathStepReturn
 	| SimpleTypePathStepGenericArgument
 	| SimpleTypePathStepGenericTarget
-	| SimpleTypePathStepAliased;
+	| SimpleTypePathStepAliased
+	| SimpleTypePathStepKey
+	| SimpleTypePathStepValue
+	| SimpleTypePathStepTemplateSpan
+	| SimpleTypePathStepOperand
+	| SimpleTypePathStepObjectType
+	| SimpleTypePathStepIndexType
+	| SimpleTypePathStepCheckType
+	| SimpleTypePathStepExtendsType
+	| SimpleTypePathStepTrueType
+	| SimpleTypePathStepFalseType;
 
 /**
  * Describes a traversal path from a starting type to a destination type.
@@ -260,6 +336,16 @@ export const SimpleTypePath = {
 					break;
 				}
 
+				case "KEY": {
+					parts.push("Key");
+					break;
+				}
+
+				case "VALUE": {
+					parts.push(step.from.kind === "SET" ? "Item" : "Value");
+					break;
+				}
+
 				case "VARIANT": {
 					if (step.from.kind === "UNION") {
 						if (step.from.name && step.from.name !== rootTypeName) {
@@ -361,6 +447,17 @@ export const SimpleTypePath = {
 					continue;
 				case "GENERIC_ARGUMENT":
 					continue;
+				case "KEY":
+				case "VALUE":
+				case "TEMPLATE_SPAN":
+				case "OPERAND":
+				case "OBJECT_TYPE":
+				case "INDEX_TYPE":
+				case "CHECK_TYPE":
+				case "EXTENDS_TYPE":
+				case "TRUE_TYPE":
+				case "FALSE_TYPE":
+					continue;
 				default:
 					unreachable(step);
 			}
@@ -440,6 +537,36 @@ export const SimpleTypePath = {
 				case "TYPE_PARAMETER_DEFAULT":
 					parts.push(arrow("defaultType"));
 					break;
+				case "KEY":
+					parts.push(arrow("key"));
+					break;
+				case "VALUE":
+					parts.push(arrow("value"));
+					break;
+				case "TEMPLATE_SPAN":
+					parts.push(arrow(`\${${step.index}}`));
+					break;
+				case "OPERAND":
+					parts.push(arrow("operand"));
+					break;
+				case "OBJECT_TYPE":
+					parts.push(arrow("object"));
+					break;
+				case "INDEX_TYPE":
+					parts.push(arrow("index"));
+					break;
+				case "CHECK_TYPE":
+					parts.push(arrow("check"));
+					break;
+				case "EXTENDS_TYPE":
+					parts.push(arrow("extends"));
+					break;
+				case "TRUE_TYPE":
+					parts.push(arrow("true"));
+					break;
+				case "FALSE_TYPE":
+					parts.push(arrow("false"));
+					break;
 				case "VARIANT": {
 					switch (step.from.kind) {
 						case "UNION":
@@ -41,7 +41,20 @@ export type SimpleTypeKind =
 	| "ARRAY"
 	// Special types
 	| "DATE"
-	| "PROMISE";
+	| "PROMISE"
+	// Well-known built-in objects
+	| "MAP"
+	| "SET"
+	| "REGEXP"
+	| "ERROR"
+	| "URL"
+	| "BINARY"
+	// Type operators, usually deferred inside generics
+	| "TEMPLATE_LITERAL"
+	| "STRING_MAPPING"
+	| "INDEX"
+	| "INDEXED_ACCESS"
+	| "CONDITIONAL";
 
 export type SimpleTypeModifierKind = "EXPORT" | "AMBIENT" | "PUBLIC" | "PRIVATE" | "PROTECTED" | "STATIC" | "READONLY" | "ABSTRACT" | "ASYNC" | "DEFAULT";
 
@@ -325,6 +338,97 @@ export interface SimpleTypePromise extends SimpleTypeBase {
 	readonly type: SimpleType;
 }
 
+// ##############################
+// Well-known built-in objects
+// ##############################
+
+/** `Map<K, V>`, `ReadonlyMap<K, V>` or `WeakMap<K, V>`. */
+export interface SimpleTypeMap extends SimpleTypeBase {
+	readonly kind: "MAP";
+	readonly keyType: SimpleType;
+	readonly valueType: SimpleType;
+}
+
+/** `Set<T>`, `ReadonlySet<T>` or `WeakSet<T>`. */
+export interface SimpleTypeSet extends SimpleTypeBase {
+	readonly kind: "SET";
+	readonly type: SimpleType;
+}
+
+export interface SimpleTypeRegExp extends SimpleTypeBase {
+	readonly kind: "REGEXP";
+}
+
+/** `Error` or one of the built-in subclasses like `TypeError`. */
+export interface SimpleTypeError extends SimpleTypeBase {
+	readonly kind: "ERROR";
+}
+
+export interface SimpleTypeUrl extends SimpleTypeBase {
+	readonly kind: "URL";
+}
+
+/**
+ * Binary data: `ArrayBuffer`, `SharedArrayBuffer`, `DataView` or a typed array like `Uint8Array`.
+ * The `name` tells which one.
+ */
+export interface SimpleTypeBinary extends SimpleTypeBase {
+	readonly kind: "BINARY";
+}
+
+// ##############################
+// Type operators
+// ##############################
+
+/**
+ * A template literal type that Typescript couldn't reduce to a union of string literals.
+ *
+ * ```
+ * type EventName<K extends string> = `on${Capitalize<K>}`
+ * ```
+ *
+ * `texts` always has one more element than `types`: the template is
+ * `texts[0] + types[0] + texts[1] + ... + types[n-1] + texts[n]`.
+ */
+export interface SimpleTypeTemplateLiteral extends SimpleTypeBase {
+	readonly kind: "TEMPLATE_LITERAL";
+	readonly texts: string[];
+	readonly types: SimpleType[];
+}
+
+export type SimpleTypeStringMappingKind = "Uppercase" | "Lowercase" | "Capitalize" | "Uncapitalize";
+
+/** An intrinsic string manipulation type applied to a non-literal, like `Capitalize<K>`. */
+export interface SimpleTypeStringMapping extends SimpleTypeBase {
+	readonly kind: "STRING_MAPPING";
+	readonly mapping: SimpleTypeStringMappingKind;
+	readonly type: SimpleType;
+}
+
+/** A deferred `keyof T` type. */
+export interface SimpleTypeIndex extends SimpleTypeBase {
+	readonly kind: "INDEX";
+	readonly type: SimpleType;
+}
+
+/** A deferred `T[K]` type. */
+export interface SimpleTypeIndexedAccess extends SimpleTypeBase {
+	readonly kind: "INDEXED_ACCESS";
+	readonly objectType: SimpleType;
+	readonly indexType: SimpleType;
+}
+
+/** A deferred `T extends U ? X : Y` type. */
+export interface SimpleTypeConditional extends SimpleTypeBase {
+	readonly kind: "CONDITIONAL";
+	readonly checkType: SimpleType;
+	readonly extendsType: SimpleType;
+	readonly trueType: SimpleType;
+	readonly falseType: SimpleType;
+	/** True if the conditional distributes over unions in `checkType`. */
+	readonly distributive?: boolean;
+}
+
 export type SimpleType =
 	| SimpleTypeBigIntLiteral
 	| SimpleTypeEnumMember
@@ -357,8 +461,19 @@ export type SimpleType =
 	| SimpleTypeUnknown
 	| SimpleTypeAlias
 	| SimpleTypeDate
+	| SimpleTypeMap
+	| SimpleTypeSet
+	| SimpleTypeRegExp
+	| SimpleTypeError
+	| SimpleTypeUrl
+	| SimpleTypeBinary
 	| SimpleTypeGenericArguments
-	| SimpleTypeGenericParameter;
+	| SimpleTypeGenericParameter
+	| SimpleTypeTemplateLiteral
+	| SimpleTypeStringMapping
+	| SimpleTypeIndex
+	| SimpleTypeIndexedAccess
+	| SimpleTypeConditional;
 
 // Collect all values on place. This is a map so Typescript will complain if we forget any kind.
 const SIMPLE_TYPE_MAP: Record<SimpleTypeKind, "primitive" | "primitive_literal" | undefined> = {
@@ -394,7 +509,18 @@ const SIMPLE_TYPE_MAP: Record<SimpleTypeKind, "primitive" | "primitive_literal"
 	PROMISE: undefined,
 	TUPLE: undefined,
 	UNION: undefined,
-	UNKNOWN: undefined
+	UNKNOWN: undefined,
+	MAP: undefined,
+	SET: undefined,
+	REGEXP: undefined,
+	ERROR: undefined,
+	URL: undefined,
+	BINARY: undefined,
+	TEMPLATE_LITERAL: undefined,
+	STRING_MAPPING: undefined,
+	INDEX: undefined,
+	INDEXED_ACCESS: undefined,
+	CONDITIONAL: undefined
 };
 
 // Primitive, literal
@@ -451,4 +577,15 @@ export type SimpleTypeKindMap = {
 	ARRAY: SimpleTypeArray;
 	DATE: SimpleTypeDate;
 	PROMISE: SimpleTypePromise;
+	MAP: SimpleTypeMap;
+	SET: SimpleTypeSet;
+	REGEXP: SimpleTypeRegExp;
+	ERROR: SimpleTypeError;
+	URL: SimpleTypeUrl;
+	BINARY: SimpleTypeBinary;
+	TEMPLATE_LITERAL: SimpleTypeTemplateLiteral;
+	STRING_MAPPING: SimpleTypeStringMapping;
+	INDEX: SimpleTypeIndex;
+	INDEXED_ACCESS: SimpleTypeIndexedAccess;
+	CONDITIONAL: SimpleTypeConditional;
 };
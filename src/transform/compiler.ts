@@ -8,7 +8,7 @@ import type * as ts from "typescript";
 import { isSimpleTypePrimitive, SimpleType, SimpleTypeAsTypescript, SimpleTypeMember, SimpleTypeMemberAsTypescript } from "../simple-type";
 import { SimpleTypePath, SimpleTypePathStep } from "../simple-type-path";
 import { getTypescriptModule } from "../ts-module";
-import { Visitor, walkRecursive } from "../visitor";
+import { Visitor, VisitorArgs, walkRecursive } from "../visitor";
 import { toSimpleType, ToSimpleTypeOptions } from "./to-simple-type";
 
 const NO_SOURCE_LOCATION_FOUND = {
@@ -41,6 +41,7 @@ export class SimpleTypeCompiler {
 		this.target = getTarget(this);
 	}
 	private target: SimpleTypeCompilerTarget;
+	private hooks: SimpleTypeCompilerHook[] = [];
 	private current: SimpleTypeCompilerState = {
 		outputLocation: undefined,
 		program: new SimpleTypeCompilerProgram()
@@ -124,7 +125,8 @@ export class SimpleTypeCompiler {
 				// Compile each file to a final AST node, which we turn into a string and a source map.
 				const output: SimpleTypeCompilerOutput = {
 					files: new Map(),
-					program: outputProgram
+					program: outputProgram,
+					diagnostics: outputProgram.diagnostics
 				};
 				for (const fileName of outputFileNames) {
 					const file = outputProgram.getOrCreateFile(fileName);
@@ -160,7 +162,13 @@ export class SimpleTypeCompiler {
 			},
 			() => {
 				try {
-					return walkRecursive<SimpleTypeCompilerNode>(path, simpleType, args => {
+					return walkRecursive<SimpleTypeCompilerNode>(path, simpleType, visitorArgs => {
+						// Hooks can depend on the path, so they run before the cache, and the nodes they return aren't cached.
+						const args = this.applyHooks(visitorArgs);
+						if (args instanceof SimpleTypeCompilerNode) {
+							return args;
+						}
+
 						const cachedNode = this.current.program.getAstNode(args.type);
 						if (cachedNode) {
 							return cachedNode;
@@ -173,7 +181,9 @@ export class SimpleTypeCompiler {
 								}
 								return this.compileReference({
 									from: this.current.outputLocation,
-									to: { location: declarationLocation }
+									to: { location: declarationLocation },
+									circular: true,
+									cycle: SimpleTypePath.getSubpathFrom(args.path, args.type)
 								});
 							}
 						}
@@ -201,6 +211,35 @@ export class SimpleTypeCompiler {
 		);
 	}
 
+	/**
+	 * Add a hook that overrides how matching types compile, for any target.
+	 * Hooks run before the target's `compileType`, in the order they were added.
+	 */
+	addHook(hook: SimpleTypeCompilerHook): this {
+		this.hooks.push(hook);
+		return this;
+	}
+
+	/**
+	 * @returns the node from the first hook that returns one, or args with the type substituted by hooks.
+	 */
+	private applyHooks(args: VisitorArgs<SimpleTypeCompilerNode>): SimpleTypeCompilerNode | VisitorArgs<SimpleTypeCompilerNode> {
+		let hookArgs = args;
+		for (const hook of this.hooks) {
+			if (!simpleTypeMatchesHook(hook, hookArgs)) {
+				continue;
+			}
+
+			const result = hook.compileType(hookArgs, this);
+			if (result instanceof SimpleTypeCompilerNode) {
+				return result;
+			} else if (result) {
+				hookArgs = { ...hookArgs, type: result };
+			}
+		}
+		return hookArgs;
+	}
+
 	compileReference(referenceArgs: SimpleTypeCompilerReferenceArgs): SimpleTypeCompilerNode {
 		return this.withState(
 			{
@@ -355,29 +394,25 @@ export class SimpleTypeCompiler {
 	 */
 	getSourceLocation = getSourceLocationOfSimpleType;
 
-	getDocumentationComment(typeOrMember: SimpleType | SimpleTypeMember): { docComment?: string; jsDocTags?: Map<string, string | undefined> } | undefined {
-		const typeInfo = typeOrMember.getTypescript?.();
-		if (!typeInfo) {
-			return;
-		}
-
-		const { checker, symbol } = typeInfo;
-		if (!symbol) {
-			return;
-		}
-
-		const ts = getTypescriptModule();
-		const docComment = ts.displayPartsToString(symbol.getDocumentationComment(checker));
-		const tags = new Map<string, string | undefined>();
-		for (const tag of symbol.getJsDocTags(checker)) {
-			tags.set(tag.name, tag.text && ts.displayPartsToString(tag.text));
-		}
+	/**
+	 * Find the documentation comment and JSDoc tags of a type or member.
+	 * See {@link getDocumentationCommentOfSimpleType}.
+	 */
+	getDocumentationComment(typeOrMember: SimpleType | SimpleTypeMember): SimpleTypeDocumentation | undefined {
+		return getDocumentationCommentOfSimpleType(typeOrMember);
+	}
 
-		if (docComment || tags.size) {
-			return { docComment: docComment ? docComment : undefined, jsDocTags: tags.size ? tags : undefined };
-		} else {
-			return undefined;
-		}
+	/**
+	 * Report a problem with a type or member that doesn't stop the compilation, like a JSDoc tag the target can't use.
+	 * Diagnostics are returned in {@link SimpleTypeCompilerOutput.diagnostics}.
+	 */
+	reportDiagnostic(typeOrMember: SimpleType | SimpleTypeMember, path: SimpleTypePath, message: string): void {
+		this.current.program.diagnostics.push({
+			message,
+			typeOrMember,
+			path,
+			sourceLocation: getDiagnosticSourceLocation(typeOrMember)
+		});
 	}
 
 	/**
@@ -494,7 +529,118 @@ function snakeCaseToCamelCase(snakeCase: string) {
 	return lowerCamelCase.slice(0, 1).toUpperCase() + lowerCamelCase.slice(1);
 }
 
-function getSourceLocationOfSimpleType(type: SimpleType) {
+/** Documentation attached to the declaration of a type or member. */
+export interface SimpleTypeDocumentation {
+	docComment?: string;
+	jsDocTags?: Map<string, string | undefined>;
+}
+
+/**
+ * Find the documentation comment and JSDoc tags of a type or member.
+ * Only works for types converted with `addMethods: true`, like those from {@link SimpleTypeCompiler.toSimpleType}.
+ */
+export function getDocumentationCommentOfSimpleType(typeOrMember: SimpleType | SimpleTypeMember): SimpleTypeDocumentation | undefined {
+	const typeInfo = typeOrMember.getTypescript?.();
+	if (!typeInfo) {
+		return;
+	}
+
+	const { checker, symbol } = typeInfo;
+	if (!symbol) {
+		return;
+	}
+
+	const ts = getTypescriptModule();
+	const docComment = ts.displayPartsToString(symbol.getDocumentationComment(checker));
+	const tags = new Map<string, string | undefined>();
+	for (const tag of symbol.getJsDocTags(checker)) {
+		tags.set(tag.name, tag.text && ts.displayPartsToString(tag.text));
+	}
+
+	if (docComment || tags.size) {
+		return { docComment: docComment ? docComment : undefined, jsDocTags: tags.size ? tags : undefined };
+	} else {
+		return undefined;
+	}
+}
+
+/** Steps that lead to the same value as their parent. Documentation from types along these steps applies to the value. */
+const SAME_VALUE_STEPS = new Set<SimpleTypePathStep["step"]>(["ALIASED", "VARIANT", "NAMED_MEMBER"]);
+
+/**
+ * Find a JSDoc tag on `type`, or on the types and members that `type` is the value of,
+ * like the member `email: string` or the alias `type Id = string | number`.
+ * @returns the tag's text, an empty string if the tag has no text, or undefined if there's no such tag.
+ */
+export function getJsDocTagOfSimpleType(type: SimpleType, path: SimpleTypePath, tagName: string): string | undefined {
+	const getTag = (typeOrMember: SimpleType | SimpleTypeMember) => {
+		const tags = getDocumentationCommentOfSimpleType(typeOrMember)?.jsDocTags;
+		return tags?.has(tagName) ? tags.get(tagName) ?? "" : undefined;
+	};
+
+	const tag = getTag(type);
+	if (tag !== undefined) {
+		return tag;
+	}
+
+	for (let i = path.length - 1; i >= 0; i--) {
+		const step = path[i];
+		if (!SAME_VALUE_STEPS.has(step.step)) {
+			return undefined;
+		}
+
+		const tag = getTag(step.step === "NAMED_MEMBER" ? step.member : step.from);
+		if (tag !== undefined || step.step === "NAMED_MEMBER") {
+			return tag;
+		}
+	}
+
+	return undefined;
+}
+
+function getDiagnosticSourceLocation(typeOrMember: SimpleType | SimpleTypeMember): SimpleTypeCompilerDiagnostic["sourceLocation"] {
+	const declaration = typeOrMember.getTypescript?.().symbol?.getDeclarations()?.[0];
+	if (!declaration) {
+		return undefined;
+	}
+
+	const sourceFile = declaration.getSourceFile();
+	const loc = getTypescriptModule().getLineAndCharacterOfPosition(sourceFile, declaration.getStart());
+	return { fileName: sourceFile.fileName, line: loc.line + 1, column: loc.character + 1 };
+}
+
+/**
+ * Format a diagnostic for humans, like `src/user.ts:3:2 - Unknown JSDoc tag @minimun`.
+ */
+export function simpleTypeCompilerDiagnosticToString(diagnostic: SimpleTypeCompilerDiagnostic): string {
+	const { sourceLocation } = diagnostic;
+	return sourceLocation ? `${sourceLocation.fileName}:${sourceLocation.line}:${sourceLocation.column} - ${diagnostic.message}` : diagnostic.message;
+}
+
+function simpleTypeMatchesHook(hook: SimpleTypeCompilerHookMatch, args: VisitorArgs<SimpleTypeCompilerNode>): boolean {
+	const { type, path } = args;
+	if (hook.name !== undefined && (type.name === undefined || !(typeof hook.name === "string" ? type.name === hook.name : hook.name.test(type.name)))) {
+		return false;
+	}
+
+	if (hook.fileName !== undefined) {
+		const fileName = getSourceLocationOfSimpleType(type).typescript?.sourceFile.fileName;
+		if (fileName === undefined || !(typeof hook.fileName === "string" ? fileName.endsWith(hook.fileName) : hook.fileName.test(fileName))) {
+			return false;
+		}
+	}
+
+	if (hook.jsDocTag !== undefined && getJsDocTagOfSimpleType(type, path, hook.jsDocTag) === undefined) {
+		return false;
+	}
+
+	return hook.predicate?.(args) ?? true;
+}
+
+/**
+ * Find the declaration of a type, and its position for source maps.
+ */
+export function getSourceLocationOfSimpleType(type: SimpleType) {
 	const typescriptType = type.getTypescript?.();
 	if (!typescriptType) {
 		return NO_SOURCE_LOCATION_FOUND;
@@ -522,7 +668,8 @@ function getSourceLocationOfSimpleType(type: SimpleType) {
 		},
 		sourceMap: {
 			column: loc.character,
-			line: loc.line,
+			// Typescript lines are zero-based, source map lines are one-based.
+			line: loc.line + 1,
 			source: sourceFile.fileName,
 			sourceContent: sourceFile.text
 		}
@@ -758,6 +905,7 @@ export const SimpleTypeCompilerLocation = {
 class SimpleTypeCompilerProgram {
 	public entryPoints = new Map<SimpleType, SimpleTypeCompilerDeclarationLocation>();
 	public files = new Map<string, SimpleTypeCompilerTargetFile>();
+	public diagnostics: SimpleTypeCompilerDiagnostic[] = [];
 
 	private declarationLocationNameCount = new Map<string, number>();
 	private typeToDeclarationLocationCache = new WeakMap<SimpleType, SimpleTypeCompilerDeclarationLocation>();
@@ -835,11 +983,58 @@ export interface SimpleTypeCompilerOutputFile {
 export interface SimpleTypeCompilerOutput {
 	files: Map<string, SimpleTypeCompilerOutputFile>;
 	program: SimpleTypeCompilerProgram;
+	diagnostics: SimpleTypeCompilerDiagnostic[];
+}
+
+/**
+ * A problem found during compilation that didn't stop it. See {@link SimpleTypeCompiler#reportDiagnostic}.
+ */
+export interface SimpleTypeCompilerDiagnostic {
+	message: string;
+	typeOrMember: SimpleType | SimpleTypeMember;
+	path: SimpleTypePath;
+	/** Where the type or member is declared. Line and column are 1-based. */
+	sourceLocation: { fileName: string; line: number; column: number } | undefined;
+}
+
+/**
+ * Which types a {@link SimpleTypeCompilerHook} applies to.
+ * A type must match every criterion that's given.
+ */
+export interface SimpleTypeCompilerHookMatch {
+	/** Name of the type, like an interface or type alias name. */
+	name?: string | RegExp;
+	/** File name of the type's declaration. A string matches file names that end with it. */
+	fileName?: string | RegExp;
+	/** Name of a JSDoc tag on the type, or on the member or alias it's the value of. See {@link getJsDocTagOfSimpleType}. */
+	jsDocTag?: string;
+	predicate?: (args: VisitorArgs<SimpleTypeCompilerNode>) => boolean;
+}
+
+/**
+ * Overrides how matching types compile. Because hooks run before the target, the same
+ * hook can be added to compilers of different targets with {@link SimpleTypeCompiler#addHook}.
+ */
+export interface SimpleTypeCompilerHook extends SimpleTypeCompilerHookMatch {
+	/**
+	 * Called for each matching type.
+	 * Return a node to use for the type, a SimpleType to compile in its place, or undefined to compile the type as usual.
+	 * Later hooks see the substituted SimpleType. Returned nodes aren't cached, so return the same SimpleType
+	 * each time to declare a substituted type once.
+	 */
+	compileType(args: VisitorArgs<SimpleTypeCompilerNode>, compiler: SimpleTypeCompiler): SimpleTypeCompilerNode | SimpleType | undefined;
 }
 
 export interface SimpleTypeCompilerReferenceArgs {
 	from: SimpleTypeCompilerLocation;
 	to: { location: SimpleTypeCompilerDeclarationLocation } | SimpleTypeCompilerDeclarationNode;
+	/**
+	 * True if the reference was created because the type refers to itself while it's still being compiled.
+	 * Targets that need indirection for recursive types (like Rust's `Box<T>`) can use this to wrap the reference.
+	 */
+	circular?: boolean;
+	/** For circular references, the path from the referenced type to the reference. */
+	cycle?: SimpleTypePath;
 }
 
 export interface SimpleTypeCompilerTarget {
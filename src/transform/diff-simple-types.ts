@@ -0,0 +1,396 @@
+import { isAssignableToSimpleType } from "../is-assignable/is-assignable-to-simple-type";
+import { SimpleType, SimpleTypeClass, SimpleTypeEnum, SimpleTypeInterface, SimpleTypeObject, SimpleTypeUnion } from "../simple-type";
+import { SimpleTypePath, SimpleTypePathStep } from "../simple-type-path";
+import { Visitor, VisitorArgs, walkRecursive } from "../visitor";
+import { simpleTypeToString } from "./simple-type-to-string";
+
+/**
+ * The kind of change between two versions of a type.
+ */
+export type SimpleTypeChangeKind =
+	/** A named member or index signature exists in the new type, but not in the old type. */
+	| "MEMBER_ADDED"
+	/** A named member or index signature exists in the old type, but not in the new type. */
+	| "MEMBER_REMOVED"
+	/** A required member became optional. */
+	| "MEMBER_MADE_OPTIONAL"
+	/** An optional member became required. */
+	| "MEMBER_MADE_REQUIRED"
+	/** A union or enum gained a variant. */
+	| "VARIANT_ADDED"
+	/** A union or enum lost a variant. */
+	| "VARIANT_REMOVED"
+	/** A type was replaced with a different type that can't be compared member-by-member, like `string` to `number`. */
+	| "RETYPED";
+
+/**
+ * A single change found by {@link diffSimpleTypes}.
+ *
+ * Changes are classified from the point of view of code written against the old type:
+ * - Readers receive values of the type. A change breaks readers if a value of the new type may not be a valid value of the old type.
+ * - Writers produce values of the type. A change breaks writers if a value of the old type may not be a valid value of the new type.
+ */
+export interface SimpleTypeChange {
+	kind: SimpleTypeChangeKind;
+	/** A human-readable description of the change. */
+	message: string;
+	/** Path to the changed type in the old type, or to its closest parent if it was added. */
+	pathOld: SimpleTypePath;
+	/** Path to the changed type in the new type, or to its closest parent if it was removed. */
+	pathNew: SimpleTypePath;
+	/** The changed type in the old type. Undefined if it was added. */
+	typeOld: SimpleType | undefined;
+	/** The changed type in the new type. Undefined if it was removed. */
+	typeNew: SimpleType | undefined;
+	/** True if code that reads values of the old type can't handle values of the new type. */
+	breaksReaders: boolean;
+	/** True if code that writes values of the old type produces values that aren't valid for the new type. */
+	breaksWriters: boolean;
+}
+
+interface DiffSimpleTypesInternalOptions {
+	comparingTypes: Map<SimpleType, Set<SimpleType>>;
+}
+
+type SimpleTypeObjectLike = SimpleTypeObject | SimpleTypeInterface | SimpleTypeClass;
+
+interface Side<T extends SimpleType = SimpleType> {
+	type: T;
+	path: SimpleTypePath;
+	/** The side is the type of an optional member, so an `undefined` variant is implied by the optionality. */
+	optional?: boolean;
+}
+
+/**
+ * Find the changes between two versions of a type.
+ * Both types are walked in parallel: object members are matched by name, and union variants by literal value, name or equivalence.
+ * Works on types returned by {@link deserializeSimpleType}, so a serialized baseline can be compared with the current version of a type.
+ * @param oldType The previous version of the type
+ * @param newType The current version of the type
+ * @returns A list of changes, empty if the types are equivalent.
+ */
+export function diffSimpleTypes(oldType: SimpleType, newType: SimpleType): SimpleTypeChange[] {
+	return diffSimpleTypesInternal({ type: oldType, path: SimpleTypePath.empty() }, { type: newType, path: SimpleTypePath.empty() }, { comparingTypes: new Map() });
+}
+
+/**
+ * Format a change as a single line, like `User.name: Member 'name' was removed. (breaks readers)`
+ */
+export function simpleTypeChangeToString(change: SimpleTypeChange): string {
+	const breaks = [change.breaksReaders && "readers", change.breaksWriters && "writers"].filter(Boolean);
+	const path = SimpleTypePath.toString(change.typeNew ? change.pathNew : change.pathOld);
+	return `${path}: ${change.message} (${breaks.length ? `breaks ${breaks.join(" and ")}` : "non-breaking"})`;
+}
+
+function diffSimpleTypesInternal(oldSide: Side, newSide: Side, options: DiffSimpleTypesInternalOptions): SimpleTypeChange[] {
+	const a = unwrap(oldSide);
+	const b = unwrap(newSide);
+
+	if (a.type === b.type) {
+		return [];
+	}
+
+	if (isVariantType(a.type) || isVariantType(b.type)) {
+		return diffVariants(a, b, options);
+	}
+
+	return diffStructure(a, b, options);
+}
+
+function diffStructure(a: Side, b: Side, options: DiffSimpleTypesInternalOptions): SimpleTypeChange[] {
+	// Recursive types are compared once per pair of types on each path, so the same pair is still compared at its other paths.
+	const comparingTypesA = options.comparingTypes.get(a.type);
+	if (a.type === b.type || comparingTypesA?.has(b.type)) {
+		return [];
+	}
+	const comparingTypes = new Map(options.comparingTypes);
+	comparingTypes.set(a.type, new Set([...(comparingTypesA ?? []), b.type]));
+	options = { ...options, comparingTypes };
+
+	if (isObjectLike(a.type) && isObjectLike(b.type)) {
+		return diffMembers(a as Side<SimpleTypeObjectLike>, b as Side<SimpleTypeObjectLike>, options);
+	}
+
+	if (a.type.kind === b.type.kind) {
+		switch (a.type.kind) {
+			case "ARRAY":
+			case "SET":
+			case "MAP":
+			case "PROMISE":
+				return diffChildren(a, b, options);
+
+			case "TUPLE": {
+				const membersB = (b.type as typeof a.type).members;
+				if (a.type.members.length === membersB.length && a.type.members.every((member, i) => member.optional === membersB[i].optional)) {
+					return diffChildren(a, b, options);
+				}
+				break;
+			}
+		}
+	}
+
+	if (isEquivalent(a.type, b.type)) {
+		return [];
+	}
+
+	return [change("RETYPED", a, b, `Type changed from '${simpleTypeToString(a.type)}' to '${simpleTypeToString(b.type)}'.`)];
+}
+
+function diffVariants(a: Side, b: Side, options: DiffSimpleTypesInternalOptions): SimpleTypeChange[] {
+	const variantsA = variants(a);
+	const variantsB = variants(b);
+
+	if (variantsA.length === 1 && variantsB.length === 1) {
+		return diffStructure(variantsA[0], variantsB[0], options);
+	}
+
+	const changes: SimpleTypeChange[] = [];
+	const unmatchedB = new Set(variantsB);
+
+	for (const variantA of variantsA) {
+		const variantB = findMatchingVariant(variantA.type, [...unmatchedB]);
+		if (variantB) {
+			unmatchedB.delete(variantB);
+			changes.push(...diffSimpleTypesInternal(variantA, variantB, options));
+			continue;
+		}
+
+		changes.push({
+			kind: "VARIANT_REMOVED",
+			message: `Variant '${simpleTypeToString(variantA.type)}' was removed.`,
+			pathOld: variantA.path,
+			pathNew: b.path,
+			typeOld: variantA.type,
+			typeNew: undefined,
+			breaksReaders: false,
+			breaksWriters: !isAssignableToSimpleType(b.type, variantA.type)
+		});
+	}
+
+	for (const variantB of unmatchedB) {
+		changes.push({
+			kind: "VARIANT_ADDED",
+			message: `Variant '${simpleTypeToString(variantB.type)}' was added.`,
+			pathOld: a.path,
+			pathNew: variantB.path,
+			typeOld: undefined,
+			typeNew: variantB.type,
+			breaksReaders: !isAssignableToSimpleType(a.type, variantB.type),
+			breaksWriters: false
+		});
+	}
+
+	return changes;
+}
+
+function diffMembers(a: Side<SimpleTypeObjectLike>, b: Side<SimpleTypeObjectLike>, options: DiffSimpleTypesInternalOptions): SimpleTypeChange[] {
+	const changes: SimpleTypeChange[] = [];
+	const membersA = children(a, Visitor.OBJECT.mapNamedMembers);
+	const membersB = children(b, Visitor.OBJECT.mapNamedMembers);
+
+	for (const memberA of membersA) {
+		const stepA = SimpleTypePath.lastMustBe(memberA.path, "NAMED_MEMBER");
+		const memberB = membersB.find(memberB => SimpleTypePath.lastMustBe(memberB.path, "NAMED_MEMBER").member.name === stepA.member.name);
+		const name = stepA.member.name;
+
+		if (!memberB) {
+			changes.push({
+				kind: "MEMBER_REMOVED",
+				message: `Member '${name}' was removed.`,
+				pathOld: memberA.path,
+				pathNew: b.path,
+				typeOld: memberA.type,
+				typeNew: undefined,
+				breaksReaders: !stepA.member.optional,
+				breaksWriters: false
+			});
+			continue;
+		}
+
+		const stepB = SimpleTypePath.lastMustBe(memberB.path, "NAMED_MEMBER");
+		const optionalA = Boolean(stepA.member.optional);
+		const optionalB = Boolean(stepB.member.optional);
+		if (optionalA !== optionalB) {
+			changes.push({
+				...change(optionalB ? "MEMBER_MADE_OPTIONAL" : "MEMBER_MADE_REQUIRED", memberA, memberB, `Member '${name}' was made ${optionalB ? "optional" : "required"}.`),
+				breaksReaders: optionalB,
+				breaksWriters: optionalA
+			});
+		}
+
+		changes.push(...diffSimpleTypesInternal({ ...memberA, optional: optionalA }, { ...memberB, optional: optionalB }, options));
+	}
+
+	for (const memberB of membersB) {
+		const stepB = SimpleTypePath.lastMustBe(memberB.path, "NAMED_MEMBER");
+		if (!membersA.some(memberA => SimpleTypePath.lastMustBe(memberA.path, "NAMED_MEMBER").member.name === stepB.member.name)) {
+			changes.push({
+				kind: "MEMBER_ADDED",
+				message: `${stepB.member.optional ? "Optional" : "Required"} member '${stepB.member.name}' was added.`,
+				pathOld: a.path,
+				pathNew: memberB.path,
+				typeOld: undefined,
+				typeNew: memberB.type,
+				breaksReaders: false,
+				breaksWriters: !stepB.member.optional
+			});
+		}
+	}
+
+	for (const indexVisitor of [Visitor.OBJECT.stringIndex, Visitor.OBJECT.numberIndex]) {
+		const [indexA] = children(a, args => array(indexVisitor(args)));
+		const [indexB] = children(b, args => array(indexVisitor(args)));
+
+		if (indexA && indexB) {
+			changes.push(...diffSimpleTypesInternal(indexA, indexB, options));
+		} else if (indexA) {
+			changes.push({
+				kind: "MEMBER_REMOVED",
+				message: `Index signature '${indexSignatureToString(indexA)}' was removed.`,
+				pathOld: indexA.path,
+				pathNew: b.path,
+				typeOld: indexA.type,
+				typeNew: undefined,
+				breaksReaders: true,
+				breaksWriters: false
+			});
+		} else if (indexB) {
+			changes.push({
+				kind: "MEMBER_ADDED",
+				message: `Index signature '${indexSignatureToString(indexB)}' was added.`,
+				pathOld: a.path,
+				pathNew: indexB.path,
+				typeOld: undefined,
+				typeNew: indexB.type,
+				breaksReaders: false,
+				breaksWriters: true
+			});
+		}
+	}
+
+	return changes;
+}
+
+function diffChildren(a: Side, b: Side, options: DiffSimpleTypesInternalOptions): SimpleTypeChange[] {
+	const childrenA = children(a, Visitor.mapJsonStep);
+	const childrenB = children(b, Visitor.mapJsonStep);
+	return childrenA.flatMap((childA, i) => diffSimpleTypesInternal(childA, childrenB[i], options));
+}
+
+/** Collect the sides reached by `mapSteps` from `side`. */
+function children<ST extends SimpleType>(side: Side<ST>, mapSteps: (args: VisitorArgs<Side, ST, SimpleTypePathStep>) => Side[]): Side[] {
+	return walkRecursive<Side[]>(side.path, side.type, ({ type, path, visit }) => mapSteps({ type: type as ST, path, visit: visit.with(toSide) }));
+}
+
+const toSide: Visitor<Side> = ({ type, path }) => ({ type, path });
+
+const array = <T>(value: T | undefined): T[] => (value === undefined ? [] : [value]);
+
+/** Follow aliases and instantiated generics to the type they stand for. */
+function unwrap(side: Side): Side {
+	const unwrapped = walkRecursive<Side>(side.path, side.type, ({ type, path, visit }) => {
+		switch (type.kind) {
+			case "ALIAS":
+				return Visitor.ALIAS.aliased({ type, path, visit });
+			case "GENERIC_ARGUMENTS":
+				return Visitor.GENERIC_ARGUMENTS.aliased({ type, path, visit });
+		}
+		return { type, path };
+	});
+	return { ...unwrapped, optional: side.optional };
+}
+
+/** Flatten a union or enum into its variants, leaving out the `undefined` implied by an optional member. */
+function variants(side: Side): Side[] {
+	const all = isVariantType(side.type)
+		? children(side as Side<SimpleTypeUnion | SimpleTypeEnum>, Visitor.UNION.mapVariants).flatMap(variant => variants(unwrap(variant)))
+		: [{ type: side.type, path: side.path }];
+	return side.optional ? all.filter(variant => variant.type.kind !== "UNDEFINED") : all;
+}
+
+function findMatchingVariant(type: SimpleType, candidates: Side[]): Side | undefined {
+	const key = variantKey(type);
+	if (key !== undefined) {
+		const match = candidates.find(candidate => variantKey(candidate.type) === key);
+		if (match) {
+			return match;
+		}
+	}
+
+	return candidates.find(candidate => isEquivalent(type, candidate.type));
+}
+
+/**
+ * An identity for a variant that is stable across versions of a type: the literal value, the name or the discriminant value.
+ * Returns undefined for anonymous types that can only be matched structurally.
+ */
+function variantKey(type: SimpleType): string | undefined {
+	switch (type.kind) {
+		case "STRING_LITERAL":
+		case "NUMBER_LITERAL":
+		case "BOOLEAN_LITERAL":
+		case "BIG_INT_LITERAL":
+			return `${type.kind}:${String(type.value)}`;
+		case "ENUM_MEMBER":
+			return `ENUM_MEMBER:${type.fullName}`;
+		case "STRING":
+		case "NUMBER":
+		case "BOOLEAN":
+		case "BIG_INT":
+		case "NULL":
+		case "UNDEFINED":
+		case "VOID":
+		case "ANY":
+		case "UNKNOWN":
+		case "NEVER":
+		case "DATE":
+			return type.kind;
+	}
+
+	if (type.name) {
+		return `${type.kind}:${type.name}`;
+	}
+
+	if (isObjectLike(type)) {
+		const discriminant = type.members?.find(member => isLiteral(member.type));
+		if (discriminant && isLiteral(discriminant.type)) {
+			return `${discriminant.name}=${String(discriminant.type.value)}`;
+		}
+	}
+
+	return undefined;
+}
+
+function isEquivalent(typeA: SimpleType, typeB: SimpleType): boolean {
+	return isAssignableToSimpleType(typeA, typeB) && isAssignableToSimpleType(typeB, typeA);
+}
+
+function isVariantType(type: SimpleType): boolean {
+	return type.kind === "UNION" || type.kind === "ENUM";
+}
+
+function isObjectLike(type: SimpleType): type is SimpleTypeObjectLike {
+	return type.kind === "OBJECT" || type.kind === "INTERFACE" || type.kind === "CLASS";
+}
+
+function isLiteral(type: SimpleType): type is Extract<SimpleType, { kind: "STRING_LITERAL" | "NUMBER_LITERAL" | "BOOLEAN_LITERAL" }> {
+	return type.kind === "STRING_LITERAL" || type.kind === "NUMBER_LITERAL" || type.kind === "BOOLEAN_LITERAL";
+}
+
+function indexSignatureToString(side: Side): string {
+	const key = SimpleTypePath.last(side.path)?.step === "STRING_INDEX" ? "string" : "number";
+	return `[key: ${key}]: ${simpleTypeToString(side.type)}`;
+}
+
+function change(kind: SimpleTypeChangeKind, a: Side, b: Side, message: string): SimpleTypeChange {
+	return {
+		kind,
+		message,
+		pathOld: a.path,
+		pathNew: b.path,
+		typeOld: a.type,
+		typeNew: b.type,
+		breaksReaders: !isAssignableToSimpleType(a.type, b.type),
+		breaksWriters: !isAssignableToSimpleType(b.type, a.type)
+	};
+}
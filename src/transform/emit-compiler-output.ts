@@ -0,0 +1,180 @@
+import { createHash } from "crypto";
+import * as fs from "fs";
+import * as path from "path";
+import { SimpleTypeCompilerOutput, SimpleTypeCompilerOutputFile } from "./compiler";
+
+export const DEFAULT_MANIFEST_FILE_NAME = ".ts-simple-type-manifest.json";
+
+export interface EmitCompilerOutputOptions {
+	/** Directory that output file names are relative to. */
+	outDir: string;
+	/** Write a `.map` file next to each output file. Defaults to true. */
+	sourceMaps?: boolean;
+	/** Manifest file name, relative to `outDir`. Defaults to {@link DEFAULT_MANIFEST_FILE_NAME}. */
+	manifestFileName?: string;
+	/** Compare the output to the files on disk instead of writing it. */
+	check?: boolean;
+}
+
+/**
+ * Records the files generated into an output directory, so the next emit can
+ * delete files that are no longer generated.
+ */
+export interface CompilerOutputManifest {
+	/** Generated file names relative to the output directory, mapped to the sha256 of their content. */
+	files: Record<string, string>;
+}
+
+export type CompilerOutputDifferenceKind =
+	/** The file is generated, but doesn't exist on disk. */
+	| "MISSING"
+	/** The file on disk has different content than the generated file. */
+	| "CHANGED"
+	/** The file was generated before, but isn't generated anymore. */
+	| "STALE";
+
+export interface CompilerOutputDifference {
+	kind: CompilerOutputDifferenceKind;
+	/** Relative to the output directory. */
+	fileName: string;
+}
+
+export interface EmitCompilerOutputResult {
+	manifest: CompilerOutputManifest;
+	/** Files written because they were missing or changed. Empty in check mode. */
+	written: string[];
+	/** Files deleted because they're no longer generated. Empty in check mode. */
+	deleted: string[];
+	/** Differences between the output and the files on disk before emitting. In check mode, the output is up to date if this is empty. */
+	differences: CompilerOutputDifference[];
+}
+
+/**
+ * Write the files of a {@link SimpleTypeCompilerOutput} and their source maps under `options.outDir`,
+ * along with a manifest of the generated files.
+ * Files listed in the previous manifest that aren't generated anymore are deleted.
+ * Files that are already up to date aren't rewritten.
+ */
+export function emitCompilerOutput(output: Pick<SimpleTypeCompilerOutput, "files">, options: EmitCompilerOutputOptions): EmitCompilerOutputResult {
+	const manifestFileName = options.manifestFileName ?? DEFAULT_MANIFEST_FILE_NAME;
+	const contents = new Map<string, string>();
+	for (const file of output.files.values()) {
+		contents.set(normalizeFileName(file.fileName), file.text);
+		if (options.sourceMaps ?? true) {
+			contents.set(normalizeFileName(`${file.fileName}.map`), sourceMapText(file, options.outDir));
+		}
+	}
+
+	const manifest: CompilerOutputManifest = { files: {} };
+	for (const fileName of [...contents.keys()].sort()) {
+		manifest.files[fileName] = hash(contents.get(fileName)!);
+	}
+	contents.set(normalizeFileName(manifestFileName), `${JSON.stringify(manifest, undefined, "\t")}\n`);
+
+	const previousManifest = readManifest(resolveInOutDir(options.outDir, manifestFileName));
+	const staleFileNames = Object.keys(previousManifest?.files ?? {}).filter(fileName => !contents.has(fileName) && fs.existsSync(resolveInOutDir(options.outDir, fileName)));
+
+	const differences: CompilerOutputDifference[] = [];
+	for (const [fileName, text] of contents) {
+		const onDisk = readFileIfExists(resolveInOutDir(options.outDir, fileName));
+		if (onDisk === undefined) {
+			differences.push({ kind: "MISSING", fileName });
+		} else if (onDisk !== text) {
+			differences.push({ kind: "CHANGED", fileName });
+		}
+	}
+	differences.push(...staleFileNames.map(fileName => ({ kind: "STALE" as const, fileName })));
+
+	if (options.check) {
+		return { manifest, written: [], deleted: [], differences };
+	}
+
+	const written: string[] = [];
+	for (const { kind, fileName } of differences) {
+		if (kind === "STALE") {
+			continue;
+		}
+		const filePath = resolveInOutDir(options.outDir, fileName);
+		fs.mkdirSync(path.dirname(filePath), { recursive: true });
+		fs.writeFileSync(filePath, contents.get(fileName)!);
+		written.push(fileName);
+	}
+
+	for (const fileName of staleFileNames) {
+		const filePath = resolveInOutDir(options.outDir, fileName);
+		fs.unlinkSync(filePath);
+		removeEmptyDirectories(path.dirname(filePath), path.resolve(options.outDir));
+	}
+
+	return { manifest, written, deleted: staleFileNames, differences };
+}
+
+/**
+ * Format a difference for humans, like `src/user.py: changed`.
+ */
+export function compilerOutputDifferenceToString(difference: CompilerOutputDifference): string {
+	const descriptions: Record<CompilerOutputDifferenceKind, string> = {
+		MISSING: "missing",
+		CHANGED: "changed",
+		STALE: "no longer generated"
+	};
+	return `${difference.fileName}: ${descriptions[difference.kind]}`;
+}
+
+/** Source maps refer to sources relative to the map, so generated output is the same on every machine. */
+function sourceMapText(file: SimpleTypeCompilerOutputFile, outDir: string): string {
+	const map = file.sourceMap.toJSON();
+	const mapDirectory = path.dirname(resolveInOutDir(outDir, file.fileName));
+	map.file = path.basename(file.fileName);
+	map.sources = map.sources.map(source => (path.isAbsolute(source) ? path.relative(mapDirectory, source).split(path.sep).join("/") : source));
+	return JSON.stringify(map);
+}
+
+function readManifest(filePath: string): CompilerOutputManifest | undefined {
+	const text = readFileIfExists(filePath);
+	if (text === undefined) {
+		return undefined;
+	}
+
+	const manifest = JSON.parse(text) as CompilerOutputManifest;
+	if (typeof manifest !== "object" || manifest === null || typeof manifest.files !== "object") {
+		throw new Error(`Invalid compiler output manifest: ${filePath}`);
+	}
+	return manifest;
+}
+
+function readFileIfExists(filePath: string): string | undefined {
+	try {
+		return fs.readFileSync(filePath, "utf8");
+	} catch (error) {
+		if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+			return undefined;
+		}
+		throw error;
+	}
+}
+
+function removeEmptyDirectories(directory: string, outDir: string) {
+	while (directory.startsWith(outDir + path.sep) && fs.readdirSync(directory).length === 0) {
+		fs.rmdirSync(directory);
+		directory = path.dirname(directory);
+	}
+}
+
+/** Manifests use `/` separators on every platform, so they can be checked in. */
+function normalizeFileName(fileName: string): string {
+	return path.posix.normalize(fileName.split(path.sep).join("/"));
+}
+
+function resolveInOutDir(outDir: string, fileName: string): string {
+	const root = path.resolve(outDir);
+	const filePath = path.resolve(root, fileName);
+	if (!filePath.startsWith(root + path.sep)) {
+		throw new Error(`Output file ${fileName} is outside of the output directory ${outDir}`);
+	}
+	return filePath;
+}
+
+function hash(text: string): string {
+	return createHash("sha256").update(text).digest("hex");
+}
@@ -0,0 +1,356 @@
+import { SimpleType, SimpleTypeLiteral, SimpleTypeMemberIndexed, SimpleTypeMemberNamed, SimpleTypeObject } from "../simple-type";
+import { Writable } from "./to-simple-type";
+
+/**
+ * The subset of JSON Schema understood by {@link fromJsonSchema}.
+ * Validation keywords like `minLength` or `pattern` have no SimpleType equivalent and are ignored.
+ */
+export interface JsonSchema {
+	$id?: string;
+	$ref?: string;
+	$anchor?: string;
+	$defs?: Record<string, JsonSchemaDefinition>;
+	definitions?: Record<string, JsonSchemaDefinition>;
+	title?: string;
+	type?: JsonSchemaTypeName | JsonSchemaTypeName[];
+	const?: unknown;
+	enum?: unknown[];
+	properties?: Record<string, JsonSchemaDefinition>;
+	required?: string[];
+	additionalProperties?: JsonSchemaDefinition;
+	items?: JsonSchemaDefinition | JsonSchemaDefinition[];
+	prefixItems?: JsonSchemaDefinition[];
+	additionalItems?: JsonSchemaDefinition;
+	minItems?: number;
+	anyOf?: JsonSchemaDefinition[];
+	oneOf?: JsonSchemaDefinition[];
+	allOf?: JsonSchemaDefinition[];
+	/** OpenAPI 3.0 spelling of `type: [T, "null"]` */
+	nullable?: boolean;
+	[keyword: string]: unknown;
+}
+
+export type JsonSchemaTypeName = "string" | "number" | "integer" | "boolean" | "null" | "array" | "object";
+
+/**
+ * Boolean schemas are allowed anywhere a schema is: `true` accepts any value, and `false` accepts nothing.
+ */
+export type JsonSchemaDefinition = JsonSchema | boolean;
+
+export interface FromJsonSchemaOptions {
+	/**
+	 * Resolve a `$ref` to a schema outside of the document, like `common.json#/$defs/Id`.
+	 * Return undefined if the reference is unknown.
+	 */
+	resolveRef?: (ref: string) => JsonSchemaDefinition | undefined;
+}
+
+/** Keywords that produce part of a type. Everything else is an annotation or validation keyword. */
+const TYPE_KEYWORDS = ["type", "const", "enum", "properties", "additionalProperties", "items", "prefixItems", "$ref", "anyOf", "oneOf", "allOf", "nullable"];
+
+/** Keywords whose values are JSON data rather than schemas. */
+const VALUE_KEYWORDS = new Set(["const", "enum", "default", "examples"]);
+
+/**
+ * Convert a JSON Schema document to a SimpleType.
+ * Every `$ref` to the same schema converts to the same SimpleType object, so recursive schemas become recursive types.
+ * Schemas under `$defs` or `definitions` are named by their key, unless they have a `title`.
+ * @param schema
+ * @param options
+ */
+export function fromJsonSchema(schema: JsonSchemaDefinition, options: FromJsonSchemaOptions = {}): SimpleType {
+	return new JsonSchemaConverter(schema, options).convert(schema);
+}
+
+class JsonSchemaConverter {
+	private converted = new WeakMap<JsonSchema, SimpleType>();
+	private definitionNames = new WeakMap<JsonSchema, string>();
+	private identifiedSchemas = new Map<string, JsonSchemaDefinition>();
+
+	constructor(private root: JsonSchemaDefinition, private options: FromJsonSchemaOptions) {
+		this.indexSchema(root);
+	}
+
+	convert(schema: JsonSchemaDefinition): SimpleType {
+		schema = this.followReferences(schema);
+		if (typeof schema === "boolean") {
+			return schema ? { kind: "UNKNOWN" } : { kind: "NEVER" };
+		}
+
+		const existing = this.converted.get(schema);
+		if (existing) {
+			return existing;
+		}
+
+		// Register an empty object before converting, so references back to this schema share its identity.
+		// The object is filled out afterwards.
+		const placeholder = {} as Writable<SimpleType>;
+		this.converted.set(schema, placeholder);
+		Object.assign(placeholder, this.convertUncached(schema));
+		return placeholder;
+	}
+
+	/**
+	 * Skip over schemas that only point to another schema, like `{ "$ref": "#/$defs/User" }`,
+	 * so that all references to a schema share the same SimpleType.
+	 */
+	private followReferences(schema: JsonSchemaDefinition): JsonSchemaDefinition {
+		const seen = new Set<JsonSchema>();
+		while (typeof schema !== "boolean") {
+			const current = schema;
+			const keywords = TYPE_KEYWORDS.filter(keyword => current[keyword] !== undefined);
+			let target: JsonSchemaDefinition | undefined;
+			if (keywords.length !== 1) {
+				return current;
+			} else if (current.$ref !== undefined) {
+				target = this.resolveRef(current.$ref);
+			} else if (current.anyOf?.length === 1) {
+				target = current.anyOf[0];
+			} else if (current.oneOf?.length === 1) {
+				target = current.oneOf[0];
+			} else if (current.allOf?.length === 1) {
+				target = current.allOf[0];
+			} else {
+				return current;
+			}
+
+			if (seen.has(schema)) {
+				throw new Error(`Schema only refers to itself: ${JSON.stringify(schema)}`);
+			}
+			seen.add(schema);
+			schema = target;
+		}
+		return schema;
+	}
+
+	private convertUncached(schema: JsonSchema): SimpleType {
+		const parts: SimpleType[] = [];
+
+		if (schema.const !== undefined) {
+			parts.push(this.convertValue(schema.const));
+		}
+
+		if (schema.enum !== undefined) {
+			const values = schema.enum.map(value => this.convertValue(value));
+			parts.push(values.length === 1 ? values[0] : { kind: "UNION", types: values });
+		}
+
+		// The type of a const or enum is implied by its values.
+		const typeNames = schema.const === undefined && schema.enum === undefined ? this.getTypeNames(schema) : [];
+		if (typeNames.length) {
+			const types = typeNames.map(typeName => this.convertTypeName(typeName, schema));
+			parts.push(types.length === 1 ? types[0] : { kind: "UNION", types });
+		}
+
+		if (schema.$ref !== undefined) {
+			parts.push(this.convert(this.resolveRef(schema.$ref)));
+		}
+
+		for (const variants of [schema.anyOf, schema.oneOf]) {
+			if (variants) {
+				parts.push({ kind: "UNION", types: variants.map(variant => this.convert(variant)) });
+			}
+		}
+
+		if (schema.allOf) {
+			parts.push(...schema.allOf.map(part => this.convert(part)));
+		}
+
+		let type: SimpleType = parts.length === 0 ? { kind: "UNKNOWN" } : parts.length === 1 ? parts[0] : this.intersect(parts);
+		if (schema.nullable) {
+			type = { kind: "UNION", types: [type, { kind: "NULL" }] };
+		}
+
+		const name = schema.title ?? this.definitionNames.get(schema);
+		if (name === undefined) {
+			return type;
+		}
+		switch (type.kind) {
+			case "OBJECT":
+			case "UNION":
+			case "INTERSECTION":
+				return { ...type, name };
+			default:
+				return { kind: "ALIAS", name, target: type };
+		}
+	}
+
+	private getTypeNames(schema: JsonSchema): JsonSchemaTypeName[] {
+		if (Array.isArray(schema.type)) {
+			return schema.type;
+		}
+		if (schema.type) {
+			return [schema.type];
+		}
+		// Infer the type from keywords that only apply to one type.
+		if (schema.properties || schema.additionalProperties !== undefined) {
+			return ["object"];
+		}
+		if (schema.items || schema.prefixItems) {
+			return ["array"];
+		}
+		return [];
+	}
+
+	private convertTypeName(typeName: JsonSchemaTypeName, schema: JsonSchema): SimpleType {
+		switch (typeName) {
+			case "string":
+				return { kind: "STRING" };
+			case "number":
+			case "integer":
+				return { kind: "NUMBER" };
+			case "boolean":
+				return { kind: "BOOLEAN" };
+			case "null":
+				return { kind: "NULL" };
+			case "array":
+				return this.convertArray(schema);
+			case "object":
+				return this.convertObject(schema);
+			default:
+				throw new Error(`Unknown JSON Schema type: ${JSON.stringify(typeName)}`);
+		}
+	}
+
+	private convertArray(schema: JsonSchema): SimpleType {
+		// Draft 2020-12 uses prefixItems for tuples, and earlier drafts use an items array.
+		const prefixItems = schema.prefixItems ?? (Array.isArray(schema.items) ? schema.items : undefined);
+		const items = Array.isArray(schema.items) ? schema.additionalItems : schema.items;
+
+		if (!prefixItems) {
+			return { kind: "ARRAY", type: items === undefined ? { kind: "UNKNOWN" } : this.convert(items) };
+		}
+
+		const minItems = schema.minItems ?? 0;
+		const members: SimpleTypeMemberIndexed[] = prefixItems.map((item, index) => ({ index, type: this.convert(item), optional: index >= minItems }));
+		const rest = items !== undefined && items !== false;
+		if (rest) {
+			members.push({ index: members.length, type: this.convert(items), optional: true });
+		}
+		return { kind: "TUPLE", members, rest };
+	}
+
+	private convertObject(schema: JsonSchema): SimpleTypeObject {
+		const required = new Set(schema.required ?? []);
+		const members: SimpleTypeMemberNamed[] = Object.entries(schema.properties ?? {}).map(([name, property]) => {
+			const type = this.convert(property);
+			if (required.has(name)) {
+				return { name, type };
+			}
+			// Match toSimpleType under strictNullChecks, where optional members include undefined.
+			return { name, type: { kind: "UNION", types: [type, { kind: "UNDEFINED" }] }, optional: true };
+		});
+
+		const { additionalProperties } = schema;
+		if (additionalProperties === undefined || additionalProperties === false || (additionalProperties === true && members.length)) {
+			return { kind: "OBJECT", members };
+		}
+		return { kind: "OBJECT", members, indexType: { STRING: this.convert(additionalProperties) } };
+	}
+
+	private convertValue(value: unknown): SimpleType {
+		switch (typeof value) {
+			case "string":
+				return { kind: "STRING_LITERAL", value } as SimpleTypeLiteral;
+			case "number":
+				return { kind: "NUMBER_LITERAL", value } as SimpleTypeLiteral;
+			case "boolean":
+				return { kind: "BOOLEAN_LITERAL", value } as SimpleTypeLiteral;
+		}
+		if (value === null) {
+			return { kind: "NULL" };
+		}
+		throw new Error(`Only primitive values are supported in const and enum: ${JSON.stringify(value)}`);
+	}
+
+	/**
+	 * All-object intersections are merged into a single object, which targets that don't support intersections can use.
+	 */
+	private intersect(types: SimpleType[]): SimpleType {
+		if (!types.every(type => type.kind === "OBJECT")) {
+			return { kind: "INTERSECTION", types };
+		}
+
+		const members = new Map<string, SimpleTypeMemberNamed>();
+		for (const type of types as SimpleTypeObject[]) {
+			for (const member of type.members ?? []) {
+				const existing = members.get(member.name);
+				members.set(member.name, existing ? { ...member, optional: existing.optional && member.optional } : member);
+			}
+		}
+		return { kind: "INTERSECTION", types, intersected: { kind: "OBJECT", members: Array.from(members.values()) } };
+	}
+
+	private resolveRef(ref: string): JsonSchemaDefinition {
+		const [base, fragment = ""] = ref.split("#", 2);
+		const document = base ? this.identifiedSchemas.get(base) ?? this.options.resolveRef?.(ref) : this.root;
+		if (document === undefined) {
+			throw new Error(`Unresolved $ref: ${ref}`);
+		}
+		if (base && !this.identifiedSchemas.has(base)) {
+			// Resolved by the caller, including the fragment.
+			return document;
+		}
+
+		if (fragment === "") {
+			return document;
+		}
+		if (!fragment.startsWith("/")) {
+			const anchored = this.identifiedSchemas.get(`${base}#${fragment}`);
+			if (anchored === undefined) {
+				throw new Error(`Unresolved $ref anchor: ${ref}`);
+			}
+			return anchored;
+		}
+
+		let schema: unknown = document;
+		for (const segment of fragment.slice(1).split("/")) {
+			const key = decodeURIComponent(segment).replace(/~1/g, "/").replace(/~0/g, "~");
+			schema = schema !== null && typeof schema === "object" ? (schema as Record<string, unknown>)[key] : undefined;
+			if (schema === undefined) {
+				throw new Error(`Unresolved $ref: ${ref}`);
+			}
+		}
+		return schema as JsonSchemaDefinition;
+	}
+
+	/**
+	 * Find the names of definitions, and the schemas that can be referenced by `$id` or `$anchor`.
+	 * Anchors belong to the closest enclosing `$id`; the root document's anchors can also be referenced by a bare fragment.
+	 */
+	private indexSchema(schema: unknown, bases: string[] = [""]) {
+		if (Array.isArray(schema)) {
+			schema.forEach(item => this.indexSchema(item, bases));
+			return;
+		}
+		if (schema === null || typeof schema !== "object") {
+			return;
+		}
+
+		const { $id, $anchor, $defs, definitions } = schema as JsonSchema;
+		if (typeof $id === "string") {
+			this.identifiedSchemas.set($id, schema as JsonSchema);
+			const base = $id.split("#", 1)[0];
+			bases = schema === this.root ? [...bases, base] : [base];
+		}
+		if (typeof $anchor === "string") {
+			for (const base of bases) {
+				this.identifiedSchemas.set(`${base}#${$anchor}`, schema as JsonSchema);
+			}
+		}
+		for (const defs of [$defs, definitions]) {
+			for (const [name, definition] of Object.entries(defs ?? {})) {
+				if (typeof definition === "object" && !this.definitionNames.has(definition)) {
+					this.definitionNames.set(definition, name);
+				}
+			}
+		}
+
+		for (const [keyword, value] of Object.entries(schema)) {
+			// Values are data, not schemas.
+			if (!VALUE_KEYWORDS.has(keyword)) {
+				this.indexSchema(value, bases);
+			}
+		}
+	}
+}
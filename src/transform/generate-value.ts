@@ -0,0 +1,345 @@
+import { URL } from "url";
+import { isAssignableToValue } from "../is-assignable/is-assignable-to-value";
+import { SimpleType, SimpleTypeClass, SimpleTypeInterface, SimpleTypeMemberNamed, SimpleTypeObject, SimpleTypeUnion } from "../simple-type";
+import { SimpleTypePath, SimpleTypePathStep } from "../simple-type-path";
+import { applyStringMapping } from "../utils/simple-type-util";
+import { Visitor, VisitorArgs, walkRecursive } from "../visitor";
+import { getDocumentationCommentOfSimpleType, getJsDocTagOfSimpleType } from "./compiler";
+
+export interface GenerateValueOptions {
+	/** Values generated with the same seed are the same. Defaults to 1. */
+	seed?: number;
+	/**
+	 * How many arrays, objects, tuples, maps and sets deep to generate before
+	 * omitting optional members, emptying collections and preferring union
+	 * variants that end the recursion. Defaults to 4.
+	 */
+	maxDepth?: number;
+}
+
+interface GenerateValueInternalOptions {
+	random: () => number;
+	maxDepth: number;
+}
+
+type SimpleTypeObjectLike = SimpleTypeObject | SimpleTypeInterface | SimpleTypeClass;
+
+/** Steps that nest a value inside another value. */
+const NESTING_STEPS = new Set<SimpleTypePathStep["step"]>(["NAMED_MEMBER", "INDEXED_MEMBER", "NUMBER_INDEX", "STRING_INDEX", "KEY", "VALUE", "AWAITED"]);
+
+const MAX_DEPTH_OVERRUN = 8;
+
+const WORDS = ["alpha", "bravo", "charlie", "delta", "echo", "foxtrot", "golf", "hotel", "india", "juliet", "kilo", "lima"];
+
+/**
+ * Generate an example value for `type`, using JSDoc `@example` and `@format` tags where available.
+ * Values are deterministic for a given `options.seed`.
+ * @throws if `type` can't have a value, like `never`, or can't be generated, like functions and unresolved type parameters.
+ */
+export function generateValue(type: SimpleType, options: GenerateValueOptions = {}): unknown {
+	const internalOptions: GenerateValueInternalOptions = {
+		random: createRandom(options.seed ?? 1),
+		maxDepth: options.maxDepth ?? 4
+	};
+	return walkRecursive<unknown>([], type, args => generateValueInternal(args, internalOptions));
+}
+
+function generateValueInternal(args: VisitorArgs<unknown>, options: GenerateValueInternalOptions): unknown {
+	const { type, path, visit } = args;
+	const depth = getDepth(path);
+	// Past maxDepth only required members are followed, so a cycle that gets this far never ends.
+	if (depth > options.maxDepth + MAX_DEPTH_OVERRUN && SimpleTypePath.includes(path, type)) {
+		throw new Error(`Cannot generate a value within maxDepth ${options.maxDepth}: ${type.name ?? type.kind} requires a value of itself`);
+	}
+
+	const example = getExample(type, path);
+	if (example.found) {
+		return example.value;
+	}
+
+	switch (type.kind) {
+		case "STRING_LITERAL":
+		case "NUMBER_LITERAL":
+		case "BOOLEAN_LITERAL":
+		case "BIG_INT_LITERAL":
+			return type.value;
+		case "STRING":
+			return generateString(type, path, options);
+		case "NUMBER":
+			return integer(options, 0, 100);
+		case "BOOLEAN":
+			return options.random() < 0.5;
+		case "BIG_INT":
+			return BigInt(integer(options, 0, 100));
+		case "ES_SYMBOL":
+			return Symbol(pick(options, WORDS));
+		case "NULL":
+			return null;
+		case "UNDEFINED":
+		case "VOID":
+			return undefined;
+		case "ANY":
+		case "UNKNOWN":
+			return null;
+		case "NON_PRIMITIVE":
+			return {};
+		case "ENUM": {
+			const index = integer(options, 0, type.types.length - 1);
+			return visit({ from: type, index, step: "VARIANT" }, type.types[index]);
+		}
+		case "ENUM_MEMBER":
+			return Visitor.ENUM_MEMBER.aliased({ type, path, visit });
+		case "ALIAS":
+			return Visitor.ALIAS.aliased({ type, path, visit });
+		case "GENERIC_ARGUMENTS":
+			return Visitor.GENERIC_ARGUMENTS.aliased({ type, path, visit });
+		case "GENERIC_PARAMETER":
+			if (type.default) {
+				return Visitor.GENERIC_PARAMETER.typeParameterDefault({ type, path, visit });
+			} else if (type.constraint) {
+				return Visitor.GENERIC_PARAMETER.typeParameterConstraint({ type, path, visit });
+			}
+			throw new Error(`Cannot generate a value for type parameter ${type.name} without a constraint or default`);
+		case "UNION":
+			return generateUnion(type, args, options);
+		case "INTERSECTION": {
+			const values = Visitor.INTERSECTION.mapVariants({ type, path, visit });
+			const primitive = values.find(value => !isPlainObject(value));
+			return primitive !== undefined ? primitive : Object.assign({}, ...values);
+		}
+		case "OBJECT":
+		case "INTERFACE":
+		case "CLASS":
+			return generateObject(type, args, options);
+		case "TUPLE": {
+			const values: unknown[] = [];
+			type.members.forEach((member, i) => {
+				const isRest = type.rest && i === type.members.length - 1;
+				if (isRest) {
+					const count = depth >= options.maxDepth ? 0 : integer(options, 0, 2);
+					for (let j = 0; j < count; j++) {
+						values.push(visit({ from: type, index: i, step: "INDEXED_MEMBER", member }, member.type));
+					}
+				} else if (!member.optional || depth < options.maxDepth) {
+					values.push(visit({ from: type, index: i, step: "INDEXED_MEMBER", member }, member.type));
+				}
+			});
+			return values;
+		}
+		case "ARRAY": {
+			const count = depth >= options.maxDepth ? 0 : integer(options, 1, 3);
+			return Array.from({ length: count }, () => Visitor.ARRAY.numberIndex({ type, path, visit }));
+		}
+		case "MAP": {
+			const map = new Map<unknown, unknown>();
+			if (depth < options.maxDepth) {
+				map.set(Visitor.MAP.key({ type, path, visit }), Visitor.MAP.value({ type, path, visit }));
+			}
+			return map;
+		}
+		case "SET":
+			return new Set(depth < options.maxDepth ? [Visitor.SET.value({ type, path, visit })] : []);
+		case "PROMISE":
+			return Promise.resolve(Visitor.PROMISE.awaited({ type, path, visit }));
+		case "DATE":
+			return new Date(generateTimestamp(options));
+		case "REGEXP":
+			return new RegExp(pick(options, WORDS));
+		case "ERROR":
+			return new Error(pick(options, WORDS));
+		case "URL":
+			return new URL(`https://example.com/${pick(options, WORDS)}`);
+		case "BINARY": {
+			const BinaryConstructor = type.name && type.name in BINARY_CONSTRUCTORS ? BINARY_CONSTRUCTORS[type.name as keyof typeof BINARY_CONSTRUCTORS] : Uint8Array;
+			return new BinaryConstructor(integer(options, 0, 4));
+		}
+		case "TEMPLATE_LITERAL": {
+			const spans = Visitor.TEMPLATE_LITERAL.mapTemplateSpans({ type, path, visit });
+			return type.texts.map((text, i) => (i < spans.length ? `${text}${String(spans[i])}` : text)).join("");
+		}
+		case "STRING_MAPPING":
+			return applyStringMapping(type.mapping, String(Visitor.STRING_MAPPING.operand({ type, path, visit })));
+		case "NEVER":
+			throw new Error("Cannot generate a value for never");
+		case "FUNCTION":
+		case "METHOD":
+		case "ES_SYMBOL_UNIQUE":
+		case "INDEX":
+		case "INDEXED_ACCESS":
+		case "CONDITIONAL":
+			throw new Error(`Cannot generate a value for ${type.kind}`);
+	}
+}
+
+const BINARY_CONSTRUCTORS = {
+	ArrayBuffer,
+	Uint8Array,
+	Uint8ClampedArray,
+	Uint16Array,
+	Uint32Array,
+	Int8Array,
+	Int16Array,
+	Int32Array,
+	Float32Array,
+	Float64Array,
+	Buffer: Uint8Array
+};
+
+function generateUnion(type: SimpleTypeUnion, args: VisitorArgs<unknown>, options: GenerateValueInternalOptions): unknown {
+	const { path, visit } = args;
+	const variants = type.types.map((variant, index) => ({ variant, index }));
+
+	// Prefer variants that have a JSON value, and don't repeat the absence an optional member already expresses.
+	const defined = variants.filter(({ variant }) => variant.kind !== "UNDEFINED" && variant.kind !== "VOID");
+	let candidates = defined.length ? defined : variants;
+
+	if (getDepth(path) >= options.maxDepth) {
+		const terminal = candidates.filter(({ variant }) => !isCollection(resolveAlias(variant)));
+		candidates = terminal.length ? terminal : candidates;
+	}
+
+	const { variant, index } = pick(options, candidates);
+	return visit({ from: type, index, step: "VARIANT" }, variant);
+}
+
+function generateObject(type: SimpleTypeObjectLike, args: VisitorArgs<unknown>, options: GenerateValueInternalOptions): unknown {
+	const { path, visit } = args;
+	const atMaxDepth = getDepth(path) >= options.maxDepth;
+	const value: Record<string, unknown> = {};
+
+	type.members?.forEach((member, index) => {
+		if (isCallable(member) || (member.optional && atMaxDepth)) {
+			return;
+		}
+		value[member.name] = visit({ from: type, index, step: "NAMED_MEMBER", member }, member.type);
+	});
+
+	const { STRING, NUMBER } = type.indexType ?? {};
+	if (STRING && !atMaxDepth) {
+		const count = integer(options, 1, 2);
+		for (let i = 0; i < count; i++) {
+			value[`${pick(options, WORDS)}${i}`] = visit({ from: type, step: "STRING_INDEX" }, STRING);
+		}
+	} else if (NUMBER && !atMaxDepth) {
+		value[String(integer(options, 0, 9))] = visit({ from: type, step: "NUMBER_INDEX" }, NUMBER);
+	}
+
+	return value;
+}
+
+function generateString(type: SimpleType, path: SimpleTypePath, options: GenerateValueInternalOptions): string {
+	const format = getJsDocTagOfSimpleType(type, path, "format")?.trim();
+	const word = pick(options, WORDS);
+	const timestamp = () => new Date(generateTimestamp(options)).toISOString();
+	switch (format) {
+		case "email":
+			return `${word}@example.com`;
+		case "uri":
+		case "url":
+			return `https://example.com/${word}`;
+		case "hostname":
+			return `${word}.example.com`;
+		case "date-time":
+			return timestamp();
+		case "date":
+			return timestamp().slice(0, 10);
+		case "time":
+			return timestamp().slice(11);
+		case "uuid": {
+			const hex = Array.from({ length: 32 }, () => integer(options, 0, 15).toString(16)).join("");
+			return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-4${hex.slice(13, 16)}-8${hex.slice(17, 20)}-${hex.slice(20)}`;
+		}
+		case "ipv4":
+			return Array.from({ length: 4 }, () => integer(options, 0, 255)).join(".");
+		default:
+			return word;
+	}
+}
+
+/** Find the `@example` of the member at the end of `path` or of `type`, if it is a valid value of `type`. */
+function getExample(type: SimpleType, path: SimpleTypePath): { found: true; value: unknown } | { found: false } {
+	const lastStep = SimpleTypePath.last(path);
+	const memberExample = lastStep?.step === "NAMED_MEMBER" ? getDocumentationCommentOfSimpleType(lastStep.member)?.jsDocTags?.get("example") : undefined;
+	for (const example of [memberExample, getDocumentationCommentOfSimpleType(type)?.jsDocTags?.get("example")]) {
+		if (example === undefined) {
+			continue;
+		}
+		// `@example 123` is a number for `number` members, but a string for `string` members.
+		for (const value of [...parseExample(example), example.trim()]) {
+			if (isAssignableToValue(type, value)) {
+				return { found: true, value };
+			}
+		}
+	}
+	return { found: false };
+}
+
+function parseExample(example: string): unknown[] {
+	try {
+		return [JSON.parse(example)];
+	} catch {
+		return [];
+	}
+}
+
+function getDepth(path: SimpleTypePath): number {
+	return path.filter(step => NESTING_STEPS.has(step.step)).length;
+}
+
+function resolveAlias(type: SimpleType): SimpleType {
+	switch (type.kind) {
+		case "ALIAS":
+			return resolveAlias(type.target);
+		case "GENERIC_ARGUMENTS":
+			return resolveAlias(type.instantiated);
+		default:
+			return type;
+	}
+}
+
+function isCollection(type: SimpleType): boolean {
+	switch (type.kind) {
+		case "OBJECT":
+		case "INTERFACE":
+		case "CLASS":
+		case "TUPLE":
+		case "INTERSECTION":
+			return true;
+		default:
+			return false;
+	}
+}
+
+function isCallable(member: SimpleTypeMemberNamed): boolean {
+	const type = resolveAlias(member.type);
+	return type.kind === "FUNCTION" || type.kind === "METHOD" || (type.kind === "OBJECT" && Boolean(type.call) && !type.members?.length);
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+	return typeof value === "object" && value !== null && Object.getPrototypeOf(value) === Object.prototype;
+}
+
+function generateTimestamp(options: GenerateValueInternalOptions): number {
+	// Between 2000-01-01 and 2030-01-01, rounded to the second.
+	return Date.UTC(2000, 0, 1) + integer(options, 0, 30 * 365 * 24 * 60 * 60) * 1000;
+}
+
+function integer(options: GenerateValueInternalOptions, min: number, max: number): number {
+	return min + Math.floor(options.random() * (max - min + 1));
+}
+
+function pick<T>(options: GenerateValueInternalOptions, items: readonly T[]): T {
+	return items[integer(options, 0, items.length - 1)];
+}
+
+/** A small seeded PRNG (mulberry32) so generated values are reproducible. */
+function createRandom(seed: number): () => number {
+	let state = seed >>> 0;
+	return () => {
+		state = (state + 0x6d2b79f5) >>> 0;
+		let t = state;
+		t = Math.imul(t ^ (t >>> 15), t | 1);
+		t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+		return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+	};
+}
@@ -1,4 +1,14 @@
-import { isSimpleTypeLiteral, SimpleType, SimpleTypeEnum, SimpleTypeEnumMember, SimpleTypeMemberIndexed, SimpleTypeMemberNamed, SimpleTypePrimitive, SimpleTypeUnion } from "../simple-type";
+import {
+	isSimpleTypeLiteral,
+	SimpleType,
+	SimpleTypeEnum,
+	SimpleTypeEnumMember,
+	SimpleTypeLiteral,
+	SimpleTypeMemberIndexed,
+	SimpleTypeMemberNamed,
+	SimpleTypePrimitive,
+	SimpleTypeUnion
+} from "../simple-type";
 import { Writable } from "./to-simple-type";
 
 /**
@@ -8,6 +18,9 @@ import { Writable } from "./to-simple-type";
  */
 type NullableSimpleType = { kind: "NON_NULLABLE"; type: SimpleTypeUnion } | { kind: "NULLABLE"; type: SimpleType; orUndefined: boolean; orNull: boolean };
 
+/** Non-nullable halves of nullable unions, so compilers see the same type each time and only declare it once. */
+const nonNullableTypes = new WeakMap<SimpleTypeUnion, SimpleType>();
+
 /**
  * Convert a union that may contain NULL or UNDEFINED types into a nullable type
  * without those types in the union.
@@ -20,11 +33,16 @@ export function toNullableSimpleType(simpleType: SimpleTypeUnion): NullableSimpl
 	const nonNullable = simpleType.types.filter(type => type.kind !== "NULL" && type.kind !== "UNDEFINED");
 	if (nonNullable.length === simpleType.types.length) {
 		return { kind: "NON_NULLABLE", type: simpleType };
+	} else if (nonNullable.length === 1) {
+		return { kind: "NULLABLE", type: nonNullable[0], orNull, orUndefined };
 	} else {
-		const nonNullableType: Writable<SimpleType> = nonNullable.length === 0 ? { kind: "NEVER" } : nonNullable.length === 1 ? nonNullable[0] : { kind: "UNION", types: nonNullable };
-		if (nonNullable.length !== 1) {
-			nonNullableType.name = simpleType.name;
-			nonNullableType.getTypescript = simpleType.getTypescript;
+		let nonNullableType = nonNullableTypes.get(simpleType);
+		if (!nonNullableType) {
+			const newType: Writable<SimpleType> = nonNullable.length === 0 ? { kind: "NEVER" } : { kind: "UNION", types: nonNullable };
+			newType.name = simpleType.name;
+			newType.getTypescript = simpleType.getTypescript;
+			nonNullableType = newType;
+			nonNullableTypes.set(simpleType, nonNullableType);
 		}
 		return { kind: "NULLABLE", type: nonNullableType, orNull, orUndefined };
 	}
@@ -103,9 +121,63 @@ interface EnumTaggedUnionSimpleType {
 	discriminantMember: SimpleTypeMemberIndexed | SimpleTypeMemberNamed;
 }
 
+const enumTaggedUnionCache = new WeakMap<SimpleTypeUnion, WeakMap<SimpleTypeMemberIndexed | SimpleTypeMemberNamed, EnumTaggedUnionSimpleType | undefined>>();
+
+/**
+ * Convert a discriminated union into an {@link EnumTaggedUnionSimpleType}.
+ * Returns undefined if the union has no discriminant, or if any variant's
+ * discriminant isn't a single string or number literal.
+ *
+ * Results are cached, so converting the same union twice returns the same types.
+ */
 export function toEnumTaggedUnion(simpleType: SimpleTypeUnion, discriminant?: SimpleTypeMemberIndexed | SimpleTypeMemberNamed): EnumTaggedUnionSimpleType | undefined {
 	discriminant ??= simpleType.discriminantMembers?.[0];
 	if (!discriminant) {
 		return undefined;
 	}
+
+	let cache = enumTaggedUnionCache.get(simpleType);
+	if (!cache) {
+		cache = new WeakMap();
+		enumTaggedUnionCache.set(simpleType, cache);
+	}
+	if (cache.has(discriminant)) {
+		return cache.get(discriminant);
+	}
+
+	const result = createEnumTaggedUnion(simpleType, discriminant);
+	cache.set(discriminant, result);
+	return result;
+}
+
+function createEnumTaggedUnion(simpleType: SimpleTypeUnion, discriminant: SimpleTypeMemberIndexed | SimpleTypeMemberNamed): EnumTaggedUnionSimpleType | undefined {
+	const key = "name" in discriminant ? discriminant.name : discriminant.index;
+	const tagName = `${simpleType.name || "Union"}${typeof key === "string" ? key.charAt(0).toUpperCase() + key.slice(1) : "Tag"}`;
+	const tag: SimpleTypeEnum = { kind: "ENUM", name: tagName, types: [] };
+	const membersByValue = new Map<SimpleTypeLiteral["value"], SimpleTypeEnumMember>();
+
+	const variants: SimpleType[] = [];
+	for (const [index, variant] of simpleType.types.entries()) {
+		const members: ReadonlyArray<SimpleTypeMemberIndexed | SimpleTypeMemberNamed> | undefined =
+			variant.kind === "OBJECT" || variant.kind === "INTERFACE" || variant.kind === "CLASS" ? variant.members : variant.kind === "TUPLE" ? variant.members : undefined;
+		const member = members?.find(member => ("name" in member ? member.name : member.index) === key);
+		if (!member || !(member.type.kind === "STRING_LITERAL" || member.type.kind === "NUMBER_LITERAL")) {
+			return undefined;
+		}
+
+		let enumMember = membersByValue.get(member.type.value);
+		if (!enumMember) {
+			enumMember = typeToEnumMember(tagName, member.type, `${variant.name || "Variant"}_${index}`);
+			membersByValue.set(member.type.value, enumMember);
+			tag.types.push(enumMember);
+		}
+
+		const taggedMember = { ...member, type: enumMember };
+		const taggedMembers = members!.map(other => (other === member ? taggedMember : other));
+		variants.push(derive(variant, { ...variant, members: taggedMembers } as Writable<SimpleType>));
+	}
+
+	const discriminantMember = { ...discriminant, type: Object.freeze(tag) };
+	const union = derive<SimpleTypeUnion>(simpleType, { ...simpleType, types: variants, discriminantMembers: [discriminantMember] });
+	return { kind: "TAGGED_UNION", tag, union, discriminantMember };
 }
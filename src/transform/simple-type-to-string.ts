@@ -132,6 +132,31 @@ function simpleTypeToStringInternal(type: SimpleType, visitTypeSet: Set<SimpleTy
 			return `${type.name || "Promise"}<${simpleTypeToStringInternal(type.type, visitTypeSet)}>`;
 		case "DATE":
 			return "Date";
+		case "MAP":
+			return `${type.name || "Map"}<${simpleTypeToStringInternal(type.keyType, visitTypeSet)}, ${simpleTypeToStringInternal(type.valueType, visitTypeSet)}>`;
+		case "SET":
+			return `${type.name || "Set"}<${simpleTypeToStringInternal(type.type, visitTypeSet)}>`;
+		case "REGEXP":
+			return "RegExp";
+		case "ERROR":
+			return type.name || "Error";
+		case "URL":
+			return "URL";
+		case "BINARY":
+			return type.name || "ArrayBuffer";
+		case "TEMPLATE_LITERAL":
+			return `\`${type.texts.map((text, i) => (i < type.types.length ? `${text}\${${simpleTypeToStringInternal(type.types[i], visitTypeSet)}}` : text)).join("")}\``;
+		case "STRING_MAPPING":
+			return `${type.mapping}<${simpleTypeToStringInternal(type.type, visitTypeSet)}>`;
+		case "INDEX":
+			return `keyof ${simpleTypeToStringInternal(type.type, visitTypeSet)}`;
+		case "INDEXED_ACCESS":
+			return `${simpleTypeToStringInternal(type.objectType, visitTypeSet)}[${simpleTypeToStringInternal(type.indexType, visitTypeSet)}]`;
+		case "CONDITIONAL":
+			return `${simpleTypeToStringInternal(type.checkType, visitTypeSet)} extends ${simpleTypeToStringInternal(type.extendsType, visitTypeSet)} ? ${simpleTypeToStringInternal(
+				type.trueType,
+				visitTypeSet
+			)} : ${simpleTypeToStringInternal(type.falseType, visitTypeSet)}`;
 		default:
 			return type.name || "";
 	}
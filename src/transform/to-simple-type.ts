@@ -19,6 +19,7 @@ import {
 	SimpleTypeMemberNamed,
 	SimpleTypeMethod,
 	SimpleTypeObject,
+	SimpleTypeStringMappingKind,
 	SimpleTypeUnion
 } from "../simple-type";
 import { getTypescriptModule } from "../ts-module";
@@ -34,15 +35,21 @@ import {
 	isArray,
 	isBigInt,
 	isBigIntLiteral,
+	isBinary,
 	isBoolean,
 	isBooleanLiteral,
+	isConditional,
 	isDate,
 	isEnum,
+	isError,
 	isESSymbolLike,
 	isFunction,
 	isImplicitGeneric,
+	isIndex,
+	isIndexedAccess,
 	isInstantiated,
 	isLiteral,
+	isMap,
 	isMethod,
 	isMethodSignature,
 	isNever,
@@ -53,8 +60,13 @@ import {
 	isObject,
 	isObjectTypeReference,
 	isPromise,
+	isRegExp,
+	isSet,
 	isString,
+	isStringMapping,
+	isSubstitution,
 	isSymbol,
+	isTemplateLiteral,
 	isThisType,
 	isTupleTypeReference,
 	isType,
@@ -62,6 +74,7 @@ import {
 	isUndefined,
 	isUniqueESSymbol,
 	isUnknown,
+	isUrl,
 	isVoid,
 	symbolIsOptional
 } from "../utils/ts-util";
@@ -117,6 +130,11 @@ export function toSimpleType(type: Type | Node | SimpleType, checker?: TypeCheck
 }
 
 function toSimpleTypeCached(type: Type, options: ToSimpleTypeInternalOptions): SimpleType {
+	// Inside the true branch of a conditional type, "T" is narrowed by a substitution type. Use the type it stands for.
+	if (isSubstitution(type, options.ts)) {
+		return toSimpleTypeCached(type.baseType, options);
+	}
+
 	if (options.cache.has(type)) {
 		return options.cache.get(type)!;
 	}
@@ -249,7 +267,7 @@ function liftGenericType(type: Type, options: ToSimpleTypeInternalOptions): { ge
 	if (isObject(type, options.ts) && (isObjectTypeReference(type, options.ts) || isInstantiated(type, options.ts)) /* TODO: figure this case out */) {
 		const typeArguments = getTypeArguments(type, options.checker, options.ts);
 		if (typeArguments.length > 0) {
-			// Special case for array, tuple and promise, they are generic in themselves
+			// Special case for array, tuple, promise, map and set, they are generic in themselves
 			if (isImplicitGeneric(type, options.checker, options.ts)) {
 				return undefined;
 			}
@@ -385,6 +403,48 @@ function toSimpleTypeInternal(type: Type, options: ToSimpleTypeInternalOptions):
 		}
 	}
 
+	// Type operators deferred inside generics.
+	// These must come before primitives, because template literals and string mappings are also "StringLike".
+	else if (isTemplateLiteral(type, ts)) {
+		simpleType = {
+			kind: "TEMPLATE_LITERAL",
+			name,
+			texts: [...type.texts],
+			types: type.types.map(t => toSimpleTypeCached(t, options))
+		};
+	} else if (isStringMapping(type, ts)) {
+		simpleType = {
+			kind: "STRING_MAPPING",
+			name,
+			mapping: type.symbol.getName() as SimpleTypeStringMappingKind,
+			type: toSimpleTypeCached(type.type, options)
+		};
+	} else if (isIndex(type, ts)) {
+		simpleType = {
+			kind: "INDEX",
+			name,
+			type: toSimpleTypeCached(type.type, options)
+		};
+	} else if (isIndexedAccess(type, ts)) {
+		simpleType = {
+			kind: "INDEXED_ACCESS",
+			name,
+			objectType: toSimpleTypeCached(type.objectType, options),
+			indexType: toSimpleTypeCached(type.indexType, options)
+		};
+	} else if (isConditional(type, ts)) {
+		const root = type.root;
+		simpleType = {
+			kind: "CONDITIONAL",
+			name,
+			checkType: toSimpleTypeCached(type.checkType, options),
+			extendsType: toSimpleTypeCached(type.extendsType, options),
+			trueType: toSimpleTypeCached(type.resolvedTrueType ?? checker.getTypeFromTypeNode(root.node.trueType), options),
+			falseType: toSimpleTypeCached(type.resolvedFalseType ?? checker.getTypeFromTypeNode(root.node.falseType), options),
+			distributive: root.isDistributive
+		};
+	}
+
 	// Primitive types
 	else if (isString(type, ts)) {
 		simpleType = { kind: "STRING", name };
@@ -475,6 +535,31 @@ function toSimpleTypeInternal(type: Type, options: ToSimpleTypeInternalOptions):
 		};
 	}
 
+	// Well-known built-in objects
+	else if (isMap(type, checker, ts)) {
+		const [keyType, valueType] = getTypeArguments(type, checker, ts);
+		simpleType = {
+			kind: "MAP",
+			name,
+			keyType: toSimpleTypeCached(keyType, options),
+			valueType: toSimpleTypeCached(valueType, options)
+		};
+	} else if (isSet(type, checker, ts)) {
+		simpleType = {
+			kind: "SET",
+			name,
+			type: toSimpleTypeCached(getTypeArguments(type, checker, ts)[0], options)
+		};
+	} else if (isRegExp(type, ts)) {
+		simpleType = { kind: "REGEXP", name };
+	} else if (isError(type, ts)) {
+		simpleType = { kind: "ERROR", name };
+	} else if (isUrl(type, ts)) {
+		simpleType = { kind: "URL", name };
+	} else if (isBinary(type, ts)) {
+		simpleType = { kind: "BINARY", name };
+	}
+
 	// Array
 	else if (isArray(type, checker, ts)) {
 		simpleType = {
@@ -0,0 +1,276 @@
+import * as path from "path";
+import type * as ts from "typescript";
+import { SimpleType } from "../simple-type";
+import { getTypescriptModule } from "../ts-module";
+import { getModuleExport, getTypeOfTypeSymbol, getTypeOfValueSymbol } from "../utils/ts-util";
+import { Visitor, walkRecursive } from "../visitor";
+import { getSourceLocationOfSimpleType, SimpleTypeCompiler, SimpleTypeCompilerDiagnostic, SimpleTypeCompilerLocation, SimpleTypeCompilerOutputFile } from "./compiler";
+import { emitCompilerOutput, EmitCompilerOutputOptions, EmitCompilerOutputResult } from "./emit-compiler-output";
+import { toSimpleType } from "./to-simple-type";
+
+/**
+ * A type exported from a source file, and where to compile it to.
+ */
+export interface ExportedEntryPoint {
+	/** Path of the source file that exports the type. */
+	fileName: string;
+	/** Name of the export. Exported values compile to the type of the value. */
+	exportName: string;
+	outputLocation: SimpleTypeCompilerLocation;
+}
+
+export interface WatchCompilerOutputOptions extends Omit<EmitCompilerOutputOptions, "check"> {
+	/** Path to a tsconfig.json. Without a config file, only the entry point files and their imports are watched. */
+	configFileName?: string;
+	entryPoints: ExportedEntryPoint[];
+	createCompiler: (checker: ts.TypeChecker) => SimpleTypeCompiler;
+	/** Called after each build, including the initial build. */
+	onBuild?: (result: WatchCompilerOutputBuildResult) => void;
+	/** Called when a build fails. The watcher keeps running, and the next build retries every entry point that wasn't built. */
+	onError?: (error: unknown) => void;
+	/** Called with tsconfig.json errors and watch status messages. */
+	onDiagnostic?: (diagnostic: ts.Diagnostic) => void;
+	/** Defaults to `ts.sys`. */
+	system?: ts.System;
+}
+
+export interface WatchCompilerOutputBuildResult extends EmitCompilerOutputResult {
+	/** Entry points compiled in this build. Entry points that don't depend on changed source files aren't recompiled. */
+	compiled: ExportedEntryPoint[];
+	/** Diagnostics from compiling the entry points in `compiled`. */
+	diagnostics: SimpleTypeCompilerDiagnostic[];
+}
+
+export interface CompilerOutputWatcher {
+	close(): void;
+}
+
+/**
+ * Source files and declarations that an entry point's SimpleType graph touches.
+ */
+interface EntryPointGraph {
+	type: SimpleType;
+	sourceFileNames: Set<string>;
+	declarations: Set<string>;
+}
+
+/**
+ * Entry points that must be compiled together, because they share declarations or output files.
+ * Each group compiles to the same output regardless of the other groups.
+ */
+interface EntryPointGroup {
+	entryPoints: ExportedEntryPoint[];
+	sourceFileNames: Set<string>;
+	declarations: Set<string>;
+	outputFileNames: Set<string>;
+	/** Undefined until the group is compiled. */
+	outputFiles: Map<string, SimpleTypeCompilerOutputFile> | undefined;
+	diagnostics: SimpleTypeCompilerDiagnostic[];
+}
+
+/**
+ * Watch the TypeScript sources of `options.entryPoints` with `ts.createWatchProgram`, and emit
+ * compiler output with {@link emitCompilerOutput} after every change.
+ *
+ * Each build only recompiles entry points whose SimpleType graph touches a changed source file,
+ * using the declarations from {@link SimpleTypeCompiler.getSourceLocation}.
+ * Output files that didn't change aren't rewritten.
+ */
+export function watchCompilerOutput(options: WatchCompilerOutputOptions): CompilerOutputWatcher {
+	const ts = getTypescriptModule();
+	const system = options.system ?? ts.sys;
+	const reportDiagnostic = (diagnostic: ts.Diagnostic) => options.onDiagnostic?.(diagnostic);
+	const createProgram = ts.createSemanticDiagnosticsBuilderProgram;
+
+	let groups: EntryPointGroup[] = [];
+	let previousProgram: ts.Program | undefined;
+	const afterProgramCreate = (builderProgram: ts.SemanticDiagnosticsBuilderProgram) => {
+		const program = builderProgram.getProgram();
+		try {
+			const changedFileNames = previousProgram && getChangedSourceFileNames(previousProgram, program);
+			const build = buildEntryPoints(program, options, changedFileNames ? groups.filter(group => !intersects(group.sourceFileNames, changedFileNames)) : []);
+			const result = emitCompilerOutput({ files: new Map(build.groups.flatMap(group => [...group.outputFiles])) }, options);
+			groups = build.groups;
+			previousProgram = program;
+			options.onBuild?.({ ...result, compiled: build.compiled, diagnostics: build.diagnostics });
+		} catch (error) {
+			options.onError?.(error);
+		}
+	};
+
+	let watch: { close(): void };
+	if (options.configFileName) {
+		const host = ts.createWatchCompilerHost(options.configFileName, undefined, system, createProgram, reportDiagnostic, reportDiagnostic);
+		host.afterProgramCreate = afterProgramCreate;
+		watch = ts.createWatchProgram(host);
+	} else {
+		const rootFileNames = options.entryPoints.map(entryPoint => entryPoint.fileName);
+		const host = ts.createWatchCompilerHost(rootFileNames, { strict: true }, system, createProgram, reportDiagnostic, reportDiagnostic);
+		host.afterProgramCreate = afterProgramCreate;
+		watch = ts.createWatchProgram(host);
+	}
+
+	return {
+		close: () => watch.close()
+	};
+}
+
+/**
+ * Get the type of an entry point's export in `program`.
+ */
+export function getTypeOfExportedEntryPoint(program: ts.Program, entryPoint: ExportedEntryPoint): ts.Type {
+	const ts = getTypescriptModule();
+	const checker = program.getTypeChecker();
+	const sourceFile = program.getSourceFile(entryPoint.fileName);
+	if (sourceFile === undefined) {
+		throw new Error(`Cannot find source file ${entryPoint.fileName}`);
+	}
+
+	let symbol = getModuleExport(sourceFile, entryPoint.exportName, checker);
+	if (symbol === undefined) {
+		throw new Error(`${entryPoint.fileName} has no export named ${entryPoint.exportName}`);
+	}
+	if (symbol.flags & ts.SymbolFlags.Alias) {
+		symbol = checker.getAliasedSymbol(symbol);
+	}
+	return symbol.flags & ts.SymbolFlags.Type ? getTypeOfTypeSymbol(symbol, checker) : getTypeOfValueSymbol(symbol, checker);
+}
+
+/**
+ * Compile every entry point that isn't in an up-to-date group.
+ * Up-to-date groups that share declarations or output files with the recompiled entry points are recompiled too.
+ */
+function buildEntryPoints(program: ts.Program, options: WatchCompilerOutputOptions, upToDateGroups: EntryPointGroup[]) {
+	const checker = program.getTypeChecker();
+	const toSimpleTypeOptions = { addMethods: true, cache: new WeakMap() };
+	const graphs = new Map<ExportedEntryPoint, EntryPointGraph>();
+	const getGraph = (entryPoint: ExportedEntryPoint) => {
+		let graph = graphs.get(entryPoint);
+		if (!graph) {
+			graph = getEntryPointGraph(toSimpleType(getTypeOfExportedEntryPoint(program, entryPoint), checker, toSimpleTypeOptions), entryPoint);
+			graphs.set(entryPoint, graph);
+		}
+		return graph;
+	};
+
+	const upToDate = new Set(upToDateGroups.flatMap(group => group.entryPoints));
+	let groups: EntryPointGroup[] = [
+		...upToDateGroups,
+		...options.entryPoints
+			.filter(entryPoint => !upToDate.has(entryPoint))
+			.map(entryPoint => {
+				const graph = getGraph(entryPoint);
+				return {
+					entryPoints: [entryPoint],
+					sourceFileNames: graph.sourceFileNames,
+					declarations: graph.declarations,
+					outputFileNames: new Set([entryPoint.outputLocation.fileName]),
+					outputFiles: undefined,
+					diagnostics: []
+				};
+			})
+	];
+
+	// Compiling a group can add output files that another group also writes, so merge and compile until nothing overlaps.
+	for (;;) {
+		groups = mergeOverlappingGroups(groups, options.entryPoints);
+		const uncompiled = groups.filter(group => group.outputFiles === undefined);
+		if (uncompiled.length === 0) {
+			break;
+		}
+
+		for (const group of uncompiled) {
+			const entryPointGraphs = group.entryPoints.map(getGraph);
+			const output = options
+				.createCompiler(checker)
+				.compileProgram(group.entryPoints.map((entryPoint, i) => ({ inputType: entryPointGraphs[i].type, outputLocation: entryPoint.outputLocation })));
+			group.sourceFileNames = new Set(entryPointGraphs.flatMap(graph => [...graph.sourceFileNames]));
+			group.declarations = new Set(entryPointGraphs.flatMap(graph => [...graph.declarations]));
+			group.outputFileNames = new Set([...group.entryPoints.map(entryPoint => entryPoint.outputLocation.fileName), ...output.files.keys()]);
+			group.outputFiles = output.files;
+			group.diagnostics = output.diagnostics;
+		}
+	}
+
+	return {
+		groups: groups as Array<EntryPointGroup & { outputFiles: Map<string, SimpleTypeCompilerOutputFile> }>,
+		compiled: options.entryPoints.filter(entryPoint => graphs.has(entryPoint)),
+		diagnostics: groups.filter(group => !upToDateGroups.includes(group)).flatMap(group => group.diagnostics)
+	};
+}
+
+function getEntryPointGraph(type: SimpleType, entryPoint: ExportedEntryPoint): EntryPointGraph {
+	const graph: EntryPointGraph = {
+		type,
+		sourceFileNames: new Set([normalizeFileName(entryPoint.fileName)]),
+		declarations: new Set()
+	};
+
+	const visited = new Set<SimpleType>();
+	walkRecursive<void>([], type, args => {
+		if (visited.has(args.type)) {
+			return;
+		}
+		visited.add(args.type);
+
+		const declaration = getSourceLocationOfSimpleType(args.type).typescript?.declaration;
+		if (declaration) {
+			const sourceFile = declaration.getSourceFile();
+			graph.sourceFileNames.add(normalizeFileName(sourceFile.fileName));
+			graph.declarations.add(`${sourceFile.fileName}:${declaration.getStart(sourceFile)}`);
+		}
+		Visitor.mapAnyStep(args);
+	});
+	return graph;
+}
+
+function mergeOverlappingGroups(groups: EntryPointGroup[], entryPointOrder: ExportedEntryPoint[]): EntryPointGroup[] {
+	const result: EntryPointGroup[] = [];
+	for (const group of groups) {
+		let merged = group;
+		for (const other of result.filter(other => intersects(other.declarations, merged.declarations) || intersects(other.outputFileNames, merged.outputFileNames))) {
+			result.splice(result.indexOf(other), 1);
+			merged = {
+				entryPoints: [...other.entryPoints, ...merged.entryPoints].sort((a, b) => entryPointOrder.indexOf(a) - entryPointOrder.indexOf(b)),
+				sourceFileNames: new Set([...other.sourceFileNames, ...merged.sourceFileNames]),
+				declarations: new Set([...other.declarations, ...merged.declarations]),
+				outputFileNames: new Set([...other.outputFileNames, ...merged.outputFileNames]),
+				outputFiles: undefined,
+				diagnostics: []
+			};
+		}
+		result.push(merged);
+	}
+	return result;
+}
+
+/**
+ * The watch program reuses `ts.SourceFile` objects for files that didn't change.
+ */
+function getChangedSourceFileNames(previousProgram: ts.Program, program: ts.Program): Set<string> {
+	const changed = new Set<string>();
+	for (const sourceFile of program.getSourceFiles()) {
+		if (previousProgram.getSourceFile(sourceFile.fileName) !== sourceFile) {
+			changed.add(normalizeFileName(sourceFile.fileName));
+		}
+	}
+	for (const sourceFile of previousProgram.getSourceFiles()) {
+		if (program.getSourceFile(sourceFile.fileName) === undefined) {
+			changed.add(normalizeFileName(sourceFile.fileName));
+		}
+	}
+	return changed;
+}
+
+function normalizeFileName(fileName: string): string {
+	return path.resolve(fileName).split(path.sep).join("/");
+}
+
+function intersects<T>(a: Set<T>, b: Set<T>): boolean {
+	for (const item of a) {
+		if (b.has(item)) {
+			return true;
+		}
+	}
+	return false;
+}
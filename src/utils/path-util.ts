@@ -0,0 +1,11 @@
+import * as path from "path";
+
+/**
+ * @returns a relative module specifier for importing `toFileName` from `fromFileName`.
+ * The extension is dropped, so `types.ts` and `types.d.ts` are both imported as `./types`.
+ */
+export function getImportPath(fromFileName: string, toFileName: string): string {
+	const parsed = path.parse(path.relative(path.dirname(fromFileName), toFileName));
+	const specifier = path.join(parsed.dir, parsed.name.replace(/\.d$/, "")).split(path.sep).join("/");
+	return specifier.startsWith(".") ? specifier : `./${specifier}`;
+}
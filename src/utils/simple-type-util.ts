@@ -7,6 +7,8 @@ import {
 	SimpleTypeGenericArguments,
 	SimpleTypeNull,
 	SimpleTypeNumberLiteral,
+	SimpleTypeStringMappingKind,
+	SimpleTypeTemplateLiteral,
 	SimpleTypeTuple,
 	SimpleTypeUndefined
 } from "../simple-type";
@@ -102,3 +104,67 @@ export function extendTypeParameterMap(genericType: SimpleTypeGenericArguments,
 
 	return existingMap;
 }
+
+/**
+ * Returns a regular expression source (without anchors) that matches the
+ * strings described by a TEMPLATE_LITERAL type.
+ * Spans that can't be described precisely match any string.
+ * @param templateLiteral
+ */
+export function templateLiteralToRegExpSource(templateLiteral: SimpleTypeTemplateLiteral): string {
+	return templateLiteral.texts.map((text, i) => escapeRegExp(text) + (i < templateLiteral.types.length ? templateSpanToRegExpSource(templateLiteral.types[i]) : "")).join("");
+}
+
+function templateSpanToRegExpSource(type: SimpleType): string {
+	switch (type.kind) {
+		case "STRING_LITERAL":
+		case "NUMBER_LITERAL":
+		case "BOOLEAN_LITERAL":
+			return escapeRegExp(String(type.value));
+		case "BIG_INT_LITERAL":
+			return escapeRegExp(type.value.toString());
+		case "ENUM_MEMBER":
+			return templateSpanToRegExpSource(type.type);
+		case "NULL":
+			return "null";
+		case "UNDEFINED":
+			return "undefined";
+		case "BOOLEAN":
+			return "(?:true|false)";
+		case "NUMBER":
+			return "-?\\d+(?:\\.\\d+)?";
+		case "BIG_INT":
+			return "-?\\d+";
+		case "UNION":
+		case "ENUM":
+			return `(?:${type.types.map(templateSpanToRegExpSource).join("|")})`;
+		case "TEMPLATE_LITERAL":
+			return `(?:${templateLiteralToRegExpSource(type)})`;
+		case "ALIAS":
+			return templateSpanToRegExpSource(type.target);
+		default:
+			return ".*";
+	}
+}
+
+function escapeRegExp(text: string): string {
+	return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Apply an intrinsic string mapping type like `Capitalize` to a string value.
+ * @param mapping
+ * @param value
+ */
+export function applyStringMapping(mapping: SimpleTypeStringMappingKind, value: string): string {
+	switch (mapping) {
+		case "Uppercase":
+			return value.toUpperCase();
+		case "Lowercase":
+			return value.toLowerCase();
+		case "Capitalize":
+			return value.charAt(0).toUpperCase() + value.slice(1);
+		case "Uncapitalize":
+			return value.charAt(0).toLowerCase() + value.slice(1);
+	}
+}
@@ -128,6 +128,30 @@ export function isNever(type: Type, ts: typeof tsModule): boolean {
 	return typeHasFlag(type, ts.TypeFlags.Never);
 }
 
+export function isTemplateLiteral(type: Type, ts: typeof tsModule): type is ts.TemplateLiteralType {
+	return typeHasFlag(type, ts.TypeFlags.TemplateLiteral);
+}
+
+export function isStringMapping(type: Type, ts: typeof tsModule): type is ts.StringMappingType {
+	return typeHasFlag(type, ts.TypeFlags.StringMapping);
+}
+
+export function isIndex(type: Type, ts: typeof tsModule): type is ts.IndexType {
+	return typeHasFlag(type, ts.TypeFlags.Index);
+}
+
+export function isIndexedAccess(type: Type, ts: typeof tsModule): type is ts.IndexedAccessType {
+	return typeHasFlag(type, ts.TypeFlags.IndexedAccess);
+}
+
+export function isConditional(type: Type, ts: typeof tsModule): type is ts.ConditionalType {
+	return typeHasFlag(type, ts.TypeFlags.Conditional);
+}
+
+export function isSubstitution(type: Type, ts: typeof tsModule): type is ts.SubstitutionType {
+	return typeHasFlag(type, ts.TypeFlags.Substitution);
+}
+
 export function isObjectTypeReference(type: ObjectType, ts: typeof tsModule): type is TypeReference {
 	return hasFlag(type.objectFlags, ts.ObjectFlags.Reference);
 }
@@ -179,6 +203,63 @@ export function isDate(type: Type, ts: typeof tsModule): type is ObjectType {
 	return symbol.getName() === "Date";
 }
 
+export function isMap(type: Type, checker: TypeChecker, ts: typeof tsModule): type is TypeReference {
+	if (!isObject(type, ts)) return false;
+	const symbol = type.getSymbol();
+	if (symbol == null) return false;
+	return getTypeArguments(type, checker, ts).length === 2 && ["Map", "ReadonlyMap", "WeakMap"].includes(symbol.getName());
+}
+
+export function isSet(type: Type, checker: TypeChecker, ts: typeof tsModule): type is TypeReference {
+	if (!isObject(type, ts)) return false;
+	const symbol = type.getSymbol();
+	if (symbol == null) return false;
+	return getTypeArguments(type, checker, ts).length === 1 && ["Set", "ReadonlySet", "WeakSet"].includes(symbol.getName());
+}
+
+export function isRegExp(type: Type, ts: typeof tsModule): type is ObjectType {
+	if (!isObject(type, ts)) return false;
+	const symbol = type.getSymbol();
+	if (symbol == null) return false;
+	return symbol.getName() === "RegExp";
+}
+
+export function isError(type: Type, ts: typeof tsModule): type is ObjectType {
+	if (!isObject(type, ts)) return false;
+	const symbol = type.getSymbol();
+	if (symbol == null) return false;
+	return ["Error", "AggregateError", "EvalError", "RangeError", "ReferenceError", "SyntaxError", "TypeError", "URIError"].includes(symbol.getName());
+}
+
+export function isUrl(type: Type, ts: typeof tsModule): type is ObjectType {
+	if (!isObject(type, ts)) return false;
+	const symbol = type.getSymbol();
+	if (symbol == null) return false;
+	return symbol.getName() === "URL";
+}
+
+export function isBinary(type: Type, ts: typeof tsModule): type is ObjectType {
+	if (!isObject(type, ts)) return false;
+	const symbol = type.getSymbol();
+	if (symbol == null) return false;
+	return [
+		"ArrayBuffer",
+		"SharedArrayBuffer",
+		"DataView",
+		"Int8Array",
+		"Uint8Array",
+		"Uint8ClampedArray",
+		"Int16Array",
+		"Uint16Array",
+		"Int32Array",
+		"Uint32Array",
+		"Float32Array",
+		"Float64Array",
+		"BigInt64Array",
+		"BigUint64Array"
+	].includes(symbol.getName());
+}
+
 export function isTupleTypeReference(type: Type, ts: typeof tsModule): type is TupleTypeReference {
 	const target = getTargetType(type, ts);
 	if (target == null) return false;
@@ -262,7 +343,7 @@ export function getModifiersFromDeclaration(declaration: Declaration, ts: typeof
 }
 
 export function isImplicitGeneric(type: Type, checker: TypeChecker, ts: typeof tsModule): boolean {
-	return isArray(type, checker, ts) || isTupleTypeReference(type, ts) || isPromise(type, checker, ts);
+	return isArray(type, checker, ts) || isTupleTypeReference(type, ts) || isPromise(type, checker, ts) || isMap(type, checker, ts) || isSet(type, checker, ts);
 }
 
 export function isMethodSignature(type: Type, ts: typeof tsModule): boolean {
@@ -3,17 +3,24 @@ import {
 	SimpleTypeAlias,
 	SimpleTypeArray,
 	SimpleTypeClass,
+	SimpleTypeConditional,
 	SimpleTypeEnum,
 	SimpleTypeEnumMember,
 	SimpleTypeFunction,
 	SimpleTypeGenericArguments,
 	SimpleTypeGenericParameter,
+	SimpleTypeIndex,
+	SimpleTypeIndexedAccess,
 	SimpleTypeInterface,
 	SimpleTypeIntersection,
 	SimpleTypeKindMap,
+	SimpleTypeMap,
 	SimpleTypeMethod,
 	SimpleTypeObject,
 	SimpleTypePromise,
+	SimpleTypeSet,
+	SimpleTypeStringMapping,
+	SimpleTypeTemplateLiteral,
 	SimpleTypeTuple,
 	SimpleTypeUnion
 } from "./simple-type";
@@ -24,18 +31,28 @@ import {
 	SimpleTypePathStepAwaited,
 	SimpleTypePathStepBase,
 	SimpleTypePathStepCallSignature,
+	SimpleTypePathStepCheckType,
 	SimpleTypePathStepCtorSignature,
+	SimpleTypePathStepExtendsType,
+	SimpleTypePathStepFalseType,
 	SimpleTypePathStepGenericArgument,
 	SimpleTypePathStepGenericTarget,
 	SimpleTypePathStepIndexedMember,
+	SimpleTypePathStepIndexType,
+	SimpleTypePathStepKey,
 	SimpleTypePathStepNamedMember,
 	SimpleTypePathStepNumberIndex,
+	SimpleTypePathStepObjectType,
+	SimpleTypePathStepOperand,
 	SimpleTypePathStepParameter,
 	SimpleTypePathStepReturn,
 	SimpleTypePathStepStringIndex,
+	SimpleTypePathStepTemplateSpan,
+	SimpleTypePathStepTrueType,
 	SimpleTypePathStepTypeParameter,
 	SimpleTypePathStepTypeParameterConstraint,
 	SimpleTypePathStepTypeParameterDefault,
+	SimpleTypePathStepValue,
 	SimpleTypePathStepVariant
 } from "./simple-type-path";
 
@@ -189,6 +206,17 @@ interface SimpleTypeToPathStepMap {
 	ARRAY: SimpleTypePathStepNumberIndex;
 	// DATE: never;
 	PROMISE: SimpleTypePathStepAwaited;
+	MAP: SimpleTypePathStepKey | SimpleTypePathStepValue;
+	SET: SimpleTypePathStepValue;
+	// REGEXP: never;
+	// ERROR: never;
+	// URL: never;
+	// BINARY: never;
+	TEMPLATE_LITERAL: SimpleTypePathStepTemplateSpan[];
+	STRING_MAPPING: SimpleTypePathStepOperand;
+	INDEX: SimpleTypePathStepOperand;
+	INDEXED_ACCESS: SimpleTypePathStepObjectType | SimpleTypePathStepIndexType;
+	CONDITIONAL: SimpleTypePathStepCheckType | SimpleTypePathStepExtendsType | SimpleTypePathStepTrueType | SimpleTypePathStepFalseType;
 }
 
 type CamelCase<S extends string> = S extends `${infer P1}_${infer P2}${infer P3}` ? `${Lowercase<P1>}${Uppercase<P2>}${CamelCase<P3>}` : Lowercase<S>;
@@ -305,6 +333,21 @@ class PromiseVisitors implements PromiseVisitorsT {
 
 	awaited: GenericVisitor<SimpleTypePromise, SimpleTypePathStepAwaited> = ({ visit, type }) => visit({ from: type, step: "AWAITED" }, type.type);
 }
+type MapVisitorsT = SimpleTypePathStepVisitors["MAP"];
+class MapVisitors implements MapVisitorsT {
+	static instance = new this();
+
+	key: GenericVisitor<SimpleTypeMap, SimpleTypePathStepKey> = ({ visit, type }) => visit({ from: type, step: "KEY" }, type.keyType);
+	value: GenericVisitor<SimpleTypeMap, SimpleTypePathStepValue> = ({ visit, type }) => visit({ from: type, step: "VALUE" }, type.valueType);
+}
+
+type SetVisitorsT = SimpleTypePathStepVisitors["SET"];
+class SetVisitors implements SetVisitorsT {
+	static instance = new this();
+
+	value: GenericVisitor<SimpleTypeSet, SimpleTypePathStepValue> = ({ visit, type }) => visit({ from: type, step: "VALUE" }, type.type);
+}
+
 type EnumMemberVisitorsT = SimpleTypePathStepVisitors["ENUM_MEMBER"];
 class EnumMemberVisitors implements EnumMemberVisitorsT {
 	static instance = new this();
@@ -312,6 +355,40 @@ class EnumMemberVisitors implements EnumMemberVisitorsT {
 	aliased: GenericVisitor<SimpleTypeEnumMember, SimpleTypePathStepAliased> = ({ visit, type }) => visit({ from: type, step: "ALIASED" }, type.type);
 }
 
+type TemplateLiteralVisitorsT = SimpleTypePathStepVisitors["TEMPLATE_LITERAL"];
+class TemplateLiteralVisitors implements TemplateLiteralVisitorsT {
+	static instance = new this();
+
+	mapTemplateSpans: GenericListVisitor<SimpleTypeTemplateLiteral, SimpleTypePathStepTemplateSpan> = ({ visit, type }) =>
+		type.types.map((span, i) => visit({ from: type, index: i, step: "TEMPLATE_SPAN" }, span));
+}
+
+type StringMappingVisitorsT = SimpleTypePathStepVisitors["STRING_MAPPING"];
+type IndexVisitorsT = SimpleTypePathStepVisitors["INDEX"];
+class TypeOperatorVisitors implements StringMappingVisitorsT, IndexVisitorsT {
+	static instance = new this();
+
+	operand: GenericVisitor<SimpleTypeStringMapping | SimpleTypeIndex, SimpleTypePathStepOperand> = ({ visit, type }) => visit({ from: type, step: "OPERAND" }, type.type);
+}
+
+type IndexedAccessVisitorsT = SimpleTypePathStepVisitors["INDEXED_ACCESS"];
+class IndexedAccessVisitors implements IndexedAccessVisitorsT {
+	static instance = new this();
+
+	objectType: GenericVisitor<SimpleTypeIndexedAccess, SimpleTypePathStepObjectType> = ({ visit, type }) => visit({ from: type, step: "OBJECT_TYPE" }, type.objectType);
+	indexType: GenericVisitor<SimpleTypeIndexedAccess, SimpleTypePathStepIndexType> = ({ visit, type }) => visit({ from: type, step: "INDEX_TYPE" }, type.indexType);
+}
+
+type ConditionalVisitorsT = SimpleTypePathStepVisitors["CONDITIONAL"];
+class ConditionalVisitors implements ConditionalVisitorsT {
+	static instance = new this();
+
+	checkType: GenericVisitor<SimpleTypeConditional, SimpleTypePathStepCheckType> = ({ visit, type }) => visit({ from: type, step: "CHECK_TYPE" }, type.checkType);
+	extendsType: GenericVisitor<SimpleTypeConditional, SimpleTypePathStepExtendsType> = ({ visit, type }) => visit({ from: type, step: "EXTENDS_TYPE" }, type.extendsType);
+	trueType: GenericVisitor<SimpleTypeConditional, SimpleTypePathStepTrueType> = ({ visit, type }) => visit({ from: type, step: "TRUE_TYPE" }, type.trueType);
+	falseType: GenericVisitor<SimpleTypeConditional, SimpleTypePathStepFalseType> = ({ visit, type }) => visit({ from: type, step: "FALSE_TYPE" }, type.falseType);
+}
+
 const KindVisitors = {
 	ENUM: VariantTypesVisitors.instance,
 	UNION: VariantTypesVisitors.instance,
@@ -327,7 +404,14 @@ const KindVisitors = {
 	ALIAS: AliasVisitorsImpl.instance,
 	ARRAY: ArrayVisitors.instance,
 	PROMISE: PromiseVisitors.instance,
-	ENUM_MEMBER: EnumMemberVisitors.instance
+	MAP: MapVisitors.instance,
+	SET: SetVisitors.instance,
+	ENUM_MEMBER: EnumMemberVisitors.instance,
+	TEMPLATE_LITERAL: TemplateLiteralVisitors.instance,
+	STRING_MAPPING: TypeOperatorVisitors.instance,
+	INDEX: TypeOperatorVisitors.instance,
+	INDEXED_ACCESS: IndexedAccessVisitors.instance,
+	CONDITIONAL: ConditionalVisitors.instance
 };
 
 type Assert<T, U extends T> = U;
@@ -0,0 +1,118 @@
+import test from "ava";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { CliIO, DEFAULT_CLI_CONFIG_FILE_NAME, runCli } from "../src/cli";
+import { DEFAULT_MANIFEST_FILE_NAME } from "../src/transform/emit-compiler-output";
+
+const API_TS = `
+import { Address } from "./address";
+
+export interface User {
+	id: string
+	name: string
+	address?: Address
+}
+
+export { Address };
+
+export const defaultUser = { id: "0", name: "nobody" };
+`;
+
+// Declared on the first line, which is line 1 in source maps.
+const ADDRESS_TS = `export interface Address {
+	city: string
+}
+`;
+
+function withProject(fn: (projectDir: string) => void) {
+	const projectDir = fs.mkdtempSync(path.join(os.tmpdir(), "ts-simple-type-cli-"));
+	try {
+		fs.mkdirSync(path.join(projectDir, "src"));
+		fs.writeFileSync(path.join(projectDir, "src/api.ts"), API_TS);
+		fs.writeFileSync(path.join(projectDir, "src/address.ts"), ADDRESS_TS);
+		fs.writeFileSync(path.join(projectDir, "tsconfig.json"), JSON.stringify({ include: ["src"], compilerOptions: { strict: true } }));
+		fn(projectDir);
+	} finally {
+		fs.rmSync(projectDir, { recursive: true, force: true });
+	}
+}
+
+function run(cwd: string, argv: string[]) {
+	const result = { exitCode: 0, stdout: "", stderr: "" };
+	const io: CliIO = {
+		cwd,
+		stdout: text => (result.stdout += text),
+		stderr: text => (result.stderr += text)
+	};
+	result.exitCode = runCli(argv, io);
+	return result;
+}
+
+test("runCli: compiles entries from the command line", ctx => {
+	withProject(projectDir => {
+		const result = run(projectDir, ["compile", "--project", "tsconfig.json", "--target", "proto3", "--entry", "src/api.ts#User", "--out", "gen/"]);
+		ctx.is(result.stderr, "");
+		ctx.is(result.exitCode, 0);
+		ctx.deepEqual(fs.readdirSync(path.join(projectDir, "gen")).sort(), [DEFAULT_MANIFEST_FILE_NAME, "api.proto", "api.proto.map"]);
+
+		const proto = fs.readFileSync(path.join(projectDir, "gen/api.proto"), "utf8");
+		ctx.regex(proto, /message User \{/);
+		ctx.regex(proto, /message Address \{/);
+
+		const check = run(projectDir, ["compile", "-p", ".", "-t", "proto3", "-e", "src/api.ts#User", "-o", "gen", "--check"]);
+		ctx.is(check.exitCode, 0);
+		ctx.is(check.stdout, "gen is up to date\n");
+	});
+});
+
+test("runCli: compiles entries from a config file", ctx => {
+	withProject(projectDir => {
+		fs.writeFileSync(
+			path.join(projectDir, DEFAULT_CLI_CONFIG_FILE_NAME),
+			JSON.stringify({
+				project: "tsconfig.json",
+				target: "typescript",
+				outDir: "gen",
+				sourceMaps: false,
+				entries: {
+					"src/api.ts#User": { fileName: "models/user.d.ts" },
+					"src/api.ts#Address": "models/address.d.ts",
+					"src/api.ts#defaultUser": "defaults.d.ts"
+				}
+			})
+		);
+
+		const result = run(projectDir, ["compile"]);
+		ctx.is(result.stderr, "");
+		ctx.is(result.exitCode, 0);
+		ctx.deepEqual(fs.readdirSync(path.join(projectDir, "gen/models")).sort(), ["address.d.ts", "user.d.ts"]);
+		ctx.regex(fs.readFileSync(path.join(projectDir, "gen/models/user.d.ts"), "utf8"), /interface User/);
+		ctx.regex(fs.readFileSync(path.join(projectDir, "gen/defaults.d.ts"), "utf8"), /name: string;/);
+
+		fs.appendFileSync(path.join(projectDir, "gen/models/user.d.ts"), "// edited\n");
+		const check = run(projectDir, ["compile", "--check"]);
+		ctx.is(check.exitCode, 1);
+		ctx.is(check.stderr, "gen is out of date:\n  models/user.d.ts: changed\n");
+	});
+});
+
+test("runCli: reports usage errors and missing exports", ctx => {
+	withProject(projectDir => {
+		const help = run(projectDir, ["--help"]);
+		ctx.is(help.exitCode, 0);
+		ctx.regex(help.stdout, /^Usage: ts-simple-type compile/);
+
+		const unknownTarget = run(projectDir, ["compile", "--target", "cobol", "--entry", "src/api.ts#User", "--out", "gen"]);
+		ctx.is(unknownTarget.exitCode, 1);
+		ctx.regex(unknownTarget.stderr, /^Unknown target: cobol\n\nUsage:/);
+
+		const badEntry = run(projectDir, ["compile", "--target", "proto3", "--entry", "src/api.ts", "--out", "gen"]);
+		ctx.regex(badEntry.stderr, /^Invalid entry "src\/api.ts"/);
+
+		const missingExport = run(projectDir, ["compile", "--project", ".", "--target", "proto3", "--entry", "src/api.ts#Missing", "--out", "gen"]);
+		ctx.is(missingExport.exitCode, 1);
+		ctx.is(missingExport.stderr, `${path.join(projectDir, "src/api.ts")} has no export named Missing\n`);
+		ctx.false(fs.existsSync(path.join(projectDir, "gen")));
+	});
+});
@@ -1,11 +1,33 @@
 import test from "ava";
-import { RawSourceMap } from "source-map";
-import { SimpleType, SimpleTypePath, SimpleTypePathStepNamedMember, Visitor } from "../src";
+import * as path from "path";
+import { RawSourceMap, SourceMapConsumer } from "source-map";
+import * as ts from "typescript";
+import { SimpleType, SimpleTypePath, SimpleTypePathStepNamedMember, t, Visitor } from "../src";
+import { AvroCompilerTarget } from "../src/compile-to/avro";
+import { FastCheckCompilerTarget } from "../src/compile-to/fast-check";
+import { GoCompilerTarget } from "../src/compile-to/go";
+import { GraphQLCompilerTarget, GraphQLTypeKind } from "../src/compile-to/graphql";
 import { JSONSchemaCompilerTarget } from "../src/compile-to/json-schema";
+import { KotlinCompilerTarget } from "../src/compile-to/kotlin";
+import { OpenAPICompilerTarget } from "../src/compile-to/openapi";
 import { PythonCompilerTarget } from "../src/compile-to/python3";
+import { RustCompilerTarget } from "../src/compile-to/rust";
+import { SwiftCompilerTarget } from "../src/compile-to/swift";
 import { ThriftCompilerTarget } from "../src/compile-to/thrift";
+import { TypeScriptCompilerTarget } from "../src/compile-to/typescript";
 import { Proto3CompilerTarget } from "../src/compile-to/proto3";
-import { SimpleTypeCompiler, SimpleTypeCompilerDeclarationLocation, SimpleTypeCompilerLocation, SimpleTypeCompilerNode, SimpleTypeCompilerTarget } from "../src/transform/compiler";
+import { ValidatorCompilerTarget } from "../src/compile-to/validator";
+import { ZodCompilerTarget } from "../src/compile-to/zod";
+import {
+	SimpleTypeCompiler,
+	SimpleTypeCompilerDeclarationLocation,
+	SimpleTypeCompilerHook,
+	SimpleTypeCompilerLocation,
+	SimpleTypeCompilerNode,
+	SimpleTypeCompilerTarget,
+	simpleTypeCompilerDiagnosticToString
+} from "../src/transform/compiler";
+import { programWithVirtualFiles } from "./helpers/analyze-text";
 import { getTestTypes } from "./helpers/get-test-types";
 
 const EXAMPLE_TS = `
@@ -93,6 +115,22 @@ test("Show input Typescript used in tests", ctx => {
 	ctx.snapshot(location.sourceMap.sourceContent, "test.ts");
 });
 
+test("SimpleTypeCompiler: source maps point at one-based lines of the declarations", async ctx => {
+	const source = `export interface First {\n\tname: string\n}\n\nexport interface Second {\n\tfirst: First\n}\n`;
+	const { types, typeChecker } = getTestTypes(["Second"], source);
+	const compiler = TypeScriptCompilerTarget.createCompiler(typeChecker);
+	const output = compiler.compileProgram([{ inputType: types.Second, outputLocation: { fileName: "types.d.ts" } }]).files.get("types.d.ts")!;
+
+	const generatedLines = output.text.split("\n");
+	const originalLines = await SourceMapConsumer.with(output.sourceMap.toJSON(), null, consumer =>
+		["export interface First", "export interface Second"].map(declaration => {
+			const line = generatedLines.findIndex(text => text.startsWith(declaration)) + 1;
+			return consumer.originalPositionFor({ line, column: 0 }).line;
+		})
+	);
+	ctx.deepEqual(originalLines, [1, 5]);
+});
+
 test("compile-to/python3: compile test.ts to Python with custom declaration routing", ctx => {
 	const { types, typeChecker } = getTestTypes(["Document"], EXAMPLE_TS);
 
@@ -252,6 +290,1038 @@ test("compile-to/proto3: Compile test.ts to Proto3", ctx => {
 	ctx.snapshot(outputs.files.size, "output count");
 });
 
+test("compile-to/zod: Compile test.ts to Zod with imports between files", ctx => {
+	const { types, typeChecker } = getTestTypes(["Document"], EXAMPLE_TS);
+
+	class TestZodTarget extends ZodCompilerTarget implements SimpleTypeCompilerTarget {
+		suggestDeclarationLocation(type: SimpleType, from: SimpleTypeCompilerLocation): SimpleTypeCompilerLocation | SimpleTypeCompilerDeclarationLocation {
+			if (!type.name) {
+				return {
+					fileName: "zod/generated/anonymous.ts"
+				};
+			}
+			return from;
+		}
+	}
+
+	const compiler = TestZodTarget.createCompiler(typeChecker);
+
+	const outputs = compiler.compileProgram([
+		{
+			inputType: types.Document,
+			outputLocation: {
+				fileName: "zod/document.ts"
+			}
+		}
+	]);
+
+	for (const [fileName, output] of outputs.files) {
+		ctx.snapshot(output.text, fileName);
+		const map = output.sourceMap.toJSON();
+		const snapshotSourceMap: RawSourceMap = {
+			...map,
+			sources: map.sources.map((s, i) => `source ${i}`),
+			sourcesContent: map.sourcesContent?.map((s, i) => `source ${i}: length ${s?.length}`)
+		};
+		ctx.snapshot(snapshotSourceMap, `${fileName}.map`);
+	}
+
+	ctx.snapshot(outputs.files.size, "output count");
+});
+
+test("compile-to/zod: Recursive union aliases are annotated as ZodTypeAny", ctx => {
+	for (const entryPoint of ["Expr", "Doc"] as const) {
+		const { types, typeChecker } = getTestTypes(["Expr", "Doc"], EXPR_TS);
+		const compiler = ZodCompilerTarget.createCompiler(typeChecker);
+		const { text } = compiler.compileProgram([{ inputType: types[entryPoint], outputLocation: { fileName: "expr.ts" } }]).files.get("expr.ts")!;
+
+		ctx.is(text.match(/export const Expr\b/g)?.length, 1);
+		ctx.regex(text, /export const Expr: z\.ZodTypeAny = z\.union\(\[z\.lazy\(\(\) => ExprNum\), z\.lazy\(\(\) => ExprAdd\)\]\);/);
+		ctx.regex(text, /export const ExprAdd = z\.object\(\{\n  kind: z\.literal\("add"\),\n  left: z\.lazy\(\(\) => Expr\),/);
+	}
+});
+
+test("compile-to/validator: Compile test.ts to validators", ctx => {
+	const { types, typeChecker } = getTestTypes(["Document"], EXAMPLE_TS);
+	const compiler = ValidatorCompilerTarget.createCompiler(typeChecker);
+	const outputs = compiler.compileProgram([{ inputType: types.Document, outputLocation: { fileName: "validators/document.ts" } }]);
+
+	for (const [fileName, output] of outputs.files) {
+		ctx.snapshot(output.text, fileName);
+	}
+});
+
+const VALIDATOR_TS = `
+export type Json = string | number | boolean | null | Json[] | { [key: string]: Json }
+
+export interface Tree {
+	label: string
+	"data-id"?: number
+	children: Tree[]
+	meta: Json
+}
+`;
+
+test("compile-to/validator: Generated validators type-check and report JSON paths", ctx => {
+	const { types, typeChecker } = getTestTypes(["Tree", "Json"], VALIDATOR_TS);
+	const compiler = ValidatorCompilerTarget.createCompiler(typeChecker);
+	const outputs = compiler.compileProgram([
+		{ inputType: types.Tree, outputLocation: { fileName: "validators.ts" } },
+		{ inputType: types.Json, outputLocation: { fileName: "validators.ts" } }
+	]);
+	const { text } = outputs.files.get("validators.ts")!;
+
+	const program = programWithVirtualFiles(
+		[
+			{ fileName: "test.ts", text: VALIDATOR_TS },
+			{ fileName: "validators.ts", text, entry: true }
+		],
+		{ includeLib: true }
+	);
+	ctx.deepEqual(
+		ts.getPreEmitDiagnostics(program).map(diagnostic => ts.flattenDiagnosticMessageText(diagnostic.messageText, "\n")),
+		[]
+	);
+
+	const exports: Record<string, any> = {};
+	new Function("exports", ts.transpileModule(text, { compilerOptions: { module: ts.ModuleKind.CommonJS, target: ts.ScriptTarget.ES2019 } }).outputText)(exports);
+
+	const tree = { label: "root", children: [{ label: "leaf", "data-id": 1, children: [], meta: { tags: ["a", 1, null] } }], meta: null };
+	ctx.true(exports.isTree(tree));
+	ctx.notThrows(() => exports.assertTree(tree));
+
+	const invalid = { label: "root", children: [{ label: 1, "data-id": "1", children: [], meta: { tags: [undefined] } }] };
+	const error = ctx.throws(() => exports.assertTree(invalid), { instanceOf: TypeError }) as TypeError & { errors: unknown[] };
+	ctx.deepEqual(error.errors, [
+		{ path: "$.children[0].label", message: "expected string, got number" },
+		{ path: '$.children[0]["data-id"]', message: "expected number | undefined, got string" },
+		{ path: "$.children[0].meta.tags[0]", message: "expected Json, got undefined" },
+		{ path: "$.meta", message: "is required" }
+	]);
+	ctx.false(exports.isJson({ nested: [1, () => 2] }));
+});
+
+test("compile-to/validator: Source types are imported relative to the output root", ctx => {
+	const { types, typeChecker } = getTestTypes(["Tree"], VALIDATOR_TS);
+	const compiler = ValidatorCompilerTarget.createCompiler(typeChecker, { outputRoot: path.join(process.cwd(), "generated") });
+	const outputs = compiler.compileProgram([{ inputType: types.Tree, outputLocation: { fileName: "validators/tree.ts" } }]);
+	ctx.regex(outputs.files.get("validators/tree.ts")!.text, /^import type \{ Json, Tree \} from "\.\.\/\.\.\/test";$/m);
+});
+
+const GRAPHQL_TS = `
+export enum PostStatus {
+	Draft = "draft",
+	/** Visible to everyone */
+	Published = "published"
+}
+
+interface TextBlock {
+	text: string
+}
+
+interface ImageBlock {
+	url: URL
+	/** Alt text
+	 * for screen readers */
+	alt?: string
+}
+
+export interface PostMetadata {
+	wordCount: number
+	views: 1 | 10 | 100
+}
+
+/** An article written by a user */
+export interface Post {
+	id: string
+	status: PostStatus
+	tags: string[]
+	blocks: Array<TextBlock | ImageBlock>
+	metadata: PostMetadata
+	author: User
+}
+
+type Role = "ADMIN" | "EDITOR"
+
+/** Someone who can log in */
+export interface User {
+	id: string
+	email: string | null
+	role: Role
+	createdAt: Date
+	/** @deprecated Use posts instead */
+	articles?: Post[]
+	posts(first: number, after?: string): Promise<Post[]>
+}
+
+export interface CreatePostInput {
+	status: PostStatus
+	tags: string[]
+	metadata?: PostMetadata
+}
+`;
+
+test("compile-to/graphql: Compile test.ts to GraphQL with input entry points", ctx => {
+	class InputGraphQLCompilerTarget extends GraphQLCompilerTarget {
+		getEntryPointKind(type: SimpleType, location: SimpleTypeCompilerDeclarationLocation): GraphQLTypeKind {
+			return location.name.endsWith("Input") ? "input" : "type";
+		}
+	}
+
+	const { types, typeChecker } = getTestTypes(["User", "CreatePostInput"], GRAPHQL_TS);
+	const compiler = InputGraphQLCompilerTarget.createCompiler(typeChecker);
+	const outputs = compiler.compileProgram([
+		{ inputType: types.User, outputLocation: { fileName: "schema.graphql" } },
+		{ inputType: types.CreatePostInput, outputLocation: { fileName: "inputs.graphql" } }
+	]);
+
+	for (const [fileName, output] of outputs.files) {
+		ctx.snapshot(output.text, fileName);
+	}
+});
+
+test("compile-to/graphql: Object unions can't be inputs", ctx => {
+	const { types, typeChecker } = getTestTypes(["Post"], GRAPHQL_TS);
+	let target!: GraphQLCompilerTarget;
+	const compiler = new SimpleTypeCompiler(typeChecker, compiler => (target = new GraphQLCompilerTarget(compiler)));
+	const inputType = target.toInputType(compiler.toSimpleType(types.Post));
+	ctx.throws(() => compiler.compileProgram([{ inputType, outputLocation: { fileName: "schema.graphql" } }]), { message: /GraphQL input types can't be unions/ });
+});
+
+test("compile-to/graphql: Fields that return nothing return a nullable Boolean", ctx => {
+	const { types, typeChecker } = getTestTypes(
+		["Mutation"],
+		`
+export interface Mutation {
+	ping(): void
+	archive(id: string): Promise<void>
+	clear(): undefined
+}
+`
+	);
+	const compiler = GraphQLCompilerTarget.createCompiler(typeChecker);
+	const outputs = compiler.compileProgram([{ inputType: types.Mutation, outputLocation: { fileName: "schema.graphql" } }]);
+	ctx.regex(outputs.files.get("schema.graphql")!.text, /type Mutation \{\n  ping: Boolean\n  archive\(id: String!\): Boolean\n  clear: Boolean\n\}/);
+});
+
+const OPENAPI_TS = `
+export interface User {
+	id: string
+	name: string
+	/** Where to send notifications */
+	email: string | null
+	friends: User[]
+}
+
+export type CreateUser = Pick<User, "name" | "email">
+
+interface Page<T> {
+	items: T[]
+	next?: string
+}
+
+/**
+ * User directory
+ * @version 1.2.0
+ */
+export interface Routes {
+	/**
+	 * Look up a user by ID
+	 * @operationId getUser
+	 * @returns The user
+	 */
+	"GET /users/{id}"(id: string): Promise<User>
+	"GET /users"(limit?: number, cursor?: string): Promise<Page<User>>
+	"POST /users"(user: CreateUser): Promise<User>
+	/** @deprecated */
+	"DELETE /users/{id}"(id: string): Promise<void>
+}
+`;
+
+function collectRefs(value: unknown, refs: string[] = []): string[] {
+	if (Array.isArray(value)) {
+		value.forEach(item => collectRefs(item, refs));
+	} else if (value && typeof value === "object") {
+		for (const [key, child] of Object.entries(value)) {
+			if (key === "$ref" && typeof child === "string") {
+				refs.push(child);
+			} else {
+				collectRefs(child, refs);
+			}
+		}
+	}
+	return refs;
+}
+
+test("compile-to/openapi: Compile a route table to an OpenAPI document", ctx => {
+	const { types, typeChecker } = getTestTypes(["Routes"], OPENAPI_TS);
+	const compiler = OpenAPICompilerTarget.createCompiler(typeChecker);
+	const outputs = compiler.compileProgram([{ inputType: types.Routes, outputLocation: { fileName: "openapi.json" } }]);
+	ctx.deepEqual(Array.from(outputs.files.keys()), ["openapi.json"]);
+
+	const { text } = outputs.files.get("openapi.json")!;
+	ctx.snapshot(text, "openapi.json");
+
+	const document = JSON.parse(text);
+	ctx.deepEqual(Object.keys(document.components.schemas).sort(), ["CreateUser", "User"]);
+	for (const ref of collectRefs(document)) {
+		const [fileName, pointer] = ref.split("#");
+		ctx.is(fileName, "");
+		ctx.truthy(
+			pointer
+				.split("/")
+				.slice(1)
+				.reduce((parent, key) => parent?.[key], document),
+			`${ref} should resolve`
+		);
+	}
+});
+
+const AVRO_TS = `
+/** How the event was produced */
+type Source = "web" | "ios" | "android"
+
+interface Device {
+	id: string
+	source: Source
+}
+
+/** A page view */
+export interface PageView {
+	url: string
+	at: Date
+	/** Previous page, if any */
+	referrer?: string
+	device: Device
+	previousDevice: Device | null
+	sources: Source[]
+	tags: Map<string, string>
+	sessionId: string | null
+}
+`;
+
+test("compile-to/avro: Compile test.ts to Avro with named types declared once", ctx => {
+	const { types, typeChecker } = getTestTypes(["PageView"], AVRO_TS);
+	const compiler = AvroCompilerTarget.createCompiler(typeChecker);
+	const outputs = compiler.compileProgram([{ inputType: types.PageView, outputLocation: { fileName: "events.avsc", namespace: ["com", "example", "events"] } }]);
+	const { text } = outputs.files.get("events.avsc")!;
+	ctx.snapshot(text, "events.avsc");
+
+	const schema = JSON.parse(text);
+	ctx.is(schema.type, "record");
+	ctx.is(schema.name, "PageView");
+	ctx.is(schema.namespace, "com.example.events");
+
+	const fields = Object.fromEntries(schema.fields.map((field: { name: string }) => [field.name, field]));
+	ctx.deepEqual(fields.at.type, { type: "long", logicalType: "timestamp-millis" });
+	ctx.deepEqual(fields.referrer, { name: "referrer", doc: "Previous page, if any", type: ["null", "string"], default: null });
+	ctx.is(fields.device.type.type, "record");
+	ctx.deepEqual(fields.device.type.fields[1].type, { type: "enum", name: "Source", namespace: "com.example.events", doc: "How the event was produced", symbols: ["web", "ios", "android"] });
+	ctx.deepEqual(fields.previousDevice.type, ["null", "com.example.events.Device"]);
+	ctx.deepEqual(fields.sources.type, { type: "array", items: "com.example.events.Source" });
+	ctx.deepEqual(fields.tags.type, { type: "map", values: "string" });
+});
+
+test("compile-to/avro: Compile string index signatures to maps and skip methods", ctx => {
+	const { types, typeChecker } = getTestTypes(
+		["Counters"],
+		`
+export interface Counters {
+	byName: Record<string, number>
+	labels: { [key: string]: string }
+	total(): number
+}
+`
+	);
+	const compiler = AvroCompilerTarget.createCompiler(typeChecker);
+	const outputs = compiler.compileProgram([{ inputType: types.Counters, outputLocation: { fileName: "counters.avsc" } }]);
+	const schema = JSON.parse(outputs.files.get("counters.avsc")!.text);
+	ctx.deepEqual(schema, {
+		type: "record",
+		name: "Counters",
+		fields: [
+			{ name: "byName", type: { type: "map", values: "double" } },
+			{ name: "labels", type: { type: "map", values: "string" } }
+		]
+	});
+});
+
+test("compile-to/avro: Union branches of the same type are merged, and repeated arrays are an error", ctx => {
+	const { types, typeChecker } = getTestTypes(
+		["Reading", "Mixed"],
+		`
+export interface Reading {
+	level: 1 | 2
+	value: number | bigint | null
+}
+
+export interface Mixed {
+	values: string[] | number[]
+}
+`
+	);
+	const compiler = AvroCompilerTarget.createCompiler(typeChecker);
+	const outputs = compiler.compileProgram([{ inputType: types.Reading, outputLocation: { fileName: "reading.avsc" } }]);
+	const schema = JSON.parse(outputs.files.get("reading.avsc")!.text);
+	ctx.deepEqual(schema.fields, [
+		{ name: "level", type: "long" },
+		{ name: "value", type: ["null", "double", "long"], default: null }
+	]);
+
+	const error = ctx.throws(() => AvroCompilerTarget.createCompiler(typeChecker).compileProgram([{ inputType: types.Mixed, outputLocation: { fileName: "mixed.avsc" } }]));
+	ctx.regex(error.message, /Avro unions can't contain more than one array/);
+});
+
+test("compile-to/avro: Recursive union entry points repeat the union where they refer to themselves", ctx => {
+	const { types, typeChecker } = getTestTypes(["Expr"], EXPR_TS);
+	const compiler = AvroCompilerTarget.createCompiler(typeChecker);
+	const outputs = compiler.compileProgram([{ inputType: types.Expr, outputLocation: { fileName: "expr.avsc" } }]);
+	const [num, add] = JSON.parse(outputs.files.get("expr.avsc")!.text);
+
+	ctx.is(num.name, "ExprNum");
+	ctx.is(add.name, "ExprAdd");
+	ctx.deepEqual(add.fields[1], { name: "left", type: ["ExprNum", "ExprAdd"] });
+});
+
+const RUST_TS = `
+type Status = "active" | "in-progress" | "done"
+
+/** A drawable shape */
+type Shape =
+	| { kind: "circle"; radius: number }
+	| { kind: "rectangle"; width: number; height: number }
+	| { kind: "point" }
+
+/** A tree of tasks */
+export interface Task {
+	taskId: string
+	status: Status
+	/** Due date, if scheduled */
+	dueAt?: Date
+	parent: Task | null
+	subtasks: Task[]
+	dependencies: Map<string, Task>
+	shape: Shape
+	estimate: number | string
+	type: string
+	labels: Record<string, string>
+}
+`;
+
+test("compile-to/rust: Compile test.ts to Rust with serde attributes", ctx => {
+	const { types, typeChecker } = getTestTypes(["Task"], RUST_TS);
+	const compiler = RustCompilerTarget.createCompiler(typeChecker);
+	const outputs = compiler.compileProgram([{ inputType: types.Task, outputLocation: { fileName: "models/task.rs" } }]);
+	const { text } = outputs.files.get("models/task.rs")!;
+	ctx.snapshot(text, "models/task.rs");
+
+	ctx.regex(text, /#\[serde\(rename = "taskId"\)\]\n    pub task_id: String,/);
+	ctx.regex(text, /#\[serde\(rename = "dueAt", default, skip_serializing_if = "Option::is_none"\)\]\n    pub due_at: Option<String>,/);
+	ctx.regex(text, /pub parent: Option<Box<Task>>,/);
+	ctx.regex(text, /pub subtasks: Vec<Task>,/);
+	ctx.regex(text, /pub dependencies: std::collections::HashMap<String, Task>,/);
+	ctx.regex(text, /pub r#type: String,/);
+	ctx.regex(text, /#\[serde\(tag = "kind"\)\]\npub enum Shape \{/);
+	ctx.regex(text, /#\[serde\(rename = "in-progress"\)\]\n    InProgress,/);
+	ctx.regex(text, /#\[serde\(untagged\)\]/);
+});
+
+const EXPR_TS = `
+/** An arithmetic expression */
+export type Expr = { kind: "num"; value: number } | { kind: "add"; left: Expr; right: Expr }
+
+export interface Doc {
+	root: Expr
+}
+`;
+
+test("compile-to/rust: Recursive tagged unions box their self-references", ctx => {
+	for (const entryPoint of ["Expr", "Doc"] as const) {
+		const { types, typeChecker } = getTestTypes(["Expr", "Doc"], EXPR_TS);
+		const compiler = RustCompilerTarget.createCompiler(typeChecker);
+		const { text } = compiler.compileProgram([{ inputType: types[entryPoint], outputLocation: { fileName: "expr.rs" } }]).files.get("expr.rs")!;
+
+		ctx.regex(text, /#\[serde\(tag = "kind"\)\]\npub enum Expr \{/);
+		ctx.regex(text, /    Add \{\n        left: Box<Expr>,\n        right: Box<Expr>,\n    \},/);
+	}
+});
+
+test("compile-to/rust: Number map keys and set elements compile to i64, and unhashable ones are an error", ctx => {
+	const { types, typeChecker } = getTestTypes(
+		["Histogram", "Shapes"],
+		`
+type Color = "red" | "green"
+
+export interface Histogram {
+	countsByBucket: Map<number, number>
+	seen: Set<number>
+	colors: Set<Color>
+}
+
+export interface Shapes {
+	points: Set<{ x: number; y: number }>
+}
+`
+	);
+	const compiler = RustCompilerTarget.createCompiler(typeChecker);
+	const { text } = compiler.compileProgram([{ inputType: types.Histogram, outputLocation: { fileName: "histogram.rs" } }]).files.get("histogram.rs")!;
+	ctx.regex(text, /pub counts_by_bucket: std::collections::HashMap<i64, f64>,/);
+	ctx.regex(text, /pub seen: std::collections::HashSet<i64>,/);
+	ctx.regex(text, /pub colors: std::collections::HashSet<Color>,/);
+
+	const error = ctx.throws(() => RustCompilerTarget.createCompiler(typeChecker).compileProgram([{ inputType: types.Shapes, outputLocation: { fileName: "shapes.rs" } }]));
+	ctx.regex(error.message, /Rust HashMap keys and HashSet elements must be Hash and Eq: \{ x: number; y: number; \}/);
+});
+
+const GO_TS = `
+type Priority = "low" | "high"
+
+export interface User {
+	userId: string
+	nickname?: string
+}
+
+/** A unit of work */
+export interface WorkItem {
+	title: string
+	priority: Priority
+	/** Who is working on it */
+	assignee: User | null
+	watchers: User[]
+	dueAt?: Date
+	estimate: number | null
+	notes: string[] | null
+	labels: { [key: string]: string }
+	/** Hours logged, by day of the month */
+	hoursByDay: Map<number, number>
+}
+`;
+
+test("compile-to/go: Compile test.ts to Go packages with json tags", ctx => {
+	const { types, typeChecker } = getTestTypes(["User", "WorkItem"], GO_TS);
+	const compiler = GoCompilerTarget.createCompiler(typeChecker, { modulePath: "example.com/app" });
+	const outputs = compiler.compileProgram([
+		{ inputType: types.User, outputLocation: { fileName: "accounts/user.go" } },
+		{ inputType: types.WorkItem, outputLocation: { fileName: "work/item.go" } }
+	]);
+	for (const [fileName, output] of outputs.files) {
+		ctx.snapshot(output.text, fileName);
+	}
+
+	const item = outputs.files.get("work/item.go")!.text;
+	ctx.regex(item, /^package work\n\nimport \(\n\t"example.com\/app\/accounts"\n\t"time"\n\)/);
+	ctx.regex(item, /\tAssignee \*accounts\.User `json:"assignee"`/);
+	ctx.regex(item, /\tWatchers \[\]accounts\.User `json:"watchers"`/);
+	ctx.regex(item, /\tDueAt \*time\.Time `json:"dueAt,omitempty"`/);
+	ctx.regex(item, /\tEstimate \*float64 `json:"estimate"`/);
+	ctx.regex(item, /\tNotes \[\]string `json:"notes"`/);
+	ctx.regex(item, /\tLabels map\[string\]string `json:"labels"`/);
+	ctx.regex(item, /\tHoursByDay map\[int64\]float64 `json:"hoursByDay"`/);
+	ctx.regex(item, /\tPriorityHigh Priority = "high"/);
+	ctx.regex(outputs.files.get("accounts/user.go")!.text, /\tNickname \*string `json:"nickname,omitempty"`/);
+});
+
+const MOBILE_TS = `
+type Visibility = "public" | "followers-only"
+
+/** A file attached to a comment */
+type Attachment =
+	| { type: "image"; url: string; altText?: string }
+	| { type: "link"; url: string; title: string | null }
+	| { type: "poll-closed" }
+
+/** A threaded comment */
+export interface Comment {
+	commentId: string
+	visibility: Visibility
+	body: string
+	/** When the comment was last edited */
+	editedAt?: Date
+	parent: Comment | null
+	replies: Comment[]
+	attachments: Attachment[]
+	score: number | string
+	"content-type": string
+	default: boolean
+}
+`;
+
+test("compile-to/kotlin: Compile test.ts to kotlinx.serialization classes", ctx => {
+	const { types, typeChecker } = getTestTypes(["Comment"], MOBILE_TS);
+	const compiler = KotlinCompilerTarget.createCompiler(typeChecker);
+	const outputs = compiler.compileProgram([{ inputType: types.Comment, outputLocation: { fileName: "com/example/Comment.kt" } }]);
+	const { text } = outputs.files.get("com/example/Comment.kt")!;
+	ctx.snapshot(text, "com/example/Comment.kt");
+
+	ctx.regex(text, /^package com\.example\n\nimport kotlinx\.serialization\.ExperimentalSerializationApi\n/);
+	ctx.regex(text, /@Serializable\ndata class Comment\(/);
+	ctx.regex(text, /    val editedAt: String\? = null,/);
+	ctx.regex(text, /    val parent: Comment\?,/);
+	ctx.regex(text, /    @SerialName\("content-type"\) val contentType: String,/);
+	ctx.regex(text, /    val default: Boolean,/);
+	ctx.regex(text, /enum class Visibility \{\n    @SerialName\("public"\) PUBLIC,\n    @SerialName\("followers-only"\) FOLLOWERS_ONLY,/);
+	ctx.regex(text, /@JsonClassDiscriminator\("type"\)\nsealed class Attachment \{/);
+	ctx.regex(text, /    @SerialName\("poll-closed"\)\n    object PollClosed : Attachment\(\)/);
+	ctx.regex(text, /    val score: JsonElement,/);
+});
+
+test("compile-to/kotlin: Recursive tagged unions compile to sealed classes that refer to themselves", ctx => {
+	for (const entryPoint of ["Expr", "Doc"] as const) {
+		const { types, typeChecker } = getTestTypes(["Expr", "Doc"], EXPR_TS);
+		const compiler = KotlinCompilerTarget.createCompiler(typeChecker);
+		const { text } = compiler.compileProgram([{ inputType: types[entryPoint], outputLocation: { fileName: "com/example/Expr.kt" } }]).files.get("com/example/Expr.kt")!;
+
+		ctx.regex(text, /@JsonClassDiscriminator\("kind"\)\nsealed class Expr \{/);
+		ctx.regex(text, /    data class Add\(\n        val left: Expr,\n        val right: Expr,\n    \) : Expr\(\)/);
+	}
+});
+
+test("compile-to/swift: Compile test.ts to Codable types", ctx => {
+	const { types, typeChecker } = getTestTypes(["Comment"], MOBILE_TS);
+	const compiler = SwiftCompilerTarget.createCompiler(typeChecker);
+	const outputs = compiler.compileProgram([{ inputType: types.Comment, outputLocation: { fileName: "Models/Comment.swift" } }]);
+	const { text } = outputs.files.get("Models/Comment.swift")!;
+	ctx.snapshot(text, "Models/Comment.swift");
+
+	ctx.regex(text, /^import Foundation\n/);
+	ctx.regex(text, /final class Comment: Codable \{/);
+	ctx.regex(text, /    let editedAt: String\?/);
+	ctx.regex(text, /    let parent: Comment\?/);
+	ctx.regex(text, /        case contentType = "content-type"/);
+	ctx.regex(text, /    let `default`: Bool/);
+	ctx.regex(text, /enum Visibility: String, Codable \{\n    case `public`\n    case followersOnly = "followers-only"\n\}/);
+	ctx.regex(text, /enum Attachment: Codable \{\n    case image\(Image\)\n    case link\(Link\)\n    case pollClosed\n/);
+	ctx.regex(text, /        case "poll-closed": self = \.pollClosed/);
+	ctx.regex(text, /enum StringOrNumber: Codable \{\n    case string\(String\)\n    case number\(Double\)/);
+});
+
+test("compile-to/swift: Recursive tagged unions compile to indirect enums", ctx => {
+	for (const entryPoint of ["Expr", "Doc"] as const) {
+		const { types, typeChecker } = getTestTypes(["Expr", "Doc"], EXPR_TS);
+		const compiler = SwiftCompilerTarget.createCompiler(typeChecker);
+		const { text } = compiler.compileProgram([{ inputType: types[entryPoint], outputLocation: { fileName: "Models/Expr.swift" } }]).files.get("Models/Expr.swift")!;
+
+		ctx.regex(text, /^indirect enum Expr: Codable \{\n    case num\(Num\)\n    case add\(Add\)\n/m);
+		ctx.regex(text, /    struct Add: Codable \{\n        let left: Expr\n        let right: Expr\n    \}/);
+	}
+});
+
+const PYDANTIC_TS = `
+/** A node in an org chart */
+export interface Employee {
+	name: string
+	"employee-id": string
+	class: string
+	manager?: Employee
+	reports: Employee[]
+	role: Role
+	greet(): string
+}
+
+type Role =
+	| { kind: "engineer"; level: number }
+	| { kind: "manager"; headcount: number }
+`;
+
+test("compile-to/python3: Literal types import typing", ctx => {
+	const { types, typeChecker } = getTestTypes(
+		["Circle"],
+		`
+export interface Circle {
+	kind: "circle"
+	radius: number
+}
+`
+	);
+	const compiler = PythonCompilerTarget.createCompiler(typeChecker);
+	const { text } = compiler.compileProgram([{ inputType: types.Circle, outputLocation: { fileName: "circle.py" } }]).files.get("circle.py")!;
+
+	ctx.regex(text, /^import typing$/m);
+	ctx.regex(text, /    kind: typing\.Literal\["circle"\]\n/);
+});
+
+test("compile-to/python3: Compile test.ts to pydantic models", ctx => {
+	const { types, typeChecker } = getTestTypes(["Employee"], PYDANTIC_TS);
+
+	class PydanticTarget extends PythonCompilerTarget {
+		modelKind = "pydantic" as const;
+	}
+
+	const compiler = PydanticTarget.createCompiler(typeChecker);
+	const outputs = compiler.compileProgram([{ inputType: types.Employee, outputLocation: { fileName: "org/employee.py" } }]);
+	const { text } = outputs.files.get("org/employee.py")!;
+	ctx.snapshot(text, "org/employee.py");
+
+	ctx.regex(text, /^from __future__ import annotations\n\nimport pydantic\n/);
+	ctx.regex(text, /class Employee\(pydantic\.BaseModel\):\n    name: str\n/);
+	ctx.regex(text, /    employee_id: str = pydantic\.Field\(alias="employee-id"\)\n/);
+	ctx.regex(text, /    class_: str = pydantic\.Field\(alias="class"\)\n/);
+	ctx.regex(text, /    manager: typing\.Optional\[Employee\] = None\n/);
+	ctx.regex(text, /    role: typing\.Annotated\[typing\.Union\[\w+, \w+\], pydantic\.Field\(discriminator="kind"\)\]/);
+	ctx.notRegex(text, /greet/);
+	ctx.notRegex(text, /dataclass/);
+});
+
+const TYPEDDICT_TS = `
+export interface Payload {
+	event: Event
+	headers: Headers
+	handler: Handler
+}
+
+interface Event {
+	id: string
+	retries?: number
+	tags: string[]
+}
+
+interface Headers {
+	"content-type": string
+	"x-request-id"?: string
+}
+
+declare class Handler {
+	name: string
+	handle(event: Event, dryRun?: boolean): boolean
+	log(...messages: string[]): void
+}
+`;
+
+test("compile-to/python3: Compile test.ts to TypedDicts and Protocols", ctx => {
+	const { types, typeChecker } = getTestTypes(["Payload"], TYPEDDICT_TS);
+
+	class TypedDictTarget extends PythonCompilerTarget {
+		modelKind = "typeddict" as const;
+		classesAsProtocols = true;
+	}
+
+	const compiler = TypedDictTarget.createCompiler(typeChecker);
+	const outputs = compiler.compileProgram([{ inputType: types.Payload, outputLocation: { fileName: "hooks/payload.py" } }]);
+	const { text } = outputs.files.get("hooks/payload.py")!;
+	ctx.snapshot(text, "hooks/payload.py");
+
+	ctx.regex(text, /^from __future__ import annotations\n/);
+	ctx.regex(text, /class Event\(typing\.TypedDict\):\n    id: str\n    retries: typing\.NotRequired\[typing\.Optional\[float\]\]\n/);
+	ctx.regex(text, /Headers = typing\.TypedDict\("Headers", \{\n    "content-type": str,\n    "x-request-id": typing\.NotRequired\[/);
+	ctx.regex(text, /class Handler\(typing\.Protocol\):\n    name: str\n/);
+	ctx.regex(text, /    def handle\(self, event: Event, dryRun: typing\.Optional\[bool\] = \.\.\.\) -> bool: \.\.\./);
+	ctx.regex(text, /    def log\(self, \*messages: str\) -> None: \.\.\./);
+});
+
+const DECLARATIONS_TS = `
+type Box<T> = { value: T }
+
+/** A page of results */
+interface Page<T, Cursor extends string = string> {
+	items: T[]
+	next?: Cursor
+	first: Box<T>
+}
+
+enum Role {
+	Admin = "admin",
+	Member = "member"
+}
+
+type Json = string | number | Json[] | { [key: string]: Json }
+
+export interface User {
+	readonly id: string
+	role: Role
+	"display-name": string
+	settings: Record<string, Json>
+	greet(name: string, ...rest: number[]): void
+}
+
+export interface Inbox {
+	users: Page<User>
+	onChange: ((user: User) => void) | null
+	pair: [User, number?]
+}
+`;
+
+test("compile-to/typescript: Compile test.ts to declarations with generics and imports between files", ctx => {
+	const { types, typeChecker } = getTestTypes(["Inbox", "User"], DECLARATIONS_TS);
+	const compiler = TypeScriptCompilerTarget.createCompiler(typeChecker);
+	const envelope: SimpleType = {
+		kind: "OBJECT",
+		name: "Envelope",
+		members: [{ name: "payload", type: compiler.toSimpleType(types.Inbox) }]
+	};
+	const outputs = compiler.compileProgram([
+		{ inputType: types.User, outputLocation: { fileName: "models/user.d.ts" } },
+		{ inputType: types.Inbox, outputLocation: { fileName: "inbox.d.ts" } },
+		{ inputType: envelope, outputLocation: { fileName: "envelope.d.ts" } }
+	]);
+
+	const user = outputs.files.get("models/user.d.ts")!.text;
+	const inbox = outputs.files.get("inbox.d.ts")!.text;
+	const envelopeText = outputs.files.get("envelope.d.ts")!.text;
+	ctx.snapshot(user, "models/user.d.ts");
+	ctx.snapshot(inbox, "inbox.d.ts");
+	ctx.snapshot(envelopeText, "envelope.d.ts");
+
+	ctx.regex(
+		user,
+		/export interface User \{\n  readonly id: string;\n  role: Role;\n  "display-name": string;\n  settings: Record<string, Json>;\n  greet\(name: string, \.\.\.rest: number\[\]\): void;\n\}/
+	);
+	ctx.regex(user, /export enum Role \{\n  Admin = "admin",\n  Member = "member",\n\}/);
+	ctx.regex(user, /export type Json = string \| number \| Json\[\] \| \{ \[key: string\]: Json; \};/);
+	ctx.regex(inbox, /^import type \{ User \} from "\.\/models\/user";/);
+	ctx.regex(inbox, /  users: Page<User, string>;/);
+	ctx.regex(inbox, /  onChange: \(\(user: User\) => void\) \| null;/);
+	ctx.regex(inbox, /\/\*\*\n \* A page of results\n \*\/\nexport interface Page<T, Cursor extends string = string> \{/);
+	ctx.regex(inbox, /export type Box<T> = \{ value: T; \};/);
+	ctx.regex(envelopeText, /^import type \{ Inbox \} from "\.\/inbox";\n\nexport type Envelope = \{\n  payload: Inbox;\n\};/);
+
+	const program = programWithVirtualFiles(
+		Array.from(outputs.files, ([fileName, output]) => ({ fileName, text: output.text, entry: true })),
+		{ includeLib: true, options: { strict: true } }
+	);
+	ctx.deepEqual(
+		ts.getPreEmitDiagnostics(program).map(diagnostic => ts.flattenDiagnosticMessageText(diagnostic.messageText, "\n")),
+		[]
+	);
+});
+
+test("compile-to/typescript: Compile enum member types as references to their enum", ctx => {
+	const { types, typeChecker } = getTestTypes(
+		["AdminEvent"],
+		`
+enum Role {
+	Admin = "admin",
+	Member = "member"
+}
+
+export interface AdminEvent {
+	kind: Role.Admin
+}
+`
+	);
+	const compiler = TypeScriptCompilerTarget.createCompiler(typeChecker);
+	const outputs = compiler.compileProgram([{ inputType: types.AdminEvent, outputLocation: { fileName: "event.d.ts" } }]);
+	const { text } = outputs.files.get("event.d.ts")!;
+
+	ctx.regex(text, /export interface AdminEvent \{\n  kind: Role\.Admin;\n\}/);
+	ctx.regex(text, /export enum Role \{\n  Admin = "admin",\n  Member = "member",\n\}/);
+
+	const program = programWithVirtualFiles([{ fileName: "event.d.ts", text, entry: true }], { includeLib: true, options: { strict: true } });
+	ctx.deepEqual(
+		ts.getPreEmitDiagnostics(program).map(diagnostic => ts.flattenDiagnosticMessageText(diagnostic.messageText, "\n")),
+		[]
+	);
+});
+
+const ARBITRARY_TS = `
+enum Currency {
+	USD = "usd",
+	EUR = "eur"
+}
+
+interface Line {
+	sku: string
+	quantity: number
+	note?: string
+}
+
+/** A customer, who may have been referred by another customer */
+export interface Customer {
+	id: string
+	referredBy: Customer | null
+	tags: Set<string>
+	"vip-level"?: 1 | 2
+}
+
+export interface Order {
+	id: bigint
+	status: "pending" | "paid" | "shipped"
+	currency: Currency
+	lines: Line[]
+	customer: Customer
+	placedAt: Date
+	coords: [number, number]
+	total(): number
+}
+`;
+
+test("compile-to/fast-check: Compile test.ts to fast-check arbitraries", ctx => {
+	const { types, typeChecker } = getTestTypes(["Order", "Customer"], ARBITRARY_TS);
+	const compiler = FastCheckCompilerTarget.createCompiler(typeChecker);
+	const outputs = compiler.compileProgram([
+		{ inputType: types.Order, outputLocation: { fileName: "arbitraries/order.ts" } },
+		{ inputType: types.Customer, outputLocation: { fileName: "arbitraries/customer.ts" } }
+	]);
+	const order = outputs.files.get("arbitraries/order.ts")!.text;
+	const customer = outputs.files.get("arbitraries/customer.ts")!.text;
+	ctx.snapshot(order, "arbitraries/order.ts");
+	ctx.snapshot(customer, "arbitraries/customer.ts");
+
+	ctx.regex(order, /^import fc from "fast-check";\nimport \{ Customer \} from "\.\/customer";\n\nconst arbitraries = fc\.letrec\(tie => \(\{\n  Order: fc\.record\(\{\n/);
+	ctx.regex(order, /    status: fc\.constantFrom\("pending", "paid", "shipped"\),/);
+	ctx.regex(order, /    currency: tie\("Currency"\),/);
+	ctx.regex(order, /    lines: fc\.array\(tie\("Line"\)\),/);
+	ctx.regex(order, /    customer: Customer,/);
+	ctx.regex(order, /  Currency: fc\.constantFrom\("usd", "eur"\),/);
+	ctx.regex(order, /\}, \{ requiredKeys: \["sku", "quantity"\] \}\),/);
+	ctx.regex(order, /\nexport const Order = arbitraries\.Order;\nexport const Currency = arbitraries\.Currency;\nexport const Line = arbitraries\.Line;\n/);
+	ctx.notRegex(order, /total/);
+	ctx.regex(customer, /    referredBy: fc\.oneof\(fc\.constant\(null\), tie\("Customer"\)\),/);
+	ctx.regex(customer, /    "vip-level": fc\.constantFrom\((?:1, 2|2, 1), undefined\),\n  \}, \{ requiredKeys: \["id", "referredBy", "tags"\] \}\),/);
+});
+
+const BUILTINS_TS = `
+export interface Resource {
+	headers: Map<string, string>
+	tags: Set<string>
+	counts: ReadonlyMap<number, number[]>
+	/** Validates the name */
+	pattern: RegExp
+	lastError?: Error
+	homepage: URL
+	body: Uint8Array
+}
+`;
+
+test("compile-to: Compile well-known built-in types to each target", ctx => {
+	const targets: Record<string, (typeChecker: ts.TypeChecker) => SimpleTypeCompiler> = {
+		"builtins.py": typeChecker => PythonCompilerTarget.createCompiler(typeChecker),
+		"builtins.thrift": typeChecker => ThriftCompilerTarget.createCompiler(typeChecker),
+		"builtins.json": typeChecker => JSONSchemaCompilerTarget.createCompiler(typeChecker),
+		"builtins.proto": typeChecker => Proto3CompilerTarget.createCompiler(typeChecker),
+		"builtins.ts": typeChecker => ZodCompilerTarget.createCompiler(typeChecker),
+		"builtins.validator.ts": typeChecker => ValidatorCompilerTarget.createCompiler(typeChecker)
+	};
+
+	for (const [fileName, createCompiler] of Object.entries(targets)) {
+		const { types, typeChecker } = getTestTypes(["Resource"], BUILTINS_TS);
+		const compiler = createCompiler(typeChecker);
+		const outputs = compiler.compileProgram([{ inputType: types.Resource, outputLocation: { fileName } }]);
+		for (const [outputFileName, output] of outputs.files) {
+			ctx.snapshot(output.text, outputFileName);
+		}
+	}
+});
+
+const HOOKS_TS = `
+export type UUID = string & { readonly __brand: "UUID" }
+
+export interface Account {
+	id: UUID
+	name: string
+	/** @sensitive */
+	password: string
+	owners: UUID[]
+	nickname: string
+}
+`;
+
+test("SimpleTypeCompiler#addHook: substituted types compile the same way for every target", ctx => {
+	const uuidAsString: SimpleTypeCompilerHook = { name: "UUID", compileType: () => t.string() };
+	const targets: Record<string, [(typeChecker: ts.TypeChecker) => SimpleTypeCompiler, RegExp]> = {
+		"account.proto": [typeChecker => Proto3CompilerTarget.createCompiler(typeChecker), /  string id = 1;\n[^]*  repeated string owners = 4;/],
+		"account.thrift": [typeChecker => ThriftCompilerTarget.createCompiler(typeChecker), /  0: string id,\n[^]*  3: list<string> owners/],
+		"account.py": [typeChecker => PythonCompilerTarget.createCompiler(typeChecker), /    id: str\n    name: str\n    password: str\n    owners: list\[str\]/],
+		"account.json": [typeChecker => JSONSchemaCompilerTarget.createCompiler(typeChecker), /"id": \{\n\s+"type": "string"\n\s+\}/]
+	};
+
+	for (const [fileName, [createCompiler, expected]] of Object.entries(targets)) {
+		const { types, typeChecker } = getTestTypes(["Account"], HOOKS_TS);
+		ctx.throws(() => createCompiler(typeChecker).compileProgram([{ inputType: types.Account, outputLocation: { fileName } }]), { message: /intersection/ });
+
+		const compiler = createCompiler(typeChecker).addHook(uuidAsString);
+		const outputs = compiler.compileProgram([{ inputType: types.Account, outputLocation: { fileName } }]);
+		ctx.regex(outputs.files.get(fileName)!.text, expected, fileName);
+	}
+});
+
+test("SimpleTypeCompiler#addHook: hooks match by name, file, JSDoc tag and predicate", ctx => {
+	const { types, typeChecker } = getTestTypes(["Account"], HOOKS_TS);
+	const matched: string[] = [];
+	const bytes: SimpleTypeCompilerHook["compileType"] = ({ type, path }, compiler) => compiler.nodeBuilder(type, path).node`bytes`;
+	const compiler = Proto3CompilerTarget.createCompiler(typeChecker)
+		.addHook({ name: /^UU/, fileName: "test.ts", compileType: bytes })
+		.addHook({ jsDocTag: "sensitive", compileType: bytes })
+		.addHook({
+			fileName: /other\.ts$/,
+			compileType: ({ type }) => {
+				throw new Error(`${type.name} matched the wrong file`);
+			}
+		})
+		.addHook({
+			predicate: ({ type }) => type.kind === "INTERFACE",
+			compileType: ({ type }) => {
+				matched.push(type.name!);
+				return undefined;
+			}
+		});
+
+	const outputs = compiler.compileProgram([{ inputType: types.Account, outputLocation: { fileName: "account.proto" } }]);
+	const text = outputs.files.get("account.proto")!.text;
+	ctx.regex(text, /  bytes id = 1;\n  string name = 2;\n[^]*  bytes password = 3;\n  repeated bytes owners = 4;\n  string nickname = 5;\n/);
+	ctx.deepEqual(matched, ["Account"]);
+});
+
+const JSDOC_CONSTRAINTS_TS = `
+/**
+ * A customer.
+ * @example { "email": "ada@example.com", "age": 36 }
+ */
+export interface Customer {
+	/**
+	 * @format email
+	 * @maxLength 254
+	 */
+	email: string
+	/**
+	 * @minimum 0
+	 * @exclusiveMaximum 150
+	 * @default 18
+	 */
+	age: number
+	/**
+	 * @pattern ^[A-Z]{2}$
+	 * @deprecated Use address.country
+	 */
+	country: string
+	/** @minItems 1 */
+	tags: string[]
+	/**
+	 * @minimun 1
+	 * @maximum many
+	 * @see https://example.com
+	 */
+	visits: number
+	/**
+	 * @example ada@example.com
+	 * @defaultValue guest
+	 * @public
+	 * @beta
+	 */
+	login: string
+}
+`;
+
+test("compile-to/json-schema: JSDoc tags compile to constraints, and unknown tags are diagnostics", ctx => {
+	const { types, typeChecker } = getTestTypes(["Customer"], JSDOC_CONSTRAINTS_TS);
+	const compiler = JSONSchemaCompilerTarget.createCompiler(typeChecker);
+	const outputs = compiler.compileProgram([{ inputType: types.Customer, outputLocation: { fileName: "customer.json" } }]);
+	const schema = JSON.parse(outputs.files.get("customer.json")!.text);
+
+	ctx.deepEqual(schema.examples, [{ email: "ada@example.com", age: 36 }]);
+	ctx.deepEqual(schema.properties, {
+		email: { type: "string", format: "email", maxLength: 254 },
+		age: { type: "number", minimum: 0, exclusiveMaximum: 150, default: 18 },
+		country: { type: "string", pattern: "^[A-Z]{2}$", deprecated: true },
+		tags: { title: "Array", type: "array", items: { type: "string" }, minItems: 1 },
+		visits: { type: "number" },
+		login: { type: "string", examples: ["ada@example.com"], default: "guest" }
+	});
+	ctx.deepEqual(
+		outputs.diagnostics.map(diagnostic => simpleTypeCompilerDiagnosticToString(diagnostic).replace(`${process.cwd()}/`, "")),
+		["test.ts:30:2 - Unknown JSDoc tag @minimun", 'test.ts:30:2 - Invalid JSDoc tag @maximum: "many" is not a number']
+	);
+});
+
 test("README example: Typescript to C", ctx => {
 	const { types, typeChecker } = getTestTypes(
 		["TypeA"],
@@ -0,0 +1,111 @@
+import test from "ava";
+import { SimpleTypePath } from "../src/simple-type-path";
+import { diffSimpleTypes, simpleTypeChangeToString, SimpleTypeChange } from "../src/transform/diff-simple-types";
+import { deserializeSimpleType, serializeSimpleType } from "../src/transform/serialize-simple-type";
+import { toSimpleType } from "../src/transform/to-simple-type";
+import { getTestTypes } from "./helpers/get-test-types";
+
+const EXAMPLE_TYPES = `
+export type Role = "admin" | "editor" | "viewer"
+
+export interface UserV1 {
+	id: string
+	name: string
+	email?: string
+	role: Role
+	age: number
+	tags: string[]
+}
+
+export interface UserV2 {
+	id: string
+	email: string
+	nickname?: string
+	createdAt: Date
+	role: "admin" | "editor"
+	age: string
+	tags: Array<string | number>
+}
+
+export interface TreeV1 {
+	value: string
+	children: TreeV1[]
+}
+
+export interface TreeV2 {
+	value: string
+	label?: string
+	children: TreeV2[]
+}
+
+interface PointV1 {
+	x: number
+}
+
+interface PointV2 {
+	x: string
+}
+
+export interface LineV1 {
+	from: PointV1
+	to: PointV1
+}
+
+export interface LineV2 {
+	from: PointV2
+	to: PointV2
+}
+`;
+
+function summarize(changes: SimpleTypeChange[]) {
+	return changes.map(change => ({
+		kind: change.kind,
+		path: SimpleTypePath.toString(change.typeNew ? change.pathNew : change.pathOld),
+		breaksReaders: change.breaksReaders,
+		breaksWriters: change.breaksWriters
+	}));
+}
+
+test("diffSimpleTypes: returns no changes for equivalent types", ctx => {
+	const { types, typeChecker } = getTestTypes(["UserV1", "TreeV1"], EXAMPLE_TYPES);
+	const user = toSimpleType(types.UserV1, typeChecker);
+	ctx.deepEqual(diffSimpleTypes(user, user), []);
+
+	const tree = toSimpleType(types.TreeV1, typeChecker);
+	ctx.deepEqual(diffSimpleTypes(deserializeSimpleType(serializeSimpleType(tree)), tree), []);
+});
+
+test("diffSimpleTypes: classifies member and variant changes for readers and writers", ctx => {
+	const { types, typeChecker } = getTestTypes(["UserV1", "UserV2"], EXAMPLE_TYPES);
+	const changes = diffSimpleTypes(toSimpleType(types.UserV1, typeChecker), toSimpleType(types.UserV2, typeChecker));
+
+	ctx.deepEqual(summarize(changes), [
+		{ kind: "MEMBER_REMOVED", path: "UserV1.name", breaksReaders: true, breaksWriters: false },
+		{ kind: "MEMBER_MADE_REQUIRED", path: "UserV2.email", breaksReaders: false, breaksWriters: true },
+		{ kind: "VARIANT_REMOVED", path: "UserV1.role~|2~>", breaksReaders: false, breaksWriters: true },
+		{ kind: "RETYPED", path: "UserV2.age", breaksReaders: true, breaksWriters: true },
+		{ kind: "VARIANT_ADDED", path: "UserV2.tags[number]~|1~>", breaksReaders: true, breaksWriters: false },
+		{ kind: "MEMBER_ADDED", path: "UserV2.nickname?", breaksReaders: false, breaksWriters: false },
+		{ kind: "MEMBER_ADDED", path: "UserV2.createdAt", breaksReaders: false, breaksWriters: true }
+	]);
+
+	ctx.snapshot(changes.map(simpleTypeChangeToString).join("\n"));
+});
+
+test("diffSimpleTypes: diffs a deserialized baseline of a recursive type", ctx => {
+	const { types, typeChecker } = getTestTypes(["TreeV1", "TreeV2"], EXAMPLE_TYPES);
+	const baseline = JSON.parse(JSON.stringify(serializeSimpleType(toSimpleType(types.TreeV1, typeChecker))));
+	const changes = diffSimpleTypes(deserializeSimpleType(baseline), toSimpleType(types.TreeV2, typeChecker));
+
+	ctx.deepEqual(summarize(changes), [{ kind: "MEMBER_ADDED", path: "TreeV2.label?", breaksReaders: false, breaksWriters: false }]);
+});
+
+test("diffSimpleTypes: reports changes of a repeated type at each of its paths", ctx => {
+	const { types, typeChecker } = getTestTypes(["LineV1", "LineV2"], EXAMPLE_TYPES);
+	const changes = diffSimpleTypes(toSimpleType(types.LineV1, typeChecker), toSimpleType(types.LineV2, typeChecker));
+
+	ctx.deepEqual(summarize(changes), [
+		{ kind: "RETYPED", path: "LineV2.from.x", breaksReaders: true, breaksWriters: true },
+		{ kind: "RETYPED", path: "LineV2.to.x", breaksReaders: true, breaksWriters: true }
+	]);
+});
@@ -0,0 +1,112 @@
+import test from "ava";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { TypeScriptCompilerTarget } from "../src/compile-to/typescript";
+import { compilerOutputDifferenceToString, DEFAULT_MANIFEST_FILE_NAME, emitCompilerOutput } from "../src/transform/emit-compiler-output";
+import { getTestTypes } from "./helpers/get-test-types";
+
+const EXAMPLE_TYPES = `
+export interface User {
+	id: string
+	name: string
+}
+
+export interface Post {
+	author: User
+	title: string
+}
+`;
+
+function compile(entryPoints: Array<{ name: "User" | "Post"; fileName: string }>) {
+	const { types, typeChecker } = getTestTypes(["User", "Post"], EXAMPLE_TYPES);
+	const compiler = TypeScriptCompilerTarget.createCompiler(typeChecker);
+	return compiler.compileProgram(entryPoints.map(({ name, fileName }) => ({ inputType: types[name], outputLocation: { fileName } })));
+}
+
+function withOutDir(fn: (outDir: string) => void) {
+	const outDir = fs.mkdtempSync(path.join(os.tmpdir(), "ts-simple-type-emit-"));
+	try {
+		fn(outDir);
+	} finally {
+		fs.rmSync(outDir, { recursive: true, force: true });
+	}
+}
+
+function listFiles(directory: string, prefix = ""): string[] {
+	return fs
+		.readdirSync(directory, { withFileTypes: true })
+		.flatMap(entry => (entry.isDirectory() ? listFiles(path.join(directory, entry.name), `${prefix}${entry.name}/`) : [`${prefix}${entry.name}`]))
+		.sort();
+}
+
+test("emitCompilerOutput: writes files, source maps and a manifest", ctx => {
+	withOutDir(outDir => {
+		const output = compile([
+			{ name: "User", fileName: "models/user.d.ts" },
+			{ name: "Post", fileName: "post.d.ts" }
+		]);
+		const result = emitCompilerOutput(output, { outDir });
+
+		ctx.deepEqual(listFiles(outDir), [DEFAULT_MANIFEST_FILE_NAME, "models/user.d.ts", "models/user.d.ts.map", "post.d.ts", "post.d.ts.map"]);
+		ctx.deepEqual(result.written.sort(), listFiles(outDir));
+		ctx.is(fs.readFileSync(path.join(outDir, "post.d.ts"), "utf8"), output.files.get("post.d.ts")!.text);
+		ctx.deepEqual(Object.keys(result.manifest.files), ["models/user.d.ts", "models/user.d.ts.map", "post.d.ts", "post.d.ts.map"]);
+		ctx.regex(result.manifest.files["post.d.ts"], /^[0-9a-f]{64}$/);
+		ctx.deepEqual(JSON.parse(fs.readFileSync(path.join(outDir, DEFAULT_MANIFEST_FILE_NAME), "utf8")), result.manifest);
+
+		const sourceMap = JSON.parse(fs.readFileSync(path.join(outDir, "models/user.d.ts.map"), "utf8"));
+		ctx.is(sourceMap.file, "user.d.ts");
+		ctx.true((sourceMap.sources as string[]).every(source => !path.isAbsolute(source)));
+
+		const again = emitCompilerOutput(output, { outDir });
+		ctx.deepEqual(again.written, []);
+		ctx.deepEqual(again.differences, []);
+	});
+});
+
+test("emitCompilerOutput: deletes files that are no longer generated", ctx => {
+	withOutDir(outDir => {
+		emitCompilerOutput(
+			compile([
+				{ name: "User", fileName: "models/user.d.ts" },
+				{ name: "Post", fileName: "post.d.ts" }
+			]),
+			{ outDir }
+		);
+		fs.writeFileSync(path.join(outDir, "handwritten.ts"), "export {}");
+
+		const result = emitCompilerOutput(compile([{ name: "Post", fileName: "post.d.ts" }]), { outDir });
+		ctx.deepEqual(result.deleted, ["models/user.d.ts", "models/user.d.ts.map"]);
+		ctx.deepEqual(listFiles(outDir), [DEFAULT_MANIFEST_FILE_NAME, "handwritten.ts", "post.d.ts", "post.d.ts.map"]);
+	});
+});
+
+test("emitCompilerOutput: check mode reports differences without writing", ctx => {
+	withOutDir(outDir => {
+		const output = compile([
+			{ name: "User", fileName: "models/user.d.ts" },
+			{ name: "Post", fileName: "post.d.ts" }
+		]);
+
+		const missing = emitCompilerOutput(output, { outDir, check: true, sourceMaps: false });
+		ctx.deepEqual(missing.differences.map(compilerOutputDifferenceToString), ["models/user.d.ts: missing", "post.d.ts: missing", `${DEFAULT_MANIFEST_FILE_NAME}: missing`]);
+		ctx.deepEqual(listFiles(outDir), []);
+
+		emitCompilerOutput(output, { outDir, sourceMaps: false });
+		ctx.deepEqual(emitCompilerOutput(output, { outDir, check: true, sourceMaps: false }).differences, []);
+
+		fs.appendFileSync(path.join(outDir, "post.d.ts"), "// edited\n");
+		const withoutUser = compile([{ name: "Post", fileName: "post.d.ts" }]);
+		const changed = emitCompilerOutput(withoutUser, { outDir, check: true, sourceMaps: false });
+		ctx.deepEqual(changed.differences.map(compilerOutputDifferenceToString), ["post.d.ts: changed", `${DEFAULT_MANIFEST_FILE_NAME}: changed`, "models/user.d.ts: no longer generated"]);
+		ctx.true(fs.existsSync(path.join(outDir, "models/user.d.ts")));
+	});
+});
+
+test("emitCompilerOutput: refuses to write outside of the output directory", ctx => {
+	withOutDir(outDir => {
+		const output = compile([{ name: "User", fileName: "../user.d.ts" }]);
+		ctx.throws(() => emitCompilerOutput(output, { outDir }), { message: /outside of the output directory/ });
+	});
+});
@@ -0,0 +1,97 @@
+import test from "ava";
+import { assignabilityFailureToString, AssignabilityFailure, explainAssignability } from "../src/is-assignable/explain-assignability";
+import { SimpleTypePath } from "../src/simple-type-path";
+import { toSimpleType } from "../src/transform/to-simple-type";
+import { getTestTypes } from "./helpers/get-test-types";
+
+const EXAMPLE_TYPES = `
+export interface User {
+	id: string
+	name: string
+	address: { city: string; zip: number }
+	onChange(value: string): void
+	callback: (value: string) => void
+}
+
+export interface UserWithoutName {
+	id: string
+	address: { city: string; zip: string }
+	onChange(value: string): void
+	callback: (value: string) => void
+}
+
+export interface UserWithNarrowCallback {
+	id: string
+	name: string
+	address: { city: string; zip: number }
+	onChange(value: string): void
+	callback: (value: "a" | "b") => void
+}
+
+export type Status = "active" | "disabled"
+export type AnyString = string
+
+export interface StringList {
+	value: string
+	next: StringList | null
+}
+
+export interface NumberList {
+	value: number
+	next: NumberList | null
+}
+`;
+
+function collect(failure: AssignabilityFailure | undefined): AssignabilityFailure[] {
+	if (!failure) {
+		return [];
+	}
+	return [failure, ...failure.causes.flatMap(collect)];
+}
+
+test("explainAssignability: returns undefined for assignable types", ctx => {
+	const { types, typeChecker } = getTestTypes(["User", "Status", "AnyString"], EXAMPLE_TYPES);
+	const user = toSimpleType(types.User, typeChecker);
+	ctx.is(explainAssignability(user, user), undefined);
+	ctx.is(explainAssignability(toSimpleType(types.AnyString, typeChecker), toSimpleType(types.Status, typeChecker)), undefined);
+});
+
+test("explainAssignability: reports missing and incompatible members with paths", ctx => {
+	const { types, typeChecker } = getTestTypes(["User", "UserWithoutName"], EXAMPLE_TYPES);
+	const failure = explainAssignability(toSimpleType(types.User, typeChecker), toSimpleType(types.UserWithoutName, typeChecker));
+	const failures = collect(failure);
+
+	const missing = failures.find(f => f.reason === "MEMBER_MISSING");
+	ctx.truthy(missing);
+	ctx.is(SimpleTypePath.toString(missing!.pathA), "User.name");
+	ctx.deepEqual(missing!.pathB, []);
+
+	const incompatible = failures.filter(f => f.reason === "MEMBER_NOT_ASSIGNABLE").map(f => [SimpleTypePath.toString(f.pathA), SimpleTypePath.toString(f.pathB)]);
+	ctx.deepEqual(incompatible, [
+		["User.address", "UserWithoutName.address"],
+		["User.address.zip", "UserWithoutName.address.zip"]
+	]);
+
+	ctx.snapshot(assignabilityFailureToString(failure!));
+});
+
+test("explainAssignability: reports parameters that are not contravariant", ctx => {
+	const { types, typeChecker } = getTestTypes(["User", "UserWithNarrowCallback"], EXAMPLE_TYPES);
+	const failures = collect(explainAssignability(toSimpleType(types.User, typeChecker), toSimpleType(types.UserWithNarrowCallback, typeChecker)));
+
+	const parameter = failures.find(f => f.reason === "PARAMETER_NOT_CONTRAVARIANT");
+	ctx.truthy(parameter);
+	ctx.is(SimpleTypePath.last(parameter!.pathA)?.step, "PARAMETER");
+	ctx.is(SimpleTypePath.last(parameter!.pathB)?.step, "PARAMETER");
+	ctx.is(parameter!.causes.length, 1);
+	ctx.is(parameter!.causes[0].typeA, parameter!.typeB);
+});
+
+test("explainAssignability: reports recursive occurrences of a pair that is already being explained", ctx => {
+	const { types, typeChecker } = getTestTypes(["StringList", "NumberList"], EXAMPLE_TYPES);
+	const failures = collect(explainAssignability(toSimpleType(types.StringList, typeChecker), toSimpleType(types.NumberList, typeChecker)));
+
+	const next = failures.find(f => f.reason === "MEMBER_NOT_ASSIGNABLE" && SimpleTypePath.toString(f.pathA) === "StringList.next");
+	ctx.truthy(next);
+	ctx.true(collect(next).some(f => f.reason === "NOT_ASSIGNABLE" && f.typeA.name === "StringList" && f.typeB.name === "NumberList"));
+});
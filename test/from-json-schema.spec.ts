@@ -0,0 +1,151 @@
+import test from "ava";
+import { PythonCompilerTarget } from "../src/compile-to/python3";
+import { isAssignableToSimpleType } from "../src/is-assignable/is-assignable-to-simple-type";
+import { SimpleTypeAlias, SimpleTypeObject, SimpleTypeUnion } from "../src/simple-type";
+import { fromJsonSchema, JsonSchema } from "../src/transform/from-json-schema";
+import { toSimpleType } from "../src/transform/to-simple-type";
+import { getTestTypes } from "./helpers/get-test-types";
+
+const VENDOR_SCHEMA: JsonSchema = {
+	$id: "https://vendor.example/category.json",
+	$ref: "#/$defs/Category",
+	$defs: {
+		Category: {
+			type: "object",
+			properties: {
+				id: { type: "integer" },
+				name: { type: "string", minLength: 1 },
+				status: { enum: ["active", "archived"] },
+				parent: { anyOf: [{ $ref: "#/$defs/Category" }, { type: "null" }] },
+				children: { type: "array", items: { $ref: "https://vendor.example/category.json#/$defs/Category" } },
+				position: { type: "array", prefixItems: [{ type: "number" }, { type: "number" }], minItems: 2, items: false },
+				labels: { type: "object", additionalProperties: { type: "string" } }
+			},
+			required: ["id", "name", "status", "parent", "children"]
+		}
+	}
+};
+
+const OUR_TYPES = `
+export interface Category {
+	id: number
+	name: string
+	status: "active" | "archived"
+	parent: Category | null
+	children: Category[]
+	position?: [number, number]
+	labels?: Record<string, string>
+}
+
+export interface StrictCategory {
+	id: number
+	name: string
+	status: "active"
+	parent: StrictCategory | null
+	children: StrictCategory[]
+}
+`;
+
+test("fromJsonSchema: preserves $ref cycles as shared identity", ctx => {
+	const category = fromJsonSchema(VENDOR_SCHEMA) as SimpleTypeObject;
+	ctx.is(category.kind, "OBJECT");
+	ctx.is(category.name, "Category");
+
+	const members = Object.fromEntries(category.members!.map(member => [member.name, member]));
+	ctx.deepEqual(
+		category.members!.map(member => [member.name, member.type.kind, Boolean(member.optional)]),
+		[
+			["id", "NUMBER", false],
+			["name", "STRING", false],
+			["status", "UNION", false],
+			["parent", "UNION", false],
+			["children", "ARRAY", false],
+			["position", "UNION", true],
+			["labels", "UNION", true]
+		]
+	);
+	ctx.is((members.parent.type as SimpleTypeUnion).types[0], category);
+	ctx.is(members.children.type.kind === "ARRAY" && members.children.type.type, category);
+	const labels = (members.labels.type as SimpleTypeUnion).types[0];
+	ctx.is(labels.kind === "OBJECT" && labels.indexType?.STRING?.kind, "STRING");
+});
+
+test("fromJsonSchema: vendor schemas are assignable to and from our interfaces", ctx => {
+	const { types, typeChecker } = getTestTypes(["Category", "StrictCategory"], OUR_TYPES);
+	const vendor = fromJsonSchema(VENDOR_SCHEMA);
+	const ours = toSimpleType(types.Category, typeChecker);
+	const strict = toSimpleType(types.StrictCategory, typeChecker);
+
+	ctx.true(isAssignableToSimpleType(ours, vendor));
+	ctx.true(isAssignableToSimpleType(vendor, ours));
+	ctx.true(isAssignableToSimpleType(vendor, strict));
+	ctx.false(isAssignableToSimpleType(strict, vendor));
+});
+
+test("fromJsonSchema: converts keywords from older drafts and OpenAPI", ctx => {
+	const schema: JsonSchema = {
+		definitions: {
+			Id: { type: "string", nullable: true },
+			Point: { type: "array", items: [{ type: "number" }, { type: "number" }], additionalItems: { type: "string" } }
+		},
+		allOf: [{ type: "object", properties: { id: { $ref: "#/definitions/Id" } }, required: ["id"] }, { properties: { point: { $ref: "#/definitions/Point" }, kind: { const: "point" } } }]
+	};
+
+	const type = fromJsonSchema(schema);
+	ctx.is(type.kind, "INTERSECTION");
+	const intersected = type.kind === "INTERSECTION" ? (type.intersected as SimpleTypeObject) : undefined;
+	ctx.deepEqual(
+		intersected?.members?.map(member => member.name),
+		["id", "point", "kind"]
+	);
+
+	const id = intersected!.members![0].type as SimpleTypeUnion;
+	ctx.is(id.name, "Id");
+	ctx.deepEqual(
+		id.types.map(variant => variant.kind),
+		["STRING", "NULL"]
+	);
+
+	const point = (intersected!.members![1].type as SimpleTypeUnion).types[0] as SimpleTypeAlias;
+	ctx.is(point.name, "Point");
+	ctx.true(point.target.kind === "TUPLE" && point.target.rest);
+	ctx.is(fromJsonSchema(true).kind, "UNKNOWN");
+	ctx.is(fromJsonSchema(false).kind, "NEVER");
+	ctx.throws(() => fromJsonSchema({ $ref: "other.json#/$defs/Missing" }), { message: /Unresolved \$ref/ });
+	ctx.is(fromJsonSchema({ $ref: "other.json#/$defs/Name" }, { resolveRef: () => ({ type: "string" }) }).kind, "STRING");
+});
+
+test("fromJsonSchema: resolves anchors against the enclosing $id", ctx => {
+	const type = fromJsonSchema({
+		$id: "https://vendor.example/order.json",
+		type: "object",
+		properties: {
+			id: { $ref: "#id" },
+			address: { $ref: "https://vendor.example/address.json#street" }
+		},
+		required: ["id", "address"],
+		$defs: {
+			Id: { $anchor: "id", type: "integer" },
+			Address: {
+				$id: "https://vendor.example/address.json",
+				type: "object",
+				properties: { street: { $anchor: "street", type: "string" } }
+			}
+		}
+	}) as SimpleTypeObject;
+
+	const [id, address] = type.members!;
+	ctx.is((id.type as SimpleTypeAlias).name, "Id");
+	ctx.is(address.type.kind, "STRING");
+	ctx.throws(() => fromJsonSchema({ $defs: { Address: { $id: "https://vendor.example/address.json", $anchor: "street" } }, $ref: "#street" }), { message: /Unresolved \$ref anchor/ });
+});
+
+test("fromJsonSchema: vendor schemas compile through existing targets", ctx => {
+	const { typeChecker } = getTestTypes([], OUR_TYPES);
+	const compiler = PythonCompilerTarget.createCompiler(typeChecker);
+	const outputs = compiler.compileProgram([{ inputType: fromJsonSchema(VENDOR_SCHEMA), outputLocation: { fileName: "vendor/category.py" } }]);
+
+	for (const [fileName, output] of outputs.files) {
+		ctx.snapshot(output.text, fileName);
+	}
+});
@@ -0,0 +1,120 @@
+import test from "ava";
+import { isAssignableToValue } from "../src/is-assignable/is-assignable-to-value";
+import { SimpleType } from "../src/simple-type";
+import { generateValue } from "../src/transform/generate-value";
+import { toSimpleType } from "../src/transform/to-simple-type";
+import { getTestTypes } from "./helpers/get-test-types";
+
+const EXAMPLE_TYPES = `
+export enum Role {
+	Admin = "admin",
+	Viewer = "viewer"
+}
+
+export interface User {
+	/** @format uuid */
+	id: string
+	/** @format email */
+	email: string
+	/** @example "Ada Lovelace" */
+	name: string
+	/** @example 1815 */
+	nickname: string
+	/** @format date-time */
+	createdAt?: string
+	role: Role
+	kind: "user"
+	age: number | null
+	labels: { [key: string]: number }
+	path: \`/users/\${number}\`
+	/** @example { "theme": "dark" } */
+	settings: { theme: "dark" | "light" }
+}
+
+export interface Tree {
+	value: string
+	children: Tree[]
+	parent?: Tree
+}
+
+export interface Loop {
+	next: Loop
+}
+
+export type Point = [number, string, boolean?]
+
+export type Shape = { kind: "circle"; radius: number } | { kind: "square"; size: number }
+`;
+
+function getTypes() {
+	const { types, typeChecker } = getTestTypes(["User", "Tree", "Loop", "Point", "Shape"], EXAMPLE_TYPES);
+	const result = {} as Record<keyof typeof types, SimpleType>;
+	for (const [name, type] of Object.entries(types) as Array<[keyof typeof types, typeof types[keyof typeof types]]>) {
+		result[name] = toSimpleType(type, typeChecker, { addMethods: true });
+	}
+	return result;
+}
+
+test("generateValue is deterministic for a seed", t => {
+	const { User } = getTypes();
+	t.deepEqual(generateValue(User, { seed: 42 }), generateValue(User, { seed: 42 }));
+	t.notDeepEqual(generateValue(User, { seed: 1 }), generateValue(User, { seed: 2 }));
+});
+
+test("generateValue respects literals, enums, index signatures, formats and examples", t => {
+	const { User } = getTypes();
+	for (let seed = 1; seed <= 20; seed++) {
+		const user = generateValue(User, { seed }) as Record<string, unknown>;
+		t.regex(user.id as string, /^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-8[0-9a-f]{3}-[0-9a-f]{12}$/);
+		t.regex(user.email as string, /^\w+@example\.com$/);
+		t.is(user.name, "Ada Lovelace");
+		t.is(user.nickname, "1815");
+		t.false(Number.isNaN(Date.parse(user.createdAt as string)));
+		t.true(user.role === "admin" || user.role === "viewer");
+		t.is(user.kind, "user");
+		t.true(user.age === null || typeof user.age === "number");
+		t.true(Object.values(user.labels as object).length > 0);
+		t.true(Object.values(user.labels as object).every(value => typeof value === "number"));
+		t.regex(user.path as string, /^\/users\/\d+$/);
+		t.deepEqual(user.settings, { theme: "dark" });
+	}
+});
+
+test("generateValue output is assignable to the type", t => {
+	const { User, Tree, Point, Shape } = getTypes();
+	for (const type of [User, Tree, Point, Shape]) {
+		for (let seed = 1; seed <= 20; seed++) {
+			const value = generateValue(type, { seed });
+			t.true(isAssignableToValue(type, value), `seed ${seed}: ${JSON.stringify(value)}`);
+		}
+	}
+});
+
+test("generateValue generates tuple members", t => {
+	const { Point } = getTypes();
+	const point = generateValue(Point) as unknown[];
+	t.true(point.length === 2 || point.length === 3);
+	t.is(typeof point[0], "number");
+	t.is(typeof point[1], "string");
+	t.true(point.length === 2 || typeof point[2] === "boolean");
+	t.is((generateValue(Point, { maxDepth: 0 }) as unknown[]).length, 2);
+});
+
+test("generateValue stops recursion at maxDepth", t => {
+	const { Tree } = getTypes();
+	const tree = generateValue(Tree, { maxDepth: 0 });
+	t.deepEqual(Object.keys(tree as object), ["value", "children"]);
+	t.deepEqual((tree as { children: unknown[] }).children, []);
+
+	function depthOf(tree: { children: unknown[]; parent?: unknown }): number {
+		const nested = [...tree.children, ...(tree.parent ? [tree.parent] : [])] as Array<typeof tree>;
+		return 1 + Math.max(0, ...nested.map(depthOf));
+	}
+	t.true(depthOf(generateValue(Tree, { maxDepth: 2 }) as never) <= 3);
+});
+
+test("generateValue throws for types without finite values", t => {
+	const { Loop } = getTypes();
+	t.throws(() => generateValue(Loop), { message: /requires a value of itself[\s\S]*Path: Loop\.next\.next/ });
+	t.throws(() => generateValue({ kind: "NEVER" }), { message: /never/ });
+});
@@ -0,0 +1,145 @@
+import test from "ava";
+import { findValueMismatches, isAssignableToValue, ValueMismatch, valueMismatchToString } from "../src/is-assignable/is-assignable-to-value";
+import { SimpleTypePath } from "../src/simple-type-path";
+import { toSimpleType } from "../src/transform/to-simple-type";
+import { getTestTypes } from "./helpers/get-test-types";
+
+const EXAMPLE_TYPES = `
+export interface User {
+	id: string
+	tags: string[]
+	address?: { city: string; zip: number }
+	meta: { [key: string]: number }
+	createdAt: Date
+	friends: Map<string, User>
+	roles: Set<"admin" | "viewer">
+	point: [number, number, string?]
+}
+
+export interface Node {
+	value: number
+	next?: Node
+}
+
+export type Shape = { kind: "circle"; radius: number } | { kind: "square"; size: number }
+
+export type Named = { name: string } & { age: number }
+
+export type Numbers = number[]
+
+export type Either = { a: number; nested?: { b: number } } | { b: number }
+`;
+
+function summarize(mismatches: ValueMismatch[]) {
+	return mismatches.map(mismatch => ({
+		reason: mismatch.reason,
+		path: SimpleTypePath.toString(mismatch.path),
+		valuePath: mismatch.valuePath
+	}));
+}
+
+function getTypes() {
+	const { types, typeChecker } = getTestTypes(["User", "Node", "Shape", "Named", "Numbers", "Either"], EXAMPLE_TYPES);
+	return {
+		User: toSimpleType(types.User, typeChecker),
+		Node: toSimpleType(types.Node, typeChecker),
+		Shape: toSimpleType(types.Shape, typeChecker),
+		Named: toSimpleType(types.Named, typeChecker),
+		Numbers: toSimpleType(types.Numbers, typeChecker),
+		Either: toSimpleType(types.Either, typeChecker)
+	};
+}
+
+const validUser = () => ({
+	id: "1",
+	tags: ["a", "b"],
+	meta: { visits: 1 },
+	createdAt: new Date(),
+	friends: new Map(),
+	roles: new Set(["admin"]),
+	point: [1, 2]
+});
+
+test("isAssignableToValue: checks every array element", ctx => {
+	const { Numbers } = getTypes();
+	ctx.true(isAssignableToValue(Numbers, [1, 2, 3]));
+	ctx.true(isAssignableToValue(Numbers, []));
+	ctx.false(isAssignableToValue(Numbers, [1, "x"]));
+	ctx.deepEqual(summarize(findValueMismatches(Numbers, [1, "x", 3, false])), [
+		{ reason: "NOT_ASSIGNABLE", path: "Array[number]", valuePath: [1] },
+		{ reason: "NOT_ASSIGNABLE", path: "Array[number]", valuePath: [3] }
+	]);
+});
+
+test("isAssignableToValue: checks members, index signatures, Dates, Maps, Sets and tuples", ctx => {
+	const { User } = getTypes();
+	ctx.true(isAssignableToValue(User, validUser()));
+	ctx.true(isAssignableToValue(User, { ...validUser(), address: { city: "Oslo", zip: 150 }, point: [1, 2, "x"] }));
+
+	const { address, ...withoutId } = { ...validUser(), id: undefined, address: undefined };
+	ctx.is(address, undefined);
+	const mismatches = findValueMismatches(User, {
+		...withoutId,
+		tags: ["a", 1],
+		meta: { visits: "many" },
+		createdAt: "2020-01-01",
+		friends: new Map([["bob", { value: 1 }]]),
+		roles: new Set(["admin", "owner"]),
+		point: [1]
+	});
+	ctx.deepEqual(mismatches.map(valueMismatchToString), [
+		"value.id: Value undefined is not assignable to type 'string'.",
+		"value.tags[1]: Value 1 is not assignable to type 'string'.",
+		`value.meta.visits: Value "many" is not assignable to type 'number'.`,
+		`value.createdAt: Value "2020-01-01" is not assignable to type 'Date'.`,
+		"value.friends[0][1].id: Property 'id' is missing in value but required in type 'User'.",
+		"value.friends[0][1].tags: Property 'tags' is missing in value but required in type 'User'.",
+		"value.friends[0][1].meta: Property 'meta' is missing in value but required in type 'User'.",
+		"value.friends[0][1].createdAt: Property 'createdAt' is missing in value but required in type 'User'.",
+		"value.friends[0][1].friends: Property 'friends' is missing in value but required in type 'User'.",
+		"value.friends[0][1].roles: Property 'roles' is missing in value but required in type 'User'.",
+		"value.friends[0][1].point: Property 'point' is missing in value but required in type 'User'.",
+		`value.roles[1]: Value "owner" is not assignable to any variant of type '"admin" | "viewer"'.`,
+		"value.point: Value has 1 element(s) but type '[number, number, string | undefined?]' allows 2-3."
+	]);
+	ctx.is(SimpleTypePath.toString(mismatches[1].path), "User.tags[number]");
+});
+
+test("isAssignableToValue: reports excess members in strict mode", ctx => {
+	const { User, Named } = getTypes();
+	const value = { ...validUser(), extra: true };
+	ctx.true(isAssignableToValue(User, value));
+	ctx.deepEqual(summarize(findValueMismatches(User, value, { strict: true })), [{ reason: "EXCESS_MEMBER", path: "T", valuePath: ["extra"] }]);
+	ctx.deepEqual(findValueMismatches(User, value), []);
+
+	ctx.true(isAssignableToValue(Named, { name: "Ada", age: 36 }));
+	ctx.deepEqual(summarize(findValueMismatches(Named, { name: "Ada", age: 36, extra: 1 }, { strict: true })), [{ reason: "EXCESS_MEMBER", path: "T", valuePath: ["extra"] }]);
+	ctx.deepEqual(summarize(findValueMismatches(Named, { name: "Ada" })), [{ reason: "MEMBER_MISSING", path: "Named~&1~>.age", valuePath: ["age"] }]);
+});
+
+test("isAssignableToValue: checks excess members of a union against all of its variants", ctx => {
+	const { Either } = getTypes();
+	ctx.true(isAssignableToValue(Either, { a: 1, b: 2 }));
+	ctx.deepEqual(findValueMismatches(Either, { a: 1, b: 2 }, { strict: true }), []);
+	ctx.deepEqual(summarize(findValueMismatches(Either, { a: 1, c: 3 }, { strict: true })), [{ reason: "EXCESS_MEMBER", path: "T", valuePath: ["c"] }]);
+	ctx.deepEqual(summarize(findValueMismatches(Either, { a: 1, nested: { b: 2, c: 3 } }, { strict: true })), [{ reason: "EXCESS_MEMBER", path: "Either~|0~>.nested?", valuePath: ["nested", "c"] }]);
+});
+
+test("isAssignableToValue: explains the closest union variant", ctx => {
+	const { Shape } = getTypes();
+	ctx.true(isAssignableToValue(Shape, { kind: "circle", radius: 1 }));
+	ctx.deepEqual(summarize(findValueMismatches(Shape, { kind: "circle", radius: "big" })), [{ reason: "NOT_ASSIGNABLE", path: "Shape~|0~>.radius", valuePath: ["radius"] }]);
+	ctx.deepEqual(summarize(findValueMismatches(Shape, 5)), [{ reason: "NO_MATCHING_VARIANT", path: "T", valuePath: [] }]);
+});
+
+test("isAssignableToValue: handles cyclic values", ctx => {
+	const { Node } = getTypes();
+	const cyclic: { value: unknown; next?: unknown } = { value: 1 };
+	cyclic.next = cyclic;
+	ctx.true(isAssignableToValue(Node, cyclic));
+
+	const invalid: { value: unknown; next?: unknown } = { value: "x" };
+	invalid.next = invalid;
+	ctx.false(isAssignableToValue(Node, invalid));
+	ctx.deepEqual(summarize(findValueMismatches(Node, invalid)), [{ reason: "NOT_ASSIGNABLE", path: "Node.value", valuePath: ["value"] }]);
+});
@@ -0,0 +1,151 @@
+import test from "ava";
+import { findValueMismatches, isAssignableToValue } from "../src/is-assignable/is-assignable-to-value";
+import { SimpleTypeInterface, SimpleTypeObject } from "../src/simple-type";
+import { SimpleTypeBuilder, t } from "../src/simple-type-builder";
+import { generateValue } from "../src/transform/generate-value";
+import { deserializeSimpleType, serializeSimpleType } from "../src/transform/serialize-simple-type";
+import { simpleTypeToString } from "../src/transform/simple-type-to-string";
+import { toSimpleType } from "../src/transform/to-simple-type";
+import { getTestTypes } from "./helpers/get-test-types";
+
+test("SimpleTypeBuilder: t is a short name for SimpleTypeBuilder", ctx => {
+	ctx.is(t, SimpleTypeBuilder);
+});
+
+test("SimpleTypeBuilder: builds the same shapes as toSimpleType", ctx => {
+	const { types, typeChecker } = getTestTypes(
+		["User"],
+		`
+export interface User {
+	id: string
+	tags: string[]
+	role: "admin" | "viewer"
+	point: [number, string?]
+	meta: { [key: string]: number }
+	parent?: User | undefined
+}
+`
+	);
+	const fromTypescript = toSimpleType(types.User, typeChecker);
+	const built: SimpleTypeInterface = t.interface("User", {
+		id: t.string(),
+		tags: t.array(t.string()),
+		role: t.union(t.literal("admin"), t.literal("viewer")),
+		point: t.tuple([t.number(), t.optional(t.union(t.string(), t.undefined()))]),
+		meta: t.object({}, { index: { string: t.number() } }),
+		parent: t.optional(
+			t.union(
+				t.ref(() => built),
+				t.undefined()
+			)
+		)
+	});
+
+	ctx.is(simpleTypeToString(built), simpleTypeToString(fromTypescript));
+	ctx.is(simpleTypeToString(deserializeSimpleType(serializeSimpleType(built))), simpleTypeToString(fromTypescript));
+	ctx.deepEqual(
+		(built.members ?? []).map(member => simpleTypeToString(member.type)),
+		(fromTypescript as SimpleTypeInterface).members?.map(member => simpleTypeToString(member.type))
+	);
+});
+
+test("SimpleTypeBuilder: t.object builds named objects like hand-written literals", ctx => {
+	const payload = t.string();
+	const handWritten: SimpleTypeObject = {
+		kind: "OBJECT",
+		name: "Envelope",
+		members: [{ name: "payload", type: payload }]
+	};
+
+	ctx.deepEqual(t.object({ payload }, { name: "Envelope" }), handWritten);
+});
+
+test("SimpleTypeBuilder: t.ref builds recursive types", ctx => {
+	const Node: SimpleTypeObject = t.object(
+		{
+			value: t.number(),
+			children: t.array(t.ref(() => Node)),
+			next: t.optional(
+				t.union(
+					t.ref(() => Node),
+					t.null()
+				)
+			)
+		},
+		{ name: "Node" }
+	);
+
+	const [, children, next] = Node.members!;
+	ctx.is(children.type.kind === "ARRAY" && children.type.type, Node);
+	ctx.true(next.optional);
+	ctx.is(next.type.kind === "UNION" && next.type.types[0], Node);
+	ctx.deepEqual(Object.keys(next.type), ["kind", "types"]);
+
+	ctx.true(isAssignableToValue(Node, { value: 1, children: [{ value: 2, children: [] }], next: null }));
+	ctx.true(isAssignableToValue(Node, generateValue(Node)));
+	ctx.deepEqual(
+		findValueMismatches(Node, { value: 1, children: [{ value: "2", children: [] }] }).map(mismatch => mismatch.valuePath),
+		[["children", 0, "value"]]
+	);
+});
+
+test("SimpleTypeBuilder: builds literals, enums and tagged unions", ctx => {
+	ctx.deepEqual(t.literal("a"), { kind: "STRING_LITERAL", value: "a" });
+	ctx.deepEqual(t.literal(1), { kind: "NUMBER_LITERAL", value: 1 });
+	ctx.deepEqual(t.literal(true), { kind: "BOOLEAN_LITERAL", value: true });
+	ctx.deepEqual(t.literal(BigInt(1)), { kind: "BIG_INT_LITERAL", value: BigInt(1) });
+
+	const Color = t.enum("Color", { Red: "red", Green: 2 });
+	ctx.deepEqual(
+		Color.types.map(member => [member.fullName, member.type]),
+		[
+			["Color.Red", { kind: "STRING_LITERAL", value: "red" }],
+			["Color.Green", { kind: "NUMBER_LITERAL", value: 2 }]
+		]
+	);
+
+	const Shape = t.union(t.object({ kind: t.literal("circle"), radius: t.number() }), t.object({ kind: t.literal("square"), size: t.number() }));
+	ctx.deepEqual(
+		Shape.discriminantMembers?.map(member => "name" in member && member.name),
+		["kind"]
+	);
+	ctx.is(t.union(t.string(), t.number()).discriminantMembers, undefined);
+});
+
+test("SimpleTypeBuilder: builds functions and template literals", ctx => {
+	const fn = t.function(
+		[
+			{ name: "id", type: t.string() },
+			{ name: "rest", type: t.array(t.number()), rest: true }
+		],
+		t.promise(t.void())
+	);
+	ctx.is(simpleTypeToString(fn), "(id: string, ...rest: number[]) => Promise<void>");
+	ctx.deepEqual(fn.parameters?.[0], { name: "id", optional: false, rest: false, initializer: false, type: { kind: "STRING" } });
+
+	const path = t.template`/users/${t.number()}/posts`;
+	ctx.deepEqual(path.texts, ["/users/", "/posts"]);
+	ctx.true(isAssignableToValue(path, "/users/1/posts"));
+	ctx.false(isAssignableToValue(path, "/users/x/posts"));
+});
+
+test("SimpleTypeBuilder: t.generic and t.instantiate build generic types", ctx => {
+	const Page = t.generic("Page", ["T", { name: "C", default: t.number() }], (T, C) => t.object({ items: t.array(T), cursor: C }));
+	ctx.deepEqual(
+		Page.typeParameters?.map(parameter => [parameter.name, parameter.default?.kind]),
+		[
+			["T", undefined],
+			["C", "NUMBER"]
+		]
+	);
+	ctx.is(simpleTypeToString(Page.target), "{ items: T[]; cursor: C; }");
+
+	const StringPage = t.instantiate(Page, [t.string(), t.string()]);
+	ctx.is(StringPage.target, Page);
+	ctx.is(simpleTypeToString(StringPage.instantiated), "{ items: string[]; cursor: string; }");
+	ctx.true(isAssignableToValue(StringPage, { items: ["a"], cursor: "next" }));
+
+	const Box = t.interface("Box", { value: t.typeParameter("T") }, { typeParameters: [t.typeParameter("T")] });
+	ctx.throws(() => t.instantiate(Box, [t.string()]), { message: /Cannot instantiate Box/ });
+	ctx.is(t.instantiate(Box, [t.string()], t.object({ value: t.string() })).instantiated.kind, "OBJECT");
+});
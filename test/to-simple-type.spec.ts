@@ -6,12 +6,15 @@ import {
 	SimpleTypeAlias,
 	SimpleTypeArray,
 	SimpleTypeGenericArguments,
+	SimpleTypeGenericParameter,
 	SimpleTypeInterface,
 	SimpleTypeObject,
 	SimpleTypeString,
 	SimpleTypeUnion,
 	toSimpleType
 } from "../src";
+import { isAssignableToSimpleType } from "../src/is-assignable/is-assignable-to-simple-type";
+import { simpleTypeToString } from "../src/transform/simple-type-to-string";
 import { isType } from "../src/utils/ts-util";
 import { getTestTypes } from "./helpers/get-test-types";
 import ts = require("typescript");
@@ -329,22 +332,45 @@ test("generic type alias handling", ctx => {
 	};
 
 	const tableType = toSimpleType(types.Table, typeChecker);
+	const typeParameterT: SimpleTypeGenericParameter = {
+		default: tableType,
+		constraint: tableType,
+		kind: "GENERIC_PARAMETER",
+		name: "T"
+	};
 	const recordPointerExpected: SimpleTypeAlias = {
 		kind: "ALIAS",
 		name: "RecordPointer",
 		target: {
-			kind: "ANY",
-			error: "Not supported",
-			name: undefined
+			kind: "CONDITIONAL",
+			name: undefined,
+			checkType: typeParameterT,
+			extendsType: {
+				kind: "UNION",
+				types: [
+					{ kind: "STRING_LITERAL", value: "activity" },
+					{ kind: "STRING_LITERAL", value: "discussion" }
+				]
+			},
+			trueType: {
+				kind: "OBJECT",
+				members: [
+					{ name: "table", type: typeParameterT },
+					{ name: "id", type: { kind: "STRING" } },
+					{ name: "spaceId", type: { kind: "STRING" } }
+				]
+			},
+			falseType: {
+				kind: "OBJECT",
+				members: [
+					{ name: "table", type: typeParameterT },
+					{ name: "id", type: { kind: "STRING" } },
+					{ name: "spaceId", type: { kind: "UNION", types: [{ kind: "STRING" }, { kind: "UNDEFINED" }] }, optional: true }
+				]
+			},
+			distributive: true
 		},
-		typeParameters: [
-			{
-				default: tableType,
-				constraint: tableType,
-				kind: "GENERIC_PARAMETER",
-				name: "T"
-			}
-		]
+		typeParameters: [typeParameterT]
 	};
 
 	ctx.deepEqual(expectedActivityPointerInstance, activityPointerSimpleType);
@@ -371,6 +397,44 @@ test("generic type alias handling", ctx => {
 	ctx.deepEqual(recordPointerExpected, toSimpleType(types.RecordPointer, typeChecker));
 });
 
+const TYPE_OPERATOR_TYPES = `
+export type EventName<K extends string> = \`on\${Capitalize<K>}\`
+export interface Operators<T extends { id: string }> {
+	keys: keyof T
+	id: T["id"]
+	kind: T extends { id: "a" } ? number : string
+	event: EventName<T["id"]>
+}
+export type OperatorsA = Operators<{ id: "a" }>
+export interface ExpectedA { keys: "id"; id: "a"; kind: number; event: "onA" }
+export interface ExpectedB { keys: "id"; id: "b"; kind: string; event: "onB" }
+`;
+
+test("type operators are kept when deferred inside generics", ctx => {
+	const { types, typeChecker } = getTestTypes(["Operators"], TYPE_OPERATOR_TYPES);
+	const operators = toSimpleType(types.Operators, typeChecker) as SimpleTypeInterface;
+
+	ctx.deepEqual(
+		operators.members?.map(member => [member.name, member.type.kind, simpleTypeToString(member.type)]),
+		[
+			["keys", "INDEX", "keyof T"],
+			["id", "INDEXED_ACCESS", 'T["id"]'],
+			["kind", "CONDITIONAL", 'T extends { id: "a"; } ? number : string'],
+			["event", "TEMPLATE_LITERAL", '`on${Capitalize<T["id"]>}`']
+		]
+	);
+});
+
+test("type operators are resolved with generic arguments when checking assignability", ctx => {
+	const { types, typeChecker } = getTestTypes(["OperatorsA", "ExpectedA", "ExpectedB"], TYPE_OPERATOR_TYPES);
+	const operatorsA = toSimpleType(types.OperatorsA, typeChecker);
+	const expectedA = toSimpleType(types.ExpectedA, typeChecker);
+
+	ctx.true(isAssignableToSimpleType(operatorsA, expectedA));
+	ctx.true(isAssignableToSimpleType(expectedA, operatorsA));
+	ctx.false(isAssignableToSimpleType(operatorsA, toSimpleType(types.ExpectedB, typeChecker)));
+});
+
 const stringSimpleType: SimpleTypeString = {
 	kind: "STRING"
 };
@@ -404,6 +468,33 @@ export type ArrayOfArrayOfStringLong = Array<Array<string>>;
 	`
 );
 
+testExpectedTypes(
+	"Well-known built-ins",
+	{
+		StringToNumber: {
+			kind: "MAP",
+			name: "Map",
+			keyType: { kind: "STRING" },
+			valueType: { kind: "NUMBER" }
+		},
+		SetOfString: {
+			kind: "SET",
+			name: "ReadonlySet",
+			type: stringSimpleType
+		},
+		Pattern: { kind: "REGEXP", name: "RegExp" },
+		Failure: { kind: "ERROR", name: "TypeError" },
+		Bytes: { kind: "BINARY", name: "Uint8Array" }
+	},
+	`
+export type StringToNumber = Map<string, number>;
+export type SetOfString = ReadonlySet<string>;
+export type Pattern = RegExp;
+export type Failure = TypeError;
+export type Bytes = Uint8Array;
+	`
+);
+
 function testExpectedTypes<ExportedTypeName extends string>(prefix: string, expectations: Record<ExportedTypeName, SimpleType | (() => SimpleType)>, typescriptText: string) {
 	const typeNames = Object.keys(expectations) as ExportedTypeName[];
 	for (const typeName of typeNames) {
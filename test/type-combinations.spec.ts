@@ -328,6 +328,8 @@ class GenericClassA${id}<T> {
 }`,*/
 ];
 
+export const TEMPLATE_LITERAL_TYPES: TypescriptType[] = ["`on${string}`", "`id-${number}`", '`${boolean}-${"a" | "b"}`', `Uppercase<string>`, `Capitalize<string>`];
+
 export const CUSTOM_TYPES: TypescriptType[] = [`Promise<number>`, `Promise<string | number>`, `Promise<void>`];
 
 export const ALL_TYPES: TypescriptType[] = [
@@ -356,3 +358,9 @@ const A_TYPES = process.env.TYPEA == null ? ALL_TYPES : process.env.TYPEA.split(
 const B_TYPES = process.env.TYPEB == null ? ALL_TYPES : process.env.TYPEB.split(";");
 
 testAssignments(A_TYPES, B_TYPES);
+
+// Template literal types are compared separately to keep the line numbers of the combined test code above stable
+const TEMPLATE_LITERAL_COMPARISON_TYPES: TypescriptType[] = [...TEMPLATE_LITERAL_TYPES, ...STRING_TYPES, ...SPECIAL_TYPES, ...OBJECT_TYPES];
+if (process.env.TYPEA == null && process.env.TYPEB == null) {
+	testAssignments(TEMPLATE_LITERAL_COMPARISON_TYPES, TEMPLATE_LITERAL_COMPARISON_TYPES);
+}
@@ -0,0 +1,131 @@
+import test from "ava";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import * as ts from "typescript";
+import { TypeScriptCompilerTarget } from "../src/compile-to/typescript";
+import { DEFAULT_MANIFEST_FILE_NAME } from "../src/transform/emit-compiler-output";
+import { ExportedEntryPoint, watchCompilerOutput, WatchCompilerOutputBuildResult } from "../src/transform/watch-compiler-output";
+
+const SOURCES: Record<string, string> = {
+	"address.ts": `export interface Address {
+	city: string
+}
+`,
+	"user.ts": `import { Address } from "./address";
+export interface User {
+	name: string
+	address: Address
+}
+`,
+	"company.ts": `import { Address } from "./address";
+export interface Company {
+	headquarters: Address
+}
+`,
+	"post.ts": `export interface Post {
+	title: string
+}
+`,
+	"unrelated.ts": `export const answer = 42;
+`
+};
+
+/** A ts.System that only reports file changes and runs timers when the test says so. */
+function createTestSystem() {
+	const fileWatchers = new Map<string, Set<ts.FileWatcherCallback>>();
+	const timers = new Map<number, () => void>();
+	let nextTimer = 1;
+	const system: ts.System = {
+		...ts.sys,
+		watchFile: (fileName, callback) => {
+			const watchers = fileWatchers.get(fileName) ?? new Set();
+			fileWatchers.set(fileName, watchers);
+			watchers.add(callback);
+			return { close: () => watchers.delete(callback) };
+		},
+		watchDirectory: () => ({ close: () => undefined }),
+		setTimeout: (callback, _ms, ...args) => {
+			const id = nextTimer++;
+			timers.set(id, () => callback(...args));
+			return id;
+		},
+		clearTimeout: id => {
+			timers.delete(id);
+		}
+	};
+
+	return {
+		system,
+		writeFile(fileName: string, text: string) {
+			fs.writeFileSync(fileName, text);
+			for (const callback of fileWatchers.get(fileName.split(path.sep).join("/")) ?? []) {
+				callback(fileName, ts.FileWatcherEventKind.Changed);
+			}
+			const pending = [...timers.values()];
+			timers.clear();
+			pending.forEach(run => run());
+		}
+	};
+}
+
+test("watchCompilerOutput: recompiles entry points that depend on changed files", ctx => {
+	const projectDir = fs.mkdtempSync(path.join(os.tmpdir(), "ts-simple-type-watch-"));
+	const sourceDir = path.join(projectDir, "src");
+	const outDir = path.join(projectDir, "gen");
+	fs.mkdirSync(sourceDir);
+	for (const [fileName, text] of Object.entries(SOURCES)) {
+		fs.writeFileSync(path.join(sourceDir, fileName), text);
+	}
+	fs.writeFileSync(path.join(projectDir, "tsconfig.json"), JSON.stringify({ include: ["src"], compilerOptions: { strict: true } }));
+
+	const entryPoint = (name: string, file: string): ExportedEntryPoint => ({ fileName: path.join(sourceDir, file), exportName: name, outputLocation: { fileName: file.replace(/\.ts$/, ".d.ts") } });
+	const entryPoints = [entryPoint("User", "user.ts"), entryPoint("Company", "company.ts"), entryPoint("Post", "post.ts")];
+	const builds: WatchCompilerOutputBuildResult[] = [];
+	const errors: unknown[] = [];
+	const { system, writeFile } = createTestSystem();
+	const watcher = watchCompilerOutput({
+		configFileName: path.join(projectDir, "tsconfig.json"),
+		entryPoints,
+		createCompiler: checker => TypeScriptCompilerTarget.createCompiler(checker),
+		outDir,
+		sourceMaps: false,
+		system,
+		onBuild: result => builds.push(result),
+		onError: error => errors.push(error)
+	});
+	const lastBuild = () => {
+		const build = builds[builds.length - 1];
+		return { compiled: build.compiled.map(entryPoint => entryPoint.exportName), written: build.written };
+	};
+
+	try {
+		ctx.deepEqual(lastBuild(), { compiled: ["User", "Company", "Post"], written: ["user.d.ts", "company.d.ts", "post.d.ts", DEFAULT_MANIFEST_FILE_NAME] });
+		ctx.regex(fs.readFileSync(path.join(outDir, "user.d.ts"), "utf8"), /interface Address/);
+		ctx.regex(fs.readFileSync(path.join(outDir, "company.d.ts"), "utf8"), /import .*Address.* from "\.\/user"/);
+
+		writeFile(path.join(sourceDir, "unrelated.ts"), "export const answer = 43;\n");
+		ctx.is(builds.length, 2);
+		ctx.deepEqual(lastBuild(), { compiled: [], written: [] });
+
+		// User and Company share the Address declaration, so they're compiled together.
+		writeFile(path.join(sourceDir, "address.ts"), SOURCES["address.ts"].replace("city: string", "city: string\n\tcountry: string"));
+		ctx.deepEqual(lastBuild(), { compiled: ["User", "Company"], written: ["user.d.ts", DEFAULT_MANIFEST_FILE_NAME] });
+		ctx.regex(fs.readFileSync(path.join(outDir, "user.d.ts"), "utf8"), /country: string/);
+
+		// Recompiled output that didn't change isn't rewritten.
+		writeFile(path.join(sourceDir, "post.ts"), `${SOURCES["post.ts"]}// A comment\n`);
+		ctx.deepEqual(lastBuild(), { compiled: ["Post"], written: [] });
+
+		writeFile(path.join(sourceDir, "post.ts"), SOURCES["post.ts"].replace("Post", "Article"));
+		ctx.is(builds.length, 4);
+		ctx.regex(String(errors[0]), /has no export named Post/);
+
+		writeFile(path.join(sourceDir, "post.ts"), SOURCES["post.ts"].replace("title", "headline"));
+		ctx.deepEqual(lastBuild(), { compiled: ["Post"], written: ["post.d.ts", DEFAULT_MANIFEST_FILE_NAME] });
+		ctx.is(errors.length, 1);
+	} finally {
+		watcher.close();
+		fs.rmSync(projectDir, { recursive: true, force: true });
+	}
+});